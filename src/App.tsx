@@ -45,8 +45,12 @@ import { ProfileCreation } from './pages/ProfileCreation';
 import { VerificationControl } from './pages/owner/VerificationControl';
 import { AdminVerificationControl } from './pages/admin/AdminVerificationControl';
 import { ApplicationsPage } from './pages/admin/ApplicationsPage';
+import { AuditLog } from './pages/admin/AuditLog';
 import { ApplicationsPage as EmployerApplicationsPage } from './pages/employer/ApplicationsPage';
 import { JobSeekerSettings } from './components/JobSeekerSettings';
+import { EarningsPage } from './pages/job-seeker/EarningsPage';
+import { MfaChallenge } from './components/security/MfaChallenge';
+import { MfaRequiredRoute } from './components/security/MfaRequiredRoute';
 
 // Implement lazy loading for routes
 const JobSeekerDashboard = lazy(() => import('./components/JobSeekerDashboard').then(module => ({ default: module.JobSeekerDashboard })));
@@ -54,7 +58,7 @@ const MessagesPage = lazy(() => import('./pages/MessagesPage').then(module => ({
 
 // Protected Route wrapper
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
+  const { user, loading, mfaPending } = useAuth();
 
   if (loading) {
     return <div>Loading...</div>;
@@ -64,6 +68,10 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/signin" />;
   }
 
+  if (mfaPending) {
+    return <MfaChallenge />;
+  }
+
   return <Layout>{children}</Layout>;
 }
 
@@ -340,6 +348,19 @@ function App() {
                       </ProtectedRoute>
                     }
                   />
+                  <Route
+                    path="/earnings"
+                    element={
+                      <ProtectedRoute>
+                        <RoleProtectedRoute
+                          allowedRoles={['job_seeker']}
+                          fallbackPath="/select-role"
+                        >
+                          <EarningsPage />
+                        </RoleProtectedRoute>
+                      </ProtectedRoute>
+                    }
+                  />
                   <Route
                     path="/settings"
                     element={
@@ -399,7 +420,9 @@ function App() {
                     path="/owner/verification-control"
               element={
                 <ProtectedRoute>
-                        <VerificationControl />
+                        <MfaRequiredRoute>
+                          <VerificationControl />
+                        </MfaRequiredRoute>
                 </ProtectedRoute>
               }
             />
@@ -410,21 +433,24 @@ function App() {
                     path="/admin/*"
                     element={
                       <AdminProtectedRoute>
-                        <AdminLayout>
-                          <Routes>
-                            <Route path="dashboard" element={<AdminDashboard />} />
-                            <Route path="employers" element={<EmployerManagement />} />
-                            <Route path="job-seekers" element={<JobSeekerManagement />} />
-                            <Route path="verification" element={<AdminVerificationControl />} />
-                            <Route path="job-posts" element={<JobPostManagement />} />
-                            {/* Ensure the path is relative to the nested route */}
-                            <Route path="reports" element={<ReportsManagement />} />
-                            <Route path="settings" element={<AdminSettings />} />
-                            <Route path="profile" element={<AdminProfileManagement />} />
-                            <Route path="applications" element={<ApplicationsPage />} />
-                            <Route path="*" element={<Navigate to="/admin/dashboard" replace />} />
-                          </Routes>
-                        </AdminLayout>
+                        <MfaRequiredRoute>
+                          <AdminLayout>
+                            <Routes>
+                              <Route path="dashboard" element={<AdminDashboard />} />
+                              <Route path="employers" element={<EmployerManagement />} />
+                              <Route path="job-seekers" element={<JobSeekerManagement />} />
+                              <Route path="verification" element={<AdminVerificationControl />} />
+                              <Route path="job-posts" element={<JobPostManagement />} />
+                              {/* Ensure the path is relative to the nested route */}
+                              <Route path="reports" element={<ReportsManagement />} />
+                              <Route path="settings" element={<AdminSettings />} />
+                              <Route path="profile" element={<AdminProfileManagement />} />
+                              <Route path="applications" element={<ApplicationsPage />} />
+                              <Route path="audit" element={<AuditLog />} />
+                              <Route path="*" element={<Navigate to="/admin/dashboard" replace />} />
+                            </Routes>
+                          </AdminLayout>
+                        </MfaRequiredRoute>
                       </AdminProtectedRoute>
               }
             />
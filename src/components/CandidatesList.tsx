@@ -7,6 +7,9 @@ import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { toast } from 'sonner';
+import { JobPost } from '../types/database';
+import { MatchableJob, rankCandidatesForJob } from '../utils/jobMatching';
+import { MatchBreakdown, MatchScoreBadge } from './MatchBreakdown';
 
 interface Candidate {
   id: string;
@@ -14,7 +17,11 @@ interface Candidate {
   work_email: string;
   skills: string[];
   avatar_url?: string;
+  headline?: string | null;
   bio?: string;
+  years_of_experience?: number;
+  location?: string;
+  availability?: string;
   is_verified: boolean;
   has_applied?: boolean;
   application_count?: number;
@@ -27,9 +34,11 @@ interface CandidatesListProps {
   filter?: 'all' | 'applied';
   searchTerm?: string;
   selectedSkills?: string[];
+  // When set, candidates are sorted by match score against this job
+  rankForJob?: MatchableJob & Pick<JobPost, 'id'>;
 }
 
-export function CandidatesList({ filter = 'all', searchTerm = '', selectedSkills = [] }: CandidatesListProps) {
+export function CandidatesList({ filter = 'all', searchTerm = '', selectedSkills = [], rankForJob }: CandidatesListProps) {
   const { user } = useAuth();
   const [candidates, setCandidates] = useState<Candidate[]>([]);
   const [loading, setLoading] = useState(true);
@@ -103,7 +112,11 @@ export function CandidatesList({ filter = 'all', searchTerm = '', selectedSkills
           work_email,
           skills,
           avatar_url,
+          headline,
           bio,
+          years_of_experience,
+          location,
+          availability,
           is_verified
         `)
         .eq('role', 'job_seeker');
@@ -160,6 +173,10 @@ export function CandidatesList({ filter = 'all', searchTerm = '', selectedSkills
     return matchesSearch && matchesSkills;
   });
 
+  const rankedCandidates = rankForJob
+    ? rankCandidatesForJob(rankForJob, filteredCandidates)
+    : filteredCandidates.map(candidate => ({ candidate, match: null }));
+
   const handleContact = async (candidateId: string, type: 'email' | 'phone') => {
     try {
       // Log the contact attempt
@@ -204,7 +221,7 @@ export function CandidatesList({ filter = 'all', searchTerm = '', selectedSkills
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-      {filteredCandidates.map((candidate) => (
+      {rankedCandidates.map(({ candidate, match }) => (
         <div key={candidate.id} className="bg-white rounded-lg shadow-sm border p-6 hover:shadow-md transition-shadow">
           <div className="flex items-center gap-4 mb-4">
             {candidate.avatar_url ? (
@@ -220,11 +237,23 @@ export function CandidatesList({ filter = 'all', searchTerm = '', selectedSkills
             )}
             <div>
               <h3 className="font-semibold text-lg">{candidate.full_name}</h3>
+              {candidate.headline && <p className="text-sm text-gray-500">{candidate.headline}</p>}
               {candidate.is_verified && (
                 <Badge variant="secondary" className="mt-1">Verified</Badge>
               )}
             </div>
+            {match && (
+              <div className="ml-auto">
+                <MatchScoreBadge score={match.score} />
+              </div>
+            )}
           </div>
+
+          {match && (
+            <div className="mb-4 rounded-md bg-gray-50 p-3">
+              <MatchBreakdown match={match} />
+            </div>
+          )}
           
           {candidate.bio && (
             <p className="text-gray-700 text-sm mb-4 line-clamp-2">{candidate.bio}</p>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../services/supabase';
+import { conversationService } from '../services/conversationService';
 import { User, MessageCircle, UserCheck, UserPlus } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useNavigate } from 'react-router-dom';
@@ -101,36 +102,7 @@ export function CandidatesSidebar() {
     }
 
     try {
-      // Check if conversation exists
-      const { data: existingConversation, error: checkError } = await supabase
-        .from('conversations')
-        .select('id')
-        .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
-        .or(`user1_id.eq.${candidateId},user2_id.eq.${candidateId}`)
-        .single();
-
-      if (checkError && checkError.code !== 'PGRST116') throw checkError;
-
-      let conversationId;
-
-      if (existingConversation) {
-        conversationId = existingConversation.id;
-      } else {
-        // Create new conversation
-        const { data: newConversation, error: createError } = await supabase
-          .from('conversations')
-          .insert({
-            user1_id: user.id,
-            user2_id: candidateId,
-            created_at: new Date().toISOString()
-          })
-          .select('id')
-          .single();
-
-        if (createError) throw createError;
-        conversationId = newConversation.id;
-      }
-
+      const conversationId = await conversationService.getOrCreateConversation(candidateId);
       navigate(`/messages/${conversationId}`);
     } catch (err) {
       console.error('Error starting chat:', err);
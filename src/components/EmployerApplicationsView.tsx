@@ -8,7 +8,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Root as Tabs, List as TabsList, Trigger as TabsTrigger, Content as TabsContent } from '@radix-ui/react-tabs';
 import { formatDistanceToNow } from 'date-fns';
 import { Download, Eye, Mail, Phone } from 'lucide-react';
-import { EmployerPayment } from './EmployerPayment';
+import { MilestonePayments } from './payments/MilestonePayments';
 import * as Dialog from '@radix-ui/react-dialog';
 
 interface Application {
@@ -126,41 +126,8 @@ export function EmployerApplicationsView({ jobId }: { jobId?: string }) {
     }
   }, [jobId, user, activeTab, currentPage]);
 
-  // Add this function to create a notification when application status changes
-  const notifyApplicant = async (applicationId: string, status: string, applicantId: string) => {
-    try {
-      const { data: application } = await supabase
-        .from('job_applications')
-        .select(`
-          *,
-          job_posts:job_post_id (title)
-        `)
-        .eq('id', applicationId)
-        .single();
-        
-      if (!application) return;
-      
-      // Create notification for the applicant
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: applicantId,
-          type: 'application_status',
-          message: `Your application for "${application.job_posts.title}" has been ${status}`,
-          metadata: {
-            job_post_id: application.job_post_id,
-            application_id: applicationId,
-            status: status
-          },
-          read: false
-        });
-    } catch (err) {
-      console.error('Error creating notification:', err);
-    }
-  };
-  
   // Update the status change function
-  const updateApplicationStatus = async (applicationId: string, newStatus: string, applicantId: string) => {
+  const updateApplicationStatus = async (applicationId: string, newStatus: string) => {
     try {
       const { error } = await supabase
         .from('job_applications')
@@ -170,26 +137,15 @@ export function EmployerApplicationsView({ jobId }: { jobId?: string }) {
       if (error) throw error;
       
       // Update local state
+      // The applicant is notified by a database trigger
       setApplications(prev => 
         prev.map(app => app.id === applicationId ? { ...app, status: newStatus } : app)
       );
-      
-      // Notify the applicant about status change
-      await notifyApplicant(applicationId, newStatus, applicantId);
-      
     } catch (err) {
       console.error('Error updating application status:', err);
     }
   };
 
-  const handlePaymentSuccess = async () => {
-    // Update application status
-    await updateApplicationStatus(selectedApplication.id, 'paid', selectedApplication.job_seeker_id);
-    setShowPayment(false);
-    // Refresh applications list
-    fetchApplications();
-  };
-
   const filteredApplications = activeTab === 'all' 
     ? applications 
     : applications.filter(app => app.status === activeTab);
@@ -324,7 +280,7 @@ export function EmployerApplicationsView({ jobId }: { jobId?: string }) {
                   <Button 
                     variant="destructive" 
                     size="sm"
-                    onClick={() => updateApplicationStatus(app.id, 'rejected', app.job_seeker_id)}
+                    onClick={() => updateApplicationStatus(app.id, 'rejected')}
                   >
                     Reject
                   </Button>
@@ -334,7 +290,7 @@ export function EmployerApplicationsView({ jobId }: { jobId?: string }) {
                   <Button 
                     variant="default" 
                     size="sm"
-                    onClick={() => updateApplicationStatus(app.id, 'reviewing', app.job_seeker_id)}
+                    onClick={() => updateApplicationStatus(app.id, 'reviewing')}
                   >
                     Start Review
                   </Button>
@@ -344,7 +300,7 @@ export function EmployerApplicationsView({ jobId }: { jobId?: string }) {
                   <Button 
                     variant="default" 
                     size="sm"
-                    onClick={() => updateApplicationStatus(app.id, 'accepted', app.job_seeker_id)}
+                    onClick={() => updateApplicationStatus(app.id, 'accepted')}
                   >
                     Accept
                   </Button>
@@ -357,7 +313,7 @@ export function EmployerApplicationsView({ jobId }: { jobId?: string }) {
                     }}
                     className="bg-green-500 text-white px-4 py-2 rounded-md"
                   >
-                    Process Payment
+                    Milestone Payments
                   </button>
                 )}
               </CardFooter>
@@ -377,11 +333,10 @@ export function EmployerApplicationsView({ jobId }: { jobId?: string }) {
           <Dialog.Portal>
             <Dialog.Overlay className="fixed inset-0 bg-black/50" />
             <Dialog.Content className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-white rounded-lg p-6 w-full max-w-lg">
-              <EmployerPayment
-                jobApplicationId={selectedApplication.id}
-                jobseekerId={selectedApplication.job_seeker_id}
-                amount={selectedApplication.job_posts.budget}
-                onSuccess={handlePaymentSuccess}
+              <MilestonePayments
+                applicationId={selectedApplication.id}
+                role="employer"
+                canAddMilestones
               />
             </Dialog.Content>
           </Dialog.Portal>
@@ -1,52 +1,46 @@
-import React, { useState } from 'react';
-import { PayPalButtons } from "@paypal/react-paypal-js";
-import { supabase } from '../services/supabase';
-import { useAuth } from '../context/AuthContext';
+import { useEffect, useState } from 'react';
+import { DISPATCH_ACTION, PayPalButtons, usePayPalScriptReducer } from "@paypal/react-paypal-js";
+import { PaymentMilestone } from '../types/database';
+import { formatMoney } from '../utils/compensation';
 
 interface PaymentProps {
-    jobApplicationId: string;
-    jobseekerId: string;
-    amount: number;
-    onSuccess: () => void;
+    milestone: PaymentMilestone;
+    onSuccess: (milestone: PaymentMilestone) => void;
 }
 
-export function EmployerPayment({ jobApplicationId, jobseekerId, amount, onSuccess }: PaymentProps) {
-    const { user } = useAuth();
+// Funds a milestone into escrow. Amount and fee come from the milestone row,
+// which the database computed. The milestone is marked funded by the
+// paypal-webhook edge function once PayPal reports the capture, so nothing is
+// recorded from here and a closed tab cannot lose the payment.
+export function EmployerPayment({ milestone, onSuccess }: PaymentProps) {
     const [error, setError] = useState('');
-    const platformFee = amount * 0.10; // 10% platform fee
-    const totalAmount = amount + platformFee;
+    const [{ options }, dispatch] = usePayPalScriptReducer();
+    const totalAmount = (Number(milestone.amount) + Number(milestone.platform_fee)).toFixed(2);
 
-    const handlePaymentSuccess = async (paypalTransactionId: string) => {
-        try {
-            const { error } = await supabase
-                .from('payment_transactions')
-                .insert({
-                    job_application_id: jobApplicationId,
-                    employer_id: user?.id,
-                    jobseeker_id: jobseekerId,
-                    amount: amount,
-                    platform_fee: platformFee,
-                    status: 'completed',
-                    paypal_transaction_id: paypalTransactionId
-                });
-
-            if (error) throw error;
-            onSuccess();
-        } catch (err) {
-            console.error('Error recording payment:', err);
-            setError('Failed to record payment');
+    // The SDK is loaded for one currency; reload it when the milestone is paid
+    // in another (milestones use the application's agreed currency)
+    useEffect(() => {
+        if (options.currency !== milestone.currency) {
+            dispatch({
+                type: DISPATCH_ACTION.RESET_OPTIONS,
+                value: { ...options, currency: milestone.currency },
+            });
         }
-    };
+    }, [milestone.currency, options, dispatch]);
 
     return (
         <div className="max-w-md mx-auto p-6 bg-white rounded-lg shadow-md">
-            <h3 className="text-xl font-semibold mb-4">Payment Details</h3>
+            <h3 className="text-xl font-semibold mb-1">Fund Milestone</h3>
+            <p className="text-sm text-gray-500 mb-4">{milestone.title}</p>
             <div className="mb-4">
-                <p className="text-gray-600">Payment Amount: ${amount}</p>
-                <p className="text-gray-600">Platform Fee (10%): ${platformFee}</p>
-                <p className="text-lg font-bold">Total: ${totalAmount}</p>
+                <p className="text-gray-600">Milestone Amount: {formatMoney(milestone.amount, milestone.currency)}</p>
+                <p className="text-gray-600">Platform Fee: {formatMoney(milestone.platform_fee, milestone.currency)}</p>
+                <p className="text-lg font-bold">Total: {formatMoney(Number(totalAmount), milestone.currency)}</p>
+                <p className="text-xs text-gray-500 mt-2">
+                    Funds are held until you release them to the job seeker.
+                </p>
             </div>
-            
+
             {error && (
                 <div className="mb-4 text-red-600">{error}</div>
             )}
@@ -54,10 +48,16 @@ export function EmployerPayment({ jobApplicationId, jobseekerId, amount, onSucce
             <PayPalButtons
                 createOrder={(data, actions) => {
                     return actions.order.create({
+                        intent: 'CAPTURE',
                         purchase_units: [
                             {
+                                reference_id: milestone.id,
+                                // Carried onto the capture so the webhook can find the milestone
+                                custom_id: milestone.id,
+                                description: milestone.title,
                                 amount: {
-                                    value: totalAmount.toString()
+                                    currency_code: milestone.currency,
+                                    value: totalAmount
                                 }
                             }
                         ]
@@ -66,7 +66,11 @@ export function EmployerPayment({ jobApplicationId, jobseekerId, amount, onSucce
                 onApprove={async (data, actions) => {
                     if (actions.order) {
                         const order = await actions.order.capture();
-                        await handlePaymentSuccess(order.id);
+                        if (order.status === 'COMPLETED') {
+                            onSuccess(milestone);
+                        } else {
+                            setError('PayPal has not completed this payment yet. Check back shortly.');
+                        }
                     }
                 }}
                 onError={(err) => {
@@ -76,4 +80,4 @@ export function EmployerPayment({ jobApplicationId, jobseekerId, amount, onSucce
             />
         </div>
     );
-}
\ No newline at end of file
+}
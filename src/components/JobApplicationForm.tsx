@@ -15,6 +15,9 @@ import {
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
 import { useToast } from './ui/use-toast';
+import { ResumeReviewDialog } from './ResumeReviewDialog';
+import { resumeService } from '../services/resumeService';
+import { isParseableResume, ParsedResume } from '../utils/resumeParser';
 
 import { useAuth } from '../context/AuthContext';
 
@@ -39,6 +42,10 @@ export function JobApplicationForm({ jobId, onSuccess, onCancel }: JobApplicatio
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
+  const [parsingResume, setParsingResume] = useState(false);
+  const [parsedResume, setParsedResume] = useState<ParsedResume | null>(null);
+  const [isResumeReviewOpen, setIsResumeReviewOpen] = useState(false);
+  const [savingResume, setSavingResume] = useState(false);
 
   const form = useForm<ApplicationFormData>({
     resolver: zodResolver(applicationSchema),
@@ -50,6 +57,55 @@ export function JobApplicationForm({ jobId, onSuccess, onCancel }: JobApplicatio
     },
   });
 
+  const handleResumeSelected = async (file: File | null) => {
+    setParsedResume(null);
+    if (!file || !isParseableResume(file)) return;
+
+    try {
+      setParsingResume(true);
+      const resume = await resumeService.parseResumeFile(file);
+      setParsedResume(resume);
+
+      // Fill contact details the applicant hasn't typed yet
+      if (resume.phone && !form.getValues('contact_number')) {
+        form.setValue('contact_number', resume.phone.replace(/[^\d+]/g, ''));
+      }
+      if (resume.email && !form.getValues('email')) {
+        form.setValue('email', resume.email);
+      }
+
+      setIsResumeReviewOpen(true);
+    } catch (error) {
+      // The resume can still be submitted as-is
+      console.error('Error parsing resume:', error);
+    } finally {
+      setParsingResume(false);
+    }
+  };
+
+  const handleResumeConfirm = async (resume: ParsedResume) => {
+    if (!user) return;
+
+    try {
+      setSavingResume(true);
+      await resumeService.applyToProfile(user.id, resume);
+      setIsResumeReviewOpen(false);
+      toast({
+        title: "Profile Updated",
+        description: "Details from your resume have been added to your profile.",
+      });
+    } catch (error) {
+      console.error('Error updating profile from resume:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update your profile. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingResume(false);
+    }
+  };
+
   const onSubmit = async (data: ApplicationFormData) => {
     try {
       setIsSubmitting(true);
@@ -121,52 +177,15 @@ export function JobApplicationForm({ jobId, onSuccess, onCancel }: JobApplicatio
         status: 'pending'
       };
 
-      // Modify the application insertion to capture the response
-      const { data: insertedApplication, error: applicationError } = await supabase
+      const { error: applicationError } = await supabase
         .from('job_applications')
-        .insert(applicationPayload)
-        .select()
-        .single();
+        .insert(applicationPayload);
       
       if (applicationError) {
         throw applicationError;
       }
       
-      // After successful application submission
-      // Add this before creating the notification
-      const { data: jobPost, error: jobPostError } = await supabase
-        .from('job_posts')
-        .select('id, employer_id')
-        .eq('id', jobId)
-        .single();
-      
-      if (jobPostError || !jobPost) {
-        throw new Error('Failed to fetch job post details');
-      }
-      
-      // Then create the notification with more details
-      const { error: notificationError } = await supabase
-        .from('notifications')
-        .insert({
-          user_id: jobPost.employer_id,
-          type: 'new_application',
-          message: `New application received from ${user.user_metadata?.full_name || 'an applicant'} for "${jobPost.title || `Job #${jobId}`}"`,
-          metadata: {
-            job_post_id: jobId,
-            application_id: insertedApplication.id,
-            applicant_id: user.id,
-            applicant_name: user.user_metadata?.full_name || 'Applicant',
-            applicant_email: data.email,
-            contact_number: data.contact_number,
-            resume_url: resumeUrl
-          },
-          read: false
-        });
-
-      if (notificationError) {
-        console.error('Notification error:', notificationError);
-      }
-
+      // The employer is notified by a database trigger
       toast({
         title: "Success!",
         description: "Your application has been submitted successfully.",
@@ -174,9 +193,13 @@ export function JobApplicationForm({ jobId, onSuccess, onCancel }: JobApplicatio
       onSuccess();
     } catch (error) {
       console.error('Error submitting application:', error);
+      // Raised by the database once a post closes or hits its application limit
+      const closed = (error as { message?: string })?.message?.includes('no longer accepting applications');
       toast({
         title: "Error",
-        description: "Failed to submit application. Please try again.",
+        description: closed
+          ? "This job is no longer accepting applications."
+          : "Failed to submit application. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -246,10 +269,24 @@ export function JobApplicationForm({ jobId, onSuccess, onCancel }: JobApplicatio
                   onChange={(e) => {
                     const file = e.target.files?.[0];
                     onChange(file || null);
+                    handleResumeSelected(file || null);
                   }}
                   {...field}
                 />
               </FormControl>
+              {parsingResume && (
+                <p className="text-sm text-gray-500">Reading your resume...</p>
+              )}
+              {!parsingResume && parsedResume && (
+                <Button
+                  type="button"
+                  variant="link"
+                  className="p-0 h-auto"
+                  onClick={() => setIsResumeReviewOpen(true)}
+                >
+                  Add resume details to your profile
+                </Button>
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -269,6 +306,14 @@ export function JobApplicationForm({ jobId, onSuccess, onCancel }: JobApplicatio
           </Button>
         </div>
       </form>
+
+      <ResumeReviewDialog
+        open={isResumeReviewOpen}
+        onOpenChange={setIsResumeReviewOpen}
+        resume={parsedResume}
+        saving={savingResume}
+        onConfirm={handleResumeConfirm}
+      />
     </Form>
   );
 }
\ No newline at end of file
@@ -1,7 +1,9 @@
 import React from 'react';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
-import { Building2, MapPin, Clock, DollarSign } from 'lucide-react';
+import { Building2, MapPin, Clock, Banknote } from 'lucide-react';
+import { toPlainText } from '../utils/richText';
+import { formatCompensation, toCompensation } from '../utils/compensation';
 
 interface JobCardProps {
   job: any;
@@ -25,8 +27,8 @@ export function JobCard({ job, onApply }: JobCardProps) {
               <span>{job.location}</span>
             </div>
             <div className="flex items-center gap-1">
-              <DollarSign className="h-4 w-4" />
-              <span>₱{job.salary_min.toLocaleString()} - ₱{job.salary_max.toLocaleString()}</span>
+              <Banknote className="h-4 w-4" />
+              <span>{formatCompensation(toCompensation(job))}</span>
             </div>
           </div>
 
@@ -36,7 +38,7 @@ export function JobCard({ job, onApply }: JobCardProps) {
             {job.is_remote && <Badge>Remote</Badge>}
           </div>
 
-          <p className="mt-4 text-gray-600 line-clamp-3">{job.description}</p>
+          <p className="mt-4 text-gray-600 line-clamp-3">{toPlainText(job.description)}</p>
 
           <div className="flex flex-wrap gap-2 mt-4">
             {job.required_skills.map((skill: string) => (
@@ -1,13 +1,15 @@
 import React, { useState, useCallback, memo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose, DialogDescription } from './ui/dialog';
 import { Badge } from './ui/badge';
-import { Calendar, MapPin, Briefcase, DollarSign, Clock, Mail, Building2, X } from 'lucide-react';
+import { Calendar, MapPin, Briefcase, DollarSign, Clock, Banknote, Mail, Building2, X } from 'lucide-react';
 import { format } from 'date-fns';
 import { Button } from './ui/button';
 import { JobPost } from '../types/database';
 import { JobApplicationForm } from './JobApplicationForm';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from './ui/use-toast';
+import { RichText } from './RichText';
+import { formatCompensation, toCompensation } from '../utils/compensation';
 
 // Constants
 const DIALOG_MAX_WIDTH = 'max-w-4xl';
@@ -27,8 +29,8 @@ const JobDetailsGrid = memo(({ job }: { job: JobPost }) => (
       <span className="text-gray-600">{job.location || 'Remote'}</span>
     </div>
     <div className="flex items-center space-x-2">
-    ₱
-      <span className="text-gray-600">{job.budget || 'Not specified'}</span>
+      <Banknote className="w-4 h-4 text-gray-400" />
+      <span className="text-gray-600">{formatCompensation(toCompensation(job))}</span>
     </div>
     <div className="flex items-center space-x-2">
       <Clock className="w-4 h-4 text-gray-400" />
@@ -147,7 +149,7 @@ export function JobPostDialog({ job, open, onOpenChange }: JobPostDialogProps) {
 
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-3">Job Description</h3>
-                <p className="text-gray-600 whitespace-pre-wrap">{job.description}</p>
+                <RichText value={job.description} className="text-gray-600" />
               </div>
 
               {job.additional_requirements && (
@@ -155,9 +157,16 @@ export function JobPostDialog({ job, open, onOpenChange }: JobPostDialogProps) {
                   <h3 className="text-lg font-semibold text-gray-900 mb-3">
                     Additional Requirements
                   </h3>
-                  <p className="text-gray-600 whitespace-pre-wrap">
-                    {job.additional_requirements}
-                  </p>
+                  <RichText value={job.additional_requirements} className="text-gray-600" />
+                </div>
+              )}
+
+              {job.application_instructions && (
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                    How to Apply
+                  </h3>
+                  <RichText value={job.application_instructions} className="text-gray-600" />
                 </div>
               )}
 
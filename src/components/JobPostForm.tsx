@@ -7,45 +7,137 @@ import {
   CheckCircle2, XCircle, ArrowRight, ArrowLeft, Plus, X, Tag, Building2,
   Upload, Image as ImageIcon, User
 } from 'lucide-react';
-import 'react-quill/dist/quill.snow.css';
+import { Compensation, CompensationCurrency, CompensationPeriod, JobPost } from '../types/database';
+import { jobPostService, JobPostSaveMode } from '../services/jobPostService';
+import { RichTextEditor } from './RichTextEditor';
+import { RichText } from './RichText';
+import { isRichTextEmpty, sanitizeRichText, toSafeHtml } from '../utils/richText';
+import {
+  compensationCurrencyLabels, compensationPeriodLabels, formatCompensation, getCompensationError,
+  toCompensationColumns,
+} from '../utils/compensation';
 
 interface JobPostFormProps {
   onSuccess?: () => void;
+  // A draft or scheduled post to continue editing
+  initialPost?: JobPost;
 }
 
 type FormStep = 'basic' | 'profile' | 'details' | 'requirements' | 'preview';
 
-export function JobPostForm({ onSuccess }: JobPostFormProps) {
+type PublishMode = 'now' | 'schedule';
+
+const emptyFormData = {
+  title: '',
+  category: '',
+  description: '',
+  // Amounts are kept as the inputs' text; empty means not stated
+  compensation_min: '',
+  compensation_max: '',
+  compensation_currency: 'PHP' as CompensationCurrency,
+  compensation_period: 'fixed' as CompensationPeriod,
+  compensation_negotiable: false,
+  location: '',
+  required_skills: [] as string[],
+  experience_level: '',
+  work_schedule: '',
+  additional_requirements: '',
+  application_instructions: '',
+  job_type: '',
+  start_date: '',
+  end_date: '',
+  payment_method: '',
+  company_name: '',
+  company_logo_url: '',
+  employer_avatar_url: '',
+  employer_email: '',
+  // Kept as the input's text; empty means no limit
+  max_applications: '',
+};
+
+type JobPostFormData = typeof emptyFormData;
+
+const toFormData = (post: JobPost): JobPostFormData => ({
+  title: post.title,
+  category: post.category,
+  description: toSafeHtml(post.description),
+  compensation_min: post.compensation_min === null ? '' : String(post.compensation_min),
+  compensation_max: post.compensation_max === null ? '' : String(post.compensation_max),
+  compensation_currency: post.compensation_currency || 'PHP',
+  compensation_period: post.compensation_period || 'fixed',
+  compensation_negotiable: Boolean(post.compensation_negotiable),
+  location: post.location,
+  required_skills: post.required_skills || [],
+  experience_level: post.experience_level,
+  work_schedule: post.work_schedule,
+  additional_requirements: toSafeHtml(post.additional_requirements),
+  application_instructions: toSafeHtml(post.application_instructions),
+  job_type: post.job_type,
+  start_date: post.start_date || '',
+  end_date: post.end_date || '',
+  payment_method: post.payment_method,
+  company_name: post.company_name,
+  company_logo_url: post.company_logo_url || '',
+  employer_avatar_url: post.employer_avatar_url || '',
+  employer_email: post.employer_email || '',
+  max_applications: post.max_applications ? String(post.max_applications) : '',
+});
+
+const toCompensationValue = (formData: JobPostFormData): Compensation => ({
+  min: formData.compensation_min.trim() === '' ? null : Number(formData.compensation_min),
+  max: formData.compensation_max.trim() === '' ? null : Number(formData.compensation_max),
+  currency: formData.compensation_currency,
+  period: formData.compensation_period,
+  negotiable: formData.compensation_negotiable,
+});
+
+// Fields a post needs before it can be published or scheduled. Pay is
+// checked separately by getCompensationError.
+const requiredToPublish: { key: keyof JobPostFormData; label: string }[] = [
+  { key: 'title', label: 'Job Title' },
+  { key: 'category', label: 'Job Category' },
+  { key: 'description', label: 'Job Description' },
+  { key: 'location', label: 'Location' },
+  { key: 'job_type', label: 'Job Type' },
+  { key: 'work_schedule', label: 'Work Schedule' },
+  { key: 'start_date', label: 'Start Date' },
+  { key: 'end_date', label: 'End Date' },
+  { key: 'application_instructions', label: 'Application Instructions' },
+  { key: 'payment_method', label: 'Payment Method' },
+];
+
+// Stored as sanitized HTML, see src/utils/richText.ts
+type RichTextField = 'description' | 'additional_requirements' | 'application_instructions';
+
+const richTextFields: RichTextField[] = ['description', 'additional_requirements', 'application_instructions'];
+
+const isRichTextField = (key: keyof JobPostFormData): key is RichTextField =>
+  (richTextFields as string[]).includes(key);
+
+const toStoredRichText = (html: string) => (isRichTextEmpty(html) ? '' : sanitizeRichText(html));
+
+// datetime-local wants "yyyy-MM-ddTHH:mm" in local time
+const toDateTimeLocal = (iso: string) => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export function JobPostForm({ onSuccess, initialPost }: JobPostFormProps) {
   const { user } = useAuth();
   const [currentStep, setCurrentStep] = useState<FormStep>('basic');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
-  const [success, setSuccess] = useState(false);
-  const [skills, setSkills] = useState<string[]>([]);
+  const [success, setSuccess] = useState('');
+  const [skills, setSkills] = useState<string[]>(initialPost?.required_skills || []);
   const [newSkill, setNewSkill] = useState('');
   const [showCustomCategory, setShowCustomCategory] = useState(false);
   const [customCategory, setCustomCategory] = useState('');
+  // Set once a draft exists, so later saves update it instead of adding posts
+  const [postId, setPostId] = useState<string | undefined>(initialPost?.id);
+  const [publishMode, setPublishMode] = useState<PublishMode>(initialPost?.status === 'scheduled' ? 'schedule' : 'now');
+  const [publishAt, setPublishAt] = useState(initialPost?.publish_at ? toDateTimeLocal(initialPost.publish_at) : '');
 
-  const [formData, setFormData] = useState({
-    title: '',
-    category: '',
-    description: '',
-    budget: '',
-    location: '',
-    required_skills: [] as string[],
-    experience_level: '',
-    work_schedule: '',
-    additional_requirements: '',
-    application_instructions: '',
-    job_type: '',
-    start_date: '',
-    end_date: '',
-    payment_method: '',
-    company_name: '',
-    company_logo_url: '',
-    employer_avatar_url: '',
-    employer_email: '',
-  });
+  const [formData, setFormData] = useState<JobPostFormData>(initialPost ? toFormData(initialPost) : emptyFormData);
 
   useEffect(() => {
     async function fetchEmployerProfile() {
@@ -63,8 +155,8 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
         if (profile) {
           setFormData(prev => ({
             ...prev,
-            employer_avatar_url: profile.avatar_url || '',
-            employer_email: profile.email || '',
+            employer_avatar_url: prev.employer_avatar_url || profile.avatar_url || '',
+            employer_email: prev.employer_email || profile.email || '',
           }));
         }
       } catch (err) {
@@ -90,10 +182,10 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
     }));
   };
 
-  const handleDescriptionChange = (value: string) => {
+  const handleRichTextChange = (name: RichTextField) => (value: string) => {
     setFormData(prev => ({
       ...prev,
-      description: value
+      [name]: value
     }));
   };
 
@@ -117,88 +209,92 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const savePost = async (mode: JobPostSaveMode) => {
     if (!user) return;
 
     setLoading(true);
     setError('');
-    setSuccess(false);
+    setSuccess('');
 
     try {
       // Apply custom category if selected
       const finalCategory = formData.category === 'Other' && customCategory.trim() 
         ? customCategory.trim() 
         : formData.category;
-        
-      // Prepare the job post data
-      const jobPostData = {
-        ...formData,
-        category: finalCategory,
-        employer_id: user.id,
-        status: 'active',
-        created_at: new Date().toISOString(),
-        required_skills: formData.required_skills || [],
-        description: formData.description.replace(/<[^>]*>/g, ''), // Strip HTML tags
-        employer_avatar_url: formData.employer_avatar_url,
-        employer_email: formData.employer_email,
-        company_name: formData.company_name,
-        company_logo_url: formData.company_logo_url,
-        title: formData.title,
-        budget: formData.budget,
-        location: formData.location,
-        experience_level: formData.experience_level,
-        work_schedule: formData.work_schedule,
-        additional_requirements: formData.additional_requirements,
-        application_instructions: formData.application_instructions,
-        job_type: formData.job_type,
-        start_date: formData.start_date,
-        end_date: formData.end_date,
-        payment_method: formData.payment_method,
-      };
-
-      // Insert the job post
-      const { error: insertError } = await supabase
-        .from('job_posts')
-        .insert([jobPostData]);
-
-      if (insertError) {
-        console.error('Insert error:', insertError);
-        throw new Error(insertError.message || 'Failed to create job post');
+
+      if (mode.status !== 'draft') {
+        const missing = requiredToPublish.filter(({ key }) =>
+          isRichTextField(key) ? isRichTextEmpty(formData[key]) : !String(formData[key]).trim()
+        );
+        if (missing.length > 0) {
+          throw new Error(`Please fill in ${missing.map(field => field.label).join(', ')} before publishing, or save a draft.`);
+        }
+      }
+
+      const compensation = toCompensationValue(formData);
+      const compensationError = getCompensationError(compensation, mode.status !== 'draft');
+      if (compensationError) {
+        throw new Error(compensationError);
+      }
+
+      const { max_applications, ...values } = formData;
+
+      const saved = await jobPostService.saveJobPost(
+        user.id,
+        {
+          ...values,
+          ...toCompensationColumns(compensation),
+          category: finalCategory,
+          required_skills: formData.required_skills || [],
+          description: toStoredRichText(formData.description),
+          additional_requirements: toStoredRichText(formData.additional_requirements),
+          application_instructions: toStoredRichText(formData.application_instructions),
+          max_applications: max_applications ? parseInt(max_applications, 10) : null,
+        },
+        mode,
+        postId
+      );
+
+      if (saved.status === 'draft') {
+        // Stay in the form so the employer can keep going
+        setPostId(saved.id);
+        setSuccess('Draft saved. You can finish it later from your dashboard.');
+        return;
       }
 
-      setSuccess(true);
-      setFormData({
-        title: '',
-        category: '',
-        description: '',
-        budget: '',
-        location: '',
-        required_skills: [],
-        experience_level: '',
-        work_schedule: '',
-        additional_requirements: '',
-        application_instructions: '',
-        job_type: '',
-        start_date: '',
-        end_date: '',
-        payment_method: '',
-        company_name: '',
-        company_logo_url: '',
-        employer_avatar_url: '',
-        employer_email: '',
-      });
+      setSuccess(saved.status === 'scheduled'
+        ? `Job scheduled for ${new Date(saved.publish_at as string).toLocaleString()}.`
+        : 'Job posted successfully!');
+      setPostId(undefined);
+      setFormData(emptyFormData);
       setSkills([]);
+      setPublishMode('now');
+      setPublishAt('');
 
       if (onSuccess) onSuccess();
     } catch (err) {
       console.error('Error posting job:', err);
-      setError(err instanceof Error ? err.message : 'Failed to post job. Please try again.');
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setError(message || 'Failed to post job. Please try again.');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (publishMode === 'schedule') {
+      if (!publishAt || new Date(publishAt) <= new Date()) {
+        setError('Pick a publish time in the future, or publish now.');
+        return;
+      }
+      savePost({ status: 'scheduled', publishAt });
+    } else {
+      savePost({ status: 'active' });
+    }
+  };
+
   const steps = [
     { id: 'basic', label: 'Basic Info' },
     { id: 'profile', label: 'Profile' },
@@ -312,12 +408,10 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
           Job Description
         </label>
         <div className="mt-1">
-          <textarea
+          <RichTextEditor
             id="description"
             value={formData.description}
-            onChange={(e) => handleDescriptionChange(e.target.value)}
-            rows={10}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            onChange={handleRichTextChange('description')}
             placeholder="Enter detailed job description..."
           />
         </div>
@@ -386,25 +480,72 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
       <h2 className="text-xl font-bold text-gray-800 mb-6 pb-2 border-b border-gray-200">Job Details</h2>
       
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        <div>
-          <label htmlFor="budget" className="block text-sm font-medium text-gray-700">
-            Budget
-          </label>
-          <div className="mt-1 relative rounded-md shadow-sm">
-            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-              <span className="text-gray-500 font-medium">₱</span>
-            </div>
+        <div className="md:col-span-2">
+          <span className="block text-sm font-medium text-gray-700">
+            Compensation
+          </span>
+          <div className="mt-1 grid grid-cols-2 md:grid-cols-4 gap-3">
+            <select
+              id="compensation_currency"
+              name="compensation_currency"
+              value={formData.compensation_currency}
+              onChange={handleChange}
+              aria-label="Currency"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 hover:border-gray-400 transition-colors"
+            >
+              {Object.entries(compensationCurrencyLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <select
+              id="compensation_period"
+              name="compensation_period"
+              value={formData.compensation_period}
+              onChange={handleChange}
+              aria-label="Pay period"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 hover:border-gray-400 transition-colors"
+            >
+              {Object.entries(compensationPeriodLabels).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
             <input
-              type="text"
-              id="budget"
-              name="budget"
-              value={formData.budget}
+              type="number"
+              id="compensation_min"
+              name="compensation_min"
+              min="0"
+              step="0.01"
+              value={formData.compensation_min}
               onChange={handleChange}
-              required
-              className="pl-8 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 hover:border-gray-400 transition-colors"
-              placeholder="e.g., 1,500 per hour"
+              aria-label="Minimum pay"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 hover:border-gray-400 transition-colors"
+              placeholder="Minimum"
+            />
+            <input
+              type="number"
+              id="compensation_max"
+              name="compensation_max"
+              min="0"
+              step="0.01"
+              value={formData.compensation_max}
+              onChange={handleChange}
+              aria-label="Maximum pay"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 hover:border-gray-400 transition-colors"
+              placeholder="Maximum (optional)"
             />
           </div>
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.compensation_negotiable}
+              onChange={(e) => setFormData(prev => ({ ...prev, compensation_negotiable: e.target.checked }))}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            Negotiable
+          </label>
+          <p className="mt-1 text-sm text-gray-500">
+            Shown as {formatCompensation(toCompensationValue(formData))}
+          </p>
         </div>
 
         <div>
@@ -510,8 +651,26 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
               className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
             />
           </div>
+          <p className="mt-1 text-xs text-gray-500">The post closes automatically after this date.</p>
         </div>
       </div>
+
+      <div>
+        <label htmlFor="max_applications" className="block text-sm font-medium text-gray-700">
+          Maximum Applications (optional)
+        </label>
+        <input
+          type="number"
+          id="max_applications"
+          name="max_applications"
+          min={1}
+          value={formData.max_applications}
+          onChange={handleChange}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          placeholder="No limit"
+        />
+        <p className="mt-1 text-xs text-gray-500">The post closes once it receives this many applications.</p>
+      </div>
     </div>
   );
 
@@ -583,33 +742,25 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
         <label htmlFor="additional_requirements" className="block text-sm font-medium text-gray-700">
           Additional Requirements
         </label>
-        <textarea
-          id="additional_requirements"
-          name="additional_requirements"
-          value={formData.additional_requirements}
-          onChange={handleChange}
-          rows={3}
-          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
-          placeholder="e.g., Experience with state management (Redux/Context) and unit testing..."
-        />
+        <div className="mt-1">
+          <RichTextEditor
+            id="additional_requirements"
+            value={formData.additional_requirements}
+            onChange={handleRichTextChange('additional_requirements')}
+            placeholder="e.g., Experience with state management (Redux/Context) and unit testing..."
+          />
+        </div>
       </div>
 
       <div>
         <label htmlFor="application_instructions" className="block text-sm font-medium text-gray-700">
           Application Instructions
         </label>
-        <div className="mt-1 relative rounded-md shadow-sm">
-          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-            <FileText className="h-5 w-5 text-gray-400" />
-          </div>
-          <input
-            type="text"
+        <div className="mt-1">
+          <RichTextEditor
             id="application_instructions"
-            name="application_instructions"
             value={formData.application_instructions}
-            onChange={handleChange}
-            required
-            className="pl-10 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            onChange={handleRichTextChange('application_instructions')}
             placeholder="e.g., Submit a portfolio or GitHub link with your resume"
           />
         </div>
@@ -697,8 +848,8 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
             </div>
             <div className="flex items-center text-sm text-gray-700">
               <span className="flex items-center">
-                <span className="mr-2 font-medium text-green-600">₱</span>
-                <span className="font-medium">Budget:</span> {formData.budget.replace('$', '')}
+                <DollarSign className="h-5 w-5 mr-2 text-green-600" />
+                <span className="font-medium">Compensation:</span>&nbsp;{formatCompensation(toCompensationValue(formData))}
               </span>
             </div>
             <div className="flex items-center text-sm text-gray-700">
@@ -713,13 +864,19 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
               <Calendar className="h-5 w-5 mr-2 text-blue-500" />
               <span className="font-medium">Duration:</span> {formData.start_date} - {formData.end_date}
             </div>
+            {formData.max_applications && (
+              <div className="flex items-center text-sm text-gray-700 col-span-2">
+                <FileText className="h-5 w-5 mr-2 text-blue-500" />
+                <span className="font-medium">Closes after:</span> {formData.max_applications} applications
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       <div className="bg-white shadow-md rounded-lg p-6 border border-gray-100">
         <h4 className="text-lg font-semibold text-gray-900 mb-4 pb-2 border-b border-gray-100">Job Description</h4>
-        <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: formData.description }} />
+        <RichText value={formData.description} className="text-gray-700" />
       </div>
 
       <div className="bg-white shadow-md rounded-lg p-6 border border-gray-100">
@@ -744,7 +901,7 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
           </div>
           <div>
             <h5 className="text-sm font-medium text-gray-700">Additional Requirements</h5>
-            <p className="text-sm text-gray-600 mt-1">{formData.additional_requirements}</p>
+            <RichText value={formData.additional_requirements} className="text-sm text-gray-600 mt-1" />
           </div>
         </div>
       </div>
@@ -754,7 +911,7 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
         <div className="space-y-5">
           <div>
             <h5 className="text-sm font-medium text-gray-700">Application Instructions</h5>
-            <p className="text-sm text-gray-600 mt-1">{formData.application_instructions}</p>
+            <RichText value={formData.application_instructions} className="text-sm text-gray-600 mt-1" />
           </div>
           <div>
             <h5 className="text-sm font-medium text-gray-700">Payment Method</h5>
@@ -762,6 +919,39 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
           </div>
         </div>
       </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6 border border-gray-100">
+        <h4 className="text-lg font-semibold text-gray-900 mb-4 pb-2 border-b border-gray-100">Publishing</h4>
+        <div className="space-y-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="publish_mode"
+              checked={publishMode === 'now'}
+              onChange={() => setPublishMode('now')}
+            />
+            <span>Publish now</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="radio"
+              name="publish_mode"
+              checked={publishMode === 'schedule'}
+              onChange={() => setPublishMode('schedule')}
+            />
+            <span>Schedule for later</span>
+          </label>
+          {publishMode === 'schedule' && (
+            <input
+              type="datetime-local"
+              value={publishAt}
+              min={toDateTimeLocal(new Date().toISOString())}
+              onChange={(e) => setPublishAt(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          )}
+        </div>
+      </div>
     </div>
   );
 
@@ -799,7 +989,7 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
             </div>
             <div className="ml-3">
               <h3 className="text-sm font-medium text-green-800">Success</h3>
-              <div className="mt-2 text-sm text-green-700">Job posted successfully!</div>
+              <div className="mt-2 text-sm text-green-700">{success}</div>
             </div>
           </div>
         </div>
@@ -816,11 +1006,19 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
             Previous
           </button>
         )}
+        <button
+          type="button"
+          onClick={() => savePost({ status: 'draft' })}
+          disabled={loading}
+          className="ml-auto inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Draft
+        </button>
         {currentStep !== 'preview' ? (
           <button
             type="button"
             onClick={() => setCurrentStep(steps[steps.findIndex(s => s.id === currentStep) + 1].id as FormStep)}
-            className="ml-auto inline-flex items-center px-5 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+            className="ml-3 inline-flex items-center px-5 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
           >
             Next
             <ArrowRight className="h-4 w-4 ml-2" />
@@ -829,7 +1027,7 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
           <button
             type="submit"
             disabled={loading}
-            className="ml-auto inline-flex items-center px-5 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            className="ml-3 inline-flex items-center px-5 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {loading ? (
               <>
@@ -837,11 +1035,11 @@ export function JobPostForm({ onSuccess }: JobPostFormProps) {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Posting...
+                {publishMode === 'schedule' ? 'Scheduling...' : 'Posting...'}
               </>
             ) : (
               <>
-                Post Job
+                {publishMode === 'schedule' ? 'Schedule Job' : 'Post Job'}
                 <CheckCircle2 className="h-4 w-4 ml-2" />
               </>
             )}
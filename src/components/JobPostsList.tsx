@@ -1,15 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import debounce from 'lodash/debounce';
 import { supabase } from '../services/supabase';
-import { JobPost } from '../types/database';
+import { jobSearchService } from '../services/jobSearchService';
+import { JobSearchFacets, JobSearchFilters, JobSearchSort, RankedJobPost, jobSearchSortLabels } from '../types/search';
+import { CompensationCurrency, CompensationPeriod } from '../types/database';
+import { compensationCurrencyLabels, compensationPeriodLabels, formatCompensation, toCompensation } from '../utils/compensation';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { Calendar, MapPin, Briefcase, DollarSign, Clock, ExternalLink, Search, BookmarkPlus, BookmarkCheck } from 'lucide-react';
+import { Calendar, MapPin, Briefcase, Banknote, Clock, ExternalLink, Search, BookmarkPlus, BookmarkCheck, X, BellPlus } from 'lucide-react';
 import { format } from 'date-fns';
 import { Pagination } from './ui/Pagination';
 import { Skeleton } from './ui/skeleton';
 import { Input } from './ui/input';
 import { useToast } from './ui/use-toast';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { SaveSearchDialog } from './SaveSearchDialog';
 
 interface JobPostsListProps {
   onJobSelect: (jobId: string) => void;
@@ -18,14 +24,36 @@ interface JobPostsListProps {
   onSaveStateChange?: () => void;  // Add this prop
 }
 
+type FacetKey = Exclude<keyof JobSearchFilters, 'query' | 'min_pay'>;
+
+const facetFields: { key: FacetKey; label: string; allLabel: string }[] = [
+  { key: 'category', label: 'Category', allLabel: 'All Categories' },
+  { key: 'job_type', label: 'Job Type', allLabel: 'All Job Types' },
+  { key: 'experience_level', label: 'Experience', allLabel: 'All Levels' },
+  { key: 'location', label: 'Location', allLabel: 'All Locations' },
+  { key: 'pay_currency', label: 'Currency', allLabel: 'Any Currency' },
+  { key: 'pay_period', label: 'Pay Period', allLabel: 'Any Pay Period' },
+];
+
+const formatFacetValue = (key: FacetKey, value: string) => {
+  if (key === 'pay_currency') return compensationCurrencyLabels[value as CompensationCurrency] ?? value;
+  if (key === 'pay_period') return compensationPeriodLabels[value as CompensationPeriod] ?? value;
+  return value;
+};
+
 export function JobPostsList({ onJobSelect, filter, userId, onSaveStateChange }: JobPostsListProps) {
-  const [jobs, setJobs] = useState<JobPost[]>([]);
+  const [jobs, setJobs] = useState<RankedJobPost[]>([]);
   const [savedJobs, setSavedJobs] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalJobs, setTotalJobs] = useState(0);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<JobSearchFilters>({});
+  const [minPayInput, setMinPayInput] = useState('');
+  const [sortBy, setSortBy] = useState<JobSearchSort>('relevance');
+  const [facets, setFacets] = useState<JobSearchFacets | null>(null);
+  const [saveSearchOpen, setSaveSearchOpen] = useState(false);
   const { toast } = useToast();
   const itemsPerPage = 10;
 
@@ -34,7 +62,29 @@ export function JobPostsList({ onJobSelect, filter, userId, onSaveStateChange }:
     if (userId) {
       fetchSavedJobs();
     }
-  }, [currentPage, filter, userId, searchQuery]);
+  }, [currentPage, filter, userId, filters, sortBy]);
+
+  // Wait for typing to settle before hitting the search RPC
+  const debouncedUpdateQuery = useMemo(
+    () => debounce((query: string) => {
+      setFilters(prev => ({ ...prev, query }));
+      setCurrentPage(1);
+    }, 400),
+    []
+  );
+
+  useEffect(() => () => debouncedUpdateQuery.cancel(), [debouncedUpdateQuery]);
+
+  const debouncedUpdateMinPay = useMemo(
+    () => debounce((value: string) => {
+      const amount = parseFloat(value);
+      setFilters(prev => ({ ...prev, min_pay: amount > 0 ? amount : undefined }));
+      setCurrentPage(1);
+    }, 400),
+    []
+  );
+
+  useEffect(() => () => debouncedUpdateMinPay.cancel(), [debouncedUpdateMinPay]);
 
   const fetchSavedJobs = async () => {
     if (!userId) return;
@@ -127,45 +177,34 @@ export function JobPostsList({ onJobSelect, filter, userId, onSaveStateChange }:
   const fetchJobPosts = async () => {
     try {
       setLoading(true);
-      
-      let query = supabase
-        .from('job_posts')
-        .select('*', { count: 'exact' })
-        .eq('status', 'active');
-
-      // Apply search filter if query exists
-      if (searchQuery) {
-        query = query.or(`title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%,company_name.ilike.%${searchQuery}%,required_skills.cs.{${searchQuery}}`);
-      }
+      setError(null);
 
-      // Apply filters for applied/saved jobs
+      // Applied/saved views search within the user's own job ids
+      let restrictToIds: string[] | undefined;
       if (filter === 'applied' && userId) {
         const { data: appliedJobIds } = await supabase
           .from('job_applications')
           .select('job_id')
           .eq('job_seeker_id', userId);
-          
-        query = query.in('id', appliedJobIds?.map(item => item.job_id) || []);
+
+        restrictToIds = appliedJobIds?.map(item => item.job_id) || [];
       } else if (filter === 'saved' && userId) {
         const { data: savedJobIds } = await supabase
           .from('saved_jobs')
           .select('job_id')
           .eq('job_seeker_id', userId);
-          
-        query = query.in('id', savedJobIds?.map(item => item.job_id) || []);
-      }
 
-      // Get total count
-      const { count } = await query;
-      setTotalJobs(count || 0);
+        restrictToIds = savedJobIds?.map(item => item.job_id) || [];
+      }
 
-      // Get paginated results
-      const { data, error } = await query
-        .order('created_at', { ascending: false })
-        .range((currentPage - 1) * itemsPerPage, currentPage * itemsPerPage - 1);
+      const [page, facetCounts] = await Promise.all([
+        jobSearchService.searchJobs(filters, currentPage, itemsPerPage, restrictToIds, sortBy),
+        jobSearchService.getFacets(filters, restrictToIds),
+      ]);
 
-      if (error) throw error;
-      setJobs(data || []);
+      setJobs(page.results);
+      setTotalJobs(page.total_count);
+      setFacets(facetCounts);
     } catch (err) {
       console.error('Error fetching job posts:', err);
       setError(err instanceof Error ? err.message : 'Failed to load job posts');
@@ -175,44 +214,49 @@ export function JobPostsList({ onJobSelect, filter, userId, onSaveStateChange }:
   };
 
   const handleSearch = (value: string) => {
-    setSearchQuery(value);
-    setCurrentPage(1); // Reset to first page when searching
+    setSearchInput(value);
+    debouncedUpdateQuery(value);
+  };
+
+  const handleFacetChange = (key: FacetKey, value: string) => {
+    // Pay amounts only compare within one currency
+    if (key === 'pay_currency' && value === 'all') {
+      debouncedUpdateMinPay.cancel();
+      setMinPayInput('');
+      setFilters(prev => ({ ...prev, pay_currency: undefined, min_pay: undefined }));
+      if (sortBy === 'pay') setSortBy('relevance');
+    } else {
+      setFilters(prev => ({ ...prev, [key]: value === 'all' ? undefined : value }));
+    }
+    setCurrentPage(1); // Reset to first page when filtering
+  };
+
+  const handleMinPayChange = (value: string) => {
+    setMinPayInput(value);
+    debouncedUpdateMinPay(value);
+  };
+
+  const handleSortChange = (value: string) => {
+    setSortBy(value as JobSearchSort);
+    setCurrentPage(1);
   };
 
+  const clearFilters = () => {
+    debouncedUpdateQuery.cancel();
+    debouncedUpdateMinPay.cancel();
+    setSearchInput('');
+    setMinPayInput('');
+    setFilters({});
+    if (sortBy === 'pay') setSortBy('relevance');
+    setCurrentPage(1);
+  };
+
+  const hasActiveFilters = Object.values(filters).some(Boolean);
+
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
   };
 
-  if (loading) {
-    return (
-      <div className="space-y-4">
-        <h2 className="text-2xl font-bold">Available Jobs</h2>
-        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {[...Array(6)].map((_, i) => (
-            <Card key={i} className="overflow-hidden">
-              <CardHeader className="pb-2">
-                <div className="flex items-center space-x-4">
-                  <Skeleton className="h-12 w-12 rounded-full" />
-                  <div className="space-y-2">
-                    <Skeleton className="h-4 w-[200px]" />
-                    <Skeleton className="h-3 w-[150px]" />
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <Skeleton className="h-3 w-full" />
-                  <Skeleton className="h-3 w-full" />
-                  <Skeleton className="h-3 w-2/3" />
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      </div>
-    );
-  }
-
   if (error) {
     return (
       <div className="rounded-lg bg-red-50 p-4 text-center">
@@ -230,7 +274,7 @@ export function JobPostsList({ onJobSelect, filter, userId, onSaveStateChange }:
           <Input
             type="text"
             placeholder="Search jobs..."
-            value={searchQuery}
+            value={searchInput}
             onChange={(e) => handleSearch(e.target.value)}
             className="pl-10"
           />
@@ -238,113 +282,212 @@ export function JobPostsList({ onJobSelect, filter, userId, onSaveStateChange }:
         </div>
       </div>
 
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {jobs.map((job) => (
-          <Card 
-            key={job.id} 
-            className="group hover:shadow-lg transition-all duration-300 overflow-hidden border border-gray-200 hover:border-primary/20"
+      <div className="flex flex-wrap items-center gap-3">
+        {facetFields.map(({ key, label, allLabel }) => (
+          <Select
+            key={key}
+            value={filters[key] ?? 'all'}
+            onValueChange={(value) => handleFacetChange(key, value)}
           >
-            <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
-              <div className="flex items-start space-x-4">
-                {job.company_logo_url ? (
-                  <img
-                    src={job.company_logo_url}
-                    alt={job.company_name}
-                    className="w-12 h-12 rounded-full object-cover border border-gray-100"
-                  />
-                ) : (
-                  <div className="w-12 h-12 rounded-full bg-primary/5 flex items-center justify-center border border-primary/10">
-                    <Briefcase className="w-6 h-6 text-primary/60" />
+            <SelectTrigger className="w-[180px] bg-white">
+              <SelectValue placeholder={label} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{allLabel}</SelectItem>
+              {facets?.[key].map(bucket => (
+                <SelectItem key={bucket.value} value={bucket.value}>
+                  {formatFacetValue(key, bucket.value)} ({bucket.count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+
+        <Input
+          type="number"
+          min="0"
+          value={minPayInput}
+          onChange={(e) => handleMinPayChange(e.target.value)}
+          disabled={!filters.pay_currency}
+          placeholder={filters.pay_currency ? `Min pay (${filters.pay_currency})` : 'Pick a currency for min pay'}
+          aria-label="Minimum pay"
+          className="w-[200px] bg-white"
+        />
+
+        <Select value={sortBy} onValueChange={handleSortChange}>
+          <SelectTrigger className="w-[160px] bg-white">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(jobSearchSortLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value} disabled={value === 'pay' && !filters.pay_currency}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters}>
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+
+        {/* Alerts are for new posts, so only the full listing can be saved */}
+        {userId && !filter && (
+          <Button variant="outline" size="sm" className="ml-auto" onClick={() => setSaveSearchOpen(true)}>
+            <BellPlus className="w-4 h-4 mr-1" />
+            Save search
+          </Button>
+        )}
+      </div>
+
+      {userId && (
+        <SaveSearchDialog
+          open={saveSearchOpen}
+          onOpenChange={setSaveSearchOpen}
+          userId={userId}
+          filters={filters}
+        />
+      )}
+
+      {loading ? (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {[...Array(6)].map((_, i) => (
+            <Card key={i} className="overflow-hidden">
+              <CardHeader className="pb-2">
+                <div className="flex items-center space-x-4">
+                  <Skeleton className="h-12 w-12 rounded-full" />
+                  <div className="space-y-2">
+                    <Skeleton className="h-4 w-[200px]" />
+                    <Skeleton className="h-3 w-[150px]" />
                   </div>
-                )}
-                <div>
-                  <CardTitle className="text-lg line-clamp-1 group-hover:text-primary transition-colors">
-                    {job.title}
-                  </CardTitle>
-                  <p className="text-sm text-gray-500 line-clamp-1">{job.company_name}</p>
                 </div>
-              </div>
-              <div className="flex items-center space-x-2">
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className={`h-8 w-8 ${savedJobs.has(job.id) ? 'text-primary' : 'text-gray-400'}`}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleSaveJob(job.id);
-                  }}
-                >
-                  {savedJobs.has(job.id) ? (
-                    <BookmarkCheck className="h-5 w-5" />
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  <Skeleton className="h-3 w-full" />
+                  <Skeleton className="h-3 w-full" />
+                  <Skeleton className="h-3 w-2/3" />
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : jobs.length === 0 ? (
+        <div className="rounded-lg border border-dashed border-gray-200 p-8 text-center text-gray-500">
+          No jobs match your search.
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {jobs.map((job) => (
+            <Card 
+              key={job.id} 
+              className="group hover:shadow-lg transition-all duration-300 overflow-hidden border border-gray-200 hover:border-primary/20"
+            >
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+                <div className="flex items-start space-x-4">
+                  {job.company_logo_url ? (
+                    <img
+                      src={job.company_logo_url}
+                      alt={job.company_name}
+                      className="w-12 h-12 rounded-full object-cover border border-gray-100"
+                    />
                   ) : (
-                    <BookmarkPlus className="h-5 w-5" />
+                    <div className="w-12 h-12 rounded-full bg-primary/5 flex items-center justify-center border border-primary/10">
+                      <Briefcase className="w-6 h-6 text-primary/60" />
+                    </div>
                   )}
-                </Button>
-                <Badge variant="secondary" className="whitespace-nowrap text-xs font-medium">
-                  {job.job_type}
-                </Badge>
-              </div>
-            </CardHeader>
-
-            <CardContent>
-              <div className="space-y-3">
-                <div className="grid grid-cols-2 gap-2 text-sm text-gray-600">
-                  <div className="flex items-center space-x-2">
-                    <MapPin className="w-4 h-4 text-gray-400" />
-                    <span className="line-clamp-1">{job.location}</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                  ₱
-                    <span className="line-clamp-1">{job.budget}</span>
+                  <div>
+                    <CardTitle className="text-lg line-clamp-1 group-hover:text-primary transition-colors">
+                      {job.title}
+                    </CardTitle>
+                    <p className="text-sm text-gray-500 line-clamp-1">{job.company_name}</p>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Clock className="w-4 h-4 text-gray-400" />
-                    <span className="line-clamp-1">{job.work_schedule}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={`h-8 w-8 ${savedJobs.has(job.id) ? 'text-primary' : 'text-gray-400'}`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleSaveJob(job.id);
+                    }}
+                  >
+                    {savedJobs.has(job.id) ? (
+                      <BookmarkCheck className="h-5 w-5" />
+                    ) : (
+                      <BookmarkPlus className="h-5 w-5" />
+                    )}
+                  </Button>
+                  <Badge variant="secondary" className="whitespace-nowrap text-xs font-medium">
+                    {job.job_type}
+                  </Badge>
+                </div>
+              </CardHeader>
+
+              <CardContent>
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2 text-sm text-gray-600">
+                    <div className="flex items-center space-x-2">
+                      <MapPin className="w-4 h-4 text-gray-400" />
+                      <span className="line-clamp-1">{job.location}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Banknote className="w-4 h-4 text-gray-400" />
+                      <span className="line-clamp-1">{formatCompensation(toCompensation(job))}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Clock className="w-4 h-4 text-gray-400" />
+                      <span className="line-clamp-1">{job.work_schedule}</span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Calendar className="w-4 h-4 text-gray-400" />
+                      <span className="line-clamp-1">
+                        {job.start_date ? format(new Date(job.start_date), 'MMM d') : 'Immediate'}
+                      </span>
+                    </div>
                   </div>
-                  <div className="flex items-center space-x-2">
-                    <Calendar className="w-4 h-4 text-gray-400" />
-                    <span className="line-clamp-1">
-                      {format(new Date(job.start_date), 'MMM d')}
-                    </span>
+
+                  <div className="flex flex-wrap gap-1.5 pt-2">
+                    {job.required_skills.slice(0, 3).map((skill, index) => (
+                      <Badge 
+                        key={index} 
+                        variant="outline" 
+                        className="text-xs px-2 py-0.5 bg-primary/5"
+                      >
+                        {skill}
+                      </Badge>
+                    ))}
+                    {job.required_skills.length > 3 && (
+                      <Badge 
+                        variant="outline" 
+                        className="text-xs px-2 py-0.5 bg-primary/5"
+                      >
+                        +{job.required_skills.length - 3}
+                      </Badge>
+                    )}
                   </div>
-                </div>
 
-                <div className="flex flex-wrap gap-1.5 pt-2">
-                  {job.required_skills.slice(0, 3).map((skill, index) => (
-                    <Badge 
-                      key={index} 
-                      variant="outline" 
-                      className="text-xs px-2 py-0.5 bg-primary/5"
-                    >
-                      {skill}
-                    </Badge>
-                  ))}
-                  {job.required_skills.length > 3 && (
-                    <Badge 
-                      variant="outline" 
-                      className="text-xs px-2 py-0.5 bg-primary/5"
-                    >
-                      +{job.required_skills.length - 3}
-                    </Badge>
-                  )}
+                  <Button
+                    variant="outline"
+                    className="w-full mt-4 group-hover:bg-primary group-hover:text-black transition-colors"
+                    onClick={() => {
+                      console.log('Selected job:', job); // Add debug logging
+                      onJobSelect?.(job.id);
+                    }}
+                  >
+                    <span>View Details</span>
+                    <ExternalLink className="w-4 h-4 ml-2" />
+                  </Button>
                 </div>
-
-                <Button
-                  variant="outline"
-                  className="w-full mt-4 group-hover:bg-primary group-hover:text-black transition-colors"
-                  onClick={() => {
-                    console.log('Selected job:', job); // Add debug logging
-                    onJobSelect?.(job.id);
-                  }}
-                >
-                  <span>View Details</span>
-                  <ExternalLink className="w-4 h-4 ml-2" />
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
 
       <Pagination
         currentPage={currentPage}
@@ -1,12 +1,16 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../services/supabase';
+import { conversationService } from '../services/conversationService';
 import { useAuth } from '../context/AuthContext';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import { MilestonePayments } from './payments/MilestonePayments';
+import { InterviewScheduler } from './interviews/InterviewScheduler';
+import { toast } from './ui/use-toast';
 import { formatDistanceToNow } from 'date-fns';
-import { Eye, Building, Calendar, FileText, MapPin, Clock, CheckCircle, XCircle, AlertCircle, Download } from 'lucide-react';
+import { Eye, Building, Calendar, FileText, MapPin, Clock, CheckCircle, XCircle, AlertCircle, Download, MessageSquare } from 'lucide-react';
 
 interface Application {
   id: string;
@@ -95,6 +99,21 @@ export function JobSeekerApplicationsView() {
     };
   }, [user, navigate]);
 
+  // Each application has its own thread with the employer
+  const messageEmployer = async (applicationId: string) => {
+    try {
+      const conversationId = await conversationService.getOrCreateApplicationConversation(applicationId);
+      navigate(`/messages/${conversationId}`);
+    } catch (err) {
+      console.error('Error opening conversation:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to open the conversation.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
       case 'pending':
@@ -232,6 +251,20 @@ export function JobSeekerApplicationsView() {
                 </p>
               </div>
               
+              {(app.status === 'reviewing' || app.status === 'accepted') && (
+                <div className="mb-4">
+                  <h4 className="font-medium text-gray-700 mb-2">Interviews</h4>
+                  <InterviewScheduler applicationId={app.id} role="job_seeker" />
+                </div>
+              )}
+
+              {app.status === 'accepted' && (
+                <div className="mb-4">
+                  <h4 className="font-medium text-gray-700 mb-2">Milestone Payments</h4>
+                  <MilestonePayments applicationId={app.id} role="job_seeker" />
+                </div>
+              )}
+
               {app.cover_letter && (
                 <div className="mt-4">
                   <h4 className="font-medium text-gray-700 mb-2 flex items-center">
@@ -266,6 +299,15 @@ export function JobSeekerApplicationsView() {
                     Resume
                   </Button>
                 )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => messageEmployer(app.id)}
+                  className="flex items-center border-blue-200 text-blue-700 hover:bg-blue-50"
+                >
+                  <MessageSquare className="h-4 w-4 mr-2" />
+                  Message Employer
+                </Button>
                 <Button
                   variant="default"
                   size="sm"
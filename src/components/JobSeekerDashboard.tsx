@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { JobPostsList } from './JobPostsList';
 import { JobPostDialog } from './JobPostDialog';
 import { SavedJobsDialog } from './SavedJobsDialog';
+import { RecommendedJobs } from './RecommendedJobs';
 import { Card } from './ui/card';
 import { Root as Tabs, List as TabsList, Trigger as TabsTrigger, Content as TabsContent } from '@radix-ui/react-tabs';
 import { Briefcase, BookMarked, Clock, Trophy, ExternalLink } from 'lucide-react';
@@ -191,9 +192,10 @@ export function JobSeekerDashboard() {
 
       {/* Main Content */}
       <Card className="overflow-hidden">
-        <Tabs defaultValue="available" className="w-full">
+        <Tabs defaultValue="recommended" className="w-full">
           <div className="px-6 pt-6">
             <TabsList className="w-full justify-start space-x-4 border-b">
+              <TabsTrigger value="recommended">Recommended</TabsTrigger>
               <TabsTrigger value="available">Available Jobs</TabsTrigger>
               <TabsTrigger value="applied">Applied Jobs</TabsTrigger>
               <TabsTrigger value="saved">Saved Jobs</TabsTrigger>
@@ -201,6 +203,13 @@ export function JobSeekerDashboard() {
           </div>
 
           <div className="p-6">
+            <TabsContent value="recommended">
+              <RecommendedJobs
+                userId={user?.id}
+                onJobSelect={handleJobSelect}
+              />
+            </TabsContent>
+
             <TabsContent value="available">
               <JobPostsList 
                 onJobSelect={handleJobSelect}
@@ -1,45 +1,45 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { supabase } from '../services/supabase';
+import { earningsService } from '../services/earningsService';
+import { PaymentAccount } from '../types/database';
 import { toast } from './ui/use-toast';
-import { Loader2 } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { CheckCircle, Loader2, Mail } from 'lucide-react';
 
 export function JobSeekerPayPalSetup() {
     const { user } = useAuth();
+    const [account, setAccount] = useState<PaymentAccount | null>(null);
     const [paypalEmail, setPaypalEmail] = useState('');
     const [loading, setLoading] = useState(false);
+    const [codeSent, setCodeSent] = useState(false);
+    const [code, setCode] = useState('');
+    const [verifying, setVerifying] = useState(false);
 
-    useEffect(() => {
-        if (user) {
-            fetchPayPalAccount();
-        }
-    }, [user]);
-
-    const fetchPayPalAccount = async () => {
+    const fetchPayPalAccount = useCallback(async () => {
+        if (!user) return;
         try {
-            const { data, error } = await supabase
-                .from('payment_accounts')
-                .select('paypal_email')
-                .eq('user_id', user?.id)
-                .maybeSingle();
-
-            if (error) throw error;
-            if (data) {
-                setPaypalEmail(data.paypal_email || '');
-            }
-        } catch (error: any) {
+            const data = await earningsService.getPayoutAccount(user.id);
+            setAccount(data);
+            setPaypalEmail(data?.paypal_email || '');
+        } catch (error) {
             console.error('Error fetching PayPal account:', error);
             toast({
                 title: "Error",
-                description: error.message || "Failed to fetch PayPal email",
+                description: error instanceof Error ? error.message : "Failed to fetch PayPal email",
                 variant: "destructive",
             });
         }
-    };
+    }, [user]);
+
+    useEffect(() => {
+        fetchPayPalAccount();
+    }, [fetchPayPalAccount]);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        
+
         if (!user?.id) {
             toast({
                 title: "Error",
@@ -61,47 +61,24 @@ export function JobSeekerPayPalSetup() {
         setLoading(true);
 
         try {
-            // First check if record exists
-            const { data: existingRecord } = await supabase
-                .from('payment_accounts')
-                .select('id')
-                .eq('user_id', user.id)
-                .maybeSingle();
-
-            let error;
-            
-            if (existingRecord) {
-                // Update existing record
-                const { error: updateError } = await supabase
-                    .from('payment_accounts')
-                    .update({
-                        paypal_email: paypalEmail,
-                        updated_at: new Date().toISOString()
-                    })
-                    .eq('user_id', user.id);
-                error = updateError;
-            } else {
-                // Insert new record
-                const { error: insertError } = await supabase
-                    .from('payment_accounts')
-                    .insert({
-                        user_id: user.id,
-                        paypal_email: paypalEmail,
-                    });
-                error = insertError;
+            const saved = await earningsService.savePayPalEmail(user.id, paypalEmail);
+            if (saved.paypal_email !== account?.paypal_email) {
+                setCodeSent(false);
+                setCode('');
             }
-
-            if (error) throw error;
+            setAccount(saved);
 
             toast({
                 title: "Success",
-                description: "PayPal email updated successfully",
+                description: saved.is_verified
+                    ? "PayPal email updated successfully"
+                    : "PayPal email saved. Verify it to receive payouts.",
             });
-        } catch (error: any) {
+        } catch (error) {
             console.error('Error updating PayPal email:', error);
             toast({
                 title: "Error",
-                description: error.message || "Failed to update PayPal email",
+                description: error instanceof Error ? error.message : "Failed to update PayPal email",
                 variant: "destructive",
             });
         } finally {
@@ -109,13 +86,78 @@ export function JobSeekerPayPalSetup() {
         }
     };
 
+    const handleSendCode = async () => {
+        setVerifying(true);
+        try {
+            const result = await earningsService.sendVerificationCode();
+            if (result.status === 'verified') {
+                await fetchPayPalAccount();
+                return;
+            }
+            setCodeSent(true);
+            toast({
+                title: "Code Sent",
+                description: `We emailed a verification code to ${account?.paypal_email}.`,
+            });
+        } catch (error) {
+            console.error('Error sending verification code:', error);
+            toast({
+                title: "Error",
+                description: error instanceof Error ? error.message : "Failed to send verification code",
+                variant: "destructive",
+            });
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    const handleVerify = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setVerifying(true);
+        try {
+            await earningsService.verifyPayPalEmail(code);
+            await fetchPayPalAccount();
+            setCodeSent(false);
+            setCode('');
+            toast({
+                title: "Verified",
+                description: "Your PayPal email is verified.",
+            });
+        } catch (error) {
+            console.error('Error verifying PayPal email:', error);
+            toast({
+                title: "Error",
+                description: error instanceof Error ? error.message : "Failed to verify code",
+                variant: "destructive",
+            });
+        } finally {
+            setVerifying(false);
+        }
+    };
+
+    const emailChanged = paypalEmail.trim() !== (account?.paypal_email || '');
+
     return (
         <div className="space-y-4">
             <form onSubmit={handleSubmit} className="space-y-4">
                 <div className="space-y-2">
-                    <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
-                        PayPal Email
-                    </label>
+                    <div className="flex items-center justify-between">
+                        <label className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70">
+                            PayPal Email
+                        </label>
+                        {account?.paypal_email && !emailChanged && (
+                            account.is_verified ? (
+                                <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                                    <CheckCircle className="h-3 w-3 mr-1" />
+                                    Verified
+                                </Badge>
+                            ) : (
+                                <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
+                                    Not verified
+                                </Badge>
+                            )
+                        )}
+                    </div>
                     <input
                         type="email"
                         value={paypalEmail}
@@ -141,7 +183,42 @@ export function JobSeekerPayPalSetup() {
                     )}
                 </button>
             </form>
+
+            {account?.paypal_email && !account.is_verified && !emailChanged && (
+                <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4 space-y-3">
+                    <p className="text-sm text-yellow-800">
+                        Confirm you own this PayPal address before payouts can be sent to it.
+                    </p>
+                    {codeSent ? (
+                        <form onSubmit={handleVerify} className="flex gap-2">
+                            <Input
+                                value={code}
+                                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                                placeholder="6-digit code"
+                                inputMode="numeric"
+                                className="bg-white"
+                                disabled={verifying}
+                            />
+                            <Button type="submit" disabled={verifying || code.length !== 6}>
+                                {verifying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                Verify
+                            </Button>
+                            <Button type="button" variant="outline" onClick={handleSendCode} disabled={verifying}>
+                                Resend
+                            </Button>
+                        </form>
+                    ) : (
+                        <Button type="button" variant="outline" onClick={handleSendCode} disabled={verifying}>
+                            {verifying ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : (
+                                <Mail className="mr-2 h-4 w-4" />
+                            )}
+                            Send Verification Code
+                        </Button>
+                    )}
+                </div>
+            )}
         </div>
     );
 }
-
@@ -17,11 +17,19 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { UserVerification } from './UserVerification';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { EmailDigestFrequency } from '../types/database';
+import { SavedSearchesSettings } from './SavedSearchesSettings';
+import { MessagingPrivacySettings } from './MessagingPrivacySettings';
+import { TwoFactorSettings } from './security/TwoFactorSettings';
+import { ActiveSessionsSettings } from './security/ActiveSessionsSettings';
+import { ConnectedAccountsSettings } from './security/ConnectedAccountsSettings';
 
 interface SettingsState {
   emailNotifications: boolean;
   applicationUpdates: boolean;
   messageNotifications: boolean;
+  emailDigest: EmailDigestFrequency;
   profilePrivacy: 'public' | 'limited' | 'private';
   showVerification: boolean;
 }
@@ -32,6 +40,7 @@ export function JobSeekerSettings() {
     emailNotifications: true,
     applicationUpdates: true,
     messageNotifications: true,
+    emailDigest: 'instant',
     profilePrivacy: 'public',
     showVerification: false
   });
@@ -66,9 +75,10 @@ export function JobSeekerSettings() {
         
         if (userSettings) {
           setSettings({
-            emailNotifications: userSettings.email_notifications || true,
-            applicationUpdates: userSettings.application_updates || true,
-            messageNotifications: userSettings.message_notifications || true,
+            emailNotifications: userSettings.email_notifications ?? true,
+            applicationUpdates: userSettings.application_updates ?? true,
+            messageNotifications: userSettings.message_notifications ?? true,
+            emailDigest: userSettings.email_digest || 'instant',
             profilePrivacy: userSettings.profile_privacy || 'public',
             showVerification: false
           });
@@ -94,6 +104,7 @@ export function JobSeekerSettings() {
           email_notifications: settings.emailNotifications,
           application_updates: settings.applicationUpdates,
           message_notifications: settings.messageNotifications,
+          email_digest: settings.emailDigest,
           profile_privacy: settings.profilePrivacy,
           updated_at: new Date().toISOString()
         }, { onConflict: 'user_id' });
@@ -227,8 +238,32 @@ export function JobSeekerSettings() {
                   onCheckedChange={() => handleSwitchChange('messageNotifications')}
                 />
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Mail className="h-4 w-4 text-gray-500" />
+                  <Label htmlFor="email-digest">Email Frequency</Label>
+                </div>
+                <Select
+                  value={settings.emailDigest}
+                  onValueChange={(value) => setSettings(prev => ({ ...prev, emailDigest: value as EmailDigestFrequency }))}
+                  disabled={!settings.emailNotifications}
+                >
+                  <SelectTrigger id="email-digest" className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="instant">As they happen</SelectItem>
+                    <SelectItem value="daily">Daily digest</SelectItem>
+                    <SelectItem value="weekly">Weekly digest</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </CardContent>
           </Card>
+
+          {/* Job Alerts */}
+          {user && <SavedSearchesSettings userId={user.id} />}
           
           {/* Privacy Settings */}
           <Card>
@@ -279,6 +314,13 @@ export function JobSeekerSettings() {
             </CardContent>
           </Card>
           
+          {user && <MessagingPrivacySettings userId={user.id} />}
+
+          {/* Security */}
+          <TwoFactorSettings />
+          <ActiveSessionsSettings />
+          <ConnectedAccountsSettings returnTo="/settings" />
+
           {/* Delete Account */}
           <Card className="border-red-200">
             <CardHeader>
@@ -1,11 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { LogOut, User, Briefcase, Home, Settings, FileText, Building2, Users, Mail, Calendar, Image, UserPlus, Users2, Menu, X, Loader2 } from 'lucide-react';
+import { LogOut, User, Briefcase, Home, Settings, FileText, Building2, Users, Mail, Calendar, Image, UserPlus, Users2, Menu, X, Loader2, Wallet } from 'lucide-react';
 import { UsersSidebar } from './UsersSidebar';
 import { supabase } from '../services/supabase';
 import type { Profile } from '../types/database';
 import { toast } from 'sonner';
+import { LAST_SEEN_INTERVAL_MS, messageStatusService } from '../services/messageStatusService';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -22,6 +23,7 @@ export function Layout({ children }: LayoutProps) {
   const [isLeftSidebarOpen, setIsLeftSidebarOpen] = useState(false);
   const [isRightSidebarOpen, setIsRightSidebarOpen] = useState(false);
   const [isSwitchingRole, setIsSwitchingRole] = useState(false);
+  const [unreadMessageCount, setUnreadMessageCount] = useState(0);
 
   const handleSignOut = async () => {
     try {
@@ -114,6 +116,69 @@ export function Layout({ children }: LayoutProps) {
     fetchProfile();
   }, [user]);
 
+  // Unread messages for the navbar badge. Having the app open also marks new
+  // messages as delivered and keeps the user's "last seen" current.
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchUnreadCount = async () => {
+      try {
+        const counts = await messageStatusService.getUnreadCounts();
+        setUnreadMessageCount(counts.reduce((total, count) => total + count.unread_count, 0));
+      } catch (error) {
+        console.error('Error fetching unread messages:', error);
+      }
+    };
+
+    const markDelivered = () => {
+      messageStatusService.markDelivered().catch(error => console.error('Error marking messages delivered:', error));
+    };
+
+    const touchLastSeen = () => {
+      if (document.visibilityState !== 'visible') return;
+      messageStatusService.touchLastSeen().catch(error => console.error('Error updating last seen:', error));
+    };
+
+    fetchUnreadCount();
+    markDelivered();
+    touchLastSeen();
+    const heartbeat = window.setInterval(touchLastSeen, LAST_SEEN_INTERVAL_MS);
+    document.addEventListener('visibilitychange', touchLastSeen);
+
+    const messagesChannel = supabase
+      .channel('navbar-unread-messages')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `recipient_id=eq.${user.id}`
+        },
+        () => {
+          markDelivered();
+          fetchUnreadCount();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `recipient_id=eq.${user.id}`
+        },
+        () => fetchUnreadCount()
+      )
+      .subscribe();
+
+    return () => {
+      window.clearInterval(heartbeat);
+      document.removeEventListener('visibilitychange', touchLastSeen);
+      supabase.removeChannel(messagesChannel);
+    };
+  }, [user]);
+
   const isActive = (path: string) => {
     return location.pathname === path;
   };
@@ -122,6 +187,7 @@ export function Layout({ children }: LayoutProps) {
     { name: 'Dashboard', href: '/dashboard', icon: Home },
     { name: 'Profile', href: '/profile/edit', icon: User },
     { name: 'Applications', href: '/applications', icon: FileText },
+    { name: 'Earnings', href: '/earnings', icon: Wallet },
     { name: 'Settings', href: '/settings', icon: Settings },
   ];
 
@@ -191,6 +257,22 @@ export function Layout({ children }: LayoutProps) {
 
           {/* User Actions */}
           <div className="flex items-center space-x-4">
+            {/* Messages */}
+            {user && (
+              <Link
+                to="/messages"
+                className="relative p-2 rounded-md text-gray-600 hover:text-blue-600 hover:bg-gray-100"
+                aria-label={unreadMessageCount > 0 ? `Messages, ${unreadMessageCount} unread` : 'Messages'}
+              >
+                <Mail className="h-5 w-5" />
+                {unreadMessageCount > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 bg-red-500 text-white rounded-full flex items-center justify-center text-xs">
+                    {unreadMessageCount > 99 ? '99+' : unreadMessageCount}
+                  </span>
+                )}
+              </Link>
+            )}
+
             {/* Role Indicator and Switch */}
             {profile && (
               <Link
@@ -0,0 +1,45 @@
+import { MatchResult } from '../utils/jobMatching';
+import { Badge } from './ui/badge';
+
+interface MatchBreakdownProps {
+  match: MatchResult;
+  compact?: boolean;
+}
+
+const scoreColor = (score: number) => {
+  if (score >= 75) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-700';
+};
+
+export function MatchScoreBadge({ score }: { score: number }) {
+  return (
+    <Badge variant="secondary" className={`whitespace-nowrap text-xs font-semibold ${scoreColor(score)}`}>
+      {score}% match
+    </Badge>
+  );
+}
+
+export function MatchBreakdown({ match, compact = false }: MatchBreakdownProps) {
+  return (
+    <div className="space-y-2">
+      {match.factors.map((factor) => (
+        <div key={factor.key}>
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span className="font-medium">{factor.label}</span>
+            <span>{Math.round(factor.score * 100)}%</span>
+          </div>
+          <div className="mt-1 h-1.5 w-full rounded-full bg-gray-100">
+            <div
+              className="h-1.5 rounded-full bg-blue-500"
+              style={{ width: `${Math.round(factor.score * 100)}%` }}
+            />
+          </div>
+          {!compact && (
+            <p className="mt-0.5 text-xs text-gray-500 line-clamp-1">{factor.detail}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { CheckCheck, MessageSquare } from 'lucide-react';
+import { toast } from 'sonner';
+import { messageStatusService } from '../services/messageStatusService';
+
+interface MessagingPrivacySettingsProps {
+  userId: string;
+}
+
+// Whether people the user messages can see when their messages were read.
+// Changes save right away.
+export function MessagingPrivacySettings({ userId }: MessagingPrivacySettingsProps) {
+  const [readReceipts, setReadReceipts] = useState(true);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSetting = async () => {
+      try {
+        setReadReceipts(await messageStatusService.getReadReceipts(userId));
+      } catch (error) {
+        console.error('Error fetching read receipts setting:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSetting();
+  }, [userId]);
+
+  const toggleReadReceipts = async (enabled: boolean) => {
+    setReadReceipts(enabled);
+    try {
+      await messageStatusService.setReadReceipts(userId, enabled);
+    } catch (error) {
+      setReadReceipts(!enabled);
+      console.error('Error updating read receipts setting:', error);
+      toast.error('Failed to update read receipts');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5 text-primary" />
+          Messaging Privacy
+        </CardTitle>
+        <CardDescription>
+          Choose what people you message can see
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-start space-x-2">
+            <CheckCheck className="h-4 w-4 mt-0.5 text-gray-500" />
+            <div>
+              <Label htmlFor="read-receipts">Read Receipts</Label>
+              <p className="text-xs text-gray-500">
+                When off, senders see that their message was delivered but not when you read it.
+              </p>
+            </div>
+          </div>
+          <Switch
+            id="read-receipts"
+            checked={readReceipts}
+            disabled={loading}
+            onCheckedChange={toggleReadReceipts}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
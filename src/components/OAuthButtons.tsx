@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Github, Linkedin, Loader2 } from 'lucide-react';
+import { OAuthProvider, oauthProviderLabels, oauthProviders, oauthService } from '../services/oauthService';
+
+interface OAuthButtonsProps {
+  disabled?: boolean;
+  onError: (message: string) => void;
+}
+
+function GoogleIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" aria-hidden="true">
+      <path fill="#4285F4" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92a5.06 5.06 0 0 1-2.2 3.32v2.76h3.57c2.08-1.92 3.27-4.74 3.27-8.09z" />
+      <path fill="#34A853" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.76c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84A11 11 0 0 0 12 23z" />
+      <path fill="#FBBC05" d="M5.84 14.11A6.6 6.6 0 0 1 5.5 12c0-.73.13-1.44.34-2.11V7.05H2.18A11 11 0 0 0 1 12c0 1.77.43 3.45 1.18 4.95l3.66-2.84z" />
+      <path fill="#EA4335" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1A11 11 0 0 0 2.18 7.05l3.66 2.84C6.71 7.31 9.14 5.38 12 5.38z" />
+    </svg>
+  );
+}
+
+const providerIcons: Record<OAuthProvider, JSX.Element> = {
+  google: <GoogleIcon className="h-5 w-5" />,
+  linkedin_oidc: <Linkedin className="h-5 w-5 text-[#0A66C2]" />,
+  github: <Github className="h-5 w-5 text-gray-900" />,
+};
+
+// Social sign-in for SignIn and SignUp. New accounts land on SelectRole via
+// AuthCallback.
+export function OAuthButtons({ disabled, onError }: OAuthButtonsProps) {
+  const [redirecting, setRedirecting] = useState<OAuthProvider | null>(null);
+
+  const handleClick = async (provider: OAuthProvider) => {
+    try {
+      setRedirecting(provider);
+      await oauthService.signInWithProvider(provider);
+    } catch (err) {
+      console.error('OAuth sign in error:', err);
+      onError(err instanceof Error ? err.message : `Could not continue with ${oauthProviderLabels[provider]}`);
+      setRedirecting(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-3">
+      {oauthProviders.map(provider => (
+        <button
+          key={provider}
+          type="button"
+          onClick={() => handleClick(provider)}
+          disabled={disabled || redirecting !== null}
+          className="w-full inline-flex justify-center items-center py-3 px-4 border border-gray-200 rounded-lg shadow-sm bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          aria-label={`Continue with ${oauthProviderLabels[provider]}`}
+          title={oauthProviderLabels[provider]}
+        >
+          {redirecting === provider ? <Loader2 className="h-5 w-5 animate-spin text-gray-400" /> : providerIcons[provider]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { Loader2, X } from 'lucide-react';
+import { OcrProgress } from '../services/ocrService';
+import { Button } from './ui/button';
+
+interface OcrProgressIndicatorProps {
+  status: string;
+  progress: OcrProgress | null;
+  onCancel?: () => void;
+}
+
+// Rendering and preprocessing are quick next to recognition
+const STAGE_WEIGHTS = { rendering: 0, preprocessing: 0.1, recognizing: 0.9 };
+
+const overallProgress = ({ page, pageCount, stage, progress }: OcrProgress) => {
+  const withinPage = stage === 'recognizing'
+    ? STAGE_WEIGHTS.preprocessing + STAGE_WEIGHTS.recognizing * progress
+    : stage === 'preprocessing' ? STAGE_WEIGHTS.preprocessing * progress : 0;
+  return Math.min(1, (page - 1 + withinPage) / pageCount);
+};
+
+export function OcrProgressIndicator({ status, progress, onCancel }: OcrProgressIndicatorProps) {
+  const percent = progress ? Math.round(overallProgress(progress) * 100) : null;
+
+  return (
+    <div className="p-4 bg-blue-50 text-blue-700 rounded-lg space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center text-sm">
+          <Loader2 className="animate-spin h-5 w-5 mr-3 shrink-0" />
+          {status}
+        </div>
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} className="text-blue-700 hover:text-blue-900">
+            <X className="h-4 w-4 mr-1" /> Cancel
+          </Button>
+        )}
+      </div>
+      {progress && percent !== null && (
+        <div>
+          <div className="flex items-center justify-between text-xs">
+            <span>Page {progress.page} of {progress.pageCount}</span>
+            <span>{percent}%</span>
+          </div>
+          <div className="mt-1 h-1.5 w-full rounded-full bg-blue-100">
+            <div className="h-1.5 rounded-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../services/supabase';
 import type { Profile } from '../types/database';
-import { Upload, X, Plus, Trash2, Link as LinkIcon, FileText, Download, Eye } from 'lucide-react';
+import { resumeService } from '../services/resumeService';
+import { isParseableResume, mergeResumeIntoProfile, ParsedResume } from '../utils/resumeParser';
+import { ResumeReviewDialog } from './ResumeReviewDialog';
+import { Upload, X, Plus, Trash2, Link as LinkIcon, FileText, Download, Eye, Loader2 } from 'lucide-react';
 
 export function ProfileEdit() {
   const { user } = useAuth();
@@ -22,6 +25,9 @@ export function ProfileEdit() {
   const [resumeFile, setResumeFile] = useState<File | null>(null);
   const [newPortfolioLink, setNewPortfolioLink] = useState('');
   const [resumeUrl, setResumeUrl] = useState<string | null>(null);
+  const [parsingResume, setParsingResume] = useState(false);
+  const [parsedResume, setParsedResume] = useState<ParsedResume | null>(null);
+  const [isResumeReviewOpen, setIsResumeReviewOpen] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -79,6 +85,32 @@ export function ProfileEdit() {
     const file = e.target.files?.[0];
     if (!file) return;
     setResumeFile(file);
+
+    if (!isParseableResume(file)) return;
+
+    try {
+      setParsingResume(true);
+      setParsedResume(await resumeService.parseResumeFile(file));
+      setIsResumeReviewOpen(true);
+    } catch (err) {
+      console.error('Error parsing resume:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read resume');
+    } finally {
+      setParsingResume(false);
+    }
+  };
+
+  const handleResumeConfirm = (resume: ParsedResume) => {
+    setProfile(prev => ({ ...prev, ...mergeResumeIntoProfile(prev, resume) }));
+    setIsResumeReviewOpen(false);
+    setSuccess('Resume details added. Save your changes to keep them.');
+  };
+
+  const removeProfileEntry = (key: 'education' | 'work_experience' | 'certifications', index: number) => {
+    setProfile(prev => ({
+      ...prev,
+      [key]: prev[key]?.filter((_, i) => i !== index)
+    }));
   };
 
   const handlePortfolioImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -450,10 +482,69 @@ export function ProfileEdit() {
                   onChange={handleResumeUpload}
                 />
               </label>
+              {parsingResume && (
+                <span className="ml-3 inline-flex items-center text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  Reading resume...
+                </span>
+              )}
+              {!parsingResume && parsedResume && (
+                <button
+                  type="button"
+                  onClick={() => setIsResumeReviewOpen(true)}
+                  className="ml-3 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Review resume details
+                </button>
+              )}
             </div>
           </div>
         </div>
 
+        {/* Experience, Education & Certifications */}
+        {([
+          ['work_experience', 'Work Experience'],
+          ['education', 'Education'],
+          ['certifications', 'Certifications'],
+        ] as const).map(([key, label]) => (profile[key]?.length ?? 0) > 0 && (
+          <div key={key}>
+            <label className="block text-sm font-medium text-gray-700">{label}</label>
+            <ul className="mt-2 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {profile[key]?.map((entry, index) => (
+                <li key={index} className="flex items-center justify-between px-3 py-2">
+                  <div className="text-sm">
+                    {'position' in entry && (
+                      <>
+                        <p className="font-medium text-gray-900">{entry.position}</p>
+                        <p className="text-gray-500">{[entry.company, entry.start_date, entry.current ? 'Present' : entry.end_date].filter(Boolean).join(' · ')}</p>
+                      </>
+                    )}
+                    {'institution' in entry && (
+                      <>
+                        <p className="font-medium text-gray-900">{entry.institution}</p>
+                        <p className="text-gray-500">{[entry.degree, entry.field].filter(Boolean).join(', ')}</p>
+                      </>
+                    )}
+                    {'issuer' in entry && (
+                      <>
+                        <p className="font-medium text-gray-900">{entry.name}</p>
+                        <p className="text-gray-500">{[entry.issuer, entry.issue_date].filter(Boolean).join(' · ')}</p>
+                      </>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeProfileEntry(key, index)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+
         <div>
           <button
             type="submit"
@@ -464,6 +555,13 @@ export function ProfileEdit() {
           </button>
         </div>
       </form>
+
+      <ResumeReviewDialog
+        open={isResumeReviewOpen}
+        onOpenChange={setIsResumeReviewOpen}
+        resume={parsedResume}
+        onConfirm={handleResumeConfirm}
+      />
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../services/supabase';
+import { JobPost } from '../types/database';
+import { MatchResult, MatchableProfile, rankJobsForProfile } from '../utils/jobMatching';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Skeleton } from './ui/skeleton';
+import { MatchBreakdown, MatchScoreBadge } from './MatchBreakdown';
+import { Briefcase, ExternalLink, MapPin, Sparkles } from 'lucide-react';
+
+interface RecommendedJobsProps {
+  userId?: string;
+  onJobSelect: (jobId: string) => void;
+  limit?: number;
+}
+
+// How many recent active posts are scored client-side
+const CANDIDATE_POOL_SIZE = 200;
+
+export function RecommendedJobs({ userId, onJobSelect, limit = 9 }: RecommendedJobsProps) {
+  const [recommendations, setRecommendations] = useState<{ job: JobPost; match: MatchResult }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRecommendations = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('skills, years_of_experience, location, availability')
+        .eq('id', userId)
+        .single();
+
+      if (profileError) throw profileError;
+
+      const { data: applied, error: appliedError } = await supabase
+        .from('job_applications')
+        .select('job_post_id')
+        .eq('job_seeker_id', userId);
+
+      if (appliedError) throw appliedError;
+
+      const appliedIds = new Set(applied?.map(item => item.job_post_id) || []);
+
+      const { data: jobs, error: jobsError } = await supabase
+        .from('job_posts')
+        .select('*')
+        .eq('status', 'active')
+        .order('created_at', { ascending: false })
+        .limit(CANDIDATE_POOL_SIZE);
+
+      if (jobsError) throw jobsError;
+
+      const ranked = rankJobsForProfile(
+        profile as MatchableProfile,
+        (jobs || []).filter(job => !appliedIds.has(job.id)) as JobPost[]
+      );
+
+      setRecommendations(ranked.slice(0, limit));
+    } catch (err) {
+      console.error('Error fetching recommended jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recommendations');
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, limit]);
+
+  useEffect(() => {
+    if (userId) {
+      fetchRecommendations();
+    }
+  }, [userId, fetchRecommendations]);
+
+  if (loading) {
+    return (
+      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+        {[...Array(3)].map((_, i) => (
+          <Card key={i} className="p-6 space-y-3">
+            <Skeleton className="h-4 w-[200px]" />
+            <Skeleton className="h-3 w-[150px]" />
+            <Skeleton className="h-3 w-full" />
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg bg-red-50 p-4 text-center">
+        <div className="text-red-800 font-medium">Error loading recommendations</div>
+        <div className="text-red-600 text-sm mt-1">{error}</div>
+      </div>
+    );
+  }
+
+  if (recommendations.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed border-gray-200 p-8 text-center text-gray-500">
+        <Sparkles className="mx-auto mb-2 h-6 w-6 text-gray-400" />
+        No recommendations yet. Add skills, location and availability to your profile to get matched.
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+      {recommendations.map(({ job, match }) => (
+        <Card key={job.id} className="group hover:shadow-lg transition-all duration-300 border border-gray-200">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 pb-2">
+            <div className="flex items-start space-x-3">
+              <div className="w-10 h-10 rounded-full bg-primary/5 flex items-center justify-center border border-primary/10">
+                <Briefcase className="w-5 h-5 text-primary/60" />
+              </div>
+              <div>
+                <CardTitle className="text-base line-clamp-1">{job.title}</CardTitle>
+                <p className="text-sm text-gray-500 line-clamp-1">{job.company_name}</p>
+              </div>
+            </div>
+            <MatchScoreBadge score={match.score} />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <MapPin className="w-4 h-4 text-gray-400" />
+              <span className="line-clamp-1">{job.location}</span>
+            </div>
+
+            <MatchBreakdown match={match} />
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => onJobSelect(job.id)}
+            >
+              <span>View Details</span>
+              <ExternalLink className="w-4 h-4 ml-2" />
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
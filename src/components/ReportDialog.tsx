@@ -3,8 +3,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from './ui/button';
 import { Label } from './ui/label';
 import { Textarea } from './ui/textarea';
+import { Switch } from './ui/switch';
 import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { supabase } from '../services/supabase';
+import { conversationService } from '../services/conversationService';
 import { useAuth } from '../context/AuthContext';
 import { toast } from './ui/use-toast';
 import { AlertTriangle } from 'lucide-react';
@@ -15,6 +17,9 @@ interface ReportDialogProps {
   targetId: string;
   targetType: 'user' | 'job' | 'message';
   targetName: string;
+  // For reported messages: the sender, who can be blocked in the same step
+  sender?: { id: string; name: string };
+  onBlocked?: () => void;
 }
 
 const reportReasons = {
@@ -44,10 +49,11 @@ const reportReasons = {
   ]
 };
 
-export function ReportDialog({ open, onOpenChange, targetId, targetType, targetName }: ReportDialogProps) {
+export function ReportDialog({ open, onOpenChange, targetId, targetType, targetName, sender, onBlocked }: ReportDialogProps) {
   const { user } = useAuth();
   const [reason, setReason] = useState<string>('');
   const [details, setDetails] = useState<string>('');
+  const [blockSender, setBlockSender] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async () => {
@@ -86,14 +92,23 @@ export function ReportDialog({ open, onOpenChange, targetId, targetType, targetN
 
       if (error) throw error;
 
+      const blocked = sender && blockSender;
+      if (blocked) {
+        await conversationService.blockUser(user.id, sender.id);
+        onBlocked?.();
+      }
+
       toast({
         title: "Report Submitted",
-        description: "Thank you for your report. Our team will review it shortly.",
+        description: blocked
+          ? `Thank you for your report. ${sender.name} is blocked and can no longer message you.`
+          : "Thank you for your report. Our team will review it shortly.",
       });
 
       // Reset form and close dialog
       setReason('');
       setDetails('');
+      setBlockSender(false);
       onOpenChange(false);
     } catch (error) {
       console.error('Error submitting report:', error);
@@ -153,6 +168,16 @@ export function ReportDialog({ open, onOpenChange, targetId, targetType, targetN
               className="min-h-[100px]"
             />
           </div>
+
+          {targetType === 'message' && sender && (
+            <div className="flex items-center justify-between gap-4 rounded-md border border-gray-200 p-3">
+              <div>
+                <Label htmlFor="block-sender">Block {sender.name}</Label>
+                <p className="text-xs text-gray-500">They will not be able to message you until you unblock them.</p>
+              </div>
+              <Switch id="block-sender" checked={blockSender} onCheckedChange={setBlockSender} />
+            </div>
+          )}
         </div>
 
         <DialogFooter>
@@ -162,7 +187,7 @@ export function ReportDialog({ open, onOpenChange, targetId, targetType, targetN
             disabled={isSubmitting || !reason}
             className="bg-red-600 hover:bg-red-700 text-white"
           >
-            {isSubmitting ? 'Submitting...' : 'Submit Report'}
+            {isSubmitting ? 'Submitting...' : sender && blockSender ? 'Report and Block' : 'Submit Report'}
           </Button>
         </DialogFooter>
       </DialogContent>
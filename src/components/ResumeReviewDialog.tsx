@@ -0,0 +1,271 @@
+import { useEffect, useState } from 'react';
+import { Award, Briefcase, GraduationCap, Link as LinkIcon, Loader2, Trash2, X } from 'lucide-react';
+import { ParsedResume } from '../utils/resumeParser';
+import { SocialLinks } from '../types/database';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface ResumeReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  resume: ParsedResume | null;
+  saving?: boolean;
+  onConfirm: (resume: ParsedResume) => void;
+}
+
+const socialLinkFields: { key: keyof SocialLinks; label: string }[] = [
+  { key: 'linkedin', label: 'LinkedIn' },
+  { key: 'github', label: 'GitHub' },
+  { key: 'portfolio', label: 'Portfolio' },
+  { key: 'twitter', label: 'Twitter / X' },
+];
+
+function SectionHeading({ icon: Icon, title }: { icon: typeof Briefcase; title: string }) {
+  return (
+    <h3 className="text-sm font-semibold text-gray-900 flex items-center mb-3">
+      <Icon className="h-4 w-4 mr-2 text-blue-600" />
+      {title}
+    </h3>
+  );
+}
+
+export function ResumeReviewDialog({ open, onOpenChange, resume, saving, onConfirm }: ResumeReviewDialogProps) {
+  const [draft, setDraft] = useState<ParsedResume | null>(resume);
+
+  useEffect(() => {
+    if (open) setDraft(resume);
+  }, [open, resume]);
+
+  if (!draft) return null;
+
+  const update = <K extends keyof ParsedResume>(key: K, value: ParsedResume[K]) => {
+    setDraft(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const updateEntry = <K extends 'education' | 'work_experience' | 'certifications'>(
+    key: K,
+    index: number,
+    changes: Partial<ParsedResume[K][number]>
+  ) => {
+    update(key, draft[key].map((entry, i) => (i === index ? { ...entry, ...changes } : entry)) as ParsedResume[K]);
+  };
+
+  const removeEntry = <K extends 'education' | 'work_experience' | 'certifications'>(key: K, index: number) => {
+    update(key, draft[key].filter((_, i) => i !== index) as ParsedResume[K]);
+  };
+
+  const isEmpty =
+    draft.skills.length === 0 &&
+    draft.education.length === 0 &&
+    draft.work_experience.length === 0 &&
+    draft.certifications.length === 0 &&
+    Object.values(draft.social_links).every(url => !url);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Review Your Resume Details</DialogTitle>
+          <DialogDescription>
+            We read these details from your resume. Correct or remove anything that looks wrong, then confirm to add
+            them to your profile. Existing profile details are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[60vh] overflow-y-auto pr-1">
+          {isEmpty && (
+            <p className="text-sm text-gray-500">
+              We couldn't find any structured details in this resume. You can still fill in your profile manually.
+            </p>
+          )}
+
+          {draft.work_experience.length > 0 && (
+            <div>
+              <SectionHeading icon={Briefcase} title="Work Experience" />
+              <div className="space-y-4">
+                {draft.work_experience.map((entry, index) => (
+                  <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={entry.position}
+                        onChange={(e) => updateEntry('work_experience', index, { position: e.target.value })}
+                        placeholder="Position"
+                      />
+                      <Input
+                        value={entry.company}
+                        onChange={(e) => updateEntry('work_experience', index, { company: e.target.value })}
+                        placeholder="Company"
+                      />
+                      <Button variant="ghost" size="icon" onClick={() => removeEntry('work_experience', index)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={entry.location}
+                        onChange={(e) => updateEntry('work_experience', index, { location: e.target.value })}
+                        placeholder="Location"
+                      />
+                      <Input
+                        type="month"
+                        value={entry.start_date}
+                        onChange={(e) => updateEntry('work_experience', index, { start_date: e.target.value })}
+                      />
+                      <Input
+                        type="month"
+                        value={entry.end_date || ''}
+                        disabled={entry.current}
+                        onChange={(e) => updateEntry('work_experience', index, { end_date: e.target.value })}
+                      />
+                    </div>
+                    <Textarea
+                      value={[entry.description, ...(entry.achievements || [])].filter(Boolean).join('\n')}
+                      onChange={(e) => updateEntry('work_experience', index, { description: e.target.value, achievements: [] })}
+                      placeholder="Responsibilities and achievements"
+                      className="min-h-[80px]"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {draft.education.length > 0 && (
+            <div>
+              <SectionHeading icon={GraduationCap} title="Education" />
+              <div className="space-y-4">
+                {draft.education.map((entry, index) => (
+                  <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <div className="flex gap-2">
+                      <Input
+                        value={entry.institution}
+                        onChange={(e) => updateEntry('education', index, { institution: e.target.value })}
+                        placeholder="School"
+                      />
+                      <Button variant="ghost" size="icon" onClick={() => removeEntry('education', index)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        value={entry.degree}
+                        onChange={(e) => updateEntry('education', index, { degree: e.target.value })}
+                        placeholder="Degree"
+                      />
+                      <Input
+                        value={entry.field}
+                        onChange={(e) => updateEntry('education', index, { field: e.target.value })}
+                        placeholder="Field of study"
+                      />
+                      <Input
+                        type="month"
+                        value={entry.start_date}
+                        onChange={(e) => updateEntry('education', index, { start_date: e.target.value })}
+                      />
+                      <Input
+                        type="month"
+                        value={entry.end_date || ''}
+                        disabled={entry.current}
+                        onChange={(e) => updateEntry('education', index, { end_date: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {draft.certifications.length > 0 && (
+            <div>
+              <SectionHeading icon={Award} title="Certifications" />
+              <div className="space-y-2">
+                {draft.certifications.map((entry, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      value={entry.name}
+                      onChange={(e) => updateEntry('certifications', index, { name: e.target.value })}
+                      placeholder="Certification"
+                    />
+                    <Input
+                      value={entry.issuer}
+                      onChange={(e) => updateEntry('certifications', index, { issuer: e.target.value })}
+                      placeholder="Issuer"
+                    />
+                    <Input
+                      type="month"
+                      value={entry.issue_date}
+                      onChange={(e) => updateEntry('certifications', index, { issue_date: e.target.value })}
+                      className="w-[170px]"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => removeEntry('certifications', index)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {draft.skills.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Skills</h3>
+              <div className="flex flex-wrap gap-2">
+                {draft.skills.map((skill) => (
+                  <Badge key={skill} variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                    {skill}
+                    <button
+                      type="button"
+                      onClick={() => update('skills', draft.skills.filter(item => item !== skill))}
+                      className="ml-1 text-blue-600 hover:text-blue-800"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <SectionHeading icon={LinkIcon} title="Links" />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {socialLinkFields.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`resume-${key}`}>{label}</Label>
+                  <Input
+                    id={`resume-${key}`}
+                    type="url"
+                    value={draft.social_links[key] || ''}
+                    onChange={(e) => update('social_links', { ...draft.social_links, [key]: e.target.value })}
+                    placeholder="https://"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Skip
+          </Button>
+          <Button onClick={() => onConfirm(draft)} disabled={saving || isEmpty}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add to Profile
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+import { toSafeHtml } from '../utils/richText';
+
+interface RichTextProps {
+  value: string | null | undefined;
+  className?: string;
+}
+
+// Tailwind's reset strips list and heading styles, so restore the ones the
+// editor can produce
+const richTextStyles = [
+  '[&_p]:mb-2 [&_p:last-child]:mb-0',
+  '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&_ul]:mb-2 [&_ol]:mb-2',
+  '[&_.ql-indent-1]:ml-6 [&_.ql-indent-2]:ml-12 [&_.ql-indent-3]:ml-16',
+  '[&_h2]:text-lg [&_h2]:font-semibold [&_h3]:font-semibold [&_h4]:font-medium [&_h2]:mb-2 [&_h3]:mb-2',
+  '[&_blockquote]:border-l-4 [&_blockquote]:border-gray-200 [&_blockquote]:pl-3 [&_blockquote]:italic',
+  '[&_a]:text-blue-600 [&_a]:underline',
+].join(' ');
+
+// Renders a stored job post field. The value is sanitized here on every render.
+export function RichText({ value, className = '' }: RichTextProps) {
+  const html = useMemo(() => toSafeHtml(value), [value]);
+
+  return <div className={`${richTextStyles} ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,38 @@
+import ReactQuill from 'react-quill';
+import 'react-quill/dist/quill.snow.css';
+
+interface RichTextEditorProps {
+  id?: string;
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Only formats that survive sanitizeRichText (src/utils/richText.ts)
+const modules = {
+  toolbar: [
+    [{ header: [2, 3, false] }],
+    ['bold', 'italic', 'underline', 'strike'],
+    [{ list: 'ordered' }, { list: 'bullet' }, { indent: '-1' }, { indent: '+1' }],
+    ['blockquote', 'link'],
+    ['clean'],
+  ],
+};
+
+const formats = ['header', 'bold', 'italic', 'underline', 'strike', 'list', 'bullet', 'indent', 'blockquote', 'link'];
+
+export function RichTextEditor({ id, value, onChange, placeholder, className = '' }: RichTextEditorProps) {
+  return (
+    <ReactQuill
+      id={id}
+      theme="snow"
+      value={value}
+      onChange={onChange}
+      modules={modules}
+      formats={formats}
+      placeholder={placeholder}
+      className={`bg-white [&_.ql-editor]:min-h-[160px] ${className}`}
+    />
+  );
+}
@@ -2,6 +2,7 @@ import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../services/supabase';
+import { MfaChallenge } from './security/MfaChallenge';
 
 interface RoleProtectedRouteProps {
   children: React.ReactNode;
@@ -10,13 +11,14 @@ interface RoleProtectedRouteProps {
 }
 
 export function RoleProtectedRoute({ children, allowedRoles, fallbackPath }: RoleProtectedRouteProps) {
-  const { user, loading } = useAuth();
+  const { user, loading, mfaPending } = useAuth();
   const [userRole, setUserRole] = React.useState<string | null>(null);
   const [roleLoading, setRoleLoading] = React.useState(true);
 
   React.useEffect(() => {
     const fetchUserRole = async () => {
-      if (!user) return;
+      // Profiles are not readable until the second factor is verified
+      if (!user || mfaPending) return;
       
       try {
         const { data, error } = await supabase
@@ -35,7 +37,11 @@ export function RoleProtectedRoute({ children, allowedRoles, fallbackPath }: Rol
     };
 
     fetchUserRole();
-  }, [user]);
+  }, [user, mfaPending]);
+
+  if (user && mfaPending) {
+    return <MfaChallenge />;
+  }
 
   if (loading || roleLoading) {
     return <div>Loading...</div>;
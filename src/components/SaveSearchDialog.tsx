@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { useToast } from './ui/use-toast';
+import { BellPlus } from 'lucide-react';
+import { savedSearchService, describeFilters } from '../services/savedSearchService';
+import { JobSearchFilters, SavedSearchFrequency, savedSearchFrequencyLabels } from '../types/search';
+
+interface SaveSearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  filters: JobSearchFilters;
+}
+
+export function SaveSearchDialog({ open, onOpenChange, userId, filters }: SaveSearchDialogProps) {
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<SavedSearchFrequency>('instant');
+  const [notifyInApp, setNotifyInApp] = useState(true);
+  const [notifyEmail, setNotifyEmail] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Start from a name that describes the current filters
+  useEffect(() => {
+    if (open) setName(describeFilters(filters));
+  }, [open, filters]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await savedSearchService.createSavedSearch(userId, {
+        name,
+        filters,
+        frequency,
+        notify_in_app: notifyInApp,
+        notify_email: notifyEmail,
+      });
+
+      toast({
+        title: "Search saved",
+        description: "We'll let you know when new jobs match. Manage your alerts in Settings.",
+      });
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error saving search:', err);
+      toast({
+        title: "Error",
+        description: "Failed to save search. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellPlus className="h-5 w-5 text-primary" />
+            Save Search
+          </DialogTitle>
+          <DialogDescription>
+            Get an alert when a new job matches {describeFilters(filters)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="saved-search-frequency">Alert me</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as SavedSearchFrequency)}>
+              <SelectTrigger id="saved-search-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(savedSearchFrequencyLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="saved-search-in-app">In-app notification</Label>
+            <Switch id="saved-search-in-app" checked={notifyInApp} onCheckedChange={setNotifyInApp} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="saved-search-email">Email</Label>
+            <Switch id="saved-search-email" checked={notifyEmail} onCheckedChange={setNotifyEmail} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? 'Saving...' : 'Save Search'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { savedSearchService, describeFilters } from '../services/savedSearchService';
+import { SavedSearch, SavedSearchFrequency, SavedSearchInput, savedSearchFrequencyLabels } from '../types/search';
+
+interface SavedSearchesSettingsProps {
+  userId: string;
+}
+
+type SavedSearchChanges = Partial<Omit<SavedSearchInput, 'filters'>>;
+
+// Job alerts for the searches saved from JobPostsList. Changes save right away.
+export function SavedSearchesSettings({ userId }: SavedSearchesSettingsProps) {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSearches = async () => {
+      try {
+        setSearches(await savedSearchService.getSavedSearches(userId));
+      } catch (error) {
+        console.error('Error fetching saved searches:', error);
+        toast.error('Failed to load saved searches');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSearches();
+  }, [userId]);
+
+  const updateSearch = async (id: string, changes: SavedSearchChanges) => {
+    try {
+      const updated = await savedSearchService.updateSavedSearch(id, changes);
+      setSearches(prev => prev.map(search => (search.id === id ? updated : search)));
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      toast.error('Failed to update saved search');
+    }
+  };
+
+  const deleteSearch = async (id: string) => {
+    try {
+      await savedSearchService.deleteSavedSearch(id);
+      setSearches(prev => prev.filter(search => search.id !== id));
+      toast.success('Saved search deleted');
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      toast.error('Failed to delete saved search');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="h-5 w-5 text-primary" />
+          Saved Searches
+        </CardTitle>
+        <CardDescription>
+          Get alerts when new jobs match a search. Save a search from the job list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading saved searches...</p>
+        ) : searches.length === 0 ? (
+          <p className="text-sm text-gray-500">You have no saved searches yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {searches.map(search => (
+              <div key={search.id} className="py-4 first:pt-0 last:pb-0 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h4 className="font-medium">{search.name}</h4>
+                    <p className="text-sm text-gray-500">{describeFilters(search.filters)}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-gray-400 hover:text-red-600"
+                    onClick={() => deleteSearch(search.id)}
+                    aria-label={`Delete ${search.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-6">
+                  <Select
+                    value={search.frequency}
+                    onValueChange={(value) => updateSearch(search.id, { frequency: value as SavedSearchFrequency })}
+                  >
+                    <SelectTrigger className="w-[180px]" aria-label="Alert frequency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(savedSearchFrequencyLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={`saved-search-in-app-${search.id}`}
+                      checked={search.notify_in_app}
+                      onCheckedChange={(checked) => updateSearch(search.id, { notify_in_app: checked })}
+                    />
+                    <Label htmlFor={`saved-search-in-app-${search.id}`}>In-app</Label>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={`saved-search-email-${search.id}`}
+                      checked={search.notify_email}
+                      onCheckedChange={(checked) => updateSearch(search.id, { notify_email: checked })}
+                    />
+                    <Label htmlFor={`saved-search-email-${search.id}`}>Email</Label>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,6 +11,8 @@ import {
   TooltipTrigger,
 } from "./ui/tooltip";
 import { ReportDialog } from './ReportDialog';
+import { messageStatusService } from '../services/messageStatusService';
+import { conversationService } from '../services/conversationService';
 
 interface UsersSidebarProps {
   onClose?: () => void;
@@ -71,36 +73,12 @@ export function UsersSidebar({ onClose }: UsersSidebarProps) {
     if (!user) return;
 
     try {
-      // Fetch conversations where the user is either user1 or user2
-      const { data: conversations, error: convError } = await supabase
-        .from('conversations')
-        .select(`
-          id,
-          user1_id,
-          user2_id,
-          messages!inner(
-            id,
-            sender_id,
-            read,
-            created_at
-          )
-        `)
-        .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
-        .order('created_at', { foreignTable: 'messages', ascending: false });
-
-      if (convError) throw convError;
-
+      const counts = await messageStatusService.getUnreadCounts();
       const newUnreadMessages: Record<string, number> = {};
 
-      conversations?.forEach(conv => {
-        const otherUserId = conv.user1_id === user.id ? conv.user2_id : conv.user1_id;
-        const unreadCount = conv.messages.filter(
-          msg => msg.sender_id !== user.id && !msg.read
-        ).length;
-
-        if (unreadCount > 0) {
-          newUnreadMessages[otherUserId] = unreadCount;
-        }
+      counts.forEach(count => {
+        if (!count.sender_id) return;
+        newUnreadMessages[count.sender_id] = (newUnreadMessages[count.sender_id] || 0) + count.unread_count;
       });
 
       setUnreadMessages(newUnreadMessages);
@@ -210,36 +188,7 @@ export function UsersSidebar({ onClose }: UsersSidebarProps) {
     }
 
     try {
-      // Check if conversation exists
-      const { data: existingConversation, error: checkError } = await supabase
-        .from('conversations')
-        .select('id')
-        .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
-        .or(`user1_id.eq.${targetUserId},user2_id.eq.${targetUserId}`)
-        .single();
-
-      if (checkError && checkError.code !== 'PGRST116') throw checkError;
-
-      let conversationId;
-
-      if (existingConversation) {
-        conversationId = existingConversation.id;
-      } else {
-        // Create new conversation
-        const { data: newConversation, error: createError } = await supabase
-          .from('conversations')
-          .insert({
-            user1_id: user.id,
-            user2_id: targetUserId,
-            created_at: new Date().toISOString()
-          })
-          .select('id')
-          .single();
-
-        if (createError) throw createError;
-        conversationId = newConversation.id;
-      }
-
+      const conversationId = await conversationService.getOrCreateConversation(targetUserId);
       navigate(`/messages/${conversationId}`);
     } catch (error) {
       console.error('Error starting chat:', error);
@@ -252,17 +201,20 @@ export function UsersSidebar({ onClose }: UsersSidebarProps) {
     fetchUnreadMessages();
 
     // Set up realtime subscriptions
-    const messagesChannel = supabase.channel('messages-changes')
+    // Counts drop when the conversation is opened and its messages are marked
+    // read, which arrives here as an UPDATE
+    const messagesChannel = supabase.channel('users-sidebar-messages')
       .on(
         'postgres_changes',
         {
           event: 'INSERT',
           schema: 'public',
-          table: 'messages'
+          table: 'messages',
+          filter: `recipient_id=eq.${user?.id}`
         },
         async (payload) => {
           const newMessage = payload.new as any;
-          if (newMessage.recipient_id === user?.id && !newMessage.read) {
+          if (!newMessage.read && newMessage.sender_id) {
             setUnreadMessages(prev => ({
               ...prev,
               [newMessage.sender_id]: (prev[newMessage.sender_id] || 0) + 1
@@ -302,35 +254,6 @@ export function UsersSidebar({ onClose }: UsersSidebarProps) {
     };
   }, [user, userRole, showAllUsers]);
 
-  const markMessagesAsRead = async (senderId: string) => {
-    if (!user) return;
-
-    try {
-      const { data: conversations } = await supabase
-        .from('conversations')
-        .select('id')
-        .or(`and(user1_id.eq.${user.id},user2_id.eq.${senderId}),and(user1_id.eq.${senderId},user2_id.eq.${user.id})`)
-        .single();
-
-      if (conversations) {
-        await supabase
-          .from('messages')
-          .update({ read: true })
-          .eq('conversation_id', conversations.id)
-          .eq('recipient_id', user.id)
-          .eq('read', false);
-
-        setUnreadMessages(prev => {
-          const next = { ...prev };
-          delete next[senderId];
-          return next;
-        });
-      }
-    } catch (error) {
-      console.error('Error marking messages as read:', error);
-    }
-  };
-
   const handleReportUser = (userId: string, userName: string) => {
     setReportTarget({
       id: userId,
@@ -443,10 +366,7 @@ export function UsersSidebar({ onClose }: UsersSidebarProps) {
                         <Tooltip>
                           <TooltipTrigger asChild>
                             <button
-                              onClick={() => {
-                                markMessagesAsRead(userProfile.id);
-                                handleStartChat(userProfile.id, userProfile.full_name || 'User');
-                              }}
+                              onClick={() => handleStartChat(userProfile.id, userProfile.full_name || 'User')}
                               className="p-2 rounded-full bg-blue-50 text-blue-600 hover:bg-blue-100 transition-colors"
                             >
                               <MessageCircle className="h-4 w-4" />
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAdminAuth } from '../../context/AdminAuthContext';
 import {
@@ -11,14 +11,22 @@ import {
   User,
   BarChart,
   ShieldCheck,
-  ClipboardList  // Add this import for the applications icon
+  ClipboardList,  // Add this import for the applications icon
+  History
 } from 'lucide-react';
 
 export function AdminLayout({ children }: { children: React.ReactNode }) {
-  const { adminSignOut } = useAdminAuth();
+  const { adminSignOut, isAdmin, loading } = useAdminAuth();
   const navigate = useNavigate();
   const location = useLocation();
 
+  // Leave the panel as soon as the server no longer reports the admin role
+  useEffect(() => {
+    if (!loading && !isAdmin) {
+      navigate('/admin/login', { replace: true });
+    }
+  }, [isAdmin, loading, navigate]);
+
   const navigation = [
     { name: 'Dashboard', href: '/admin/dashboard', icon: BarChart },
     { name: 'Employers', href: '/admin/employers', icon: Briefcase },
@@ -28,12 +36,17 @@ export function AdminLayout({ children }: { children: React.ReactNode }) {
     { name: 'Applications', href: '/admin/applications', icon: ClipboardList },
     { name: 'User Verification', href: '/admin/verification', icon: ShieldCheck },
     { name: 'Reports', href: '/admin/reports', icon: BarChart },
+    { name: 'Audit Log', href: '/admin/audit', icon: History },
     { name: 'Profile', href: '/admin/profile', icon: User },
     { name: 'Settings', href: '/admin/settings', icon: Settings },
   ];
 
   const handleSignOut = async () => {
-    await adminSignOut();
+    try {
+      await adminSignOut();
+    } catch (error) {
+      console.error('Admin sign out error:', error);
+    }
     navigate('/admin/login');
   };
 
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../services/supabase';
+import { withAuditReason } from '../../services/auditService';
 import { Button } from '../ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
@@ -18,11 +19,14 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
+import { DocumentValidationResult, IdentityDocumentTypeId, getDocumentType } from '../../utils/identityDocuments';
 
 interface VerificationRequest {
   id: string;
   employer_id: string;
   document_url: string;
+  document_type: IdentityDocumentTypeId;
+  extracted_data: DocumentValidationResult | null;
   status: 'pending' | 'approved' | 'rejected';
   submitted_at: string;
   reviewed_at: string | null;
@@ -115,28 +119,37 @@ export function EmployerVerificationReview() {
     try {
       setProcessingIds(prev => [...prev, request.id]);
       
+      // The notes double as the audit log reason
+      const reason = adminNotes[request.id] || null;
+
       // Update the verification request status
-      const { error: updateError } = await supabase
-        .from('employer_verification_requests')
-        .update({
-          status,
-          reviewed_at: new Date().toISOString(),
-          admin_notes: adminNotes[request.id] || null
-        })
-        .eq('id', request.id);
+      const { error: updateError } = await withAuditReason(
+        supabase
+          .from('employer_verification_requests')
+          .update({
+            status,
+            reviewed_at: new Date().toISOString(),
+            admin_notes: reason
+          })
+          .eq('id', request.id),
+        reason
+      );
       
       if (updateError) throw updateError;
       
       // If approved, update the employer's profile
       if (status === 'approved') {
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .update({
-            is_verified: true,
-            verification_date: new Date().toISOString(),
-            verification_document: request.document_url
-          })
-          .eq('id', request.employer_id);
+        const { error: profileError } = await withAuditReason(
+          supabase
+            .from('profiles')
+            .update({
+              is_verified: true,
+              verification_date: new Date().toISOString(),
+              verification_document: request.document_url
+            })
+            .eq('id', request.employer_id),
+          reason
+        );
         
         if (profileError) throw profileError;
       }
@@ -217,6 +230,27 @@ export function EmployerVerificationReview() {
                 </div>
               </div>
               
+              <div className="mb-4 text-sm">
+                <div className="font-medium">
+                  {getDocumentType(request.document_type)?.label || 'Unknown document type'}
+                </div>
+                {request.extracted_data ? (
+                  <div className="mt-1 space-y-1 text-muted-foreground">
+                    <div>
+                      {getDocumentType(request.document_type)?.numberLabel || 'Number'}:{' '}
+                      {request.extracted_data.documentNumber || 'Not read'}
+                    </div>
+                    <div>Name: {request.extracted_data.fullName || 'Not read'}</div>
+                    {request.extracted_data.dateExpiry && <div>Expires: {request.extracted_data.dateExpiry}</div>}
+                    {request.extracted_data.validationErrors.map((error, index) => (
+                      <div key={index} className="text-yellow-700">• {error}</div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="mt-1 text-muted-foreground">No text could be extracted automatically.</div>
+                )}
+              </div>
+              
               <div className="mb-4">
                 <label className="text-sm font-medium">
                   Admin Notes
@@ -0,0 +1,463 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, CalendarPlus, Download, Loader2, Plus, Video, X } from 'lucide-react';
+import { InterviewWithSlots, interviewService } from '../../services/interviewService';
+import { supabase } from '../../services/supabase';
+import { InterviewEvent, InterviewEventType, InterviewStatus } from '../../types/database';
+import { buildInterviewInvite, interviewInviteToBlob } from '../../utils/ics';
+import { downloadBlob } from '../../utils/statementExport';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { useToast } from '../ui/use-toast';
+
+type InterviewRole = 'employer' | 'job_seeker';
+
+interface InterviewSchedulerProps {
+  applicationId: string;
+  role: InterviewRole;
+  // Employers can only offer times while the application is under review
+  canSchedule?: boolean;
+}
+
+const statusStyles: Record<InterviewStatus, string> = {
+  proposed: 'bg-yellow-100 text-yellow-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const statusLabels: Record<InterviewStatus, string> = {
+  proposed: 'Awaiting a time',
+  scheduled: 'Scheduled',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const eventLabels: Record<InterviewEventType, string> = {
+  offered: 'Times offered',
+  updated: 'Details updated',
+  booked: 'Time booked',
+  rescheduled: 'Rescheduled',
+  new_times_requested: 'Other times requested',
+  cancelled: 'Cancelled',
+  reminder: 'Reminder sent',
+  completed: 'Completed',
+};
+
+const durationOptions = [15, 30, 45, 60, 90, 120];
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+const formatSlot = (startsAt: string, endsAt: string) =>
+  `${format(new Date(startsAt), 'EEE, MMM d, yyyy h:mm a')} – ${format(new Date(endsAt), 'h:mm a')}`;
+
+const emptyOffer = { slots: [''], duration: '30', video_call_url: '', notes: '' };
+
+export function InterviewScheduler({ applicationId, role, canSchedule }: InterviewSchedulerProps) {
+  const { toast } = useToast();
+  const [interviews, setInterviews] = useState<InterviewWithSlots[]>([]);
+  const [events, setEvents] = useState<InterviewEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [offer, setOffer] = useState(emptyOffer);
+  const [showForm, setShowForm] = useState(false);
+  const [noteAction, setNoteAction] = useState<'cancel' | 'request' | null>(null);
+  const [note, setNote] = useState('');
+
+  const fetchInterviews = useCallback(async () => {
+    try {
+      const [interviewData, eventData] = await Promise.all([
+        interviewService.getInterviews(applicationId),
+        interviewService.getEvents(applicationId),
+      ]);
+      setInterviews(interviewData);
+      setEvents(eventData);
+    } catch (err) {
+      console.error('Error fetching interviews:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchInterviews();
+
+    // The other party books, moves and cancels from their own screen
+    const subscription = supabase
+      .channel(`interviews_${applicationId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'interviews',
+        filter: `job_application_id=eq.${applicationId}`
+      }, () => {
+        fetchInterviews();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [applicationId, fetchInterviews]);
+
+  const openInterview = interviews.find(i => i.status === 'proposed' || i.status === 'scheduled') ?? null;
+  const pastInterviews = interviews.filter(i => i !== openInterview);
+
+  const runAction = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setProcessing(true);
+      await action();
+      await fetchInterviews();
+      toast({ title: 'Interview Updated', description: successMessage });
+      return true;
+    } catch (err) {
+      console.error('Error updating interview:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to update the interview.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const openForm = () => {
+    setOffer(openInterview
+      ? {
+          // Past times cannot be offered again
+          slots: openInterview.slots.filter(s => new Date(s.starts_at) > new Date()).map(s => toLocalInput(s.starts_at)),
+          duration: String(openInterview.duration_minutes),
+          video_call_url: openInterview.video_call_url ?? '',
+          notes: openInterview.notes ?? '',
+        }
+      : emptyOffer);
+    setShowForm(true);
+  };
+
+  const handleOffer = async () => {
+    const starts = offer.slots.filter(Boolean).map(slot => new Date(slot));
+    const videoCallUrl = offer.video_call_url.trim();
+
+    let error: string | null = null;
+    if (starts.length === 0) {
+      error = 'Offer at least one interview time.';
+    } else if (starts.some(start => start <= new Date())) {
+      error = 'Interview times must be in the future.';
+    } else if (videoCallUrl && !/^https?:\/\//i.test(videoCallUrl)) {
+      error = 'The video call link must start with http:// or https://.';
+    }
+    if (error) {
+      toast({ title: 'Error', description: error, variant: 'destructive' });
+      return;
+    }
+
+    const saved = await runAction(
+      () => interviewService.offerSlots(applicationId, {
+        slots: starts.map(start => start.toISOString()),
+        duration_minutes: Number(offer.duration),
+        video_call_url: videoCallUrl,
+        notes: offer.notes.trim(),
+      }),
+      openInterview ? 'The interview times were updated.' : 'Interview times sent to the candidate.'
+    );
+    if (saved) {
+      setShowForm(false);
+      setOffer(emptyOffer);
+    }
+  };
+
+  const handleNoteAction = async () => {
+    if (!openInterview || !noteAction) return;
+    const interviewId = openInterview.id;
+    const action = noteAction;
+    setNoteAction(null);
+
+    if (action === 'cancel') {
+      await runAction(() => interviewService.cancelInterview(interviewId, note.trim()), 'The interview was cancelled.');
+    } else {
+      await runAction(() => interviewService.requestNewTimes(interviewId, note.trim()), 'The employer was asked for other times.');
+    }
+    setNote('');
+  };
+
+  const downloadInvite = (interview: InterviewWithSlots) => {
+    const ics = buildInterviewInvite(interview, {
+      jobTitle: interview.job_post?.title ?? 'Job interview',
+      companyName: interview.job_post?.company_name,
+    });
+    if (!ics) return;
+    downloadBlob(interviewInviteToBlob(ics), `interview-${format(new Date(interview.starts_at!), 'yyyy-MM-dd')}.ics`);
+  };
+
+  const renderDetails = (interview: InterviewWithSlots) => (
+    <>
+      {interview.starts_at && interview.ends_at && (
+        <p className="text-sm font-medium text-gray-900 flex items-center">
+          <CalendarClock className="h-4 w-4 mr-1 text-gray-500" />
+          {formatSlot(interview.starts_at, interview.ends_at)}
+        </p>
+      )}
+      {interview.video_call_url && interview.status !== 'cancelled' && (
+        <a
+          href={interview.video_call_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-blue-600 hover:underline flex items-center mt-1 break-all"
+        >
+          <Video className="h-4 w-4 mr-1 shrink-0" />
+          {interview.video_call_url}
+        </a>
+      )}
+      {interview.notes && <p className="text-sm text-gray-600 mt-1">{interview.notes}</p>}
+      {interview.status === 'cancelled' && interview.cancel_reason && (
+        <p className="text-sm text-gray-600 mt-1">Reason: {interview.cancel_reason}</p>
+      )}
+    </>
+  );
+
+  const renderSlots = (interview: InterviewWithSlots) => {
+    const upcoming = interview.slots.filter(s => new Date(s.starts_at) > new Date());
+    if (upcoming.length === 0) {
+      return <p className="text-sm text-gray-500 mt-2">No upcoming times are offered.</p>;
+    }
+
+    return (
+      <div className="mt-3 space-y-2">
+        <p className="text-xs font-medium text-gray-500 uppercase">
+          {interview.status === 'scheduled' ? 'Offered times' : 'Pick a time'}
+        </p>
+        {upcoming.map((slot) => {
+          const booked = slot.id === interview.slot_id;
+          return (
+            <div
+              key={slot.id}
+              className={`flex justify-between items-center gap-2 rounded-md border p-2 text-sm ${booked ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}
+            >
+              <span>{formatSlot(slot.starts_at, slot.ends_at)}</span>
+              {booked ? (
+                <Badge className="bg-blue-100 text-blue-800">Booked</Badge>
+              ) : role === 'job_seeker' && (
+                <Button
+                  size="sm"
+                  variant={interview.status === 'scheduled' ? 'outline' : 'default'}
+                  onClick={() => runAction(
+                    () => interviewService.bookSlot(slot.id),
+                    interview.status === 'scheduled' ? 'Your interview was moved.' : 'Your interview is booked.'
+                  )}
+                  disabled={processing}
+                >
+                  {interview.status === 'scheduled' ? 'Move Here' : 'Book'}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {openInterview ? (
+        <div className="border border-gray-200 rounded-lg p-3">
+          <div className="flex justify-between items-start gap-3">
+            <div>{renderDetails(openInterview)}</div>
+            <Badge className={statusStyles[openInterview.status]}>{statusLabels[openInterview.status]}</Badge>
+          </div>
+
+          {renderSlots(openInterview)}
+
+          <div className="flex flex-wrap gap-2 mt-3">
+            {processing && <Loader2 className="h-4 w-4 animate-spin self-center text-gray-400" />}
+            {openInterview.status === 'scheduled' && (
+              <Button size="sm" variant="outline" onClick={() => downloadInvite(openInterview)}>
+                <Download className="h-4 w-4 mr-1" />
+                Add to Calendar (.ics)
+              </Button>
+            )}
+            {role === 'employer' && canSchedule && !showForm && (
+              <Button size="sm" variant="outline" onClick={openForm} disabled={processing}>
+                <CalendarPlus className="h-4 w-4 mr-1" />
+                Change Times
+              </Button>
+            )}
+            {role === 'job_seeker' && (
+              <Button size="sm" variant="outline" onClick={() => setNoteAction('request')} disabled={processing}>
+                Request Other Times
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              className="border-red-200 text-red-700 hover:bg-red-50"
+              onClick={() => setNoteAction('cancel')}
+              disabled={processing}
+            >
+              <X className="h-4 w-4 mr-1" />
+              {role === 'job_seeker' && openInterview.status === 'proposed' ? 'Decline' : 'Cancel Interview'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        !showForm && <p className="text-sm text-gray-500">No interview scheduled.</p>
+      )}
+
+      {role === 'employer' && canSchedule && (
+        showForm ? (
+          <div className="border border-dashed border-gray-300 rounded-lg p-3 space-y-2">
+            <p className="text-xs font-medium text-gray-500 uppercase">Times to offer (your local time)</p>
+            {offer.slots.map((slot, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  type="datetime-local"
+                  value={slot}
+                  min={toLocalInput(new Date().toISOString())}
+                  onChange={(e) => setOffer(prev => ({
+                    ...prev,
+                    slots: prev.slots.map((value, i) => (i === index ? e.target.value : value)),
+                  }))}
+                />
+                {offer.slots.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setOffer(prev => ({ ...prev, slots: prev.slots.filter((_, i) => i !== index) }))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            <Button variant="ghost" size="sm" onClick={() => setOffer(prev => ({ ...prev, slots: [...prev.slots, ''] }))}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Another Time
+            </Button>
+            <div className="flex gap-2">
+              <select
+                value={offer.duration}
+                onChange={(e) => setOffer(prev => ({ ...prev, duration: e.target.value }))}
+                className="h-10 rounded-md border border-input bg-background px-3 text-sm w-[140px]"
+              >
+                {durationOptions.map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} minutes</option>
+                ))}
+              </select>
+              <Input
+                type="url"
+                value={offer.video_call_url}
+                onChange={(e) => setOffer(prev => ({ ...prev, video_call_url: e.target.value }))}
+                placeholder="Video call link (https://...)"
+              />
+            </div>
+            <Textarea
+              value={offer.notes}
+              onChange={(e) => setOffer(prev => ({ ...prev, notes: e.target.value }))}
+              placeholder="Anything the candidate should prepare?"
+            />
+            {openInterview?.status === 'scheduled' && (
+              <p className="text-xs text-gray-500">
+                If you remove the booked time, the candidate will be asked to pick a new one.
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleOffer} disabled={processing}>
+                {openInterview ? 'Update Times' : 'Send Times'}
+              </Button>
+            </div>
+          </div>
+        ) : !openInterview && (
+          <Button variant="outline" size="sm" onClick={openForm}>
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Schedule Interview
+          </Button>
+        )
+      )}
+
+      {pastInterviews.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-900">Previous Interviews</h4>
+          {pastInterviews.map((interview) => (
+            <div key={interview.id} className="border border-gray-200 rounded-lg p-3 flex justify-between items-start gap-3">
+              <div>
+                {renderDetails(interview)}
+                {!interview.starts_at && <p className="text-sm text-gray-500">Never booked</p>}
+              </div>
+              <Badge className={statusStyles[interview.status]}>{statusLabels[interview.status]}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {events.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Interview History</h4>
+          <div className="space-y-2">
+            {events.map((event) => (
+              <div key={event.id} className="text-sm border-l-2 border-gray-200 pl-3">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium text-gray-900">{eventLabels[event.event]}</span>
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {format(new Date(event.created_at), 'MMM d, yyyy h:mm a')}
+                  </span>
+                </div>
+                {event.starts_at && event.event !== 'cancelled' && (
+                  <p className="text-xs text-gray-500">For {format(new Date(event.starts_at), 'EEE, MMM d, yyyy h:mm a')}</p>
+                )}
+                {event.note && <p className="text-xs text-gray-600">{event.note}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Dialog open={noteAction !== null} onOpenChange={(open) => !open && setNoteAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{noteAction === 'cancel' ? 'Cancel Interview' : 'Request Other Times'}</DialogTitle>
+            <DialogDescription>
+              {noteAction === 'cancel'
+                ? 'The other party will be notified. You can add a reason.'
+                : 'Let the employer know which times work better for you.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={noteAction === 'cancel' ? 'Reason (optional)' : 'e.g. Weekday mornings after 9am'}
+            className="min-h-[100px]"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNoteAction(null)}>
+              Back
+            </Button>
+            <Button
+              onClick={handleNoteAction}
+              variant={noteAction === 'cancel' ? 'destructive' : 'default'}
+              disabled={noteAction === 'request' && !note.trim()}
+            >
+              {noteAction === 'cancel' ? 'Cancel Interview' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Archive, ArchiveRestore, Ban, Bell, BellOff, MoreVertical, Pin, PinOff, ShieldOff } from 'lucide-react';
+import {
+  DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import { ConversationPreferences } from '../../types/database';
+
+interface ConversationActionsProps {
+  preferences: ConversationPreferences;
+  blocked: boolean;
+  otherUserName: string;
+  onPreferencesChange: (changes: Partial<ConversationPreferences>) => void;
+  onBlockChange: (blocked: boolean) => void;
+}
+
+// The menu in the chat header. Pins, mutes and archives only affect the
+// current user's view; blocking stops messages both ways.
+export function ConversationActions({
+  preferences, blocked, otherUserName, onPreferencesChange, onBlockChange,
+}: ConversationActionsProps) {
+  const now = () => new Date().toISOString();
+
+  const toggleBlock = () => {
+    if (blocked) {
+      onBlockChange(false);
+      return;
+    }
+    if (window.confirm(`Block ${otherUserName}? Neither of you will be able to send messages until you unblock them.`)) {
+      onBlockChange(true);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button type="button" className="p-2 hover:bg-gray-100 rounded-full" aria-label="Conversation options">
+          <MoreVertical className="h-5 w-5 text-gray-500" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => onPreferencesChange({ pinned_at: preferences.pinned_at ? null : now() })}>
+          {preferences.pinned_at ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+          {preferences.pinned_at ? 'Unpin' : 'Pin to top'}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onPreferencesChange({ muted: !preferences.muted })}>
+          {preferences.muted ? <Bell className="h-4 w-4 mr-2" /> : <BellOff className="h-4 w-4 mr-2" />}
+          {preferences.muted ? 'Unmute' : 'Mute notifications'}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onPreferencesChange({ archived_at: preferences.archived_at ? null : now() })}>
+          {preferences.archived_at ? <ArchiveRestore className="h-4 w-4 mr-2" /> : <Archive className="h-4 w-4 mr-2" />}
+          {preferences.archived_at ? 'Move to inbox' : 'Archive'}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={toggleBlock} className={blocked ? '' : 'text-red-600 focus:text-red-600'}>
+          {blocked ? <ShieldOff className="h-4 w-4 mr-2" /> : <Ban className="h-4 w-4 mr-2" />}
+          {blocked ? `Unblock ${otherUserName}` : `Block ${otherUserName}`}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { AlertTriangle, Download, FileText, Loader2, ShieldAlert } from 'lucide-react';
+import { MessageAttachment } from '../../types/database';
+import {
+  attachmentTypes, formatFileSize, isImageAttachment, messageAttachmentService,
+} from '../../services/messageAttachmentService';
+
+interface MessageAttachmentViewProps {
+  attachment: MessageAttachment;
+  // Signed links by storage path, from messageAttachmentService.getSignedUrls
+  signedUrls: Record<string, string>;
+  isOwn: boolean;
+}
+
+const blockedMessages: Partial<Record<MessageAttachment['scan_status'], string>> = {
+  infected: 'This file was removed because it contains malware.',
+  rejected: 'This file was removed because its contents do not match its type.',
+  failed: 'This file could not be checked and is unavailable.',
+};
+
+// One file in a message: an inline preview for images and PDFs, a download
+// link for the rest. The recipient sees nothing until the scan has finished.
+export function MessageAttachmentView({ attachment, signedUrls, isOwn }: MessageAttachmentViewProps) {
+  const [downloading, setDownloading] = useState(false);
+  const blocked = blockedMessages[attachment.scan_status];
+  const previewPath = isImageAttachment(attachment.mime_type) ? attachment.storage_path : attachment.thumbnail_path;
+  const previewUrl = previewPath ? signedUrls[previewPath] : undefined;
+  const canOpen = !blocked && (attachment.scan_status === 'clean' || isOwn);
+
+  const download = async () => {
+    try {
+      setDownloading(true);
+      window.open(await messageAttachmentService.getDownloadUrl(attachment), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening attachment:', error);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (blocked) {
+    return (
+      <div className="flex items-start gap-2 rounded-md bg-red-50 border border-red-200 p-2 text-xs text-red-700">
+        <ShieldAlert className="h-4 w-4 flex-shrink-0" />
+        <span>
+          <span className="font-medium">{attachment.file_name}</span>
+          <br />
+          {blocked}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {previewUrl && canOpen && (
+        <button type="button" onClick={download} className="block">
+          <img
+            src={previewUrl}
+            alt={attachment.file_name}
+            className="max-h-60 max-w-full rounded-md border border-gray-200 bg-white object-contain"
+          />
+        </button>
+      )}
+      <div
+        className={`flex items-center gap-2 rounded-md p-2 text-xs ${
+          isOwn ? 'bg-blue-600/40 text-white' : 'bg-gray-50 border border-gray-200 text-gray-700'
+        }`}
+      >
+        <FileText className="h-4 w-4 flex-shrink-0" />
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium">{attachment.file_name}</p>
+          <p className={isOwn ? 'text-blue-100' : 'text-gray-400'}>
+            {attachmentTypes[attachment.mime_type] ?? 'File'} · {formatFileSize(attachment.size_bytes)}
+          </p>
+        </div>
+        {attachment.scan_status === 'pending' && !isOwn ? (
+          <span className="flex items-center gap-1 text-gray-400" title="Checking the file before it can be opened">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Scanning
+          </span>
+        ) : (
+          canOpen && (
+            <button type="button" onClick={download} disabled={downloading} aria-label={`Download ${attachment.file_name}`}>
+              {downloading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            </button>
+          )
+        )}
+      </div>
+      {attachment.scan_status === 'pending' && isOwn && (
+        <p className="flex items-center gap-1 text-xs text-blue-100">
+          <AlertTriangle className="h-3 w-3" />
+          Visible to the recipient once it has been scanned
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { Check, CheckCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { receiptStatus } from '../../services/messageStatusService';
+
+interface MessageReceiptProps {
+  message: { created_at: string; delivered_at?: string | null; read_at?: string | null };
+}
+
+// Ticks under the sender's own messages: one when sent, two when delivered,
+// two bright ones once read. Recipients who hide read receipts never get past
+// delivered.
+export function MessageReceipt({ message }: MessageReceiptProps) {
+  const status = receiptStatus(message);
+
+  if (status === 'read') {
+    return (
+      <span title={`Read ${format(new Date(message.read_at as string), 'PP p')}`} aria-label="Read">
+        <CheckCheck className="h-3.5 w-3.5 text-white" />
+      </span>
+    );
+  }
+
+  if (status === 'delivered') {
+    return (
+      <span title={`Delivered ${format(new Date(message.delivered_at as string), 'PP p')}`} aria-label="Delivered">
+        <CheckCheck className="h-3.5 w-3.5 text-blue-200" />
+      </span>
+    );
+  }
+
+  return (
+    <span title="Sent" aria-label="Sent">
+      <Check className="h-3.5 w-3.5 text-blue-200" />
+    </span>
+  );
+}
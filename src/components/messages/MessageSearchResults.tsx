@@ -0,0 +1,79 @@
+import { Fragment } from 'react';
+import { Search } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { MessageSearchResult } from '../../types/database';
+
+interface MessageSearchResultsProps {
+  query: string;
+  results: MessageSearchResult[];
+  searching: boolean;
+  currentUserId: string;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+// The words of the query, for highlighting; operators and quotes dropped
+const searchTerms = (query: string) =>
+  query
+    .toLowerCase()
+    .replace(/["()]/g, ' ')
+    .split(/\s+/)
+    .filter(term => term && term !== 'or' && !term.startsWith('-'));
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, i) => (
+        <Fragment key={i}>
+          {i % 2 === 1 ? <mark className="bg-yellow-100 text-inherit">{part}</mark> : part}
+        </Fragment>
+      ))}
+    </>
+  );
+}
+
+// Matches from search_messages(), in place of the conversation list
+export function MessageSearchResults({ query, results, searching, currentUserId, onSelect }: MessageSearchResultsProps) {
+  const terms = searchTerms(query);
+
+  if (searching) {
+    return <p className="p-4 text-sm text-gray-500">Searching…</p>;
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="flex flex-col items-center p-6 text-center text-sm text-gray-500">
+        <Search className="h-8 w-8 text-gray-300 mb-2" />
+        No messages match "{query}"
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {results.map(result => (
+        <button
+          key={result.id}
+          type="button"
+          onClick={() => onSelect(result)}
+          className="block w-full p-4 text-left border-b border-gray-100 hover:bg-gray-50"
+        >
+          <div className="flex justify-between gap-2">
+            <p className="text-sm font-medium text-gray-900 truncate">{result.other_user_name || 'Unknown User'}</p>
+            <p className="text-xs text-gray-400 flex-shrink-0">
+              {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+            </p>
+          </div>
+          <p className="text-xs text-gray-600 line-clamp-2">
+            {result.sender_id === currentUserId && <span className="text-gray-400">You: </span>}
+            <Highlighted text={result.content} terms={terms} />
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+}
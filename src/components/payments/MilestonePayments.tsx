@@ -0,0 +1,491 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle, Loader2, Plus, Undo2, Wallet, XCircle } from 'lucide-react';
+import { milestoneService } from '../../services/milestoneService';
+import { supabase } from '../../services/supabase';
+import { Compensation, MilestoneStatus, PaymentLedgerEntry, PaymentMilestone } from '../../types/database';
+import { formatCompensation } from '../../utils/compensation';
+import { EmployerPayment } from '../EmployerPayment';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { useToast } from '../ui/use-toast';
+
+type MilestoneRole = 'employer' | 'job_seeker' | 'admin';
+
+interface MilestonePaymentsProps {
+  applicationId: string;
+  role: MilestoneRole;
+  // Employers can only add milestones once the application is accepted
+  canAddMilestones?: boolean;
+}
+
+const statusStyles: Record<MilestoneStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  funded: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-indigo-100 text-indigo-800',
+  released: 'bg-green-100 text-green-800',
+  disputed: 'bg-orange-100 text-orange-800',
+  refunded: 'bg-purple-100 text-purple-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+const statusLabels: Record<MilestoneStatus, string> = {
+  draft: 'Awaiting funding',
+  funded: 'In escrow',
+  delivered: 'Delivered',
+  released: 'Released',
+  disputed: 'Disputed',
+  refunded: 'Refunded',
+  cancelled: 'Cancelled',
+};
+
+const formatAmount = (amount: number, currency = 'USD') =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(Number(amount));
+
+const emptyDraft = { title: '', amount: '', due_date: '', description: '' };
+
+// A fixed price is paid in full by default; a rate is paid one period at a time
+const suggestedAmount = (compensation: Compensation | null) => {
+  if (!compensation) return '';
+  const amount = compensation.period === 'fixed'
+    ? compensation.max ?? compensation.min
+    : compensation.min ?? compensation.max;
+  return amount === null ? '' : String(amount);
+};
+
+export function MilestonePayments({ applicationId, role, canAddMilestones }: MilestonePaymentsProps) {
+  const { toast } = useToast();
+  const [milestones, setMilestones] = useState<PaymentMilestone[]>([]);
+  const [ledger, setLedger] = useState<PaymentLedgerEntry[]>([]);
+  const [agreedCompensation, setAgreedCompensation] = useState<Compensation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [showForm, setShowForm] = useState(false);
+  const [fundingMilestone, setFundingMilestone] = useState<PaymentMilestone | null>(null);
+  // Paid in PayPal, waiting for the webhook to mark them funded
+  const [confirmingIds, setConfirmingIds] = useState<string[]>([]);
+  const [disputeMilestone, setDisputeMilestone] = useState<PaymentMilestone | null>(null);
+  const [disputeReason, setDisputeReason] = useState('');
+
+  const fetchPayments = useCallback(async () => {
+    try {
+      const [milestoneData, ledgerData, compensation] = await Promise.all([
+        milestoneService.getMilestones(applicationId),
+        milestoneService.getLedger(applicationId),
+        milestoneService.getAgreedCompensation(applicationId),
+      ]);
+      setMilestones(milestoneData);
+      setLedger(ledgerData);
+      setAgreedCompensation(compensation);
+    } catch (err) {
+      console.error('Error fetching milestones:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [applicationId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchPayments();
+
+    // Funding arrives from the PayPal webhook, not from this client
+    const subscription = supabase
+      .channel(`payment_milestones_${applicationId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'payment_milestones',
+        filter: `job_application_id=eq.${applicationId}`
+      }, (payload) => {
+        const changed = payload.new as Partial<PaymentMilestone>;
+        if (changed.status && changed.status !== 'draft') {
+          setConfirmingIds(prev => prev.filter(id => id !== changed.id));
+        }
+        fetchPayments();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(subscription);
+    };
+  }, [applicationId, fetchPayments]);
+
+  const runAction = async (milestoneId: string, action: () => Promise<PaymentMilestone>, successMessage: string) => {
+    try {
+      setProcessingId(milestoneId);
+      await action();
+      await fetchPayments();
+      toast({ title: 'Milestone Updated', description: successMessage });
+      return true;
+    } catch (err) {
+      console.error('Error updating milestone:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to update milestone.',
+        variant: 'destructive',
+      });
+      return false;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const amount = parseFloat(draft.amount);
+    if (!draft.title.trim() || !(amount > 0)) {
+      toast({
+        title: 'Error',
+        description: 'Enter a title and an amount greater than zero.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const created = await runAction(
+      'new',
+      () => milestoneService.createMilestone(applicationId, {
+        title: draft.title.trim(),
+        amount,
+        description: draft.description,
+        due_date: draft.due_date,
+      }),
+      'Milestone added. Fund it to start the work.'
+    );
+    if (created) {
+      setDraft(emptyDraft);
+      setShowForm(false);
+    }
+  };
+
+  const handleDispute = async () => {
+    if (!disputeMilestone || !disputeReason.trim()) return;
+    const milestone = disputeMilestone;
+    setDisputeMilestone(null);
+    await runAction(
+      milestone.id,
+      () => milestoneService.disputeMilestone(milestone.id, disputeReason.trim()),
+      'A dispute has been opened. Our team will review it.'
+    );
+    setDisputeReason('');
+  };
+
+  // Older milestones predate agreed compensation and were created in USD
+  const currency = agreedCompensation?.currency ?? milestones[0]?.currency ?? 'USD';
+
+  const openForm = () => {
+    setDraft(prev => (prev.amount ? prev : { ...prev, amount: suggestedAmount(agreedCompensation) }));
+    setShowForm(true);
+  };
+
+  const inEscrow = milestones
+    .filter(m => ['funded', 'delivered', 'disputed'].includes(m.status))
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+  const released = milestones
+    .filter(m => m.status === 'released')
+    .reduce((sum, m) => sum + Number(m.amount), 0);
+
+  const renderActions = (milestone: PaymentMilestone) => {
+    const busy = processingId !== null;
+    const buttons: JSX.Element[] = [];
+
+    if (role === 'employer') {
+      if (milestone.status === 'draft' && confirmingIds.includes(milestone.id)) {
+        buttons.push(
+          <span key="confirming" className="flex items-center text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+            Confirming payment...
+          </span>
+        );
+      } else if (milestone.status === 'draft') {
+        buttons.push(
+          <Button key="fund" size="sm" onClick={() => setFundingMilestone(milestone)} disabled={busy}>
+            <Wallet className="h-4 w-4 mr-1" />
+            Fund
+          </Button>,
+          <Button
+            key="cancel"
+            size="sm"
+            variant="outline"
+            onClick={() => runAction(milestone.id, () => milestoneService.cancelMilestone(milestone.id), 'Milestone cancelled.')}
+            disabled={busy}
+          >
+            Cancel
+          </Button>
+        );
+      }
+      if (milestone.status === 'funded' || milestone.status === 'delivered') {
+        buttons.push(
+          <Button
+            key="release"
+            size="sm"
+            className="bg-green-600 hover:bg-green-700"
+            onClick={() => runAction(milestone.id, () => milestoneService.releaseMilestone(milestone.id), 'Payment released to the job seeker.')}
+            disabled={busy}
+          >
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Release
+          </Button>
+        );
+      }
+    }
+
+    if (role === 'job_seeker') {
+      if (milestone.status === 'funded') {
+        buttons.push(
+          <Button
+            key="deliver"
+            size="sm"
+            onClick={() => runAction(milestone.id, () => milestoneService.markDelivered(milestone.id), 'Marked as delivered. The employer can now release payment.')}
+            disabled={busy}
+          >
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Mark Delivered
+          </Button>
+        );
+      }
+      if (milestone.status === 'funded' || milestone.status === 'delivered') {
+        buttons.push(
+          <Button
+            key="refund"
+            size="sm"
+            variant="outline"
+            onClick={() => runAction(milestone.id, () => milestoneService.refundMilestone(milestone.id), 'Refund sent to PayPal for the employer.')}
+            disabled={busy}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Refund
+          </Button>
+        );
+      }
+    }
+
+    if (role !== 'admin' && (milestone.status === 'funded' || milestone.status === 'delivered')) {
+      buttons.push(
+        <Button
+          key="dispute"
+          size="sm"
+          variant="outline"
+          className="border-orange-200 text-orange-700 hover:bg-orange-50"
+          onClick={() => setDisputeMilestone(milestone)}
+          disabled={busy}
+        >
+          <AlertTriangle className="h-4 w-4 mr-1" />
+          Dispute
+        </Button>
+      );
+    }
+
+    if (role === 'admin' && milestone.status === 'disputed') {
+      buttons.push(
+        <Button
+          key="resolve-release"
+          size="sm"
+          className="bg-green-600 hover:bg-green-700"
+          onClick={() => runAction(milestone.id, () => milestoneService.releaseMilestone(milestone.id, 'Dispute resolved in favor of the job seeker'), 'Payment released to the job seeker.')}
+          disabled={busy}
+        >
+          <CheckCircle className="h-4 w-4 mr-1" />
+          Release to Job Seeker
+        </Button>,
+        <Button
+          key="resolve-refund"
+          size="sm"
+          variant="outline"
+          onClick={() => runAction(milestone.id, () => milestoneService.refundMilestone(milestone.id, 'Dispute resolved in favor of the employer'), 'Refund sent to PayPal for the employer.')}
+          disabled={busy}
+        >
+          <XCircle className="h-4 w-4 mr-1" />
+          Refund Employer
+        </Button>
+      );
+    }
+
+    return buttons;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-xs font-medium text-blue-700">In Escrow</p>
+          <p className="text-lg font-bold text-blue-900">{formatAmount(inEscrow, currency)}</p>
+        </div>
+        <div className="bg-green-50 rounded-lg p-3">
+          <p className="text-xs font-medium text-green-700">Released</p>
+          <p className="text-lg font-bold text-green-900">{formatAmount(released, currency)}</p>
+        </div>
+      </div>
+
+      {milestones.length === 0 ? (
+        <p className="text-sm text-gray-500">No milestones yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {milestones.map((milestone) => {
+            const actions = renderActions(milestone);
+
+            return (
+              <div key={milestone.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex justify-between items-start gap-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{milestone.title}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatAmount(milestone.amount, milestone.currency)}
+                      {milestone.due_date && ` · Due ${format(new Date(milestone.due_date), 'MMM d, yyyy')}`}
+                    </p>
+                    {milestone.description && (
+                      <p className="text-sm text-gray-600 mt-1">{milestone.description}</p>
+                    )}
+                  </div>
+                  <Badge className={statusStyles[milestone.status]}>{statusLabels[milestone.status]}</Badge>
+                </div>
+                {actions.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {processingId === milestone.id && <Loader2 className="h-4 w-4 animate-spin self-center text-gray-400" />}
+                    {actions}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {role === 'employer' && canAddMilestones && (
+        showForm ? (
+          <div className="border border-dashed border-gray-300 rounded-lg p-3 space-y-2">
+            <div className="flex gap-2">
+              <Input
+                value={draft.title}
+                onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Milestone title"
+              />
+              <Input
+                type="number"
+                min="1"
+                step="0.01"
+                value={draft.amount}
+                onChange={(e) => setDraft(prev => ({ ...prev, amount: e.target.value }))}
+                placeholder={`Amount (${currency})`}
+                className="w-[150px]"
+              />
+              <Input
+                type="date"
+                value={draft.due_date}
+                onChange={(e) => setDraft(prev => ({ ...prev, due_date: e.target.value }))}
+                className="w-[170px]"
+              />
+            </div>
+            {agreedCompensation && (
+              <p className="text-xs text-gray-500">
+                Agreed compensation: {formatCompensation(agreedCompensation)}
+              </p>
+            )}
+            <Textarea
+              value={draft.description}
+              onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="What needs to be delivered?"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleCreate} disabled={processingId !== null}>
+                Add Milestone
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" size="sm" onClick={openForm}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Milestone
+          </Button>
+        )
+      )}
+
+      {ledger.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Payment Ledger</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Milestone</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ledger.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(entry.created_at), 'MMM d, yyyy h:mm a')}</TableCell>
+                  <TableCell>{milestones.find(m => m.id === entry.milestone_id)?.title ?? '—'}</TableCell>
+                  <TableCell>
+                    <span className="capitalize">{entry.event}</span>
+                    {entry.note && <p className="text-xs text-gray-500">{entry.note}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(entry.amount, milestones.find(m => m.id === entry.milestone_id)?.currency ?? currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!fundingMilestone} onOpenChange={(open) => !open && setFundingMilestone(null)}>
+        <DialogContent className="max-w-lg">
+          {fundingMilestone && (
+            <EmployerPayment
+              milestone={fundingMilestone}
+              onSuccess={(milestone) => {
+                setFundingMilestone(null);
+                setConfirmingIds(prev => [...prev, milestone.id]);
+                toast({
+                  title: 'Payment Received',
+                  description: 'The milestone will show as funded as soon as PayPal confirms the payment.',
+                });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!disputeMilestone} onOpenChange={(open) => !open && setDisputeMilestone(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Open a Dispute</DialogTitle>
+            <DialogDescription>
+              Funds stay in escrow until an admin reviews the dispute for "{disputeMilestone?.title}".
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={disputeReason}
+            onChange={(e) => setDisputeReason(e.target.value)}
+            placeholder="Describe the problem"
+            className="min-h-[100px]"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisputeMilestone(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleDispute} disabled={!disputeReason.trim()}>
+              Open Dispute
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { GripVertical, Loader2 } from 'lucide-react';
+import { PipelineStage } from '../../types/database';
+import { getStageColorClasses } from './stageStyles';
+
+export interface BoardApplication {
+  id: string;
+  stage_id: string | null;
+  created_at: string;
+  job_seeker: {
+    full_name: string;
+  };
+}
+
+interface PipelineBoardProps<T extends BoardApplication> {
+  stages: PipelineStage[];
+  applications: T[];
+  processingId?: string | null;
+  onMove: (application: T, stageId: string) => void;
+  onOpen: (application: T) => void;
+}
+
+export function PipelineBoard<T extends BoardApplication>({
+  stages,
+  applications,
+  processingId,
+  onMove,
+  onOpen,
+}: PipelineBoardProps<T>) {
+  const [dragOverStageId, setDragOverStageId] = useState<string | null>(null);
+
+  const handleDrop = (e: React.DragEvent, stageId: string) => {
+    e.preventDefault();
+    setDragOverStageId(null);
+
+    const application = applications.find(app => app.id === e.dataTransfer.getData('text/plain'));
+    if (application && application.stage_id !== stageId) {
+      onMove(application, stageId);
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {stages.map((stage) => {
+        const colors = getStageColorClasses(stage.color);
+        const stageApplications = applications.filter(app => app.stage_id === stage.id);
+
+        return (
+          <div
+            key={stage.id}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOverStageId(stage.id);
+            }}
+            onDragLeave={() => setDragOverStageId(prev => (prev === stage.id ? null : prev))}
+            onDrop={(e) => handleDrop(e, stage.id)}
+            className={`flex-shrink-0 w-64 rounded-lg border bg-gray-50 ${
+              dragOverStageId === stage.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'
+            }`}
+          >
+            <div className={`h-1.5 rounded-t-lg ${colors.bar}`}></div>
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-800">{stage.name}</h3>
+              <span className="text-xs font-medium text-gray-500">{stageApplications.length}</span>
+            </div>
+
+            <div className="space-y-2 p-2 min-h-[120px]">
+              {stageApplications.map((application) => (
+                <div
+                  key={application.id}
+                  draggable={processingId !== application.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', application.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onClick={() => onOpen(application)}
+                  className="flex items-start gap-2 rounded-md border border-gray-200 bg-white p-3 shadow-sm cursor-grab hover:shadow-md transition-shadow"
+                >
+                  <GripVertical className="h-4 w-4 mt-0.5 text-gray-300 flex-shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900 truncate">{application.job_seeker.full_name}</p>
+                    <p className="text-xs text-gray-500">
+                      Applied {formatDistanceToNow(new Date(application.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {processingId === application.id && (
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+import { PipelineStage, StageColor, StageOutcome } from '../../types/database';
+import { pipelineService, StageDraft } from '../../services/pipelineService';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { useToast } from '../ui/use-toast';
+import { getStageColorClasses, stageColors } from './stageStyles';
+
+interface PipelineStagesEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  jobPostId: string;
+  jobTitle: string;
+  stages: PipelineStage[];
+  onSaved: (stages: PipelineStage[]) => void;
+}
+
+const outcomeLabels: Record<StageOutcome, string> = {
+  open: 'In progress',
+  hired: 'Hired',
+  rejected: 'Rejected',
+};
+
+export function PipelineStagesEditor({
+  open,
+  onOpenChange,
+  jobPostId,
+  jobTitle,
+  stages,
+  onSaved,
+}: PipelineStagesEditorProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<StageDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDrafts(stages.map(({ id, name, color, outcome }) => ({ id, name, color, outcome })));
+    }
+  }, [open, stages]);
+
+  const updateDraft = (index: number, changes: Partial<StageDraft>) => {
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const moveDraft = (index: number, direction: -1 | 1) => {
+    setDrafts(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (drafts.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'A pipeline needs at least one stage.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const saved = await pipelineService.saveStages(jobPostId, drafts);
+      onSaved(saved);
+      onOpenChange(false);
+      toast({
+        title: 'Pipeline Updated',
+        description: `Stages for "${jobTitle}" have been saved.`,
+      });
+    } catch (err) {
+      console.error('Error saving pipeline stages:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to save pipeline stages.',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Hiring Pipeline</DialogTitle>
+          <DialogDescription>
+            Define the stages applicants move through for {jobTitle}. Applicants in a removed stage move
+            back to the first stage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+          {drafts.map((draft, index) => (
+            <div key={draft.id ?? `new-${index}`} className="flex items-center gap-2">
+              <div className={`w-2 h-8 rounded-full ${getStageColorClasses(draft.color).dot}`}></div>
+              <Input
+                value={draft.name}
+                onChange={(e) => updateDraft(index, { name: e.target.value })}
+                placeholder="Stage name"
+                className="flex-1"
+              />
+              <Select value={draft.color} onValueChange={(value: StageColor) => updateDraft(index, { color: value })}>
+                <SelectTrigger className="w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {stageColors.map((color) => (
+                    <SelectItem key={color} value={color}>
+                      <div className="flex items-center capitalize">
+                        <div className={`w-2 h-2 rounded-full mr-2 ${getStageColorClasses(color).dot}`}></div>
+                        {color}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={draft.outcome} onValueChange={(value: StageOutcome) => updateDraft(index, { outcome: value })}>
+                <SelectTrigger className="w-[130px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(outcomeLabels) as StageOutcome[]).map((outcome) => (
+                    <SelectItem key={outcome} value={outcome}>
+                      {outcomeLabels[outcome]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" onClick={() => moveDraft(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => moveDraft(index, 1)} disabled={index === drafts.length - 1}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDrafts(prev => prev.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDrafts(prev => [...prev, { name: '', color: 'blue', outcome: 'open' }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Stage
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Pipeline
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { ApplicationStageChange } from '../../types/database';
+import { pipelineService } from '../../services/pipelineService';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+
+interface StageHistoryTableProps {
+  applicationId: string;
+  // Bump to reload after the stage changes
+  refreshKey?: string | null;
+}
+
+export function StageHistoryTable({ applicationId, refreshKey }: StageHistoryTableProps) {
+  const [history, setHistory] = useState<ApplicationStageChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        const data = await pipelineService.getStageHistory(applicationId);
+        if (!cancelled) setHistory(data);
+      } catch (err) {
+        console.error('Error fetching stage history:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId, refreshKey]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No stage changes yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Change</TableHead>
+          <TableHead>Date</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {history.map((change) => (
+          <TableRow key={change.id}>
+            <TableCell>
+              <span className="flex items-center gap-1.5 text-sm">
+                {change.from_stage_name ? (
+                  <>
+                    <span className="text-gray-500">{change.from_stage_name}</span>
+                    <ArrowRight className="h-3.5 w-3.5 text-gray-400" />
+                  </>
+                ) : null}
+                <span className="font-medium">{change.to_stage_name}</span>
+              </span>
+            </TableCell>
+            <TableCell className="text-sm text-gray-500 whitespace-nowrap">
+              {format(new Date(change.created_at), 'PP p')}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
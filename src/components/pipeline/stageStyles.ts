@@ -0,0 +1,17 @@
+import { StageColor } from '../../types/database';
+
+// Full class names so Tailwind keeps them in the build
+export const stageColorClasses: Record<StageColor, { bar: string; badge: string; dot: string }> = {
+  yellow: { bar: 'bg-yellow-500', badge: 'bg-yellow-500 text-white', dot: 'bg-yellow-500' },
+  blue: { bar: 'bg-blue-500', badge: 'bg-blue-500 text-white', dot: 'bg-blue-500' },
+  indigo: { bar: 'bg-indigo-500', badge: 'bg-indigo-500 text-white', dot: 'bg-indigo-500' },
+  purple: { bar: 'bg-purple-500', badge: 'bg-purple-500 text-white', dot: 'bg-purple-500' },
+  green: { bar: 'bg-green-500', badge: 'bg-green-500 text-white', dot: 'bg-green-500' },
+  red: { bar: 'bg-red-500', badge: 'bg-red-500 text-white', dot: 'bg-red-500' },
+  gray: { bar: 'bg-gray-400', badge: 'bg-gray-500 text-white', dot: 'bg-gray-400' },
+};
+
+export const stageColors = Object.keys(stageColorClasses) as StageColor[];
+
+export const getStageColorClasses = (color?: string) =>
+  stageColorClasses[(color as StageColor) in stageColorClasses ? (color as StageColor) : 'gray'];
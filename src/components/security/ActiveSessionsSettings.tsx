@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, LogOut, Monitor } from 'lucide-react';
+import { toast } from 'sonner';
+import { describeUserAgent, sessionService } from '../../services/sessionService';
+import { ActiveSession } from '../../types/database';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+
+// The devices signed in to this account. Any but the current one can be
+// signed out from here.
+export function ActiveSessionsSettings() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setSessions(await sessionService.getSessions());
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      toast.error('Failed to load your active sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const revoke = async (sessionId: string) => {
+    try {
+      setProcessingId(sessionId);
+      await sessionService.revokeSession(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      toast.success('Device signed out');
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out the device');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const revokeOthers = async () => {
+    try {
+      setProcessingId('others');
+      await sessionService.revokeOtherSessions();
+      await fetchSessions();
+      toast.success('All other devices were signed out');
+    } catch (error) {
+      console.error('Error revoking other sessions:', error);
+      toast.error('Failed to sign out other devices');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.is_current);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5 text-primary" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices where you are signed in. Sign out any you do not recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : (
+          <>
+            {sessions.map(session => (
+              <div key={session.id} className="flex items-center justify-between gap-4 rounded-md border border-gray-200 p-3">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                    {describeUserAgent(session.user_agent)}
+                    {session.is_current && <Badge className="bg-green-100 text-green-800">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {session.ip ?? 'Unknown IP'}
+                    {' · '}Active {formatDistanceToNow(new Date(session.last_active_at), { addSuffix: true })}
+                    {' · '}Signed in {formatDistanceToNow(new Date(session.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                {!session.is_current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revoke(session.id)}
+                    disabled={processingId !== null}
+                  >
+                    {processingId === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Sign Out'}
+                  </Button>
+                )}
+              </div>
+            ))}
+            {otherSessions.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-red-200 text-red-700 hover:bg-red-50"
+                onClick={revokeOthers}
+                disabled={processingId !== null}
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out All Other Devices
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
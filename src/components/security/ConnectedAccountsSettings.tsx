@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useState } from 'react';
+import { UserIdentity } from '@supabase/supabase-js';
+import { Link2, Loader2, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import { OAuthProvider, isOAuthProvider, oauthProviderLabels, oauthProviders, oauthService } from '../../services/oauthService';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+
+interface ConnectedAccountsSettingsProps {
+  // Where the provider sends the user back to after linking
+  returnTo: string;
+}
+
+const identityLabel = (identity: UserIdentity) =>
+  isOAuthProvider(identity.provider) ? oauthProviderLabels[identity.provider] : 'Email and password';
+
+const identityDetail = (identity: UserIdentity) => {
+  const data = identity.identity_data ?? {};
+  return (data.email as string | undefined) ?? (data.user_name as string | undefined) ?? (data.name as string | undefined) ?? '';
+};
+
+// The sign-in methods attached to this account. Providers can be linked to an
+// email account and unlinked again, as long as one method remains.
+export function ConnectedAccountsSettings({ returnTo }: ConnectedAccountsSettingsProps) {
+  const [identities, setIdentities] = useState<UserIdentity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState<string | null>(null);
+
+  const fetchIdentities = useCallback(async () => {
+    try {
+      setIdentities(await oauthService.getIdentities());
+    } catch (error) {
+      console.error('Error fetching identities:', error);
+      toast.error('Failed to load your connected accounts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchIdentities();
+  }, [fetchIdentities]);
+
+  const link = async (provider: OAuthProvider) => {
+    try {
+      setProcessing(provider);
+      await oauthService.linkProvider(provider, returnTo);
+    } catch (error) {
+      console.error('Error linking identity:', error);
+      toast.error(error instanceof Error ? error.message : `Failed to connect ${oauthProviderLabels[provider]}`);
+      setProcessing(null);
+    }
+  };
+
+  const unlink = async (identity: UserIdentity) => {
+    try {
+      setProcessing(identity.identity_id);
+      await oauthService.unlinkIdentity(identity);
+      setIdentities(prev => prev.filter(item => item.identity_id !== identity.identity_id));
+      toast.success(`${identityLabel(identity)} disconnected`);
+    } catch (error) {
+      console.error('Error unlinking identity:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to disconnect the account');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const linkedProviders = new Set(identities.map(identity => identity.provider));
+  const availableProviders = oauthProviders.filter(provider => !linkedProviders.has(provider));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5 text-primary" />
+          Connected Accounts
+        </CardTitle>
+        <CardDescription>
+          Sign in with Google, LinkedIn or GitHub as well as your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : (
+          <>
+            {identities.map(identity => (
+              <div key={identity.identity_id} className="flex items-center justify-between gap-4 rounded-md border border-gray-200 p-3">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                    {identity.provider === 'email' && <Mail className="h-4 w-4 text-gray-400" />}
+                    {identityLabel(identity)}
+                  </p>
+                  <p className="text-xs text-gray-500">{identityDetail(identity)}</p>
+                </div>
+                {identity.provider !== 'email' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => unlink(identity)}
+                    disabled={processing !== null || identities.length < 2}
+                    title={identities.length < 2 ? 'This is your only way to sign in' : undefined}
+                  >
+                    {processing === identity.identity_id ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Disconnect'}
+                  </Button>
+                )}
+              </div>
+            ))}
+            {availableProviders.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {availableProviders.map(provider => (
+                  <Button
+                    key={provider}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => link(provider)}
+                    disabled={processing !== null}
+                  >
+                    {processing === provider && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Connect {oauthProviderLabels[provider]}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { Factor } from '@supabase/supabase-js';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../context/AuthContext';
+import { mfaService } from '../../services/mfaService';
+import { supabase } from '../../services/supabase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+
+interface MfaChallengeProps {
+  onVerified?: () => void;
+  onSignedOut?: () => void;
+}
+
+// Asks a signed-in user for their second factor, or a recovery code
+export function MfaChallenge({ onVerified, onSignedOut }: MfaChallengeProps) {
+  const { refreshAssuranceLevel } = useAuth();
+  const [factor, setFactor] = useState<Factor | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [processing, setProcessing] = useState(false);
+
+  useEffect(() => {
+    mfaService.getTotpFactors()
+      .then(factors => setFactor(factors[0] ?? null))
+      .catch(err => {
+        console.error('Error loading MFA factors:', err);
+        setError('Failed to load your two-factor settings');
+      });
+  }, []);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      setError('');
+      setProcessing(true);
+
+      if (useRecoveryCode) {
+        const redeemed = await mfaService.redeemRecoveryCode(code);
+        if (!redeemed) {
+          setError('That recovery code is not valid or was already used');
+          return;
+        }
+        toast.success('Recovery code accepted. Set up two-factor authentication again in your settings.');
+      } else {
+        if (!factor) return;
+        await mfaService.verifyCode(factor.id, code);
+      }
+
+      await refreshAssuranceLevel();
+      onVerified?.();
+    } catch (err) {
+      console.error('MFA verification error:', err);
+      if (useRecoveryCode) {
+        // Shows the lockout after too many wrong codes
+        setError(err instanceof Error ? err.message : 'Failed to use the recovery code');
+      } else {
+        setError('Invalid code. Check the time on your device and try again.');
+      }
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    const { error: signOutError } = await supabase.auth.signOut();
+    if (signOutError) console.error('Sign out error:', signOutError);
+    onSignedOut?.();
+  };
+
+  return (
+    <div className="flex justify-center py-12 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Two-Factor Authentication
+          </CardTitle>
+          <CardDescription>
+            {useRecoveryCode
+              ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                setError('');
+              }}
+              placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '123456'}
+              inputMode={useRecoveryCode ? 'text' : 'numeric'}
+              autoComplete="one-time-code"
+              autoFocus
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={processing || !code.trim() || (!useRecoveryCode && !factor)}>
+              {processing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Verify'}
+            </Button>
+          </form>
+          <div className="flex justify-between mt-4">
+            <Button
+              variant="link"
+              size="sm"
+              className="px-0"
+              onClick={() => {
+                setUseRecoveryCode(!useRecoveryCode);
+                setCode('');
+                setError('');
+              }}
+            >
+              {useRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+            </Button>
+            <Button variant="link" size="sm" className="px-0 text-gray-500" onClick={handleSignOut}>
+              Sign out
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { MfaChallenge } from './MfaChallenge';
+import { TwoFactorSettings } from './TwoFactorSettings';
+
+// For admin and owner pages: the session must be at aal2. A user without a
+// second factor sets one up here first, and sees their recovery codes before
+// the page opens.
+export function MfaRequiredRoute({ children }: { children: React.ReactNode }) {
+  const { assuranceLevel } = useAuth();
+  const needsSetup = assuranceLevel.nextLevel !== 'aal2';
+  // Stays set after the factor is verified, until the codes are acknowledged
+  const [settingUp, setSettingUp] = useState(false);
+
+  useEffect(() => {
+    if (needsSetup) setSettingUp(true);
+  }, [needsSetup]);
+
+  if (needsSetup || settingUp) {
+    return (
+      <div className="flex justify-center py-12 px-4">
+        <div className="w-full max-w-lg">
+          <TwoFactorSettings required onComplete={() => setSettingUp(false)} />
+        </div>
+      </div>
+    );
+  }
+
+  if (assuranceLevel.currentLevel !== 'aal2') {
+    return <MfaChallenge />;
+  }
+
+  return <>{children}</>;
+}
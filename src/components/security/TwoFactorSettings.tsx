@@ -0,0 +1,264 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Factor } from '@supabase/supabase-js';
+import { Copy, Download, KeyRound, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../context/AuthContext';
+import { TotpEnrollment, mfaService } from '../../services/mfaService';
+import { downloadBlob } from '../../utils/statementExport';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+
+interface TwoFactorSettingsProps {
+  // Admins cannot turn two-factor authentication off
+  required?: boolean;
+  // Called once new recovery codes have been acknowledged
+  onComplete?: () => void;
+}
+
+// TOTP two-factor authentication with an authenticator app, plus recovery
+// codes for when the app is lost
+export function TwoFactorSettings({ required, onComplete }: TwoFactorSettingsProps) {
+  const { refreshAssuranceLevel } = useAuth();
+  const [factors, setFactors] = useState<Factor[]>([]);
+  const [codesRemaining, setCodesRemaining] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [processing, setProcessing] = useState(false);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const totpFactors = await mfaService.getTotpFactors();
+      setFactors(totpFactors);
+      setCodesRemaining(totpFactors.length > 0 ? await mfaService.getRecoveryCodesRemaining() : null);
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+      toast.error('Failed to load two-factor authentication settings');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const startEnrollment = async () => {
+    try {
+      setProcessing(true);
+      setEnrollment(await mfaService.enrollTotp());
+      setCode('');
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to start two-factor setup');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const finishEnrollment = async () => {
+    if (!enrollment) return;
+    try {
+      setProcessing(true);
+      await mfaService.verifyCode(enrollment.factorId, code);
+      await refreshAssuranceLevel();
+      setRecoveryCodes(await mfaService.generateRecoveryCodes());
+      setEnrollment(null);
+      setCode('');
+      await fetchStatus();
+      toast.success('Two-factor authentication is on');
+    } catch (error) {
+      console.error('Error verifying two-factor code:', error);
+      toast.error('That code did not work. Check the time on your device and try again.');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const regenerateCodes = async () => {
+    try {
+      setProcessing(true);
+      setRecoveryCodes(await mfaService.generateRecoveryCodes());
+      await fetchStatus();
+    } catch (error) {
+      console.error('Error generating recovery codes:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to generate recovery codes');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const disable = async () => {
+    try {
+      setProcessing(true);
+      for (const factor of factors) {
+        await mfaService.unenroll(factor.id);
+      }
+      await refreshAssuranceLevel();
+      await fetchStatus();
+      toast.success('Two-factor authentication is off');
+    } catch (error) {
+      console.error('Error turning off two-factor authentication:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to turn off two-factor authentication');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast.success('Recovery codes copied');
+  };
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return;
+    downloadBlob(
+      new Blob([`Task Match recovery codes\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain;charset=utf-8' }),
+      'task-match-recovery-codes.txt'
+    );
+  };
+
+  const enabled = factors.length > 0;
+
+  const renderBody = () => {
+    if (loading) {
+      return <Loader2 className="h-5 w-5 animate-spin text-gray-400" />;
+    }
+
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Save these recovery codes somewhere safe. Each one works once, if you lose your authenticator app.
+            They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-4 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={copyCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadCodes}>
+              <Download className="h-4 w-4 mr-2" />
+              Download
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                setRecoveryCodes(null);
+                onComplete?.();
+              }}
+            >
+              I have saved my codes
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    if (enrollment) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Authy,
+            then enter the 6-digit code it shows.
+          </p>
+          <img src={enrollment.qrCode} alt="Two-factor QR code" className="h-44 w-44 rounded border border-gray-200 bg-white p-2" />
+          <p className="text-xs text-gray-500">
+            Can't scan it? Enter this key instead: <span className="font-mono break-all">{enrollment.secret}</span>
+          </p>
+          <div className="flex gap-2 max-w-xs">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="123456"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+            />
+            <Button onClick={finishEnrollment} disabled={processing || code.trim().length !== 6}>
+              {processing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Verify'}
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setEnrollment(null)} disabled={processing}>
+            Cancel
+          </Button>
+        </div>
+      );
+    }
+
+    if (!enabled) {
+      return (
+        <div className="space-y-3">
+          {required && (
+            <p className="text-sm text-amber-700">
+              Your account needs two-factor authentication before you can continue.
+            </p>
+          )}
+          <Button onClick={startEnrollment} disabled={processing}>
+            <ShieldCheck className="h-4 w-4 mr-2" />
+            Set Up Authenticator App
+          </Button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <ShieldCheck className="h-4 w-4" />
+          On. You will be asked for a code from your authenticator app when you sign in.
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label>Recovery codes</Label>
+            <p className="text-sm text-gray-500">
+              {codesRemaining === 0
+                ? 'You have no unused recovery codes left.'
+                : `${codesRemaining} unused recovery code${codesRemaining === 1 ? '' : 's'} left.`}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={regenerateCodes} disabled={processing}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            New Codes
+          </Button>
+        </div>
+        {!required && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="border-red-200 text-red-700 hover:bg-red-50"
+            onClick={disable}
+            disabled={processing}
+          >
+            <ShieldOff className="h-4 w-4 mr-2" />
+            Turn Off
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Two-Factor Authentication
+        </CardTitle>
+        <CardDescription>
+          Protect your account with a code from an authenticator app
+        </CardDescription>
+      </CardHeader>
+      <CardContent>{renderBody()}</CardContent>
+    </Card>
+  );
+}
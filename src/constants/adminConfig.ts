@@ -1,11 +0,0 @@
-export const ADMIN_CREDENTIALS = {
-  email: 'admin@taskmah.com',
-  password: 'adminTaskmatch2024',
-  token: 'taskmah-admin-secret-token-2024' // Add a secret token
-};
-
-export const LOCAL_STORAGE_KEYS = {
-  ADMIN_TOKEN: 'taskmah_admin_token',
-  ADMIN_SESSION: 'taskmah_admin_session'
-};
-
@@ -1,11 +1,12 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { ADMIN_CREDENTIALS, LOCAL_STORAGE_KEYS } from '../constants/adminConfig';
+import { supabase } from '../services/supabase';
+import { adminService } from '../services/adminService';
 
 interface AdminAuthContextType {
   isAdmin: boolean;
   loading: boolean;
   adminSignIn: (email: string, password: string) => Promise<void>;
-  adminSignOut: () => void;
+  adminSignOut: () => Promise<void>;
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
@@ -15,50 +16,77 @@ export function AdminAuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Check for admin session on mount
-    const adminSession = localStorage.getItem(LOCAL_STORAGE_KEYS.ADMIN_SESSION);
-    if (adminSession) {
-      const session = JSON.parse(adminSession);
-      const isValid = validateAdminSession(session);
-      setIsAdmin(isValid);
-    }
-    setLoading(false);
-  }, []);
+    let cancelled = false;
 
-  function validateAdminSession(session: any) {
-    if (!session) return false;
-    // Session expires after 24 hours
-    const isExpired = Date.now() - session.timestamp > 24 * 60 * 60 * 1000;
-    return !isExpired && session.token === ADMIN_CREDENTIALS.token;
-  }
+    // The admin role lives on the server; re-check it whenever the session changes
+    const refreshAdminStatus = async (hasSession: boolean) => {
+      if (!hasSession) {
+        if (!cancelled) {
+          setIsAdmin(false);
+          setLoading(false);
+        }
+        return;
+      }
+
+      try {
+        const result = await adminService.isCurrentUserAdmin();
+        if (!cancelled) setIsAdmin(result);
+      } catch (error) {
+        console.error('Admin role check error:', error);
+        if (!cancelled) setIsAdmin(false);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      refreshAdminStatus(!!session);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') {
+        refreshAdminStatus(false);
+      } else if (event === 'SIGNED_IN' || event === 'TOKEN_REFRESHED' || event === 'USER_UPDATED') {
+        // Defer so the RPC does not run inside the auth client's callback lock
+        setTimeout(() => refreshAdminStatus(!!session), 0);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      subscription.unsubscribe();
+    };
+  }, []);
 
   async function adminSignIn(email: string, password: string) {
     setLoading(true);
     try {
-      if (email !== ADMIN_CREDENTIALS.email || password !== ADMIN_CREDENTIALS.password) {
-        throw new Error('Invalid admin credentials');
+      const { error } = await supabase.auth.signInWithPassword({
+        email: email.trim().toLowerCase(),
+        password,
+      });
+      if (error) throw error;
+
+      const hasAdminRole = await adminService.isCurrentUserAdmin();
+      if (!hasAdminRole) {
+        await supabase.auth.signOut();
+        throw new Error('This account does not have admin access');
       }
-      
-      // Store admin session
-      const sessionData = {
-        email: ADMIN_CREDENTIALS.email,
-        timestamp: Date.now(),
-        token: ADMIN_CREDENTIALS.token,
-      };
-      
-      localStorage.setItem(LOCAL_STORAGE_KEYS.ADMIN_SESSION, JSON.stringify(sessionData));
+
       setIsAdmin(true);
     } catch (error) {
       console.error('Admin sign in error:', error);
+      setIsAdmin(false);
       throw error;
     } finally {
       setLoading(false);
     }
   }
 
-  function adminSignOut() {
-    localStorage.removeItem(LOCAL_STORAGE_KEYS.ADMIN_SESSION);
+  async function adminSignOut() {
+    const { error } = await supabase.auth.signOut();
     setIsAdmin(false);
+    if (error) throw error;
   }
 
   return (
@@ -75,5 +103,3 @@ export function useAdminAuth() {
   }
   return context;
 }
-
-
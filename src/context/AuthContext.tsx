@@ -1,10 +1,15 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { User, AuthError } from '@supabase/supabase-js';
 import { supabase } from '../services/supabase';
+import { AssuranceLevel, mfaService } from '../services/mfaService';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  assuranceLevel: AssuranceLevel;
+  // Signed in with a password, but the account's second factor is still due
+  mfaPending: boolean;
+  refreshAssuranceLevel: () => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string) => Promise<{ success: boolean; message: string }>;
   signOut: () => Promise<void>;
@@ -24,12 +29,30 @@ export function useAuth() {
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [assuranceLevel, setAssuranceLevel] = useState<AssuranceLevel>({ currentLevel: null, nextLevel: null });
+
+  const refreshAssuranceLevel = async () => {
+    try {
+      setAssuranceLevel(await mfaService.getAssuranceLevel());
+    } catch (error) {
+      console.error('Error checking MFA level:', error);
+      setAssuranceLevel({ currentLevel: null, nextLevel: null });
+    }
+  };
 
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       setUser(session?.user ?? null);
-      setLoading(false);
+      // Defer so the MFA check does not run inside the auth client's callback lock
+      setTimeout(async () => {
+        if (session) {
+          await refreshAssuranceLevel();
+        } else {
+          setAssuranceLevel({ currentLevel: null, nextLevel: null });
+        }
+        setLoading(false);
+      }, 0);
     });
 
     return () => subscription.unsubscribe();
@@ -102,6 +125,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const value = {
     user,
     loading,
+    assuranceLevel,
+    mfaPending: assuranceLevel.nextLevel === 'aal2' && assuranceLevel.currentLevel !== 'aal2',
+    refreshAssuranceLevel,
     signIn,
     signUp,
     signOut,
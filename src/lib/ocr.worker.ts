@@ -0,0 +1,207 @@
+// Dedicated OCR worker: preprocesses page images and recognises them with a
+// small pool of Tesseract workers that is kept warm between documents.
+// Talks to src/services/ocrService.ts.
+
+import { createWorker, OEM, PSM, Worker as TesseractWorker } from 'tesseract.js';
+import type { OcrWorkerEvent, OcrWorkerRequest } from '../services/ocrService';
+import { preprocessForOcr } from '../utils/ocrPreprocessing';
+
+declare const self: {
+  onmessage: ((event: MessageEvent<OcrWorkerRequest>) => void) | null;
+  postMessage: (message: OcrWorkerEvent) => void;
+};
+
+interface PageTask {
+  jobId: string;
+  page: number;
+  image: ImageBitmap;
+}
+
+interface PoolSlot {
+  worker: Promise<TesseractWorker>;
+  task: PageTask | null;
+  // Rejects the in-flight recognition when its job is cancelled or times out
+  abort: ((error: Error) => void) | null;
+}
+
+const POOL_SIZE = Math.max(1, Math.min(2, (navigator.hardwareConcurrency || 2) - 1));
+const PAGE_TIMEOUT_MS = 60000;
+// Tesseract workers hold the language model in memory, so release them when idle
+const IDLE_TIMEOUT_MS = 60000;
+const CHAR_WHITELIST = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-/.:,\'()< ';
+
+const queue: PageTask[] = [];
+const pool: PoolSlot[] = [];
+// Includes tasks whose slot was discarded on cancel but are still preprocessing
+const runningTasks = new Set<PageTask>();
+// Kept only until the job's running tasks have finished
+const cancelledJobs = new Set<string>();
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+const spawnTesseract = async (currentTask: () => PageTask | null) => {
+  // The engine mode can only be chosen when the worker starts
+  const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+    logger: message => {
+      const task = currentTask();
+      if (task && message.status === 'recognizing text') {
+        self.postMessage({ type: 'progress', jobId: task.jobId, page: task.page, stage: 'recognizing', progress: message.progress });
+      }
+    },
+  });
+
+  await worker.setParameters({
+    tessedit_char_whitelist: CHAR_WHITELIST,
+    tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+    tessjs_create_hocr: '0',
+    tessjs_create_tsv: '0',
+    textord_heavy_nr: '1',
+    textord_min_linesize: '3.0',
+  });
+  return worker;
+};
+
+const createSlot = () => {
+  const slot: PoolSlot = { worker: spawnTesseract(() => slot.task), task: null, abort: null };
+  pool.push(slot);
+  return slot;
+};
+
+// A cancelled or timed-out recognition cannot be interrupted, so its worker is thrown away
+const discardSlot = (slot: PoolSlot) => {
+  pool.splice(pool.indexOf(slot), 1);
+  slot.worker.then(worker => worker.terminate()).catch(() => undefined);
+};
+
+const scheduleIdleShutdown = () => {
+  clearTimeout(idleTimer);
+  idleTimer = setTimeout(() => {
+    if (queue.length > 0 || pool.some(slot => slot.task)) return;
+    pool.splice(0).forEach(slot => slot.worker.then(worker => worker.terminate()).catch(() => undefined));
+  }, IDLE_TIMEOUT_MS);
+};
+
+const preprocess = async (task: PageTask) => {
+  self.postMessage({ type: 'progress', jobId: task.jobId, page: task.page, stage: 'preprocessing', progress: 0 });
+
+  const canvas = new OffscreenCanvas(task.image.width, task.image.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create canvas context for OCR preprocessing');
+  }
+
+  context.drawImage(task.image, 0, 0);
+  task.image.close();
+
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { skewAngle } = preprocessForOcr(imageData);
+  context.putImageData(imageData, 0, 0);
+
+  self.postMessage({ type: 'progress', jobId: task.jobId, page: task.page, stage: 'preprocessing', progress: 1 });
+  return { canvas, skewAngle };
+};
+
+const forgetIfCancelled = (jobId: string) => {
+  if (cancelledJobs.has(jobId) && ![...runningTasks].some(task => task.jobId === jobId)) {
+    cancelledJobs.delete(jobId);
+  }
+};
+
+const runTask = async (slot: PoolSlot, task: PageTask) => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let recognizing = false;
+
+  try {
+    const { canvas, skewAngle } = await preprocess(task);
+    const preview = task.page === 1 ? await canvas.convertToBlob({ type: 'image/png' }) : undefined;
+    if (cancelledJobs.has(task.jobId)) return;
+
+    recognizing = true;
+    const worker = await slot.worker;
+    const stopped = new Promise<never>((_, reject) => {
+      slot.abort = reject;
+      timer = setTimeout(() => reject(new Error('OCR timed out')), PAGE_TIMEOUT_MS);
+    });
+    const { data } = await Promise.race([worker.recognize(canvas), stopped]);
+
+    self.postMessage({
+      type: 'page',
+      jobId: task.jobId,
+      page: task.page,
+      text: data.text,
+      confidence: data.confidence,
+      skewAngle,
+      preview,
+    });
+  } catch (error) {
+    // The Tesseract worker failed to start, timed out or errored; replace it
+    if (recognizing && pool.includes(slot)) discardSlot(slot);
+    if (!cancelledJobs.has(task.jobId)) {
+      console.error(`Error processing page ${task.page}:`, error);
+      self.postMessage({
+        type: 'error',
+        jobId: task.jobId,
+        page: task.page,
+        message: error instanceof Error ? error.message : 'OCR failed',
+      });
+    }
+  } finally {
+    clearTimeout(timer);
+    slot.task = null;
+    slot.abort = null;
+    runningTasks.delete(task);
+    forgetIfCancelled(task.jobId);
+  }
+};
+
+const pump = () => {
+  while (queue.length > 0) {
+    const slot = pool.find(candidate => !candidate.task) ?? (pool.length < POOL_SIZE ? createSlot() : undefined);
+    if (!slot) return;
+
+    const task = queue.shift()!;
+    slot.task = task;
+    runningTasks.add(task);
+    runTask(slot, task).finally(() => {
+      pump();
+      scheduleIdleShutdown();
+    });
+  }
+};
+
+const cancelJob = (jobId: string) => {
+  cancelledJobs.add(jobId);
+
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (queue[i].jobId === jobId) {
+      queue[i].image.close();
+      queue.splice(i, 1);
+    }
+  }
+
+  pool
+    .filter(slot => slot.task?.jobId === jobId)
+    .forEach(slot => {
+      discardSlot(slot);
+      slot.abort?.(new Error('OCR was cancelled'));
+    });
+
+  forgetIfCancelled(jobId);
+};
+
+self.onmessage = (event) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    cancelJob(message.jobId);
+    return;
+  }
+
+  if (cancelledJobs.has(message.jobId)) {
+    message.image.close();
+    return;
+  }
+
+  clearTimeout(idleTimer);
+  queue.push({ jobId: message.jobId, page: message.page, image: message.image });
+  pump();
+};
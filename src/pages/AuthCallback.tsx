@@ -1,51 +1,101 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '../services/supabase';
+import { mfaService } from '../services/mfaService';
+import { MfaChallenge } from '../components/security/MfaChallenge';
+
+// Providers report failures (a cancelled consent screen, an identity already
+// linked to another account) in the query string or in the hash
+const readCallbackError = (): string | null => {
+  const query = new URLSearchParams(window.location.search);
+  const hash = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const description = query.get('error_description') ?? hash.get('error_description');
+  const code = query.get('error') ?? hash.get('error');
+  if (!description && !code) return null;
+  return (description ?? code ?? '').replace(/\+/g, ' ');
+};
 
 export function AuthCallback() {  // Changed from 'export default' to 'export function'
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [error, setError] = useState<string>('');
   const [verifying, setVerifying] = useState(true);
+  const [mfaRequired, setMfaRequired] = useState(false);
 
-  useEffect(() => {
-    const handleAuthCallback = async () => {
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) throw new Error('No user found');
+  // Only same-site paths, so the link flow cannot be used as an open redirect
+  const nextParam = searchParams.get('next');
+  const next = nextParam && nextParam.startsWith('/') && !nextParam.startsWith('//') ? nextParam : null;
 
-        // Check if profile exists
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('role')
-          .eq('id', user.id)
-          .single();
+  const routeUser = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('No user found');
 
-        if (profileError && profileError.code !== 'PGRST116') {
-          throw profileError;
-        }
+    // Check if profile exists
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .single();
 
-        // If no profile exists, redirect to role selection
-        if (!profile) {
-          navigate('/select-role');
-          return;
-        }
+    if (profileError && profileError.code !== 'PGRST116') {
+      throw profileError;
+    }
+
+    // First sign-in through a provider: the profile has no role yet
+    if (!profile || !profile.role) {
+      navigate('/select-role');
+      return;
+    }
+
+    if (next) {
+      navigate(next);
+      return;
+    }
 
-        // If profile exists but no role, redirect to role selection
-        if (!profile.role) {
-          navigate('/select-role');
+    // If profile exists with role, redirect to dashboard
+    navigate(profile.role === 'employer' ? '/employer/dashboard' : '/dashboard');
+  }, [navigate, next]);
+
+  useEffect(() => {
+    const handleAuthCallback = async () => {
+      try {
+        const callbackError = readCallbackError();
+        if (callbackError) throw new Error(callbackError);
+
+        const { currentLevel, nextLevel } = await mfaService.getAssuranceLevel();
+        if (nextLevel === 'aal2' && currentLevel !== 'aal2') {
+          setMfaRequired(true);
           return;
         }
 
-        // If profile exists with role, redirect to dashboard
-        navigate(profile.role === 'employer' ? '/employer/dashboard' : '/dashboard');
+        await routeUser();
       } catch (error) {
         console.error('Error in auth callback:', error);
-        navigate('/signin');
+        setError(error instanceof Error ? error.message : 'Sign in failed');
+      } finally {
+        setVerifying(false);
       }
     };
 
     handleAuthCallback();
-  }, [navigate]);
+  }, [routeUser]);
+
+  if (mfaRequired) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex flex-col justify-center">
+        <MfaChallenge
+          onVerified={() => {
+            setMfaRequired(false);
+            routeUser().catch(err => {
+              console.error('Error in auth callback:', err);
+              setError(err instanceof Error ? err.message : 'Sign in failed');
+            });
+          }}
+          onSignedOut={() => navigate('/signin')}
+        />
+      </div>
+    );
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
@@ -56,14 +106,19 @@ export function AuthCallback() {  // Changed from 'export default' to 'export fu
               <>
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
                 <div className="mt-4 text-sm text-gray-600">
-                  Verifying your email...
+                  Signing you in...
                 </div>
               </>
             ) : error ? (
-              <div className="text-red-600">{error}</div>
+              <div className="space-y-4">
+                <div className="text-red-600">{error}</div>
+                <Link to={next ?? '/signin'} className="text-sm text-blue-600 hover:text-blue-500 font-medium">
+                  {next ? 'Go back' : 'Back to sign in'}
+                </Link>
+              </div>
             ) : (
               <div className="text-green-600">
-                Email verified successfully! Redirecting...
+                Signed in successfully! Redirecting...
               </div>
             )}
           </div>
@@ -72,9 +127,3 @@ export function AuthCallback() {  // Changed from 'export default' to 'export fu
     </div>
   );
 }
-
-
-
-
-
-
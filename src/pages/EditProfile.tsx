@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../services/supabase';
 import { toast } from 'sonner';
-import { User, X, Loader2, ArrowLeft, Camera, CheckCircle, Briefcase, Mail, Clock, FileText } from 'lucide-react';
+import { User, X, Loader2, ArrowLeft, Camera, CheckCircle, Briefcase, Mail, Clock, FileText, MapPin, Calendar } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "../components/ui/card";
 import { Button } from "../components/ui/button";
 import { Input } from "../components/ui/input";
@@ -20,10 +20,13 @@ interface Profile {
   id: string;
   full_name: string;
   avatar_url: string | null;
+  headline: string | null;
   bio: string;
   work_email: string;
   years_of_experience: number;
   skills: string[];
+  location: string | null;
+  availability: string | null;
   role: string;
   is_verified: boolean;
   verification_date: string | null;
@@ -279,6 +282,13 @@ export function EditProfile() {
                   icon={<Mail className="h-4 w-4 text-gray-500" />}
                 />
               </div>
+              <FormField
+                label="Headline"
+                name="headline"
+                value={profile?.headline ?? ''}
+                onChange={handleInputChange}
+                icon={<Briefcase className="h-4 w-4 text-gray-500" />}
+              />
               <FormField
                 label="Bio"
                 name="bio"
@@ -296,6 +306,22 @@ export function EditProfile() {
                 min={0}
                 icon={<Clock className="h-4 w-4 text-gray-500" />}
               />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  label="Location"
+                  name="location"
+                  value={profile?.location ?? ''}
+                  onChange={handleInputChange}
+                  icon={<MapPin className="h-4 w-4 text-gray-500" />}
+                />
+                <FormField
+                  label="Availability"
+                  name="availability"
+                  value={profile?.availability ?? ''}
+                  onChange={handleInputChange}
+                  icon={<Calendar className="h-4 w-4 text-gray-500" />}
+                />
+              </div>
             </CardContent>
           </Card>
 
@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
 import { supabase } from '../services/supabase';
-import { User, Send, ArrowLeft, MessageCircle } from 'lucide-react';
+import { User, Send, ArrowLeft, MessageCircle, X, Loader2, Search, Pin, BellOff, Flag, Briefcase } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -9,6 +9,20 @@ import { formatDistanceToNow } from 'date-fns';
 import { Smile, Paperclip, Image } from 'lucide-react';
 import data from '@emoji-mart/data';
 import Picker from '@emoji-mart/react';
+import { toast } from 'sonner';
+import { ApplicationStatus, ConversationPreferences, ConversationSummary, MessageAttachment, MessageSearchResult } from '../types/database';
+import {
+  attachmentAccept, formatFileSize, imageAttachmentAccept, isImageAttachment, messageAttachmentService, validateAttachment,
+} from '../services/messageAttachmentService';
+import { MessageAttachmentView } from '../components/messages/MessageAttachmentView';
+import { MessageReceipt } from '../components/messages/MessageReceipt';
+import { CONVERSATION_PAGE_SIZE, conversationService } from '../services/conversationService';
+import { ConversationActions } from '../components/messages/ConversationActions';
+import { MessageSearchResults } from '../components/messages/MessageSearchResults';
+import { ReportDialog } from '../components/ReportDialog';
+import {
+  isRecentlySeen, LAST_SEEN_INTERVAL_MS, messageStatusService, TYPING_TIMEOUT_MS,
+} from '../services/messageStatusService';
 
 interface Conversation {
   id: string;
@@ -21,13 +35,28 @@ interface Conversation {
     full_name: string;
     avatar_url: string;
   };
+  pinned_at: string | null;
+  archived_at: string | null;
+  muted: boolean;
+  blocked: boolean;
+  unread_count: number;
+  // Set for threads about a job application
+  application: {
+    id: string;
+    job_title: string;
+    status: ApplicationStatus | null;
+    stage_name: string | null;
+  } | null;
 }
 
 interface Message {
   id: string;
   conversation_id: string;
-  sender_id: string;
+  sender_id: string | null;
   content: string;
+  message_type?: string;
+  delivered_at?: string | null;
+  read_at?: string | null;
   created_at: string;
   sender?: {
     full_name: string;
@@ -35,6 +64,77 @@ interface Message {
   };
 }
 
+const toConversation = (row: ConversationSummary): Conversation => ({
+  id: row.id,
+  user1_id: row.user1_id,
+  user2_id: row.user2_id,
+  last_message_at: row.last_message_at,
+  last_message: row.last_message ?? undefined,
+  other_user: {
+    id: row.other_user_id,
+    full_name: row.other_user_name || 'Unknown User',
+    avatar_url: row.other_user_avatar_url || '',
+  },
+  pinned_at: row.pinned_at,
+  archived_at: row.archived_at,
+  muted: row.muted,
+  blocked: row.blocked,
+  unread_count: row.unread_count,
+  application: row.job_application_id ? {
+    id: row.job_application_id,
+    job_title: row.job_title || 'Job',
+    status: row.application_status,
+    stage_name: row.application_stage_name,
+  } : null,
+});
+
+// The stage name when there is one, otherwise the coarse status
+const applicationStatusLabel = (application: NonNullable<Conversation['application']>) => {
+  if (application.stage_name) return application.stage_name;
+  if (!application.status) return null;
+  return application.status.charAt(0).toUpperCase() + application.status.slice(1);
+};
+
+const applicationStatusClasses: Record<ApplicationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  reviewing: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+// Adds each sender's name and avatar. System messages have no sender.
+const withSenders = async <T extends { sender_id: string | null }>(messages: T[]) => {
+  const senderIds = [...new Set(messages.flatMap(message => message.sender_id ? [message.sender_id] : []))];
+  if (senderIds.length === 0) return messages.map(message => ({ ...message, sender: undefined }));
+
+  const { data: profilesData, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, full_name, avatar_url')
+    .in('id', senderIds);
+
+  if (profilesError) throw profilesError;
+
+  return messages.map(message => {
+    const senderProfile = profilesData?.find(profile => profile.id === message.sender_id);
+    return {
+      ...message,
+      sender: senderProfile ? {
+        full_name: senderProfile.full_name,
+        avatar_url: senderProfile.avatar_url
+      } : undefined
+    };
+  });
+};
+
+const scrollToBottom = () => {
+  setTimeout(() => {
+    const messagesContainer = document.getElementById('messages-container');
+    if (messagesContainer) {
+      messagesContainer.scrollTop = messagesContainer.scrollHeight;
+    }
+  }, 100);
+};
+
 // Add this to the component props
 interface MessagesPageProps {
   selectedConversationId?: string;
@@ -48,8 +148,102 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
+  // Attachments by message ID, and signed links to their files by path
+  const [attachments, setAttachments] = useState<Record<string, MessageAttachment[]>>({});
+  const [signedUrls, setSignedUrls] = useState<Record<string, string>>({});
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+  // Who has the selected conversation open, and whether the other person is typing
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
+  const [otherUserTyping, setOtherUserTyping] = useState(false);
+  // Last seen times of the other people in the conversation list
+  const [lastSeen, setLastSeen] = useState<Record<string, string>>({});
+  // Inbox or archive, loaded a page at a time
+  const [showArchived, setShowArchived] = useState(false);
+  const [hasMoreConversations, setHasMoreConversations] = useState(false);
+  const [loadingMoreConversations, setLoadingMoreConversations] = useState(false);
+  // Older messages load as the thread is scrolled up
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  // Search replaces the conversation list while there are results to show
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  // A search result to scroll to once its page of the thread is loaded
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [reportedMessage, setReportedMessage] = useState<Message | null>(null);
+  // The selected conversation when it is not in the loaded list
+  const [openedConversation, setOpenedConversation] = useState<Conversation | null>(null);
+  const conversationCountRef = useRef(0);
+  const focusMessageIdRef = useRef<string | null>(null);
+  const presenceRef = useRef<ReturnType<typeof messageStatusService.joinConversation> | null>(null);
+  const typingSentAtRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
 
+  // Only files the user can open get a link; see the storage policies in
+  // 20250421000000_message_attachments.sql
+  const addAttachments = useCallback(async (items: MessageAttachment[]) => {
+    if (items.length === 0) return;
+
+    setAttachments(prev => {
+      const next = { ...prev };
+      for (const item of items) {
+        next[item.message_id] = [...(next[item.message_id] || []).filter(a => a.id !== item.id), item];
+      }
+      return next;
+    });
+
+    const paths = items
+      .filter(item => item.scan_status === 'clean' || item.uploader_id === user?.id)
+      .map(item => (isImageAttachment(item.mime_type) ? item.storage_path : item.thumbnail_path))
+      .filter((path): path is string => !!path);
+
+    try {
+      const urls = await messageAttachmentService.getSignedUrls(paths);
+      setSignedUrls(prev => ({ ...prev, ...urls }));
+    } catch (error) {
+      console.error('Error loading attachment previews:', error);
+    }
+  }, [user?.id]);
+
+  const handleFileSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const validationError = validateAttachment(file);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+    setPendingFile(file);
+  };
+
+  // Receipts only go out while the conversation is actually on screen
+  const markSelectedConversationRead = useCallback(async () => {
+    if (!selectedConversation || document.visibilityState !== 'visible') return;
+
+    try {
+      await messageStatusService.markConversationRead(selectedConversation);
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+    }
+  }, [selectedConversation]);
+
+  const handleMessageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setNewMessage(e.target.value);
+
+    // Tell the other side at most every couple of seconds; they drop the
+    // indicator on their own after TYPING_TIMEOUT_MS
+    const now = Date.now();
+    if (e.target.value && now - typingSentAtRef.current > TYPING_TIMEOUT_MS / 2) {
+      typingSentAtRef.current = now;
+      presenceRef.current?.sendTyping(true);
+    }
+  };
+
   const onEmojiSelect = (emoji: any) => {
     setNewMessage(prev => prev + emoji.native);
     setShowEmojiPicker(false);
@@ -61,56 +255,17 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
       return;
     }
 
+    // Reloads every conversation already shown, so new messages reorder the
+    // list without dropping pages that were loaded
     const fetchConversations = async () => {
       try {
-        // Fetch conversations without trying to join with profiles
-        const { data: conversationsData, error: conversationsError } = await supabase
-          .from('conversations')
-          .select(`
-            id,
-            user1_id,
-            user2_id,
-            last_message_at,
-            last_message
-          `)
-          .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
-          .order('last_message_at', { ascending: false });
-
-        if (conversationsError) throw conversationsError;
-
-        if (conversationsData && conversationsData.length > 0) {
-          // Get all user IDs that we need to fetch (excluding current user)
-          const userIds = conversationsData.flatMap(conv => 
-            [conv.user1_id, conv.user2_id].filter(id => id !== user.id)
-          );
-          
-          // Fetch profiles for these users
-          const { data: profilesData, error: profilesError } = await supabase
-            .from('profiles')
-            .select('id, full_name, avatar_url')
-            .in('id', [...new Set(userIds)]);
-            
-          if (profilesError) throw profilesError;
-          
-          // Transform data to include the other user's info
-          const transformedData = conversationsData.map(conv => {
-            const otherUserId = conv.user1_id === user.id ? conv.user2_id : conv.user1_id;
-            const otherUser = profilesData?.find(profile => profile.id === otherUserId);
-            
-            return {
-              id: conv.id,
-              user1_id: conv.user1_id,
-              user2_id: conv.user2_id,
-              last_message_at: conv.last_message_at,
-              last_message: conv.last_message,
-              other_user: otherUser || { id: otherUserId, full_name: 'Unknown User', avatar_url: '' }
-            };
-          });
-
-          setConversations(transformedData);
-        } else {
-          setConversations([]);
-        }
+        const { conversations: rows, hasMore } = await conversationService.listConversations({
+          archived: showArchived,
+          limit: Math.max(conversationCountRef.current, CONVERSATION_PAGE_SIZE),
+        });
+        conversationCountRef.current = rows.length;
+        setConversations(rows.map(toConversation));
+        setHasMoreConversations(hasMore);
       } catch (error) {
         console.error('Error fetching conversations:', error);
       } finally {
@@ -120,7 +275,7 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
 
     fetchConversations();
 
-    // Subscribe to new conversations
+    // Subscribe to new conversations. Only the user's own rows arrive.
     const conversationsSubscription = supabase
       .channel('conversations-changes')
       .on(
@@ -128,8 +283,7 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
         {
           event: '*',
           schema: 'public',
-          table: 'conversations',
-          filter: `or(user1_id=eq.${user.id},user2_id=eq.${user.id})`
+          table: 'conversations'
         },
         () => {
           fetchConversations();
@@ -140,65 +294,27 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
     return () => {
       supabase.removeChannel(conversationsSubscription);
     };
-  }, [user, navigate]);
+  }, [user, navigate, showArchived]);
 
   useEffect(() => {
     if (!selectedConversation) return;
 
     const fetchMessages = async () => {
       try {
-        // Modified query to avoid using the foreign key relationship
-        const { data: messagesData, error: messagesError } = await supabase
-          .from('messages')
-          .select(`
-            id,
-            conversation_id,
-            sender_id,
-            content,
-            created_at
-          `)
-          .eq('conversation_id', selectedConversation)
-          .order('created_at', { ascending: true });
-
-        if (messagesError) throw messagesError;
-        
-        // If we have messages, fetch the sender profiles separately
-        if (messagesData && messagesData.length > 0) {
-          // Get unique sender IDs
-          const senderIds = [...new Set(messagesData.map(msg => msg.sender_id))];
-          
-          // Fetch profiles for these senders
-          const { data: profilesData, error: profilesError } = await supabase
-            .from('profiles')
-            .select('id, full_name, avatar_url')
-            .in('id', senderIds);
-            
-          if (profilesError) throw profilesError;
-          
-          // Map profiles to messages
-          const messagesWithSenders = messagesData.map(message => {
-            const senderProfile = profilesData?.find(profile => profile.id === message.sender_id);
-            return {
-              ...message,
-              sender: senderProfile ? {
-                full_name: senderProfile.full_name,
-                avatar_url: senderProfile.avatar_url
-              } : undefined
-            };
-          });
-          
-          setMessages(messagesWithSenders);
-        } else {
-          setMessages([]);
-        }
+        const { messages: page, hasMore } = await conversationService.getMessages(selectedConversation);
+        setMessages(await withSenders(page));
+        setHasOlderMessages(hasMore);
 
-        // Scroll to bottom of messages
-        setTimeout(() => {
-          const messagesContainer = document.getElementById('messages-container');
-          if (messagesContainer) {
-            messagesContainer.scrollTop = messagesContainer.scrollHeight;
-          }
-        }, 100);
+        const attachmentMessageIds = page
+          .filter(message => message.message_type === 'attachment')
+          .map(message => message.id);
+        setAttachments({});
+        await addAttachments(await messageAttachmentService.getAttachments(attachmentMessageIds));
+
+        markSelectedConversationRead();
+        if (!focusMessageIdRef.current) {
+          scrollToBottom();
+        }
       } catch (error) {
         console.error('Error fetching messages:', error);
       }
@@ -206,9 +322,9 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
 
     fetchMessages();
 
-    // Subscribe to new messages
+    // Subscribe to new messages, and to receipts on the ones already shown
     const messagesSubscription = supabase
-      .channel('messages-changes')
+      .channel(`conversation-messages:${selectedConversation}`)
       .on(
         'postgres_changes',
         {
@@ -218,6 +334,14 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
           filter: `conversation_id=eq.${selectedConversation}`
         },
         (payload) => {
+          // System messages have no sender to look up
+          if (!payload.new.sender_id) {
+            setMessages(prev => [...prev, payload.new as Message]);
+            markSelectedConversationRead();
+            scrollToBottom();
+            return;
+          }
+
           // Fetch the sender info for the new message
           const fetchSender = async () => {
             const { data, error } = await supabase
@@ -233,25 +357,110 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
               };
               setMessages(prev => [...prev, newMessage as Message]);
 
-              // Scroll to bottom
-              setTimeout(() => {
-                const messagesContainer = document.getElementById('messages-container');
-                if (messagesContainer) {
-                  messagesContainer.scrollTop = messagesContainer.scrollHeight;
-                }
-              }, 100);
+              if (payload.new.sender_id !== user?.id) {
+                setOtherUserTyping(false);
+                markSelectedConversationRead();
+              }
+
+              scrollToBottom();
             }
           };
 
           fetchSender();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${selectedConversation}`
+        },
+        (payload) => {
+          const { id, delivered_at, read_at } = payload.new as Message;
+          setMessages(prev => prev.map(message => (
+            message.id === id ? { ...message, delivered_at, read_at } : message
+          )));
+        }
+      )
+      .subscribe();
+
+    document.addEventListener('visibilitychange', markSelectedConversationRead);
+
+    // Files arrive just after their message, and change again once scanned
+    const attachmentsSubscription = supabase
+      .channel('message-attachments-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'message_attachments',
+          filter: `conversation_id=eq.${selectedConversation}`
+        },
+        (payload) => {
+          if (payload.new && 'id' in payload.new) {
+            addAttachments([payload.new as MessageAttachment]);
+          }
+        }
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(messagesSubscription);
+      supabase.removeChannel(attachmentsSubscription);
+      document.removeEventListener('visibilitychange', markSelectedConversationRead);
     };
-  }, [selectedConversation]);
+  }, [selectedConversation, addAttachments, markSelectedConversationRead, user?.id]);
+
+  // Presence and typing for the open conversation
+  useEffect(() => {
+    if (!selectedConversation || !user) return;
+
+    let typingTimeout: number | undefined;
+    const presence = messageStatusService.joinConversation(selectedConversation, user.id, {
+      onPresence: setOnlineUserIds,
+      onTyping: (_userId, typing) => {
+        window.clearTimeout(typingTimeout);
+        setOtherUserTyping(typing);
+        if (typing) {
+          typingTimeout = window.setTimeout(() => setOtherUserTyping(false), TYPING_TIMEOUT_MS);
+        }
+      },
+    });
+    presenceRef.current = presence;
+
+    return () => {
+      window.clearTimeout(typingTimeout);
+      presence.leave();
+      presenceRef.current = null;
+      typingSentAtRef.current = 0;
+      setOnlineUserIds([]);
+      setOtherUserTyping(false);
+    };
+  }, [selectedConversation, user]);
+
+  // Last seen for everyone in the list, refreshed as often as it is recorded
+  useEffect(() => {
+    const userIds = conversations.map(conversation => conversation.other_user.id);
+    if (userIds.length === 0) return;
+
+    const fetchLastSeen = async () => {
+      try {
+        setLastSeen(await messageStatusService.getLastSeen(userIds));
+      } catch (error) {
+        console.error('Error fetching last seen:', error);
+      }
+    };
+
+    fetchLastSeen();
+    const interval = window.setInterval(fetchLastSeen, LAST_SEEN_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [conversations]);
+
+  const activeConversation = conversations.find(c => c.id === selectedConversation)
+    ?? (openedConversation?.id === selectedConversation ? openedConversation : undefined);
 
   // Update useEffect to handle the selectedConversationId
   useEffect(() => {
@@ -260,51 +469,229 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
     }
   }, [selectedConversationId]);
 
+  // A conversation opened by link or from search may be archived, or
+  // further down than the pages loaded so far
+  useEffect(() => {
+    if (!selectedConversation || loading || conversations.some(c => c.id === selectedConversation)) return;
+
+    let cancelled = false;
+    conversationService.getConversation(selectedConversation)
+      .then(row => {
+        if (!cancelled) setOpenedConversation(row ? toConversation(row) : null);
+      })
+      .catch(error => console.error('Error fetching conversation:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedConversation, conversations, loading]);
+
+  const loadOlderMessages = useCallback(async () => {
+    if (!selectedConversation || !hasOlderMessages || loadingOlderMessages || messages.length === 0) return;
+
+    const container = document.getElementById('messages-container');
+    const previousHeight = container?.scrollHeight ?? 0;
+
+    try {
+      setLoadingOlderMessages(true);
+      const { messages: page, hasMore } = await conversationService.getMessages(selectedConversation, messages[0].created_at);
+      const older = await withSenders(page);
+      setMessages(prev => [...older, ...prev]);
+      setHasOlderMessages(hasMore);
+
+      await addAttachments(await messageAttachmentService.getAttachments(
+        page.filter(message => message.message_type === 'attachment').map(message => message.id)
+      ));
+
+      // Keep the messages that were on screen where they were
+      setTimeout(() => {
+        if (container) {
+          container.scrollTop += container.scrollHeight - previousHeight;
+        }
+      }, 0);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      toast.error('Failed to load older messages');
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  }, [selectedConversation, hasOlderMessages, loadingOlderMessages, messages, addAttachments]);
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 80) {
+      loadOlderMessages();
+    }
+  };
+
+  // Pages back through the thread until the message picked in search is
+  // loaded, then scrolls to it and highlights it for a moment
+  useEffect(() => {
+    if (!focusMessageId || messages[0]?.conversation_id !== selectedConversation) return;
+
+    if (messages.some(message => message.id === focusMessageId)) {
+      setTimeout(() => {
+        document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ block: 'center' });
+      }, 100);
+      const timeout = window.setTimeout(() => {
+        focusMessageIdRef.current = null;
+        setFocusMessageId(null);
+      }, 3000);
+      return () => window.clearTimeout(timeout);
+    }
+
+    if (hasOlderMessages) {
+      loadOlderMessages();
+    }
+  }, [focusMessageId, messages, selectedConversation, hasOlderMessages, loadOlderMessages]);
+
+  const loadMoreConversations = async () => {
+    try {
+      setLoadingMoreConversations(true);
+      const { conversations: rows, hasMore } = await conversationService.listConversations({
+        archived: showArchived,
+        offset: conversations.length,
+      });
+      setConversations(prev => [...prev, ...rows.map(toConversation).filter(c => !prev.some(p => p.id === c.id))]);
+      conversationCountRef.current += rows.length;
+      setHasMoreConversations(hasMore);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      toast.error('Failed to load more conversations');
+    } finally {
+      setLoadingMoreConversations(false);
+    }
+  };
+
+  const switchFolder = (archived: boolean) => {
+    if (archived === showArchived) return;
+    conversationCountRef.current = 0;
+    setShowArchived(archived);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+
+    try {
+      setSearching(true);
+      setSearchResults([]);
+      setSearchResults(await conversationService.searchMessages(searchQuery));
+    } catch (error) {
+      console.error('Error searching messages:', error);
+      toast.error('Search failed');
+      setSearchResults(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchQuery('');
+    setSearchResults(null);
+  };
+
+  const selectSearchResult = (result: MessageSearchResult) => {
+    focusMessageIdRef.current = result.id;
+    setFocusMessageId(result.id);
+    setSelectedConversation(result.conversation_id);
+  };
+
+  const updateConversation = (conversationId: string, changes: Partial<Conversation>) => {
+    setConversations(prev => prev.map(c => (c.id === conversationId ? { ...c, ...changes } : c)));
+    setOpenedConversation(prev => (prev?.id === conversationId ? { ...prev, ...changes } : prev));
+  };
+
+  const handlePreferencesChange = async (changes: Partial<ConversationPreferences>) => {
+    if (!selectedConversation || !user) return;
+
+    try {
+      await conversationService.updatePreferences(selectedConversation, user.id, changes);
+      updateConversation(selectedConversation, changes);
+
+      // Archiving moves the conversation to the other list
+      if ('archived_at' in changes) {
+        const moved = conversations.find(c => c.id === selectedConversation);
+        if (moved) {
+          setOpenedConversation({ ...moved, ...changes });
+          setConversations(prev => prev.filter(c => c.id !== selectedConversation));
+          conversationCountRef.current = Math.max(conversationCountRef.current - 1, 0);
+        }
+        toast.success(changes.archived_at ? 'Conversation archived' : 'Conversation moved to inbox');
+      }
+    } catch (error) {
+      console.error('Error updating conversation:', error);
+      toast.error('Failed to update the conversation');
+    }
+  };
+
+  const handleBlockChange = async (blocked: boolean) => {
+    if (!activeConversation || !user) return;
+
+    try {
+      if (blocked) {
+        await conversationService.blockUser(user.id, activeConversation.other_user.id);
+      } else {
+        await conversationService.unblockUser(user.id, activeConversation.other_user.id);
+      }
+      updateConversation(activeConversation.id, { blocked });
+      toast.success(blocked
+        ? `${activeConversation.other_user.full_name || 'User'} is blocked`
+        : `${activeConversation.other_user.full_name || 'User'} is unblocked`);
+    } catch (error) {
+      console.error('Error updating block:', error);
+      toast.error(blocked ? 'Failed to block this user' : 'Failed to unblock this user');
+    }
+  };
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !selectedConversation || !user) return;
+    if ((!newMessage.trim() && !pendingFile) || !selectedConversation || !user) return;
 
     try {
-      // Get the conversation to determine the recipient
-      const conversation = conversations.find(c => c.id === selectedConversation);
-      if (!conversation) return;
-
-      // Determine recipient_id (the other user in the conversation)
-      const recipient_id = conversation.user1_id === user.id 
-        ? conversation.user2_id 
-        : conversation.user1_id;
-
-      // Insert the message
-      const { error: messageError } = await supabase
-        .from('messages')
-        .insert({
-          conversation_id: selectedConversation,
-          sender_id: user.id,
-          recipient_id: recipient_id, // Add this field
-          content: newMessage.trim(),
-          read: false // Add this field to track message read status
-        });
+      setSending(true);
 
-      if (messageError) throw messageError;
+      presenceRef.current?.sendTyping(false);
+      typingSentAtRef.current = 0;
 
-      // Update the conversation's last message and timestamp
-      const { error: conversationError } = await supabase
-        .from('conversations')
-        .update({
-          last_message: newMessage.trim(),
-          last_message_at: new Date().toISOString()
-        })
-        .eq('id', selectedConversation);
+      // The typed text goes out as the file's caption
+      if (pendingFile) {
+        await messageAttachmentService.sendAttachment({
+          conversationId: selectedConversation,
+          senderId: user.id,
+          file: pendingFile,
+          caption: newMessage,
+        });
+        setPendingFile(null);
+        setNewMessage('');
+        return;
+      }
 
-      if (conversationError) throw conversationError;
+      await conversationService.sendMessage(selectedConversation, newMessage);
 
       // Clear the input
       setNewMessage('');
     } catch (error) {
       console.error('Error sending message:', error);
+      toast.error(error instanceof Error ? error.message : pendingFile ? 'Failed to send the file' : 'Failed to send the message');
+    } finally {
+      setSending(false);
     }
   };
 
+  // Online means the app is open somewhere; in the open conversation,
+  // presence says so without waiting for the next heartbeat
+  const isOnline = (userId: string) => onlineUserIds.includes(userId) || isRecentlySeen(lastSeen[userId]);
+
+  const activityLabel = (userId: string) => {
+    if (otherUserTyping) return 'typing…';
+    if (isOnline(userId)) return 'Online';
+    if (lastSeen[userId]) return `Last seen ${formatDistanceToNow(new Date(lastSeen[userId]), { addSuffix: true })}`;
+    return null;
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -317,56 +704,135 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
     <div className="flex h-[calc(100vh-64px)]">
       {/* Conversations sidebar */}
       <div className={`w-80 border-r border-gray-200 bg-white ${selectedConversation ? 'hidden md:block' : 'block'}`}>
-        <div className="p-4 border-b border-gray-200">
+        <div className="p-4 border-b border-gray-200 space-y-3">
           <h2 className="text-lg font-semibold">Messages</h2>
+          <form onSubmit={handleSearch} className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              type="search"
+              placeholder="Search messages"
+              value={searchQuery}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                if (!e.target.value) setSearchResults(null);
+              }}
+              className="pl-9"
+            />
+          </form>
+          {searchResults === null ? (
+            <div className="flex gap-1 text-sm">
+              <button
+                type="button"
+                onClick={() => switchFolder(false)}
+                className={`px-3 py-1 rounded-full ${!showArchived ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-500 hover:bg-gray-100'}`}
+              >
+                Inbox
+              </button>
+              <button
+                type="button"
+                onClick={() => switchFolder(true)}
+                className={`px-3 py-1 rounded-full ${showArchived ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-500 hover:bg-gray-100'}`}
+              >
+                Archived
+              </button>
+            </div>
+          ) : (
+            <button type="button" onClick={clearSearch} className="text-sm text-blue-600 hover:underline">
+              Back to conversations
+            </button>
+          )}
         </div>
-        <div className="overflow-y-auto h-[calc(100%-57px)]">
-          {conversations.length === 0 ? (
+        <div className="overflow-y-auto h-[calc(100%-157px)]">
+          {searchResults !== null ? (
+            <MessageSearchResults
+              query={searchQuery}
+              results={searchResults}
+              searching={searching}
+              currentUserId={user?.id ?? ''}
+              onSelect={selectSearchResult}
+            />
+          ) : conversations.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-gray-500 p-4 text-center">
               <User className="h-12 w-12 text-gray-300 mb-2" />
-              <p>No conversations yet</p>
-              <p className="text-sm mt-1">Start chatting with users from the suggested users list</p>
+              {showArchived ? (
+                <p>No archived conversations</p>
+              ) : (
+                <>
+                  <p>No conversations yet</p>
+                  <p className="text-sm mt-1">Start chatting with users from the suggested users list</p>
+                </>
+              )}
             </div>
           ) : (
-            conversations.map((conversation) => (
-              <div
-                key={conversation.id}
-                className={`p-4 border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${
-                  selectedConversation === conversation.id ? 'bg-blue-50' : ''
-                }`}
-                onClick={() => setSelectedConversation(conversation.id)}
-              >
-                <div className="flex items-center space-x-3">
-                  <div className="relative">
-                    <div className="h-12 w-12 rounded-full bg-gray-100 flex items-center justify-center overflow-hidden">
-                      {conversation.other_user.avatar_url ? (
-                        <img
-                          src={conversation.other_user.avatar_url}
-                          alt={conversation.other_user.full_name || 'User'}
-                          className="h-full w-full object-cover"
-                        />
-                      ) : (
-                        <User className="h-6 w-6 text-gray-400" />
+            <>
+              {conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className={`p-4 border-b border-gray-100 hover:bg-gray-50 cursor-pointer ${
+                    selectedConversation === conversation.id ? 'bg-blue-50' : ''
+                  }`}
+                  onClick={() => {
+                    setSelectedConversation(conversation.id);
+                    updateConversation(conversation.id, { unread_count: 0 });
+                  }}
+                >
+                  <div className="flex items-center space-x-3">
+                    <div className="relative">
+                      <div className="h-12 w-12 rounded-full bg-gray-100 flex items-center justify-center overflow-hidden">
+                        {conversation.other_user.avatar_url ? (
+                          <img
+                            src={conversation.other_user.avatar_url}
+                            alt={conversation.other_user.full_name || 'User'}
+                            className="h-full w-full object-cover"
+                          />
+                        ) : (
+                          <User className="h-6 w-6 text-gray-400" />
+                        )}
+                      </div>
+                      {isOnline(conversation.other_user.id) && (
+                        <div className="absolute -bottom-1 -right-1 h-3 w-3 rounded-full bg-green-400 border-2 border-white"></div>
                       )}
                     </div>
-                    <div className="absolute -bottom-1 -right-1 h-3 w-3 rounded-full bg-green-400 border-2 border-white"></div>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex justify-between items-center">
-                      <p className="text-sm font-medium text-gray-900 truncate">
-                        {conversation.other_user.full_name || 'Anonymous User'}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between items-center gap-2">
+                        <p className={`text-sm text-gray-900 truncate ${conversation.unread_count > 0 ? 'font-semibold' : 'font-medium'}`}>
+                          {conversation.other_user.full_name || 'Anonymous User'}
+                        </p>
+                        <div className="flex items-center gap-1 flex-shrink-0 text-gray-400">
+                          {conversation.pinned_at && <Pin className="h-3 w-3" aria-label="Pinned" />}
+                          {conversation.muted && <BellOff className="h-3 w-3" aria-label="Muted" />}
+                          {conversation.unread_count > 0 && (
+                            <span className="min-w-[1.25rem] rounded-full bg-blue-500 px-1.5 text-center text-xs font-medium text-white">
+                              {conversation.unread_count}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {conversation.application && (
+                        <p className="text-xs text-blue-600 truncate flex items-center gap-1">
+                          <Briefcase className="h-3 w-3 flex-shrink-0" />
+                          {conversation.application.job_title}
+                        </p>
+                      )}
+                      {conversation.last_message && (
+                        <p className="text-xs text-gray-500 truncate">{conversation.last_message}</p>
+                      )}
+                      <p className="text-xs text-gray-400">
+                        {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
                       </p>
                     </div>
-                    {conversation.last_message && (
-                      <p className="text-xs text-gray-500 truncate">{conversation.last_message}</p>
-                    )}
-                    <p className="text-xs text-gray-400">
-                      {formatDistanceToNow(new Date(conversation.last_message_at), { addSuffix: true })}
-                    </p>
                   </div>
                 </div>
-              </div>
-            ))
+              ))}
+              {hasMoreConversations && (
+                <div className="p-3 text-center">
+                  <Button variant="ghost" size="sm" onClick={loadMoreConversations} disabled={loadingMoreConversations}>
+                    {loadingMoreConversations && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -383,24 +849,53 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
               >
                 <ArrowLeft className="h-5 w-5" />
               </button>
-              {conversations.find(c => c.id === selectedConversation)?.other_user && (
-                <div className="flex items-center space-x-3">
+              {activeConversation && (
+                <div className="flex items-center space-x-3 flex-1 min-w-0">
                   <div className="h-10 w-10 rounded-full bg-gray-100 flex items-center justify-center overflow-hidden">
-                    {conversations.find(c => c.id === selectedConversation)?.other_user.avatar_url ? (
+                    {activeConversation.other_user.avatar_url ? (
                       <img
-                        src={conversations.find(c => c.id === selectedConversation)?.other_user.avatar_url}
-                        alt={conversations.find(c => c.id === selectedConversation)?.other_user.full_name || 'User'}
+                        src={activeConversation.other_user.avatar_url}
+                        alt={activeConversation.other_user.full_name || 'User'}
                         className="h-full w-full object-cover"
                       />
                     ) : (
                       <User className="h-6 w-6 text-gray-400" />
                     )}
                   </div>
-                  <div>
-                    <p className="font-medium">
-                      {conversations.find(c => c.id === selectedConversation)?.other_user.full_name || 'User'}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {activeConversation.other_user.full_name || 'User'}
                     </p>
+                    {activityLabel(activeConversation.other_user.id) && (
+                      <p className={`text-xs ${otherUserTyping || isOnline(activeConversation.other_user.id) ? 'text-green-600' : 'text-gray-500'}`}>
+                        {activityLabel(activeConversation.other_user.id)}
+                      </p>
+                    )}
                   </div>
+                  {activeConversation.application && (
+                    <div className="hidden sm:flex items-center gap-2 min-w-0 text-sm">
+                      <Briefcase className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                      <span className="truncate text-gray-700">{activeConversation.application.job_title}</span>
+                      {applicationStatusLabel(activeConversation.application) && (
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium flex-shrink-0 ${
+                            activeConversation.application.status
+                              ? applicationStatusClasses[activeConversation.application.status]
+                              : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {applicationStatusLabel(activeConversation.application)}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  <ConversationActions
+                    preferences={activeConversation}
+                    blocked={activeConversation.blocked}
+                    otherUserName={activeConversation.other_user.full_name || 'this user'}
+                    onPreferencesChange={handlePreferencesChange}
+                    onBlockChange={handleBlockChange}
+                  />
                 </div>
               )}
             </div>
@@ -409,7 +904,13 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
             <div
               id="messages-container"
               className="flex-1 p-4 overflow-y-auto bg-gray-50"
+              onScroll={handleMessagesScroll}
             >
+              {loadingOlderMessages && (
+                <div className="flex justify-center pb-4">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                </div>
+              )}
               {messages.length === 0 ? (
                 <div className="flex flex-col items-center justify-center h-full text-gray-500">
                   <p>No messages yet</p>
@@ -417,10 +918,21 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {messages.map((message) => (
+                  {messages.map((message) => message.message_type === 'system' ? (
+                    <div key={message.id} id={`message-${message.id}`} className="flex justify-center">
+                      <p
+                        className={`rounded-full bg-gray-100 px-3 py-1 text-xs text-gray-600 ${
+                          message.id === focusMessageId ? 'ring-2 ring-yellow-400' : ''
+                        }`}
+                      >
+                        {message.content} · {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  ) : (
                     <div
                       key={message.id}
-                      className={`flex ${message.sender_id === user?.id ? 'justify-end' : 'justify-start'}`}
+                      id={`message-${message.id}`}
+                      className={`group flex ${message.sender_id === user?.id ? 'justify-end' : 'justify-start'}`}
                     >
                       <div className={`flex max-w-[70%] ${message.sender_id === user?.id ? 'flex-row-reverse' : ''}`}>
                         {message.sender_id !== user?.id && (
@@ -441,61 +953,150 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
                             message.sender_id === user?.id
                               ? 'bg-blue-500 text-white'
                               : 'bg-white border border-gray-200 text-gray-800'
-                          }`}
+                          } ${message.id === focusMessageId ? 'ring-2 ring-yellow-400' : ''}`}
                         >
                           {/* Remove references to undefined properties and components */}
-                          <p className="text-sm">{message.content}</p>
+                          {message.message_type === 'attachment' ? (
+                            <div className="space-y-2">
+                              {(attachments[message.id] || []).map(attachment => (
+                                <MessageAttachmentView
+                                  key={attachment.id}
+                                  attachment={attachment}
+                                  signedUrls={signedUrls}
+                                  isOwn={message.sender_id === user?.id}
+                                />
+                              ))}
+                              {/* The content is the file name unless a caption was typed */}
+                              {!(attachments[message.id] || []).some(a => a.file_name === message.content) && (
+                                <p className="text-sm">{message.content}</p>
+                              )}
+                            </div>
+                          ) : (
+                            <p className="text-sm">{message.content}</p>
+                          )}
                           
-                          <p className={`text-xs mt-1 ${message.sender_id === user?.id ? 'text-blue-100' : 'text-gray-400'}`}>
-                            {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                          </p>
+                          <div className={`flex items-center gap-1 text-xs mt-1 ${message.sender_id === user?.id ? 'justify-end text-blue-100' : 'text-gray-400'}`}>
+                            <span>{formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}</span>
+                            {message.sender_id === user?.id && <MessageReceipt message={message} />}
+                          </div>
                         </div>
+                        {message.sender_id !== user?.id && (
+                          <button
+                            type="button"
+                            onClick={() => setReportedMessage(message)}
+                            className="self-center ml-1 p-1 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-200"
+                            aria-label="Report message"
+                          >
+                            <Flag className="h-3.5 w-3.5 text-gray-400" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
                 </div>
               )}
+              {otherUserTyping && activeConversation && (
+                <p className="mt-2 text-xs italic text-gray-500">
+                  {activeConversation.other_user.full_name || 'User'} is typing…
+                </p>
+              )}
             </div>
 
             {/* Message input */}
-            <form onSubmit={sendMessage} className="p-4 border-t border-gray-200 bg-white">
-              <div className="flex items-center space-x-2">
-                <div className="relative">
+            {activeConversation?.blocked ? (
+              <div className="p-4 border-t border-gray-200 bg-white flex items-center justify-between gap-2 text-sm text-gray-600">
+                <span>You blocked {activeConversation.other_user.full_name || 'this user'}. Neither of you can send messages.</span>
+                <Button variant="outline" size="sm" onClick={() => handleBlockChange(false)}>
+                  Unblock
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={sendMessage} className="p-4 border-t border-gray-200 bg-white">
+                {pendingFile && (
+                  <div className="mb-2 flex items-center gap-2 rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm">
+                    <Paperclip className="h-4 w-4 text-gray-500" />
+                    <span className="flex-1 truncate">{pendingFile.name}</span>
+                    <span className="text-xs text-gray-400">{formatFileSize(pendingFile.size)}</span>
+                    <button
+                      type="button"
+                      onClick={() => setPendingFile(null)}
+                      disabled={sending}
+                      aria-label="Remove attachment"
+                    >
+                      <X className="h-4 w-4 text-gray-500" />
+                    </button>
+                  </div>
+                )}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={attachmentAccept}
+                  onChange={handleFileSelected}
+                  className="hidden"
+                />
+                <input
+                  ref={imageInputRef}
+                  type="file"
+                  accept={imageAttachmentAccept}
+                  onChange={handleFileSelected}
+                  className="hidden"
+                />
+                <div className="flex items-center space-x-2">
+                  <div className="relative">
+                    <button
+                      type="button"
+                      onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                      className="p-2 hover:bg-gray-100 rounded-full"
+                    >
+                      <Smile className="h-5 w-5 text-gray-500" />
+                    </button>
+                    {showEmojiPicker && (
+                      <div className="absolute bottom-12 left-0">
+                        <Picker
+                          data={data}
+                          onEmojiSelect={onEmojiSelect}
+                          theme="light"
+                        />
+                      </div>
+                    )}
+                  </div>
                   <button
                     type="button"
-                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={sending}
                     className="p-2 hover:bg-gray-100 rounded-full"
+                    aria-label="Attach a file"
                   >
-                    <Smile className="h-5 w-5 text-gray-500" />
+                    <Paperclip className="h-5 w-5 text-gray-500" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => imageInputRef.current?.click()}
+                    disabled={sending}
+                    className="p-2 hover:bg-gray-100 rounded-full"
+                    aria-label="Attach an image"
+                  >
+                    <Image className="h-5 w-5 text-gray-500" />
                   </button>
-                  {showEmojiPicker && (
-                    <div className="absolute bottom-12 left-0">
-                      <Picker
-                        data={data}
-                        onEmojiSelect={onEmojiSelect}
-                        theme="light"
-                      />
-                    </div>
-                  )}
-                </div>
                 
-                <Input
-                  type="text"
-                  placeholder="Type your message.."
-                  value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
-                  className="flex-1"
-                />
+                  <Input
+                    type="text"
+                    placeholder={pendingFile ? 'Add a caption (optional)' : 'Type your message..'}
+                    value={newMessage}
+                    onChange={handleMessageChange}
+                    className="flex-1"
+                  />
                 
-                <Button 
-                  type="submit" 
-                  disabled={!newMessage.trim()}
-                  className="h-10 w-10 p-0"
-                >
-                  <Send className="h-5 w-5" />
-                </Button>
-              </div>
-            </form>
+                  <Button 
+                    type="submit" 
+                    disabled={(!newMessage.trim() && !pendingFile) || sending}
+                    className="h-10 w-10 p-0"
+                  >
+                    {sending ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
+                  </Button>
+                </div>
+              </form>
+            )}
           </>
         ) : (
           <div className="flex flex-col items-center justify-center h-full text-gray-500">
@@ -509,6 +1110,18 @@ export function MessagesPage({ selectedConversationId }: MessagesPageProps) {
           </div>
         )}
       </div>
+
+      {reportedMessage && activeConversation && (
+        <ReportDialog
+          open={!!reportedMessage}
+          onOpenChange={(open) => !open && setReportedMessage(null)}
+          targetId={reportedMessage.id}
+          targetType="message"
+          targetName={`message from ${activeConversation.other_user.full_name || 'User'}`}
+          sender={{ id: activeConversation.other_user.id, name: activeConversation.other_user.full_name || 'this user' }}
+          onBlocked={() => updateConversation(activeConversation.id, { blocked: true })}
+        />
+      )}
     </div>
   );
 }
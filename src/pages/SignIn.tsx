@@ -3,6 +3,9 @@ import { useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { LogIn, AlertCircle, Eye, EyeOff, Mail, Lock, ArrowRight, UserPlus } from 'lucide-react';
 import { supabase } from '../services/supabase';
+import { mfaService } from '../services/mfaService';
+import { MfaChallenge } from '../components/security/MfaChallenge';
+import { OAuthButtons } from '../components/OAuthButtons';
 
 export function SignIn() {
   const [email, setEmail] = useState('');
@@ -12,9 +15,34 @@ export function SignIn() {
   const [showPassword, setShowPassword] = useState(false);
   const [isResetMode, setIsResetMode] = useState(false);
   const [resetSent, setResetSent] = useState(false);
+  // Set after the password step when the account also has a second factor
+  const [mfaUserId, setMfaUserId] = useState<string | null>(null);
   const { signIn } = useAuth();
   const navigate = useNavigate();
 
+  const redirectAfterSignIn = async (userId: string) => {
+    // Check if user has profile
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('role, full_name')
+      .eq('id', userId)
+      .single();
+
+    if (profileError && profileError.code !== 'PGRST116') {
+      console.error('Profile fetch error:', profileError);
+      throw new Error('Failed to fetch user profile');
+    }
+
+    // Always redirect to create-profile if no profile exists
+    if (!profile) {
+      navigate('/create-profile');
+    } else if (!profile.full_name) {
+      navigate('/create-profile');
+    } else {
+      navigate('/dashboard');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -43,26 +71,13 @@ export function SignIn() {
         throw new Error('No user returned from sign in');
       }
 
-      // Check if user has profile
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('role, full_name')
-        .eq('id', data.user.id)
-        .single();
-
-      if (profileError && profileError.code !== 'PGRST116') {
-        console.error('Profile fetch error:', profileError);
-        throw new Error('Failed to fetch user profile');
+      const { currentLevel, nextLevel } = await mfaService.getAssuranceLevel();
+      if (nextLevel === 'aal2' && currentLevel !== 'aal2') {
+        setMfaUserId(data.user.id);
+        return;
       }
 
-      // Always redirect to create-profile if no profile exists
-      if (!profile) {
-        navigate('/create-profile');
-      } else if (!profile.full_name) {
-        navigate('/create-profile');
-      } else {
-        navigate('/dashboard');
-      }
+      await redirectAfterSignIn(data.user.id);
     } catch (err) {
       console.error('Sign in error:', err);
       if (err instanceof Error) {
@@ -111,6 +126,23 @@ export function SignIn() {
     }
   };
 
+  if (mfaUserId) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex flex-col justify-center">
+        <MfaChallenge
+          onVerified={() => {
+            redirectAfterSignIn(mfaUserId).catch(err => {
+              console.error('Sign in error:', err);
+              setMfaUserId(null);
+              setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+            });
+          }}
+          onSignedOut={() => setMfaUserId(null)}
+        />
+      </div>
+    );
+  }
+
   if (resetSent) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
@@ -273,7 +305,8 @@ export function SignIn() {
               </div>
             </div>
 
-            <div className="mt-6">
+            <div className="mt-6 space-y-3">
+              <OAuthButtons disabled={loading} onError={setError} />
               <button
                 type="button"
                 onClick={() => navigate('/signup')}
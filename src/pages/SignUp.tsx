@@ -4,6 +4,7 @@ import { useAuth } from '../context/AuthContext';
 import { UserPlus, Check, X, Eye, EyeOff, AlertCircle, Mail, Lock, ArrowRight, User } from 'lucide-react';
 import zxcvbn from 'zxcvbn';
 import { supabase } from '../services/supabase';
+import { OAuthButtons } from '../components/OAuthButtons';
 import { toast } from 'sonner'; // Add toast for better notifications
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -385,6 +386,19 @@ We're excited to have you join us! 🚀es account security
                 </button>
               </div>
 
+              {/* Social Sign Up */}
+              <div className="space-y-4">
+                <div className="relative">
+                  <div className="absolute inset-0 flex items-center">
+                    <div className="w-full border-t border-gray-200" />
+                  </div>
+                  <div className="relative flex justify-center text-sm">
+                    <span className="px-4 bg-white text-gray-500">Or sign up with</span>
+                  </div>
+                </div>
+                <OAuthButtons disabled={loading} onError={setError} />
+              </div>
+
               {/* Sign In Link */}
               <div className="text-center">
                 <Link
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '../../services/supabase';
+import { withAuditReason } from '../../services/auditService';
 import { Loader2, FileText, UserCheck, UserX, Users, Building } from 'lucide-react';
 import { toast } from 'sonner';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../../components/ui/tabs';
@@ -104,29 +105,38 @@ export function AdminVerificationControl() {
   };
 
   async function handleVerificationAction(userId: string, verify: boolean) {
+    const reason = window.prompt(`${verify ? 'Verify' : 'Unverify'} this user? Add a reason for the audit log (optional).`);
+    if (reason === null) return;
+
     try {
       setLoading(true);
 
-      const { data: user, error: userError } = await supabase
-        .from('profiles')
-        .update({
-          is_verified: verify
-        })
-        .eq('id', userId)
-        .select()
-        .single();
+      const { data: user, error: userError } = await withAuditReason(
+        supabase
+          .from('profiles')
+          .update({
+            is_verified: verify
+          })
+          .eq('id', userId)
+          .select()
+          .single(),
+        reason
+      );
 
       if (userError) throw userError;
 
-      const { data: request, error: requestError } = await supabase
-        .from('admin_verification_requests')
-        .update({
-          status: verify ? 'approved' : 'rejected',
-          reviewed_at: new Date().toISOString()
-        })
-        .eq('user_id', userId)
-        .select()
-        .single();
+      const { data: request, error: requestError } = await withAuditReason(
+        supabase
+          .from('admin_verification_requests')
+          .update({
+            status: verify ? 'approved' : 'rejected',
+            reviewed_at: new Date().toISOString()
+          })
+          .eq('user_id', userId)
+          .select()
+          .single(),
+        reason
+      );
 
       if (requestError && requestError.code !== 'PGRST116') {
         throw requestError;
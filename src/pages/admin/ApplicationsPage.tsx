@@ -11,7 +11,15 @@ import {
 import { Badge } from '../../components/ui/badge';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
-import { Loader2, Search, Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../../components/ui/dialog';
+import { MilestonePayments } from '../../components/payments/MilestonePayments';
+import { Loader2, Search, Download, Wallet } from 'lucide-react';
 import { format } from 'date-fns';
 
 interface Application {
@@ -36,6 +44,7 @@ export function ApplicationsPage() {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [paymentsApplication, setPaymentsApplication] = useState<Application | null>(null);
 
   useEffect(() => {
     fetchApplications();
@@ -166,6 +175,7 @@ export function ApplicationsPage() {
               <TableHead>Contact</TableHead>
               <TableHead>Status</TableHead>
               <TableHead>Resume</TableHead>
+              <TableHead>Payments</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -202,11 +212,37 @@ export function ApplicationsPage() {
                     </Button>
                   )}
                 </TableCell>
+                <TableCell>
+                  {application.status === 'accepted' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setPaymentsApplication(application)}
+                    >
+                      <Wallet className="h-4 w-4 mr-2" />
+                      Milestones
+                    </Button>
+                  )}
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
         </Table>
       )}
+
+      <Dialog open={!!paymentsApplication} onOpenChange={(open) => !open && setPaymentsApplication(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Milestone Payments</DialogTitle>
+            <DialogDescription>
+              {paymentsApplication?.job_seeker_profile.full_name} · {paymentsApplication?.job_posts.title}
+            </DialogDescription>
+          </DialogHeader>
+          {paymentsApplication && (
+            <MilestonePayments applicationId={paymentsApplication.id} role="admin" />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,284 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Download, Loader2, Search } from 'lucide-react';
+import { AuditAction, AuditLogEntry } from '../../types/database';
+import { AUDIT_PAGE_SIZE, AuditLogFilters, auditService, auditedTables } from '../../services/auditService';
+import { auditExportFilename, auditLogToCsv, auditLogToJson } from '../../utils/auditExport';
+import { downloadBlob } from '../../utils/statementExport';
+import { Badge } from '../../components/ui/badge';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import { toast } from '../../components/ui/use-toast';
+
+const actionStyles: Record<AuditAction, string> = {
+  insert: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+function AuditEntryDetails({ entry }: { entry: AuditLogEntry }) {
+  return (
+    <div className="space-y-3">
+      {entry.reason && (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="font-medium">Reason:</span> {entry.reason}
+        </p>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Target ID: {entry.target_id ?? '—'} · Actor ID: {entry.actor_id ?? '—'}
+      </p>
+      <table className="min-w-full text-xs">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="py-1 pr-4 font-medium">Field</th>
+            <th className="py-1 pr-4 font-medium">Before</th>
+            <th className="py-1 font-medium">After</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-gray-800 dark:text-gray-200">
+          {entry.changed_fields.map(field => (
+            <tr key={field} className="align-top">
+              <td className="py-1 pr-4">{field}</td>
+              <td className="py-1 pr-4 break-all text-red-700 dark:text-red-400">{formatValue(entry.before?.[field])}</td>
+              <td className="py-1 break-all text-green-700 dark:text-green-400">{formatValue(entry.after?.[field])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+
+  // Search once the admin stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFilters(prev => ({ ...prev, search: searchInput || undefined }));
+      setPage(0);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const fetchEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const result = await auditService.getEntries(filters, page);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (changes: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const handleExport = async (type: 'csv' | 'json') => {
+    try {
+      setExporting(true);
+      const all = await auditService.getAllEntries(filters);
+      downloadBlob(type === 'csv' ? auditLogToCsv(all) : auditLogToJson(all), auditExportFilename(type));
+    } catch (error) {
+      console.error('Error exporting audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE));
+
+  return (
+    <div className="space-y-6 p-8">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">Audit Log</h1>
+          <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+            Every change made by an admin, with the reason given. Entries cannot be edited or deleted.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('csv')} disabled={exporting || total === 0}>
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('json')} disabled={exporting || total === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {/* Search and Filter Section */}
+      <div className="flex flex-col gap-4 sm:flex-row">
+        <div className="flex-1">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              placeholder="Search by admin email, target ID or reason..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={filters.table ?? ''}
+            onChange={(e) => updateFilter({ table: e.target.value || undefined })}
+            className="rounded-md border-gray-300 dark:border-gray-700"
+          >
+            <option value="">All Tables</option>
+            {Object.entries(auditedTables).map(([table, label]) => (
+              <option key={table} value={table}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={filters.action ?? ''}
+            onChange={(e) => updateFilter({ action: (e.target.value || undefined) as AuditAction | undefined })}
+            className="rounded-md border-gray-300 dark:border-gray-700"
+          >
+            <option value="">All Actions</option>
+            <option value="insert">Created</option>
+            <option value="update">Updated</option>
+            <option value="delete">Deleted</option>
+          </select>
+          <Input
+            type="date"
+            value={filters.from ?? ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className="w-40"
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            value={filters.to ?? ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className="w-40"
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      <div className="mt-8 overflow-hidden shadow ring-1 ring-black ring-opacity-5 dark:ring-gray-700 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-300 dark:divide-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">Time</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">Admin</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">Action</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">Change</th>
+              <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900 dark:text-white">Reason</th>
+              <th className="relative py-3.5 pl-3 pr-4 sm:pr-6">
+                <span className="sr-only">Details</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 bg-white dark:bg-gray-800">
+            {loading ? (
+              <tr>
+                <td colSpan={6} className="px-3 py-8 text-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400 mx-auto" />
+                </td>
+              </tr>
+            ) : entries.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-3 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                  No audit entries match these filters
+                </td>
+              </tr>
+            ) : (
+              entries.map(entry => (
+                <Fragment key={entry.id}>
+                  <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {format(new Date(entry.created_at), 'MMM d, yyyy HH:mm:ss')}
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-900 dark:text-white">
+                      {entry.actor_email ?? entry.actor_id ?? 'Unknown'}
+                    </td>
+                    <td className="px-3 py-4 text-sm">
+                      <Badge className={actionStyles[entry.action]}>{entry.action}</Badge>
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-700 dark:text-gray-300 max-w-md truncate">
+                      {auditService.describeAction(entry)}
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400 max-w-xs truncate">
+                      {entry.reason ?? '—'}
+                    </td>
+                    <td className="relative py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-6">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                        aria-label="Show details"
+                      >
+                        {expandedId === entry.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </Button>
+                    </td>
+                  </tr>
+                  {expandedId === entry.id && (
+                    <tr className="bg-gray-50 dark:bg-gray-900">
+                      <td colSpan={6} className="px-6 py-4">
+                        <AuditEntryDetails entry={entry} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          {total} {total === 1 ? 'entry' : 'entries'}
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0 || loading}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            Page {page + 1} of {totalPages}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages || loading}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
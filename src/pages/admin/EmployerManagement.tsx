@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../services/supabase';
+import { withAuditReason } from '../../services/auditService';
 import { useAdminAuth } from '../../context/AdminAuthContext';
 import { Check, ShieldCheck, Search } from 'lucide-react';
 import { toast } from '../../components/ui/use-toast';
@@ -66,17 +67,21 @@ export function EmployerManagement() {
   }
 
   async function handleApprove(employerId: string) {
-    if (!window.confirm('Are you sure you want to approve this employer?')) return;
+    const reason = window.prompt('Approve this employer? Add a reason for the audit log (optional).');
+    if (reason === null) return;
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          status: 'active',
-          is_approved: true,
-          approved_at: new Date().toISOString()
-        })
-        .eq('id', employerId);
+      const { error } = await withAuditReason(
+        supabase
+          .from('profiles')
+          .update({ 
+            status: 'active',
+            is_approved: true,
+            approved_at: new Date().toISOString()
+          })
+          .eq('id', employerId),
+        reason
+      );
 
       if (error) throw error;
 
@@ -101,14 +106,20 @@ export function EmployerManagement() {
   }
 
   async function handleVerifyAI(employerId: string) {
+    const reason = window.prompt('Verify this employer? Add a reason for the audit log (optional).');
+    if (reason === null) return;
+
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          is_verified: true,
-          verification_date: new Date().toISOString()
-        })
-        .eq('id', employerId);
+      const { error } = await withAuditReason(
+        supabase
+          .from('profiles')
+          .update({ 
+            is_verified: true,
+            verification_date: new Date().toISOString()
+          })
+          .eq('id', employerId),
+        reason
+      );
 
       if (error) throw error;
 
@@ -1,14 +1,19 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../../services/supabase';
+import { withAuditReason } from '../../services/auditService';
 import { Trash2, Edit, X, Search, Filter } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from '../../components/ui/dialog';
 import { format } from 'date-fns';
-import { JobPost } from '../../types/database';
+import { CompensationCurrency, CompensationPeriod, JobPost, JobPostStatus } from '../../types/database';
 import { Badge } from '../../components/ui/badge';
 import { toast } from '../../components/ui/use-toast';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
-import { Textarea } from '../../components/ui/textarea';
+import { RichTextEditor } from '../../components/RichTextEditor';
+import { sanitizeRichText, toPlainText, toSafeHtml } from '../../utils/richText';
+import {
+  compensationCurrencyLabels, compensationPeriodLabels, formatCompensation, getCompensationError, toCompensation,
+} from '../../utils/compensation';
 import { useAdminAuth } from '../../context/AdminAuthContext';
 import { useNavigate } from 'react-router-dom';
 
@@ -18,15 +23,20 @@ interface JobPostFormData {
   company_name: string;
   location: string;
   job_type: string;
-  budget: string;
+  // Amounts as the inputs' text; empty means not stated
+  compensation_min: string;
+  compensation_max: string;
+  compensation_currency: CompensationCurrency;
+  compensation_period: CompensationPeriod;
+  compensation_negotiable: boolean;
   work_schedule: string;
   required_skills: string[];
-  status: 'active' | 'deleted' | 'draft';
+  status: JobPostStatus;
 }
 
 interface SearchFilters {
   query: string;
-  status: 'all' | 'active' | 'deleted' | 'draft';
+  status: 'all' | JobPostStatus;
   datePosted: string;
   jobType: string;
   location: string;
@@ -45,7 +55,11 @@ export function JobPostManagement() {
     company_name: '',
     location: '',
     job_type: '',
-    budget: '',
+    compensation_min: '',
+    compensation_max: '',
+    compensation_currency: 'PHP',
+    compensation_period: 'fixed',
+    compensation_negotiable: false,
     work_schedule: '',
     required_skills: [],
     status: 'active'
@@ -138,13 +152,17 @@ export function JobPostManagement() {
   }, [isAdmin, authLoading, navigate]);
 
   async function handleDelete(jobId: string) {
-    if (!window.confirm('Are you sure you want to delete this job post?')) return;
+    const reason = window.prompt('Delete this job post? Add a reason for the audit log (optional).');
+    if (reason === null) return;
 
     try {
-      const { error } = await supabase
-        .from('job_posts')
-        .update({ status: 'deleted' })
-        .eq('id', jobId);
+      const { error } = await withAuditReason(
+        supabase
+          .from('job_posts')
+          .update({ status: 'deleted' })
+          .eq('id', jobId),
+        reason
+      );
 
       if (error) throw error;
 
@@ -172,14 +190,18 @@ export function JobPostManagement() {
     setSelectedJobPost(jobPost);
     setFormData({
       title: jobPost.title,
-      description: jobPost.description,
+      description: toSafeHtml(jobPost.description),
       company_name: jobPost.company_name,
       location: jobPost.location,
       job_type: jobPost.job_type,
-      budget: jobPost.budget,
+      compensation_min: jobPost.compensation_min === null ? '' : String(jobPost.compensation_min),
+      compensation_max: jobPost.compensation_max === null ? '' : String(jobPost.compensation_max),
+      compensation_currency: jobPost.compensation_currency || 'PHP',
+      compensation_period: jobPost.compensation_period || 'fixed',
+      compensation_negotiable: Boolean(jobPost.compensation_negotiable),
       work_schedule: jobPost.work_schedule,
       required_skills: jobPost.required_skills || [],
-      status: jobPost.status as 'active' | 'deleted' | 'draft'
+      status: jobPost.status
     });
     setIsEditModalOpen(true);
   }
@@ -196,9 +218,30 @@ export function JobPostManagement() {
       return;
     }
 
+    const compensationColumns = {
+      compensation_min: formData.compensation_min.trim() === '' ? null : Number(formData.compensation_min),
+      compensation_max: formData.compensation_max.trim() === '' ? null : Number(formData.compensation_max),
+      compensation_currency: formData.compensation_currency,
+      compensation_period: formData.compensation_period,
+      compensation_negotiable: formData.compensation_negotiable,
+    };
+    const compensation = toCompensation(compensationColumns);
+    const compensationError = getCompensationError(compensation, formData.status !== 'draft');
+    if (compensationError) {
+      toast({
+        title: "Error",
+        description: compensationError,
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       const updateData = {
         ...formData,
+        ...compensationColumns,
+        budget: formatCompensation(compensation),
+        description: sanitizeRichText(formData.description),
         updated_at: new Date().toISOString()
       };
 
@@ -275,6 +318,8 @@ export function JobPostManagement() {
           >
             <option value="all">All Status</option>
             <option value="active">Active</option>
+            <option value="scheduled">Scheduled</option>
+            <option value="closed">Closed</option>
             <option value="deleted">Deleted</option>
             <option value="draft">Draft</option>
           </select>
@@ -328,8 +373,9 @@ export function JobPostManagement() {
                 <td className="px-3 py-4">
                   <div className="flex flex-col">
                     <span className="font-medium text-gray-900 dark:text-white">{post.title}</span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400 line-clamp-2 max-w-md">{toPlainText(post.description)}</span>
                     <span className="text-gray-500 dark:text-gray-400">{post.job_type}</span>
-                    <span className="text-gray-500 dark:text-gray-400">{post.budget}</span>
+                    <span className="text-gray-500 dark:text-gray-400">{formatCompensation(toCompensation(post))}</span>
                   </div>
                 </td>
                 <td className="px-3 py-4 text-sm text-gray-500 dark:text-gray-400">{post.company_name}</td>
@@ -388,10 +434,9 @@ export function JobPostManagement() {
             </div>
             <div>
               <label className="block text-sm font-medium">Description</label>
-              <Textarea
+              <RichTextEditor
                 value={formData.description}
-                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                required
+                onChange={(description) => setFormData(prev => ({ ...prev, description }))}
               />
             </div>
             <div className="grid grid-cols-2 gap-4">
@@ -422,14 +467,60 @@ export function JobPostManagement() {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium">Budget</label>
+                <label className="block text-sm font-medium">Pay Period</label>
+                <select
+                  value={formData.compensation_period}
+                  onChange={(e) => setFormData({ ...formData, compensation_period: e.target.value as CompensationPeriod })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-700 dark:bg-gray-800"
+                >
+                  {Object.entries(compensationPeriodLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium">Currency</label>
+                <select
+                  value={formData.compensation_currency}
+                  onChange={(e) => setFormData({ ...formData, compensation_currency: e.target.value as CompensationCurrency })}
+                  className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-700 dark:bg-gray-800"
+                >
+                  {Object.entries(compensationCurrencyLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium">Minimum Pay</label>
                 <Input
-                  value={formData.budget}
-                  onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
-                  required
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.compensation_min}
+                  onChange={(e) => setFormData({ ...formData, compensation_min: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium">Maximum Pay</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.compensation_max}
+                  onChange={(e) => setFormData({ ...formData, compensation_max: e.target.value })}
                 />
               </div>
             </div>
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={formData.compensation_negotiable}
+                onChange={(e) => setFormData({ ...formData, compensation_negotiable: e.target.checked })}
+              />
+              Negotiable pay
+            </label>
             <div>
               <label className="block text-sm font-medium">Work Schedule</label>
               <Input
@@ -450,10 +541,12 @@ export function JobPostManagement() {
               <label className="block text-sm font-medium">Status</label>
               <select
                 value={formData.status}
-                onChange={(e) => setFormData({ ...formData, status: e.target.value as 'active' | 'deleted' | 'draft' })}
+                onChange={(e) => setFormData({ ...formData, status: e.target.value as JobPostStatus })}
                 className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-700 dark:bg-gray-800"
               >
                 <option value="active">Active</option>
+                <option value="scheduled" disabled={!selectedJobPost?.publish_at}>Scheduled</option>
+                <option value="closed">Closed</option>
                 <option value="draft">Draft</option>
                 <option value="deleted">Deleted</option>
               </select>
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../../services/supabase';
+import { withAuditReason } from '../../services/auditService';
 import { useAdminAuth } from '../../context/AdminAuthContext';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useNavigate } from 'react-router-dom';
@@ -142,17 +143,21 @@ export function JobSeekerManagement() {
   }, [searchFilters]);
 
   const handleApprove = async (jobSeekerId: string) => {
-    if (!window.confirm('Are you sure you want to approve this job seeker?')) return;
+    const reason = window.prompt('Approve this job seeker? Add a reason for the audit log (optional).');
+    if (reason === null) return;
 
     try {
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          status: 'active',
-          is_approved: true,
-          approved_at: new Date().toISOString()
-        })
-        .eq('id', jobSeekerId);
+      const { error } = await withAuditReason(
+        supabase
+          .from('profiles')
+          .update({ 
+            status: 'active',
+            is_approved: true,
+            approved_at: new Date().toISOString()
+          })
+          .eq('id', jobSeekerId),
+        reason
+      );
 
       if (error) throw error;
 
@@ -178,16 +183,22 @@ export function JobSeekerManagement() {
   };
 
   const handleVerifyAI = async (jobSeekerId: string) => {
+    const reason = window.prompt('Verify this job seeker? Add a reason for the audit log (optional).');
+    if (reason === null) return;
+
     try {
       // Here you would typically call your AI verification service
       // For now, we'll just mark as verified
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          is_verified: true,
-          verification_date: new Date().toISOString()
-        })
-        .eq('id', jobSeekerId);
+      const { error } = await withAuditReason(
+        supabase
+          .from('profiles')
+          .update({ 
+            is_verified: true,
+            verification_date: new Date().toISOString()
+          })
+          .eq('id', jobSeekerId),
+        reason
+      );
 
       if (error) throw error;
 
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../services/supabase';
+import { withAuditReason } from '../../services/auditService';
 import { useAdminAuth } from '../../context/AdminAuthContext';
 import { useNavigate } from 'react-router-dom';
 import { Card } from '../../components/ui/card';
@@ -146,14 +147,18 @@ export function ReportsManagement() {
     if (!selectedReport) return;
     
     try {
-      const { error } = await supabase
-        .from('reports')
-        .update({
-          status,
-          admin_notes: adminNotes,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', selectedReport.id);
+      // The notes double as the audit log reason
+      const { error } = await withAuditReason(
+        supabase
+          .from('reports')
+          .update({
+            status,
+            admin_notes: adminNotes,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', selectedReport.id),
+        adminNotes
+      );
       
       if (error) throw error;
       
@@ -1,6 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '../../services/supabase';
+import { pipelineService } from '../../services/pipelineService';
+import { conversationService } from '../../services/conversationService';
+import { ApplicationStatus, PipelineStage } from '../../types/database';
 import { useAuth } from '../../context/AuthContext';
 import { useToast } from '../../components/ui/use-toast';
 import {
@@ -15,7 +18,6 @@ import { Button } from '../../components/ui/button';
 import { Badge } from '../../components/ui/badge';
 import {
   Tabs,
-  TabsContent,
   TabsList,
   TabsTrigger,
 } from '../../components/ui/tabs';
@@ -43,6 +45,12 @@ import {
   Briefcase,
   X,
   ChevronLeft,
+  LayoutGrid,
+  List,
+  Settings2,
+  Wallet,
+  CalendarClock,
+  MessageSquare,
 } from 'lucide-react';
 import { formatDistanceToNow, format } from 'date-fns';
 import { Input } from '../../components/ui/input';
@@ -54,12 +62,19 @@ import {
   DialogTitle,
   DialogFooter,
 } from "../../components/ui/dialog";
+import { PipelineBoard } from '../../components/pipeline/PipelineBoard';
+import { PipelineStagesEditor } from '../../components/pipeline/PipelineStagesEditor';
+import { StageHistoryTable } from '../../components/pipeline/StageHistoryTable';
+import { getStageColorClasses } from '../../components/pipeline/stageStyles';
+import { MilestonePayments } from '../../components/payments/MilestonePayments';
+import { InterviewScheduler } from '../../components/interviews/InterviewScheduler';
 
 interface JobApplication {
   id: string;
   job_post_id: string;
   job_seeker_id: string;
-  status: 'pending' | 'reviewing' | 'accepted' | 'rejected';
+  stage_id: string | null;
+  status: ApplicationStatus;
   resume_url: string | null;
   cover_letter: string | null;
   contact_number: string | null;
@@ -89,7 +104,10 @@ export function ApplicationsPage() {
   const [jobs, setJobs] = useState<{ id: string; title: string }[]>([]);
   const [selectedJob, setSelectedJob] = useState<string>(jobId || 'all');
   const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [stageFilter, setStageFilter] = useState<string>('all');
+  const [stagesByJob, setStagesByJob] = useState<Record<string, PipelineStage[]>>({});
+  const [viewMode, setViewMode] = useState<'list' | 'board'>('list');
+  const [isPipelineEditorOpen, setIsPipelineEditorOpen] = useState(false);
   const [selectedApplication, setSelectedApplication] = useState<JobApplication | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState(false);
   const [expandedCoverLetters, setExpandedCoverLetters] = useState<{ [key: string]: boolean }>({});
@@ -97,6 +115,16 @@ export function ApplicationsPage() {
   // Computed value for total number of applications
   const totalJobs = applications.length;
 
+  const getApplicationStage = (application: JobApplication) =>
+    stagesByJob[application.job_post_id]?.find(stage => stage.id === application.stage_id);
+
+  // Stage names offered by the filter: the selected job's pipeline, or every name in use across jobs
+  const stageNames = selectedJob !== 'all'
+    ? (stagesByJob[selectedJob] || []).map(stage => stage.name)
+    : Array.from(new Set(Object.values(stagesByJob).flat().map(stage => stage.name)));
+
+  const selectedJobStages = selectedJob !== 'all' ? stagesByJob[selectedJob] || [] : [];
+
   useEffect(() => {
     fetchJobs();
     fetchApplications();
@@ -175,9 +203,11 @@ export function ApplicationsPage() {
       filtered = filtered.filter(app => app.job_post_id === selectedJob);
     }
 
-    // Filter by status
-    if (statusFilter && statusFilter !== 'all') {
-      filtered = filtered.filter(app => app.status === statusFilter);
+    // Filter by stage name so the same stage can be picked across jobs
+    if (stageFilter && stageFilter !== 'all') {
+      filtered = filtered.filter(app =>
+        stagesByJob[app.job_post_id]?.some(stage => stage.id === app.stage_id && stage.name === stageFilter)
+      );
     }
 
     // Search query
@@ -193,7 +223,7 @@ export function ApplicationsPage() {
     }
 
     setFilteredApplications(filtered);
-  }, [applications, selectedJob, statusFilter, searchQuery]);
+  }, [applications, stagesByJob, selectedJob, stageFilter, searchQuery]);
 
   const fetchJobs = async () => {
     if (!user) return;
@@ -257,6 +287,7 @@ export function ApplicationsPage() {
           id,
           job_post_id,
           job_seeker_id,
+          stage_id,
           status,
           resume_url,
           cover_letter,
@@ -268,6 +299,8 @@ export function ApplicationsPage() {
         .order('created_at', { ascending: false });
       
       if (applicationsError) throw applicationsError;
+
+      setStagesByJob(await pipelineService.getStagesForJobs(jobIds));
       
       // Avoid using Set and use a manual approach to get unique IDs
       const getUniqueIds = (applications: any[], keyField: string): string[] => {
@@ -348,37 +381,31 @@ export function ApplicationsPage() {
     }
   };
 
-  const updateApplicationStatus = async (applicationId: string, newStatus: string) => {
+  const moveApplicationToStage = async (application: JobApplication, stageId: string) => {
+    const stage = stagesByJob[application.job_post_id]?.find(item => item.id === stageId);
+    if (!stage) return;
+
     try {
-      setProcessingId(applicationId);
-      
-      const { error } = await supabase
-        .from('job_applications')
-        .update({ status: newStatus })
-        .eq('id', applicationId);
+      setProcessingId(application.id);
 
-      if (error) throw error;
+      const updated = await pipelineService.moveApplicationToStage(application.id, stageId);
 
-      // Update local state
-      setApplications(prev => 
-        prev.map(app => app.id === applicationId ? { ...app, status: newStatus as any } : app)
+      // Update local state; the database keeps the coarse status in sync with the stage
+      setApplications(prev =>
+        prev.map(app => app.id === application.id ? { ...app, ...updated } : app)
       );
+      setSelectedApplication(prev => prev?.id === application.id ? { ...prev, ...updated } : prev);
 
+      // The job seeker is notified by a database trigger
       toast({
-        title: 'Status Updated',
-        description: `Application status changed to ${newStatus}.`,
+        title: 'Stage Updated',
+        description: `${application.job_seeker.full_name} moved to ${stage.name}.`,
       });
-
-      // Create notification for job seeker
-      const application = applications.find(app => app.id === applicationId);
-      if (application) {
-        await createStatusUpdateNotification(application, newStatus);
-      }
     } catch (err) {
-      console.error('Error updating application status:', err);
+      console.error('Error moving application to stage:', err);
       toast({
         title: 'Error',
-        description: 'Failed to update application status.',
+        description: 'Failed to update application stage.',
         variant: 'destructive',
       });
     } finally {
@@ -386,27 +413,24 @@ export function ApplicationsPage() {
     }
   };
 
-  const createStatusUpdateNotification = async (
-    application: JobApplication, 
-    newStatus: string
-  ) => {
+  // Each application has its own thread with the applicant
+  const messageApplicant = async (application: JobApplication) => {
     try {
-      await supabase.from('notifications').insert({
-        user_id: application.job_seeker_id,
-        type: 'application_status',
-        message: `Your application for "${application.job_post.title}" has been ${newStatus}.`,
-        metadata: {
-          application_id: application.id,
-          job_post_id: application.job_post_id,
-          status: newStatus
-        },
-        read: false
-      });
+      const conversationId = await conversationService.getOrCreateApplicationConversation(application.id);
+      navigate(`/messages/${conversationId}`);
     } catch (err) {
-      console.error('Error creating notification:', err);
+      console.error('Error opening conversation:', err);
+      toast({
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to open the conversation.',
+        variant: 'destructive',
+      });
     }
   };
 
+  const selectedStages = selectedApplication ? stagesByJob[selectedApplication.job_post_id] || [] : [];
+  const selectedStage = selectedApplication ? getApplicationStage(selectedApplication) : undefined;
+
   const viewApplicationDetails = (application: JobApplication) => {
     setSelectedApplication(application);
     setIsDetailsOpen(true);
@@ -497,51 +521,32 @@ export function ApplicationsPage() {
               </Select>
 
               <Select 
-                value={statusFilter} 
-                onValueChange={setStatusFilter}
+                value={stageFilter} 
+                onValueChange={setStageFilter}
               >
                 <SelectTrigger className="w-[180px] bg-white">
                   <div className="flex items-center">
                     <Filter className="w-4 h-4 mr-2" />
-                    <SelectValue placeholder="Status" />
+                    <SelectValue placeholder="Stage" />
                   </div>
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="pending">
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 rounded-full bg-yellow-500 mr-2"></div>
-                      Pending
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="reviewing">
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 rounded-full bg-blue-500 mr-2"></div>
-                      Reviewing
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="accepted">
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 rounded-full bg-green-500 mr-2"></div>
-                      Accepted
-                    </div>
-                  </SelectItem>
-                  <SelectItem value="rejected">
-                    <div className="flex items-center">
-                      <div className="w-2 h-2 rounded-full bg-red-500 mr-2"></div>
-                      Rejected
-                    </div>
-                  </SelectItem>
+                  <SelectItem value="all">All Stages</SelectItem>
+                  {stageNames.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
-              {(selectedJob !== 'all' || statusFilter !== 'all' || searchQuery) && (
+              {(selectedJob !== 'all' || stageFilter !== 'all' || searchQuery) && (
                 <Button 
                   variant="outline" 
                   size="sm"
                   onClick={() => {
                     setSelectedJob('all');
-                    setStatusFilter('all');
+                    setStageFilter('all');
                     setSearchQuery('');
                   }}
                   className="flex items-center"
@@ -605,9 +610,59 @@ export function ApplicationsPage() {
       
       {/* Applications List */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">All Applications {selectedJob !== 'all' && "for Selected Job"}</h2>
-        
-        {filteredApplications.length === 0 ? (
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">All Applications {selectedJob !== 'all' && "for Selected Job"}</h2>
+
+          <div className="flex items-center gap-2">
+            {selectedJob !== 'all' && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsPipelineEditorOpen(true)}
+                className="flex items-center"
+              >
+                <Settings2 className="h-4 w-4 mr-2" />
+                Edit Pipeline
+              </Button>
+            )}
+            <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as 'list' | 'board')}>
+              <TabsList>
+                <TabsTrigger value="list" className="flex items-center">
+                  <List className="h-4 w-4 mr-1" />
+                  List
+                </TabsTrigger>
+                <TabsTrigger value="board" className="flex items-center">
+                  <LayoutGrid className="h-4 w-4 mr-1" />
+                  Board
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+
+        {viewMode === 'board' ? (
+          selectedJob === 'all' ? (
+            <div className="bg-gray-50 rounded-lg p-12 text-center border border-gray-200">
+              <div className="flex flex-col items-center max-w-md mx-auto">
+                <div className="h-20 w-20 bg-gray-100 rounded-full flex items-center justify-center mb-6">
+                  <LayoutGrid className="h-10 w-10 text-gray-400" />
+                </div>
+                <h3 className="text-xl font-bold text-gray-800 mb-3">Select a Job</h3>
+                <p className="text-gray-600">
+                  Each job has its own pipeline. Pick a job from the filter above to see its board.
+                </p>
+              </div>
+            </div>
+          ) : (
+            <PipelineBoard
+              stages={selectedJobStages}
+              applications={filteredApplications}
+              processingId={processingId}
+              onMove={moveApplicationToStage}
+              onOpen={viewApplicationDetails}
+            />
+          )
+        ) : filteredApplications.length === 0 ? (
           <div className="bg-gray-50 rounded-lg p-12 text-center border border-gray-200">
             <div className="flex flex-col items-center max-w-md mx-auto">
               <div className="h-20 w-20 bg-gray-100 rounded-full flex items-center justify-center mb-6">
@@ -615,14 +670,14 @@ export function ApplicationsPage() {
               </div>
               <h3 className="text-xl font-bold text-gray-800 mb-3">No Applications Found</h3>
               <p className="text-gray-600 mb-6">
-                {selectedJob !== 'all' || statusFilter !== 'all' || searchQuery
+                {selectedJob !== 'all' || stageFilter !== 'all' || searchQuery
                   ? "No applications match your current filters. Try adjusting your search criteria."
                   : "You don't have any applications yet. Make sure your job postings are active and visible to potential candidates."}
               </p>
               <Button 
                 onClick={() => {
                   setSelectedJob('all');
-                  setStatusFilter('all');
+                  setStageFilter('all');
                   setSearchQuery('');
                 }}
                 className="bg-blue-600 hover:bg-blue-700"
@@ -633,211 +688,183 @@ export function ApplicationsPage() {
           </div>
         ) : (
           <div className="grid grid-cols-1 gap-6">
-            {filteredApplications.map((application) => (
-              <Card 
-                key={application.id} 
-                className="overflow-hidden border-gray-200 hover:shadow-md transition-shadow duration-200"
-              >
-                {/* Status indicator bar */}
-                <div 
-                  className={`h-1.5 ${
-                    application.status === 'pending' ? 'bg-yellow-500' : 
-                    application.status === 'reviewing' ? 'bg-blue-500' : 
-                    application.status === 'accepted' ? 'bg-green-500' : 
-                    'bg-red-500'
-                  }`}
-                ></div>
-                
-                <CardHeader className="pb-2 pt-5">
-                  <div className="flex flex-col md:flex-row justify-between items-start gap-4">
-                    <div>
-                      <CardTitle className="text-xl font-bold text-gray-900">
-                        {application.job_seeker.full_name}
-                      </CardTitle>
-                      <CardDescription className="text-blue-600 font-medium mt-1">
-                        Application for {application.job_post.title}
-                      </CardDescription>
-                    </div>
+            {filteredApplications.map((application) => {
+              const stage = getApplicationStage(application);
+              const stageClasses = getStageColorClasses(stage?.color);
 
-                    <Badge 
-                      className={`px-3 py-1.5 text-white 
-                        ${application.status === 'pending' ? 'bg-yellow-500' : 
-                        application.status === 'reviewing' ? 'bg-blue-500' : 
-                        application.status === 'accepted' ? 'bg-green-500' : 
-                        'bg-red-500'}
-                        flex items-center gap-1.5 shadow-sm`}
-                    >
-                      {application.status === 'pending' && <AlertCircle className="h-3.5 w-3.5" />}
-                      {application.status === 'reviewing' && <Clock className="h-3.5 w-3.5" />}
-                      {application.status === 'accepted' && <CheckCircle className="h-3.5 w-3.5" />}
-                      {application.status === 'rejected' && <XCircle className="h-3.5 w-3.5" />}
-                      {application.status.charAt(0).toUpperCase() + application.status.slice(1)}
-                    </Badge>
-                  </div>
-                </CardHeader>
+              return (
+                <Card 
+                  key={application.id} 
+                  className="overflow-hidden border-gray-200 hover:shadow-md transition-shadow duration-200"
+                >
+                  {/* Stage indicator bar */}
+                  <div className={`h-1.5 ${stageClasses.bar}`}></div>
                 
-                <CardContent className="pb-4">
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
-                    <div className="flex items-center text-gray-700">
-                      <Mail className="h-4 w-4 mr-2 text-gray-500" />
-                      <span className="text-sm truncate">{application.email}</span>
+                  <CardHeader className="pb-2 pt-5">
+                    <div className="flex flex-col md:flex-row justify-between items-start gap-4">
+                      <div>
+                        <CardTitle className="text-xl font-bold text-gray-900">
+                          {application.job_seeker.full_name}
+                        </CardTitle>
+                        <CardDescription className="text-blue-600 font-medium mt-1">
+                          Application for {application.job_post.title}
+                        </CardDescription>
+                      </div>
+
+                      <Badge className={`px-3 py-1.5 ${stageClasses.badge} flex items-center gap-1.5 shadow-sm`}>
+                        {stage?.outcome === 'hired' && <CheckCircle className="h-3.5 w-3.5" />}
+                        {stage?.outcome === 'rejected' && <XCircle className="h-3.5 w-3.5" />}
+                        {stage?.outcome === 'open' && <Clock className="h-3.5 w-3.5" />}
+                        {stage?.name ?? application.status.charAt(0).toUpperCase() + application.status.slice(1)}
+                      </Badge>
                     </div>
-                    {application.contact_number && (
+                  </CardHeader>
+                
+                  <CardContent className="pb-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                       <div className="flex items-center text-gray-700">
-                        <Phone className="h-4 w-4 mr-2 text-gray-500" />
-                        <span className="text-sm">{application.contact_number}</span>
+                        <Mail className="h-4 w-4 mr-2 text-gray-500" />
+                        <span className="text-sm truncate">{application.email}</span>
                       </div>
-                    )}
-                    <div className="flex items-center text-gray-700">
-                      <Calendar className="h-4 w-4 mr-2 text-gray-500" />
-                      <span className="text-sm">Applied {formatDistanceToNow(new Date(application.created_at), { addSuffix: true })}</span>
-                    </div>
-                  </div>
-                  
-                  {application.cover_letter && (
-                    <div className="mb-4">
-                      <h4 className="font-medium text-gray-800 mb-2 flex items-center">
-                        <FileText className="h-4 w-4 mr-2 text-blue-600" />
-                        Cover Letter
-                      </h4>
-                      <div className="bg-gray-50 border border-gray-200 p-4 rounded-lg text-sm text-gray-700 max-h-32 overflow-y-auto">
-                        {application.cover_letter.length > 200 
-                          ? (
-                            <>
-                              {expandedCoverLetters[application.id] 
-                                ? application.cover_letter 
-                                : `${application.cover_letter.substring(0, 200)}...`}
-                              <Button 
-                                variant="ghost" 
-                                size="sm" 
-                                className="mt-2 text-blue-600 hover:text-blue-800 p-0 h-auto font-medium"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  toggleCoverLetter(application.id);
-                                }}
-                              >
-                                {expandedCoverLetters[application.id] ? "Show Less" : "Read More"}
-                              </Button>
-                            </>
-                          ) 
-                          : application.cover_letter}
+                      {application.contact_number && (
+                        <div className="flex items-center text-gray-700">
+                          <Phone className="h-4 w-4 mr-2 text-gray-500" />
+                          <span className="text-sm">{application.contact_number}</span>
+                        </div>
+                      )}
+                      <div className="flex items-center text-gray-700">
+                        <Calendar className="h-4 w-4 mr-2 text-gray-500" />
+                        <span className="text-sm">Applied {formatDistanceToNow(new Date(application.created_at), { addSuffix: true })}</span>
                       </div>
                     </div>
-                  )}
                   
-                  {application.job_post.required_skills && application.job_post.required_skills.length > 0 && (
-                    <div>
-                      <h4 className="font-medium text-gray-800 mb-2">Required Skills</h4>
-                      <div className="flex flex-wrap gap-2">
-                        {application.job_post.required_skills.map((skill, index) => (
-                          <Badge key={index} variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                            {skill}
-                          </Badge>
-                        ))}
+                    {application.cover_letter && (
+                      <div className="mb-4">
+                        <h4 className="font-medium text-gray-800 mb-2 flex items-center">
+                          <FileText className="h-4 w-4 mr-2 text-blue-600" />
+                          Cover Letter
+                        </h4>
+                        <div className="bg-gray-50 border border-gray-200 p-4 rounded-lg text-sm text-gray-700 max-h-32 overflow-y-auto">
+                          {application.cover_letter.length > 200 
+                            ? (
+                              <>
+                                {expandedCoverLetters[application.id] 
+                                  ? application.cover_letter 
+                                  : `${application.cover_letter.substring(0, 200)}...`}
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm" 
+                                  className="mt-2 text-blue-600 hover:text-blue-800 p-0 h-auto font-medium"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    toggleCoverLetter(application.id);
+                                  }}
+                                >
+                                  {expandedCoverLetters[application.id] ? "Show Less" : "Read More"}
+                                </Button>
+                              </>
+                            ) 
+                            : application.cover_letter}
+                        </div>
                       </div>
-                    </div>
-                  )}
-                </CardContent>
-                
-                <CardFooter className="pt-4 border-t flex flex-col md:flex-row md:justify-between gap-4 bg-gray-50">
-                  <div className="flex items-center">
-                    {application.resume_url && (
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        className="flex items-center mr-4 bg-white"
-                        onClick={() => window.open(application.resume_url as string, '_blank')}
-                      >
-                        <Download className="h-4 w-4 mr-2 text-blue-600" />
-                        Resume
-                      </Button>
                     )}
-                    <span className="text-xs text-gray-500">
-                      ID: {application.id.substring(0, 8)}...
-                    </span>
-                  </div>
                   
-                  <div className="flex flex-wrap gap-3">
-                    {application.status === 'pending' && (
-                      <>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateApplicationStatus(application.id, 'reviewing')}
-                          disabled={!!processingId}
-                          className="border-blue-200 text-blue-700 hover:bg-blue-50 bg-white"
-                        >
-                          <Clock className="h-4 w-4 mr-2" />
-                          Start Review
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateApplicationStatus(application.id, 'rejected')}
-                          disabled={!!processingId}
-                          className="border-red-200 text-red-700 hover:bg-red-50 bg-white"
-                        >
-                          <XCircle className="h-4 w-4 mr-2" />
-                          Reject
-                        </Button>
-                      </>
+                    {application.job_post.required_skills && application.job_post.required_skills.length > 0 && (
+                      <div>
+                        <h4 className="font-medium text-gray-800 mb-2">Required Skills</h4>
+                        <div className="flex flex-wrap gap-2">
+                          {application.job_post.required_skills.map((skill, index) => (
+                            <Badge key={index} variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
+                              {skill}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
                     )}
-                    
-                    {application.status === 'reviewing' && (
-                      <>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => updateApplicationStatus(application.id, 'accepted')}
-                          disabled={!!processingId}
-                          className="border-green-200 text-green-700 hover:bg-green-50 bg-white"
-                        >
-                          <CheckCircle className="h-4 w-4 mr-2" />
-                          Accept
-                        </Button>
-                        <Button
-                          variant="outline"
+                  </CardContent>
+                
+                  <CardFooter className="pt-4 border-t flex flex-col md:flex-row md:justify-between gap-4 bg-gray-50">
+                    <div className="flex items-center">
+                      {application.resume_url && (
+                        <Button 
+                          variant="outline" 
                           size="sm"
-                          onClick={() => updateApplicationStatus(application.id, 'rejected')}
-                          disabled={!!processingId}
-                          className="border-red-200 text-red-700 hover:bg-red-50 bg-white"
+                          className="flex items-center mr-4 bg-white"
+                          onClick={() => window.open(application.resume_url as string, '_blank')}
                         >
-                          <XCircle className="h-4 w-4 mr-2" />
-                          Reject
+                          <Download className="h-4 w-4 mr-2 text-blue-600" />
+                          Resume
                         </Button>
-                      </>
-                    )}
+                      )}
+                      <span className="text-xs text-gray-500">
+                        ID: {application.id.substring(0, 8)}...
+                      </span>
+                    </div>
+                  
+                    <div className="flex flex-wrap gap-3">
+                      <Select
+                        value={application.stage_id ?? undefined}
+                        onValueChange={(value) => moveApplicationToStage(application, value)}
+                        disabled={!!processingId}
+                      >
+                        <SelectTrigger className="w-[180px] h-9 bg-white">
+                          <SelectValue placeholder="Move to stage" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(stagesByJob[application.job_post_id] || []).map((item) => (
+                            <SelectItem key={item.id} value={item.id}>
+                              <div className="flex items-center">
+                                <div className={`w-2 h-2 rounded-full mr-2 ${getStageColorClasses(item.color).dot}`}></div>
+                                {item.name}
+                              </div>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     
-                    {(application.status === 'accepted' || application.status === 'rejected') && (
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => updateApplicationStatus(application.id, 'reviewing')}
-                        disabled={!!processingId}
+                        onClick={() => messageApplicant(application)}
                         className="bg-white"
                       >
-                        <Clock className="h-4 w-4 mr-2" />
-                        Re-review
+                        <MessageSquare className="h-4 w-4 mr-2 text-blue-600" />
+                        Message
                       </Button>
-                    )}
-                    
-                    <Button
-                      variant="secondary"
-                      size="sm"
-                      onClick={() => viewApplicationDetails(application)}
-                      className="ml-auto"
-                    >
-                      <ExternalLink className="h-4 w-4 mr-2" />
-                      View Details
-                    </Button>
-                  </div>
-                </CardFooter>
-              </Card>
-            ))}
+
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => viewApplicationDetails(application)}
+                        className="ml-auto"
+                      >
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        View Details
+                      </Button>
+                    </div>
+                  </CardFooter>
+                </Card>
+              );
+            })}
           </div>
         )}
       </div>
 
+      {selectedJob !== 'all' && (
+        <PipelineStagesEditor
+          open={isPipelineEditorOpen}
+          onOpenChange={setIsPipelineEditorOpen}
+          jobPostId={selectedJob}
+          jobTitle={jobs.find(job => job.id === selectedJob)?.title || 'this job'}
+          stages={selectedJobStages}
+          onSaved={(stages) => {
+            setStagesByJob(prev => ({ ...prev, [selectedJob]: stages }));
+            // Applicants in removed stages were moved by the database
+            fetchApplications();
+          }}
+        />
+      )}
+
       {selectedApplication && (
         <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
           <DialogContent className="max-w-4xl p-0 overflow-hidden">
@@ -850,19 +877,11 @@ export function ApplicationsPage() {
                       {selectedApplication.job_seeker.full_name}'s application for {selectedApplication.job_post.title}
                     </DialogDescription>
                   </div>
-                  <Badge 
-                    className={`px-3 py-1.5 text-white 
-                      ${selectedApplication.status === 'pending' ? 'bg-yellow-500' : 
-                      selectedApplication.status === 'reviewing' ? 'bg-blue-500' : 
-                      selectedApplication.status === 'accepted' ? 'bg-green-500' : 
-                      'bg-red-500'}
-                      flex items-center gap-1.5 shadow-sm`}
-                  >
-                    {selectedApplication.status === 'pending' && <AlertCircle className="h-3.5 w-3.5" />}
-                    {selectedApplication.status === 'reviewing' && <Clock className="h-3.5 w-3.5" />}
-                    {selectedApplication.status === 'accepted' && <CheckCircle className="h-3.5 w-3.5" />}
-                    {selectedApplication.status === 'rejected' && <XCircle className="h-3.5 w-3.5" />}
-                    {selectedApplication.status.charAt(0).toUpperCase() + selectedApplication.status.slice(1)}
+                  <Badge className={`px-3 py-1.5 ${getStageColorClasses(selectedStage?.color).badge} flex items-center gap-1.5 shadow-sm`}>
+                    {selectedStage?.outcome === 'hired' && <CheckCircle className="h-3.5 w-3.5" />}
+                    {selectedStage?.outcome === 'rejected' && <XCircle className="h-3.5 w-3.5" />}
+                    {selectedStage?.outcome === 'open' && <Clock className="h-3.5 w-3.5" />}
+                    {selectedStage?.name ?? selectedApplication.status.charAt(0).toUpperCase() + selectedApplication.status.slice(1)}
                   </Badge>
                 </div>
               </DialogHeader>
@@ -984,99 +1003,103 @@ export function ApplicationsPage() {
                     </div>
                   )}
 
-                  {/* Application Status */}
+                  {/* Application Stage */}
                   <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
                     <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
                       <h3 className="text-lg font-semibold text-gray-900 flex items-center">
                         <Clock className="mr-2 h-5 w-5 text-blue-600" />
-                        Update Status
+                        Update Stage
                       </h3>
                     </div>
                     <div className="p-4">
                       <div className="mb-4">
-                        <p className="text-sm text-gray-600 mb-2">Current status: <span className="font-semibold capitalize">{selectedApplication.status}</span></p>
+                        <p className="text-sm text-gray-600 mb-2">Current stage: <span className="font-semibold">{selectedStage?.name ?? 'Unassigned'}</span></p>
                         <div className="w-full bg-gray-200 rounded-full h-2.5">
                           <div 
-                            className={`h-2.5 rounded-full ${
-                              selectedApplication.status === 'pending' ? 'w-1/4 bg-yellow-500' : 
-                              selectedApplication.status === 'reviewing' ? 'w-2/4 bg-blue-500' : 
-                              selectedApplication.status === 'accepted' ? 'w-full bg-green-500' : 
-                              'w-3/4 bg-red-500'
-                            }`}
+                            className={`h-2.5 rounded-full ${getStageColorClasses(selectedStage?.color).bar}`}
+                            style={{
+                              width: selectedStages.length > 0
+                                ? `${((selectedStages.findIndex(stage => stage.id === selectedStage?.id) + 1) / selectedStages.length) * 100}%`
+                                : '0%'
+                            }}
                           ></div>
                         </div>
                       </div>
 
                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                        {selectedApplication.status === 'pending' && (
-                          <>
-                            <Button
-                              onClick={() => {
-                                updateApplicationStatus(selectedApplication.id, 'reviewing');
-                                setSelectedApplication(prev => prev ? {...prev, status: 'reviewing'} : null);
-                              }}
-                              className="flex items-center justify-center bg-blue-600 hover:bg-blue-700"
-                            >
-                              <Clock className="h-4 w-4 mr-2" />
-                              Start Review
-                            </Button>
-                            <Button
-                              variant="outline"
-                              onClick={() => {
-                                updateApplicationStatus(selectedApplication.id, 'rejected');
-                                setSelectedApplication(prev => prev ? {...prev, status: 'rejected'} : null);
-                              }}
-                              className="flex items-center justify-center border-red-200 text-red-700 hover:bg-red-50"
-                            >
-                              <XCircle className="h-4 w-4 mr-2" />
-                              Reject
-                            </Button>
-                          </>
-                        )}
-                        
-                        {selectedApplication.status === 'reviewing' && (
-                          <>
-                            <Button
-                              onClick={() => {
-                                updateApplicationStatus(selectedApplication.id, 'accepted');
-                                setSelectedApplication(prev => prev ? {...prev, status: 'accepted'} : null);
-                              }}
-                              className="flex items-center justify-center bg-green-600 hover:bg-green-700"
-                            >
-                              <CheckCircle className="h-4 w-4 mr-2" />
-                              Accept
-                            </Button>
+                        {selectedStages
+                          .filter(stage => stage.id !== selectedApplication.stage_id)
+                          .map((stage) => (
                             <Button
+                              key={stage.id}
                               variant="outline"
-                              onClick={() => {
-                                updateApplicationStatus(selectedApplication.id, 'rejected');
-                                setSelectedApplication(prev => prev ? {...prev, status: 'rejected'} : null);
-                              }}
-                              className="flex items-center justify-center border-red-200 text-red-700 hover:bg-red-50"
+                              onClick={() => moveApplicationToStage(selectedApplication, stage.id)}
+                              disabled={!!processingId}
+                              className="flex items-center justify-center"
                             >
-                              <XCircle className="h-4 w-4 mr-2" />
-                              Reject
+                              <div className={`w-2 h-2 rounded-full mr-2 ${getStageColorClasses(stage.color).dot}`}></div>
+                              {stage.name}
                             </Button>
-                          </>
-                        )}
-                        
-                        {(selectedApplication.status === 'accepted' || selectedApplication.status === 'rejected') && (
-                          <Button
-                            onClick={() => {
-                              updateApplicationStatus(selectedApplication.id, 'reviewing');
-                              setSelectedApplication(prev => prev ? {...prev, status: 'reviewing'} : null);
-                            }}
-                            className="flex items-center justify-center"
-                          >
-                            <Clock className="h-4 w-4 mr-2" />
-                            Re-review
-                          </Button>
-                        )}
+                          ))}
                       </div>
                     </div>
                   </div>
                 </div>
               </div>
+
+              {/* Interviews */}
+              {(selectedApplication.status === 'reviewing' || selectedApplication.status === 'accepted') && (
+                <div className="bg-white rounded-lg border border-gray-200 overflow-hidden mt-6">
+                  <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                      <CalendarClock className="mr-2 h-5 w-5 text-blue-600" />
+                      Interviews
+                    </h3>
+                  </div>
+                  <div className="p-4">
+                    <InterviewScheduler
+                      applicationId={selectedApplication.id}
+                      role="employer"
+                      canSchedule={selectedApplication.status === 'reviewing'}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Milestone Payments */}
+              {selectedApplication.status === 'accepted' && (
+                <div className="bg-white rounded-lg border border-gray-200 overflow-hidden mt-6">
+                  <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
+                    <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                      <Wallet className="mr-2 h-5 w-5 text-blue-600" />
+                      Milestone Payments
+                    </h3>
+                  </div>
+                  <div className="p-4">
+                    <MilestonePayments
+                      applicationId={selectedApplication.id}
+                      role="employer"
+                      canAddMilestones
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Stage History */}
+              <div className="bg-white rounded-lg border border-gray-200 overflow-hidden mt-6">
+                <div className="bg-gray-50 px-4 py-3 border-b border-gray-200">
+                  <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                    <Calendar className="mr-2 h-5 w-5 text-blue-600" />
+                    Stage History
+                  </h3>
+                </div>
+                <div className="p-4">
+                  <StageHistoryTable
+                    applicationId={selectedApplication.id}
+                    refreshKey={selectedApplication.stage_id}
+                  />
+                </div>
+              </div>
             </div>
             
             <div className="flex justify-end p-4 bg-gray-50 border-t">
@@ -8,7 +8,10 @@ import { Card } from '../../components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
-import { Search, User, Briefcase, CheckCircle, Filter, X } from 'lucide-react';
+import { Search, User, Briefcase, CheckCircle, Filter, X, Sparkles } from 'lucide-react';
+import { JobPost } from '../../types/database';
+
+type RankableJob = Pick<JobPost, 'id' | 'title' | 'required_skills' | 'experience_level' | 'location' | 'work_schedule'>;
 
 export function EmployerCandidatesPage() {
   const { user } = useAuth();
@@ -23,6 +26,8 @@ export function EmployerCandidatesPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterMode, setFilterMode] = useState<'all' | 'applied'>('all');
   const [availableSkills, setAvailableSkills] = useState<string[]>([]);
+  const [employerJobs, setEmployerJobs] = useState<RankableJob[]>([]);
+  const [rankJobId, setRankJobId] = useState<string>('none');
   
   useEffect(() => {
     if (user) {
@@ -102,14 +107,17 @@ export function EmployerCandidatesPage() {
   
   const fetchAvailableSkills = async () => {
     try {
-      // Get employer's job posts to find required skills
+      // Get employer's job posts to find required skills and rank candidates against them
       const { data: jobPosts, error: jobError } = await supabase
         .from('job_posts')
-        .select('required_skills')
-        .eq('employer_id', user?.id);
+        .select('id, title, required_skills, experience_level, location, work_schedule')
+        .eq('employer_id', user?.id)
+        .order('created_at', { ascending: false });
       
       if (jobError) throw jobError;
       
+      setEmployerJobs(jobPosts || []);
+
       // Extract unique skills from all job posts
       const skills = Array.from(new Set(jobPosts?.flatMap(post => post.required_skills || [])));
       setAvailableSkills(skills);
@@ -131,8 +139,11 @@ export function EmployerCandidatesPage() {
     setSkillFilter([]);
     setSearchTerm('');
     setFilterMode('all');
+    setRankJobId('none');
   };
 
+  const rankForJob = employerJobs.find(job => job.id === rankJobId);
+
   return (
     <div className="flex flex-col h-full">
       <div className="p-6">
@@ -215,7 +226,24 @@ export function EmployerCandidatesPage() {
                 </SelectContent>
               </Select>
               
-              {(skillFilter.length > 0 || searchTerm || filterMode !== 'all') && (
+              <Select value={rankJobId} onValueChange={setRankJobId}>
+                <SelectTrigger className="w-[220px] bg-white">
+                  <div className="flex items-center">
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    <SelectValue placeholder="Rank for job" />
+                  </div>
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No ranking</SelectItem>
+                  {employerJobs.map((job) => (
+                    <SelectItem key={job.id} value={job.id}>
+                      {job.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              
+              {(skillFilter.length > 0 || searchTerm || filterMode !== 'all' || rankJobId !== 'none') && (
                 <Button 
                   variant="outline" 
                   size="sm"
@@ -254,6 +282,7 @@ export function EmployerCandidatesPage() {
           filter={filterMode}
           searchTerm={searchTerm}
           selectedSkills={skillFilter}
+          rankForJob={rankForJob}
         />
       </div>
     </div>
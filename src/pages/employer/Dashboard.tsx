@@ -4,21 +4,47 @@ import { supabase } from '../../services/supabase';
 import { JobPostForm } from '../../components/JobPostForm';
 import { NotificationBell } from '../../components/NotificationBell';
 import { 
-  Briefcase, DollarSign, MapPin, Clock, Calendar, FileText, CreditCard,
-  Trash2, Building2, User, Mail, Plus, X
+  Briefcase, Banknote, MapPin, Clock, Calendar, FileText, CreditCard,
+  Trash2, Building2, User, Mail, Plus, X, Pencil, Copy, RotateCcw, Lock
 } from 'lucide-react';
-import type { JobPost, Profile } from '../../types/database';
+import type { JobPost, JobPostClosedReason, JobPostStatus, Profile } from '../../types/database';
 import { Link, useNavigate } from 'react-router-dom';
 import { Button } from '../../components/ui/button';
+import { Badge } from '../../components/ui/badge';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { jobPostService, EmployerJobPost } from '../../services/jobPostService';
+import { formatCompensation, toCompensation } from '../../utils/compensation';
+
+type JobPostTab = Exclude<JobPostStatus, 'deleted'>;
+
+const jobPostTabs: { status: JobPostTab; label: string }[] = [
+  { status: 'active', label: 'Active' },
+  { status: 'scheduled', label: 'Scheduled' },
+  { status: 'draft', label: 'Drafts' },
+  { status: 'closed', label: 'Closed' },
+];
+
+const closedReasonLabels: Record<JobPostClosedReason, string> = {
+  manual: 'Closed by you',
+  expired: 'End date passed',
+  max_applications: 'Application limit reached',
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+  (err as { message?: string })?.message || fallback;
 
 export function EmployerDashboard() {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [jobPosts, setJobPosts] = useState<JobPost[]>([]);
+  const [jobPosts, setJobPosts] = useState<EmployerJobPost[]>([]);
   const [employerProfile, setEmployerProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [showJobForm, setShowJobForm] = useState(false);
+  // A draft or scheduled post opened in the form
+  const [editingPost, setEditingPost] = useState<JobPost | undefined>();
+  const [activeTab, setActiveTab] = useState<JobPostTab>('active');
 
   useEffect(() => {
     const checkProfile = async () => {
@@ -63,15 +89,7 @@ export function EmployerDashboard() {
       if (profileError) throw profileError;
       setEmployerProfile(profileData);
 
-      const { data: jobData, error: jobError } = await supabase
-        .from('job_posts')
-        .select('*')
-        .eq('employer_id', user.id)
-        .eq('status', 'active')
-        .order('created_at', { ascending: false });
-
-      if (jobError) throw jobError;
-      setJobPosts(jobData || []);
+      setJobPosts(await jobPostService.getEmployerJobPosts(user.id));
     } catch (err) {
       console.error('Error fetching data:', err);
       setError('Failed to fetch data');
@@ -82,12 +100,7 @@ export function EmployerDashboard() {
 
   const handleDeleteJob = async (jobId: string) => {
     try {
-      const { error } = await supabase
-        .from('job_posts')
-        .update({ status: 'deleted' })
-        .eq('id', jobId);
-
-      if (error) throw error;
+      await jobPostService.deleteJobPost(jobId);
       setJobPosts(prev => prev.filter(job => job.id !== jobId));
     } catch (err) {
       console.error('Error deleting job post:', err);
@@ -95,6 +108,50 @@ export function EmployerDashboard() {
     }
   };
 
+  const handleCloseJob = async (jobId: string) => {
+    try {
+      await jobPostService.closeJobPost(jobId);
+      toast.success('Job post closed');
+      fetchData();
+    } catch (err) {
+      console.error('Error closing job post:', err);
+      toast.error(getErrorMessage(err, 'Failed to close job post'));
+    }
+  };
+
+  // Repost goes live right away; duplicate opens the copy as a draft
+  const handleRepostJob = async (jobId: string, asDraft: boolean) => {
+    try {
+      const newId = await jobPostService.repostJobPost(jobId, asDraft);
+      await fetchData();
+
+      if (asDraft) {
+        const { data, error } = await supabase.from('job_posts').select('*').eq('id', newId).single();
+        if (error) throw error;
+        openJobForm(data);
+      } else {
+        toast.success('Job reposted');
+        setActiveTab('active');
+      }
+    } catch (err) {
+      console.error('Error reposting job post:', err);
+      toast.error(getErrorMessage(err, 'Failed to repost job post'));
+    }
+  };
+
+  const openJobForm = (post?: JobPost) => {
+    setEditingPost(post);
+    setShowJobForm(true);
+  };
+
+  const closeJobForm = () => {
+    setEditingPost(undefined);
+    setShowJobForm(false);
+    fetchData();
+  };
+
+  const visibleJobPosts = jobPosts.filter(job => job.status === activeTab);
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -116,7 +173,7 @@ export function EmployerDashboard() {
         <div className="flex items-center space-x-4">
           <NotificationBell />
           <button
-            onClick={() => setShowJobForm(true)}
+            onClick={() => openJobForm()}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
             <Plus className="h-4 w-4 mr-2" />
@@ -128,36 +185,49 @@ export function EmployerDashboard() {
       {showJobForm ? (
         <div className="bg-white shadow-sm rounded-lg p-6">
           <div className="flex justify-between items-center mb-6">
-            <h2 className="text-lg font-medium text-gray-900">Post a New Job</h2>
+            <h2 className="text-lg font-medium text-gray-900">{editingPost ? 'Edit Job Post' : 'Post a New Job'}</h2>
             <button
-              onClick={() => setShowJobForm(false)}
+              onClick={closeJobForm}
               className="text-gray-400 hover:text-gray-500"
             >
               <X className="h-5 w-5" />
             </button>
           </div>
           <JobPostForm 
-            onSuccess={() => {
-              setShowJobForm(false);
-              fetchData();
-            }} 
+            key={editingPost?.id ?? 'new'}
+            initialPost={editingPost}
+            onSuccess={closeJobForm}
           />
         </div>
       ) : (
         <div className="bg-white shadow-sm rounded-lg overflow-hidden">
-          <div className="px-4 py-5 sm:px-6">
+          <div className="px-4 py-5 sm:px-6 flex items-center justify-between">
             <h2 className="text-lg font-medium text-gray-900">Your Job Posts</h2>
+            <div className="flex space-x-1">
+              {jobPostTabs.map(tab => (
+                <Button
+                  key={tab.status}
+                  variant={activeTab === tab.status ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => setActiveTab(tab.status)}
+                >
+                  {tab.label} ({jobPosts.filter(job => job.status === tab.status).length})
+                </Button>
+              ))}
+            </div>
           </div>
           <div className="border-t border-gray-200">
             {loading ? (
               <div className="p-4 text-center text-gray-500">Loading...</div>
             ) : error ? (
               <div className="p-4 text-center text-red-500">{error}</div>
-            ) : jobPosts.length === 0 ? (
-              <div className="p-4 text-center text-gray-500">No job posts yet</div>
+            ) : visibleJobPosts.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">
+                {activeTab === 'active' ? 'No job posts yet' : `No ${jobPostTabs.find(tab => tab.status === activeTab)?.label.toLowerCase()} job posts`}
+              </div>
             ) : (
               <ul className="divide-y divide-gray-200">
-                {jobPosts.map((job) => (
+                {visibleJobPosts.map((job) => (
                   <li key={job.id} className="p-4 hover:bg-gray-50">
                     <div className="flex items-start justify-between">
                       <div className="flex items-start space-x-4">
@@ -177,8 +247,8 @@ export function EmployerDashboard() {
                           <p className="text-sm text-gray-500">{job.company_name}</p>
                           <div className="mt-2 flex items-center space-x-4 text-sm text-gray-500">
                             <div className="flex items-center">
-                              <DollarSign className="h-4 w-4 mr-1" />
-                              {job.budget}
+                              <Banknote className="h-4 w-4 mr-1" />
+                              {formatCompensation(toCompensation(job))}
                             </div>
                             <div className="flex items-center">
                               <MapPin className="h-4 w-4 mr-1" />
@@ -189,14 +259,59 @@ export function EmployerDashboard() {
                               {job.work_schedule}
                             </div>
                           </div>
+                          <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                            <Badge variant="secondary">
+                              {job.application_count}
+                              {job.max_applications ? ` / ${job.max_applications}` : ''} applications
+                            </Badge>
+                            {job.status === 'scheduled' && job.publish_at && (
+                              <span>Publishes {format(new Date(job.publish_at), 'MMM d, yyyy h:mm a')}</span>
+                            )}
+                            {job.status === 'active' && job.end_date && (
+                              <span>Closes after {format(new Date(job.end_date), 'MMM d, yyyy')}</span>
+                            )}
+                            {job.status === 'closed' && job.closed_reason && (
+                              <span>
+                                {closedReasonLabels[job.closed_reason]}
+                                {job.closed_at && ` · ${format(new Date(job.closed_at), 'MMM d, yyyy')}`}
+                              </span>
+                            )}
+                            {job.reposted_from && <span>Reposted</span>}
+                          </div>
                         </div>
                       </div>
-                      <button
-                        onClick={() => handleDeleteJob(job.id)}
-                        className="text-red-600 hover:text-red-800"
-                      >
-                        <Trash2 className="h-5 w-5" />
-                      </button>
+                      <div className="flex items-center space-x-1">
+                        {(job.status === 'draft' || job.status === 'scheduled') && (
+                          <Button variant="ghost" size="sm" onClick={() => openJobForm(job)}>
+                            <Pencil className="h-4 w-4 mr-1" />
+                            Edit
+                          </Button>
+                        )}
+                        {job.status === 'active' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCloseJob(job.id)}>
+                            <Lock className="h-4 w-4 mr-1" />
+                            Close
+                          </Button>
+                        )}
+                        {job.status === 'closed' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRepostJob(job.id, false)}>
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Repost
+                          </Button>
+                        )}
+                        {job.status !== 'draft' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleRepostJob(job.id, true)}>
+                            <Copy className="h-4 w-4 mr-1" />
+                            Duplicate
+                          </Button>
+                        )}
+                        <button
+                          onClick={() => handleDeleteJob(job.id)}
+                          className="text-red-600 hover:text-red-800 p-2"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
                     </div>
                   </li>
                 ))}
@@ -18,14 +18,21 @@ import {
   Shield
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { EmailDigestFrequency } from '../../types/database';
 import { EmployerIDVerification } from '../../components/EmployerIDVerification';
 import { VerificationStatus } from '../../components/VerificationStatus';
+import { TwoFactorSettings } from '../../components/security/TwoFactorSettings';
+import { ActiveSessionsSettings } from '../../components/security/ActiveSessionsSettings';
+import { ConnectedAccountsSettings } from '../../components/security/ConnectedAccountsSettings';
+import { MessagingPrivacySettings } from '../../components/MessagingPrivacySettings';
 
 interface NotificationSettings {
   newApplications: boolean;
   candidateMessages: boolean;
   jobAlerts: boolean;
   marketingEmails: boolean;
+  emailDigest: EmailDigestFrequency;
 }
 
 export function EmployerSettings() {
@@ -35,7 +42,8 @@ export function EmployerSettings() {
     newApplications: true,
     candidateMessages: true,
     jobAlerts: true,
-    marketingEmails: false
+    marketingEmails: false,
+    emailDigest: 'instant'
   });
   const [profile, setProfile] = useState<any>(null);
 
@@ -66,7 +74,8 @@ export function EmployerSettings() {
         }
         
         if (settings && settings.settings) {
-          setEmailNotifications(settings.settings);
+          // Rows saved before emailDigest existed don't have it
+          setEmailNotifications(prev => ({ ...prev, ...settings.settings }));
         }
     } catch (error) {
         console.error('Error fetching profile:', error);
@@ -77,11 +86,11 @@ export function EmployerSettings() {
     fetchProfile();
   }, [user]);
 
-  const handleNotificationChange = (setting: keyof NotificationSettings) => {
+  const updateNotificationSettings = (changes: Partial<NotificationSettings>) => {
     setEmailNotifications(prev => {
       const newSettings = {
         ...prev,
-        [setting]: !prev[setting]
+        ...changes
       };
 
       // Update in database
@@ -91,7 +100,7 @@ export function EmployerSettings() {
           employer_id: user?.id,
           settings: newSettings,
           updated_at: new Date().toISOString()
-        })
+        }, { onConflict: 'employer_id' })
         .then(({ error }) => {
           if (error) {
             toast.error('Failed to update notification settings');
@@ -102,6 +111,10 @@ export function EmployerSettings() {
       return newSettings;
     });
   };
+
+  const handleNotificationChange = (setting: Exclude<keyof NotificationSettings, 'emailDigest'>) => {
+    updateNotificationSettings({ [setting]: !emailNotifications[setting] });
+  };
   
   const saveSettings = async () => {
     setLoading(true);
@@ -112,7 +125,7 @@ export function EmployerSettings() {
           employer_id: user?.id,
           settings: emailNotifications,
           updated_at: new Date().toISOString()
-        });
+        }, { onConflict: 'employer_id' });
         
       if (error) throw error;
       
@@ -239,9 +252,36 @@ export function EmployerSettings() {
                 onCheckedChange={() => handleNotificationChange('marketingEmails')}
               />
             </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Mail className="h-4 w-4 text-gray-500" />
+                <Label htmlFor="email-digest">Email Frequency</Label>
+              </div>
+              <Select
+                value={emailNotifications.emailDigest}
+                onValueChange={(value) => updateNotificationSettings({ emailDigest: value as EmailDigestFrequency })}
+              >
+                <SelectTrigger id="email-digest" className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="instant">As they happen</SelectItem>
+                  <SelectItem value="daily">Daily digest</SelectItem>
+                  <SelectItem value="weekly">Weekly digest</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </CardContent>
         </Card>
 
+        {user && <MessagingPrivacySettings userId={user.id} />}
+
+        {/* Security */}
+        <TwoFactorSettings />
+        <ActiveSessionsSettings />
+        <ConnectedAccountsSettings returnTo="/employer/settings" />
+
         {/* Delete Account */}
         <Card className="border-red-200">
           <CardHeader>
@@ -84,8 +84,8 @@ export function Dashboard() {
 
     if (filters.salary[0] > 0 || filters.salary[1] < 200000) {
       query = query
-        .gte('salary_min', filters.salary[0])
-        .lte('salary_max', filters.salary[1]);
+        .gte('compensation_min', filters.salary[0])
+        .lte('compensation_max', filters.salary[1]);
     }
 
     if (filters.location) {
@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Clock, Download, FileText, Percent, Undo2, Wallet } from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { supabase } from '../../services/supabase';
+import { EarningsRange, EarningsTransaction, earningsService, getTransactionDate } from '../../services/earningsService';
+import {
+  buildMonthlyStatement,
+  downloadBlob,
+  getStatementMonths,
+  statementToCsv,
+  statementToPdf,
+} from '../../utils/statementExport';
+import { JobSeekerPayPalSetup } from '../../components/JobSeekerPayPalSetup';
+import { Badge } from '../../components/ui/badge';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../../components/ui/table';
+
+const statusStyles: Record<string, { label: string; className: string }> = {
+  captured: { label: 'In escrow', className: 'bg-blue-100 text-blue-800' },
+  completed: { label: 'Paid', className: 'bg-green-100 text-green-800' },
+  refund_pending: { label: 'Refund pending', className: 'bg-yellow-100 text-yellow-800' },
+  partially_refunded: { label: 'Partially refunded', className: 'bg-purple-100 text-purple-800' },
+  refunded: { label: 'Refunded', className: 'bg-purple-100 text-purple-800' },
+};
+
+const formatMoney = (value: number) => `$${value.toFixed(2)}`;
+
+export function EarningsPage() {
+  const { user } = useAuth();
+  const [transactions, setTransactions] = useState<EarningsTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<EarningsRange>({});
+  const [payee, setPayee] = useState({ name: '', email: '' });
+  const [statementMonth, setStatementMonth] = useState('');
+
+  const fetchEarnings = useCallback(async () => {
+    if (!user) return;
+    try {
+      setLoading(true);
+      const [transactionData, account, { data: profile }] = await Promise.all([
+        earningsService.getTransactions(user.id),
+        earningsService.getPayoutAccount(user.id),
+        supabase.from('profiles').select('full_name').eq('id', user.id).maybeSingle(),
+      ]);
+      setTransactions(transactionData);
+      setPayee({ name: profile?.full_name || user.email || '', email: account?.paypal_email || '' });
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching earnings:', err);
+      setError('Failed to load your earnings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchEarnings();
+  }, [fetchEarnings]);
+
+  // Filtering happens locally so statements can still cover any month
+  const filtered = useMemo(() => earningsService.filterByRange(transactions, range), [transactions, range]);
+
+  const summary = earningsService.summarize(filtered);
+  const jobs = earningsService.groupByJob(filtered);
+  const statementMonths = getStatementMonths(transactions);
+  const selectedMonth = statementMonth || statementMonths[0] || '';
+
+  const downloadStatement = (kind: 'pdf' | 'csv') => {
+    const statement = buildMonthlyStatement(transactions, selectedMonth, payee);
+    const blob = kind === 'pdf' ? statementToPdf(statement) : statementToCsv(statement);
+    downloadBlob(blob, `earnings-statement-${selectedMonth}.${kind}`);
+  };
+
+  if (loading) return (
+    <div className="flex justify-center items-center min-h-[60vh]">
+      <div className="animate-pulse flex flex-col items-center">
+        <div className="h-12 w-12 rounded-full border-4 border-t-blue-500 border-b-blue-500 border-l-transparent border-r-transparent animate-spin"></div>
+        <p className="mt-4 text-gray-600 font-medium">Loading your earnings...</p>
+      </div>
+    </div>
+  );
+
+  if (error) return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-center my-8">
+      <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+      <p className="text-red-600 font-medium">{error}</p>
+      <Button
+        variant="outline"
+        className="mt-4 border-red-300 text-red-600 hover:bg-red-50"
+        onClick={fetchEarnings}
+      >
+        Try Again
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto py-8 max-w-6xl space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Earnings</h1>
+          <p className="text-sm text-gray-500">Payments for your accepted jobs, after platform fees.</p>
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="earnings-from">From</Label>
+            <Input
+              id="earnings-from"
+              type="date"
+              value={range.from || ''}
+              max={range.to}
+              onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value || undefined }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="earnings-to">To</Label>
+            <Input
+              id="earnings-to"
+              type="date"
+              value={range.to || ''}
+              min={range.from}
+              onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value || undefined }))}
+            />
+          </div>
+          {(range.from || range.to) && (
+            <Button variant="ghost" onClick={() => setRange({})}>Clear</Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {[
+          { label: 'Paid Out', value: summary.paid, icon: Wallet, color: 'text-green-600' },
+          { label: 'Pending in Escrow', value: summary.pending, icon: Clock, color: 'text-blue-600' },
+          { label: 'Platform Fees', value: summary.fees, icon: Percent, color: 'text-gray-600' },
+          { label: 'Refunded', value: summary.refunded, icon: Undo2, color: 'text-purple-600' },
+        ].map(({ label, value, icon: Icon, color }) => (
+          <Card key={label}>
+            <CardContent className="pt-6">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-500">{label}</p>
+                <Icon className={`h-5 w-5 ${color}`} />
+              </div>
+              <p className="text-2xl font-bold mt-2">{formatMoney(value)}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Earnings by Job</CardTitle>
+          <CardDescription>Platform fees are paid by the employer on top of your rate.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {jobs.length === 0 ? (
+            <p className="text-sm text-gray-500">No payments in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Employer</TableHead>
+                  <TableHead className="text-right">Payments</TableHead>
+                  <TableHead className="text-right">In Escrow</TableHead>
+                  <TableHead className="text-right">Fees</TableHead>
+                  <TableHead className="text-right">Paid Out</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map(job => (
+                  <TableRow key={job.job_application_id}>
+                    <TableCell className="font-medium">{job.job_title}</TableCell>
+                    <TableCell>{job.employer_name}</TableCell>
+                    <TableCell className="text-right">{job.transactions}</TableCell>
+                    <TableCell className="text-right">{formatMoney(job.pending)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(job.fees)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(job.paid)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transactions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filtered.length === 0 ? (
+            <p className="text-sm text-gray-500">No transactions in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Gross</TableHead>
+                  <TableHead className="text-right">Fee</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(transaction => {
+                  const status = statusStyles[transaction.status] || { label: transaction.status, className: '' };
+                  const net = Number(transaction.amount);
+                  const fee = Number(transaction.platform_fee);
+                  return (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{format(new Date(getTransactionDate(transaction)), 'MMM d, yyyy')}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{transaction.job_title}</div>
+                        <div className="text-xs text-gray-500">{transaction.employer_name}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(Number(transaction.gross_amount ?? net + fee))}
+                      </TableCell>
+                      <TableCell className="text-right text-gray-500">-{formatMoney(fee)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatMoney(net)}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" />
+              Monthly Statements
+            </CardTitle>
+            <CardDescription>Download a statement of your earnings for your tax records.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {statementMonths.length === 0 ? (
+              <p className="text-sm text-gray-500">Statements are available once you receive a payment.</p>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={selectedMonth} onValueChange={setStatementMonth}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue placeholder="Select month" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {statementMonths.map(month => (
+                      <SelectItem key={month} value={month}>
+                        {format(new Date(`${month}-01T00:00:00`), 'MMMM yyyy')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={() => downloadStatement('pdf')}>
+                  <Download className="h-4 w-4 mr-2" />
+                  PDF
+                </Button>
+                <Button variant="outline" onClick={() => downloadStatement('csv')}>
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5 text-primary" />
+              Payout Account
+            </CardTitle>
+            <CardDescription>Released payments are sent to this PayPal address.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <JobSeekerPayPalSetup />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
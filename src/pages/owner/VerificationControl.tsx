@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../../services/supabase';
+import { withAuditReason } from '../../services/auditService';
 import { Loader2, CheckCircle, XCircle, ExternalLink, UserCheck, UserX, FileText } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -113,31 +114,40 @@ export function VerificationControl() {
   };
 
   async function handleVerificationAction(userId: string, verify: boolean) {
+    const reason = window.prompt(`${verify ? 'Verify' : 'Unverify'} this user? Add a reason for the audit log (optional).`);
+    if (reason === null) return;
+
     try {
       setLoading(true);
 
       // Start a transaction
-      const { data: user, error: userError } = await supabase
-        .from('profiles')
-        .update({
-          is_verified: verify
-        })
-        .eq('id', userId)
-        .select()
-        .single();
+      const { data: user, error: userError } = await withAuditReason(
+        supabase
+          .from('profiles')
+          .update({
+            is_verified: verify
+          })
+          .eq('id', userId)
+          .select()
+          .single(),
+        reason
+      );
 
       if (userError) throw userError;
 
       // Update verification request status if it exists
-      const { data: request, error: requestError } = await supabase
-        .from('admin_verification_requests')
-        .update({
-          status: verify ? 'approved' : 'rejected',
-          reviewed_at: new Date().toISOString()
-        })
-        .eq('user_id', userId)
-        .select()
-        .single();
+      const { data: request, error: requestError } = await withAuditReason(
+        supabase
+          .from('admin_verification_requests')
+          .update({
+            status: verify ? 'approved' : 'rejected',
+            reviewed_at: new Date().toISOString()
+          })
+          .eq('user_id', userId)
+          .select()
+          .single(),
+        reason
+      );
 
       if (requestError && requestError.code !== 'PGRST116') { // Ignore if no matching request
         throw requestError;
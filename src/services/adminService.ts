@@ -1,22 +1,21 @@
 import { supabase } from './supabase';
-import { LOCAL_STORAGE_KEYS } from '../constants/adminConfig';
 
-const getAdminSession = () => {
-  const session = localStorage.getItem(LOCAL_STORAGE_KEYS.ADMIN_SESSION);
-  return session ? JSON.parse(session) : null;
+const isCurrentUserAdmin = async (): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('is_current_user_admin');
+  if (error) throw error;
+  return data === true;
 };
 
-const validateAdminAccess = () => {
-  const session = getAdminSession();
+const validateAdminAccess = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
   if (!session) throw new Error('Not authenticated');
-  if (Date.now() - session.timestamp > 24 * 60 * 60 * 1000) {
-    localStorage.removeItem(LOCAL_STORAGE_KEYS.ADMIN_SESSION);
-    throw new Error('Session expired');
-  }
+
+  const isAdmin = await isCurrentUserAdmin();
+  if (!isAdmin) throw new Error('Not authorized');
 };
 
 const getJobSeekers = async () => {
-  validateAdminAccess();
+  await validateAdminAccess();
   
   const { data, error } = await supabase
     .from('profiles')
@@ -42,7 +41,7 @@ const getJobSeekers = async () => {
 };
 
 const updateJobSeeker = async (id: string, updateData: any) => {
-  validateAdminAccess();
+  await validateAdminAccess();
   
   const { data, error } = await supabase
     .from('profiles')
@@ -56,7 +55,7 @@ const updateJobSeeker = async (id: string, updateData: any) => {
 };
 
 const deleteJobSeeker = async (id: string) => {
-  validateAdminAccess();
+  await validateAdminAccess();
   
   const { error } = await supabase
     .from('profiles')
@@ -68,6 +67,8 @@ const deleteJobSeeker = async (id: string) => {
 
 // Export the service after defining all functions
 export const adminService = {
+  isCurrentUserAdmin,
+  validateAdminAccess,
   getJobSeekers,
   updateJobSeeker,
   deleteJobSeeker
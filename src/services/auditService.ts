@@ -0,0 +1,106 @@
+import { supabase } from './supabase';
+import { AuditAction, AuditLogEntry } from '../types/database';
+
+export interface AuditLogFilters {
+  search?: string;
+  table?: string;
+  action?: AuditAction;
+  // Inclusive dates (YYYY-MM-DD) in the admin's local time
+  from?: string;
+  to?: string;
+}
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// Exports stop here so a broad filter cannot hang the browser
+const EXPORT_LIMIT = 10000;
+const EXPORT_BATCH_SIZE = 1000;
+
+// The tables with audit triggers, for the table filter
+export const auditedTables: Record<string, string> = {
+  profiles: 'Profiles',
+  job_posts: 'Job posts',
+  reports: 'Reports',
+  admin_verification_requests: 'User verification',
+  employer_verification_requests: 'Employer verification',
+};
+
+// record_audit_entry() reads the reason from this header. Headers only carry
+// Latin-1, so the UTF-8 text is base64 encoded.
+const AUDIT_REASON_HEADER = 'X-Audit-Reason';
+const MAX_REASON_LENGTH = 500;
+
+const encodeReason = (reason: string) => {
+  const bytes = new TextEncoder().encode(reason.trim().slice(0, MAX_REASON_LENGTH));
+  return btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+};
+
+// Attaches the admin's reason to a table update, insert or delete, e.g.
+// withAuditReason(supabase.from('profiles').update(...).eq('id', id), reason)
+export const withAuditReason = <T extends { setHeader: (name: string, value: string) => T }>(
+  query: T,
+  reason?: string | null
+): T => (reason?.trim() ? query.setHeader(AUDIT_REASON_HEADER, encodeReason(reason)) : query);
+
+const buildQuery = (filters: AuditLogFilters, count?: 'exact') => {
+  let query = supabase
+    .from('audit_log')
+    .select('*', count ? { count } : undefined)
+    .order('created_at', { ascending: false });
+
+  if (filters.table) query = query.eq('target_table', filters.table);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.from) query = query.gte('created_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lte('created_at', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+  // Commas and parentheses would end the or() filter early
+  const search = filters.search?.replace(/[,()]/g, ' ').trim();
+  if (search) {
+    const term = `%${search}%`;
+    query = query.or(`actor_email.ilike.${term},target_id.ilike.${term},reason.ilike.${term}`);
+  }
+
+  return query;
+};
+
+const getEntries = async (
+  filters: AuditLogFilters,
+  page: number
+): Promise<{ entries: AuditLogEntry[]; total: number }> => {
+  const start = page * AUDIT_PAGE_SIZE;
+  const { data, error, count } = await buildQuery(filters, 'exact').range(start, start + AUDIT_PAGE_SIZE - 1);
+  if (error) throw error;
+  return { entries: (data || []) as AuditLogEntry[], total: count ?? 0 };
+};
+
+// Every entry matching the filters, newest first, for export
+const getAllEntries = async (filters: AuditLogFilters): Promise<AuditLogEntry[]> => {
+  const entries: AuditLogEntry[] = [];
+
+  while (entries.length < EXPORT_LIMIT) {
+    const { data, error } = await buildQuery(filters).range(entries.length, entries.length + EXPORT_BATCH_SIZE - 1);
+    if (error) throw error;
+    entries.push(...((data || []) as AuditLogEntry[]));
+    if (!data || data.length < EXPORT_BATCH_SIZE) break;
+  }
+
+  return entries.slice(0, EXPORT_LIMIT);
+};
+
+const describeAction = (entry: AuditLogEntry) => {
+  const table = auditedTables[entry.target_table] ?? entry.target_table;
+  switch (entry.action) {
+    case 'insert':
+      return `Created in ${table}`;
+    case 'delete':
+      return `Deleted from ${table}`;
+    default:
+      return `Updated ${entry.changed_fields.join(', ')} in ${table}`;
+  }
+};
+
+export const auditService = {
+  getEntries,
+  getAllEntries,
+  describeAction,
+};
@@ -0,0 +1,123 @@
+import { supabase } from './supabase';
+import {
+  ConversationPreferences, ConversationSummary, DirectMessage, MessageSearchResult,
+} from '../types/database';
+
+export const CONVERSATION_PAGE_SIZE = 30;
+export const MESSAGE_PAGE_SIZE = 50;
+
+// The user's general conversation with someone else, created on first
+// contact. The database keeps one per pair, however many times this races.
+const getOrCreateConversation = async (otherUserId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('get_or_create_conversation', { p_other_user_id: otherUserId });
+  if (error) throw error;
+  return data as string;
+};
+
+// The thread about a job application, between its employer and applicant
+const getOrCreateApplicationConversation = async (applicationId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('get_or_create_application_conversation', { p_application_id: applicationId });
+  if (error) throw error;
+  return data as string;
+};
+
+// Sends a message and updates the conversation's last message together
+const sendMessage = async (conversationId: string, content: string, messageType: DirectMessage['message_type'] = 'text') => {
+  const { data, error } = await supabase.rpc('send_message', {
+    p_conversation_id: conversationId,
+    p_content: content,
+    p_message_type: messageType,
+  });
+
+  if (error) throw error;
+  return data as DirectMessage;
+};
+
+// One page of the inbox or the archive, pinned conversations first. Pass a
+// larger limit to reload everything already shown.
+const listConversations = async ({ archived = false, offset = 0, limit = CONVERSATION_PAGE_SIZE } = {}) => {
+  const { data, error } = await supabase.rpc('list_conversations', {
+    p_archived: archived,
+    p_limit: limit + 1,
+    p_offset: offset,
+  });
+
+  if (error) throw error;
+  const rows = (data || []) as ConversationSummary[];
+  return { conversations: rows.slice(0, limit), hasMore: rows.length > limit };
+};
+
+// A single conversation, for one opened by link that is not in the loaded list
+const getConversation = async (conversationId: string): Promise<ConversationSummary | null> => {
+  const { data, error } = await supabase.rpc('list_conversations', { p_conversation_id: conversationId });
+  if (error) throw error;
+  return ((data || []) as ConversationSummary[])[0] ?? null;
+};
+
+// The newest messages before `before` (or the newest overall), oldest first
+const getMessages = async (conversationId: string, before?: string) => {
+  let query = supabase
+    .from('messages')
+    .select('id, conversation_id, sender_id, recipient_id, content, message_type, read, delivered_at, read_at, created_at')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE + 1);
+
+  if (before) {
+    query = query.lt('created_at', before);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = (data || []) as DirectMessage[];
+  return { messages: rows.slice(0, MESSAGE_PAGE_SIZE).reverse(), hasMore: rows.length > MESSAGE_PAGE_SIZE };
+};
+
+const searchMessages = async (query: string): Promise<MessageSearchResult[]> => {
+  if (!query.trim()) return [];
+
+  const { data, error } = await supabase.rpc('search_messages', { p_query: query.trim() });
+  if (error) throw error;
+  return data || [];
+};
+
+const updatePreferences = async (conversationId: string, userId: string, changes: Partial<ConversationPreferences>) => {
+  const { error } = await supabase
+    .from('conversation_preferences')
+    .upsert({ conversation_id: conversationId, user_id: userId, ...changes }, { onConflict: 'conversation_id,user_id' });
+
+  if (error) throw error;
+};
+
+// Blocks stop messages both ways, in every conversation with that person
+const blockUser = async (userId: string, blockedId: string) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .upsert({ blocker_id: userId, blocked_id: blockedId }, { onConflict: 'blocker_id,blocked_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+const unblockUser = async (userId: string, blockedId: string) => {
+  const { error } = await supabase
+    .from('user_blocks')
+    .delete()
+    .eq('blocker_id', userId)
+    .eq('blocked_id', blockedId);
+
+  if (error) throw error;
+};
+
+export const conversationService = {
+  getOrCreateConversation,
+  getOrCreateApplicationConversation,
+  sendMessage,
+  listConversations,
+  getConversation,
+  getMessages,
+  searchMessages,
+  updatePreferences,
+  blockUser,
+  unblockUser,
+};
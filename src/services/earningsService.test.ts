@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EarningsTransaction, earningsService } from './earningsService';
+
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const transaction = (overrides: Partial<EarningsTransaction> = {}): EarningsTransaction => ({
+  id: 'tx-1',
+  job_application_id: 'app-1',
+  milestone_id: null,
+  employer_id: 'employer-1',
+  jobseeker_id: 'seeker-1',
+  amount: 100,
+  platform_fee: 10,
+  gross_amount: 110,
+  refunded_amount: 0,
+  currency: 'USD',
+  status: 'completed',
+  paypal_transaction_id: null,
+  paypal_order_id: null,
+  paypal_capture_id: null,
+  captured_at: null,
+  paid_at: null,
+  created_at: '2025-03-10T12:00:00',
+  updated_at: '2025-03-10T12:00:00',
+  job_title: 'Logo design',
+  employer_name: 'Acme',
+  ...overrides,
+});
+
+describe('earningsService.summarize', () => {
+  it('returns zeros for no transactions', () => {
+    expect(earningsService.summarize([])).toEqual({ pending: 0, paid: 0, fees: 0, refunded: 0 });
+  });
+
+  it('counts captured money as pending and completed money as paid', () => {
+    const summary = earningsService.summarize([
+      transaction({ status: 'captured', amount: 40, platform_fee: 4 }),
+      transaction({ status: 'completed', amount: 100, platform_fee: 10 }),
+      transaction({ status: 'completed', amount: 50, platform_fee: 5 }),
+    ]);
+
+    expect(summary).toEqual({ pending: 40, paid: 150, fees: 15, refunded: 0 });
+  });
+
+  it('only counts fees on paid transactions', () => {
+    const summary = earningsService.summarize([
+      transaction({ status: 'captured', platform_fee: 4 }),
+      transaction({ status: 'refunded', platform_fee: 6 }),
+    ]);
+
+    expect(summary.fees).toBe(0);
+  });
+
+  it('adds up refunded amounts whatever the status', () => {
+    const summary = earningsService.summarize([
+      transaction({ status: 'refunded', amount: 80, refunded_amount: 80 }),
+      transaction({ status: 'partially_refunded', amount: 100, refunded_amount: 25 }),
+    ]);
+
+    expect(summary).toEqual({ pending: 0, paid: 0, fees: 0, refunded: 105 });
+  });
+
+  it('reads amounts that the API returns as strings', () => {
+    const summary = earningsService.summarize([
+      transaction({ amount: '12.50' as unknown as number, platform_fee: '1.25' as unknown as number }),
+    ]);
+
+    expect(summary.paid).toBe(12.5);
+    expect(summary.fees).toBe(1.25);
+  });
+});
+
+describe('earningsService.groupByJob', () => {
+  it('totals each application and sorts the largest first', () => {
+    const jobs = earningsService.groupByJob([
+      transaction({ id: 'a', job_application_id: 'app-1', status: 'completed', amount: 30 }),
+      transaction({ id: 'b', job_application_id: 'app-2', job_title: 'Website', status: 'completed', amount: 200 }),
+      transaction({ id: 'c', job_application_id: 'app-1', status: 'captured', amount: 20 }),
+    ]);
+
+    expect(jobs).toEqual([
+      {
+        job_application_id: 'app-2',
+        job_title: 'Website',
+        employer_name: 'Acme',
+        pending: 0,
+        paid: 200,
+        fees: 10,
+        transactions: 1,
+      },
+      {
+        job_application_id: 'app-1',
+        job_title: 'Logo design',
+        employer_name: 'Acme',
+        pending: 20,
+        paid: 30,
+        fees: 10,
+        transactions: 2,
+      },
+    ]);
+  });
+
+  it('groups transactions without an application together', () => {
+    const jobs = earningsService.groupByJob([
+      transaction({ id: 'a', job_application_id: null }),
+      transaction({ id: 'b', job_application_id: null }),
+    ]);
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0].job_application_id).toBe('unassigned');
+    expect(jobs[0].transactions).toBe(2);
+  });
+
+  it('returns nothing for no transactions', () => {
+    expect(earningsService.groupByJob([])).toEqual([]);
+  });
+});
+
+describe('earningsService.filterByRange', () => {
+  const transactions = [
+    transaction({ id: 'before', created_at: '2025-02-28T23:59:00' }),
+    transaction({ id: 'first-day', created_at: '2025-03-01T00:00:00' }),
+    transaction({ id: 'last-day', created_at: '2025-03-31T23:30:00' }),
+    transaction({ id: 'after', created_at: '2025-04-01T00:01:00' }),
+  ];
+
+  const ids = (result: EarningsTransaction[]) => result.map(item => item.id);
+
+  it('includes both ends of the range', () => {
+    const result = earningsService.filterByRange(transactions, { from: '2025-03-01', to: '2025-03-31' });
+    expect(ids(result)).toEqual(['first-day', 'last-day']);
+  });
+
+  it('leaves a side open when it is not set', () => {
+    expect(ids(earningsService.filterByRange(transactions, { from: '2025-03-31' }))).toEqual(['last-day', 'after']);
+    expect(ids(earningsService.filterByRange(transactions, { to: '2025-02-28' }))).toEqual(['before']);
+    expect(earningsService.filterByRange(transactions, {})).toHaveLength(4);
+  });
+
+  it('dates payouts by when they were paid, then by capture', () => {
+    const result = earningsService.filterByRange(
+      [
+        transaction({ id: 'paid', created_at: '2025-01-05T10:00:00', captured_at: '2025-01-06T10:00:00', paid_at: '2025-03-02T10:00:00' }),
+        transaction({ id: 'captured', created_at: '2025-01-05T10:00:00', captured_at: '2025-03-03T10:00:00' }),
+        transaction({ id: 'created', created_at: '2025-01-05T10:00:00' }),
+      ],
+      { from: '2025-03-01', to: '2025-03-31' }
+    );
+
+    expect(ids(result)).toEqual(['paid', 'captured']);
+  });
+});
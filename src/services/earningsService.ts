@@ -0,0 +1,162 @@
+import { supabase } from './supabase';
+import { PaymentAccount, PaymentTransaction } from '../types/database';
+
+export interface EarningsTransaction extends PaymentTransaction {
+  job_title: string;
+  employer_name: string;
+}
+
+export interface EarningsRange {
+  from?: string;
+  to?: string;
+}
+
+export interface EarningsSummary {
+  pending: number;
+  paid: number;
+  fees: number;
+  refunded: number;
+}
+
+export interface JobEarnings {
+  job_application_id: string;
+  job_title: string;
+  employer_name: string;
+  pending: number;
+  paid: number;
+  fees: number;
+  transactions: number;
+}
+
+// Money the job seeker has been paid, and money still held for them
+const PENDING_STATUSES = ['captured'];
+const PAID_STATUSES = ['completed'];
+
+// Payments count on the day they were paid out, everything else on capture
+export const getTransactionDate = (transaction: PaymentTransaction) =>
+  transaction.paid_at || transaction.captured_at || transaction.created_at;
+
+const getTransactions = async (userId: string): Promise<EarningsTransaction[]> => {
+  const { data, error } = await supabase
+    .from('payment_transactions')
+    .select(`
+      *,
+      job_applications (
+        job_posts (
+          title,
+          company_name
+        )
+      )
+    `)
+    .eq('jobseeker_id', userId)
+    .neq('status', 'denied')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ job_applications, ...transaction }) => {
+    const post = job_applications?.job_posts;
+    return {
+      ...transaction,
+      job_title: post?.title || 'Untitled job',
+      employer_name: post?.company_name || 'Employer',
+    };
+  });
+};
+
+// Inclusive date range in the user's local time
+const filterByRange = <T extends PaymentTransaction>(transactions: T[], range: EarningsRange): T[] => {
+  const from = range.from ? new Date(`${range.from}T00:00:00`) : null;
+  const to = range.to ? new Date(`${range.to}T23:59:59.999`) : null;
+
+  return transactions.filter(transaction => {
+    const date = new Date(getTransactionDate(transaction));
+    return (!from || date >= from) && (!to || date <= to);
+  });
+};
+
+const summarize = (transactions: PaymentTransaction[]): EarningsSummary =>
+  transactions.reduce(
+    (summary, transaction) => {
+      const amount = Number(transaction.amount);
+      if (PENDING_STATUSES.includes(transaction.status)) summary.pending += amount;
+      if (PAID_STATUSES.includes(transaction.status)) {
+        summary.paid += amount;
+        summary.fees += Number(transaction.platform_fee);
+      }
+      summary.refunded += Number(transaction.refunded_amount || 0);
+      return summary;
+    },
+    { pending: 0, paid: 0, fees: 0, refunded: 0 }
+  );
+
+const groupByJob = (transactions: EarningsTransaction[]): JobEarnings[] => {
+  const jobs = new Map<string, JobEarnings>();
+
+  for (const transaction of transactions) {
+    const key = transaction.job_application_id || 'unassigned';
+    const job = jobs.get(key) || {
+      job_application_id: key,
+      job_title: transaction.job_title,
+      employer_name: transaction.employer_name,
+      pending: 0,
+      paid: 0,
+      fees: 0,
+      transactions: 0,
+    };
+    const totals = summarize([transaction]);
+
+    job.pending += totals.pending;
+    job.paid += totals.paid;
+    job.fees += totals.fees;
+    job.transactions += 1;
+    jobs.set(key, job);
+  }
+
+  return [...jobs.values()].sort((a, b) => b.paid + b.pending - (a.paid + a.pending));
+};
+
+const getPayoutAccount = async (userId: string): Promise<PaymentAccount | null> => {
+  const { data, error } = await supabase
+    .from('payment_accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Changing the address clears its verification in the database
+const savePayPalEmail = async (userId: string, paypalEmail: string): Promise<PaymentAccount> => {
+  const { data, error } = await supabase
+    .from('payment_accounts')
+    .upsert({ user_id: userId, paypal_email: paypalEmail.trim() }, { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const invokeVerification = async (body: Record<string, string>) => {
+  const { data, error } = await supabase.functions.invoke('paypal-email-verification', { body });
+
+  if (error) {
+    // Surface the function's own message instead of the generic non-2xx one
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as { status: 'sent' | 'verified' };
+};
+
+export const earningsService = {
+  getTransactions,
+  filterByRange,
+  summarize,
+  groupByJob,
+  getPayoutAccount,
+  savePayPalEmail,
+  sendVerificationCode: () => invokeVerification({ action: 'send' }),
+  verifyPayPalEmail: (code: string) => invokeVerification({ action: 'verify', code }),
+};
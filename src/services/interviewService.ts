@@ -0,0 +1,92 @@
+import { supabase } from './supabase';
+import { Interview, InterviewEvent, InterviewSlot } from '../types/database';
+
+export interface InterviewWithSlots extends Interview {
+  slots: InterviewSlot[];
+  job_post: { title: string; company_name: string | null } | null;
+}
+
+export interface InterviewOffer {
+  // ISO start times; each slot lasts duration_minutes
+  slots: string[];
+  duration_minutes: number;
+  video_call_url?: string;
+  notes?: string;
+}
+
+const getInterviews = async (applicationId: string): Promise<InterviewWithSlots[]> => {
+  const { data, error } = await supabase
+    .from('interviews')
+    .select('*, slots:interview_slots(*), job_post:job_posts(title, company_name)')
+    .eq('job_application_id', applicationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(interview => ({
+    ...interview,
+    slots: [...(interview.slots || [])].sort((a: InterviewSlot, b: InterviewSlot) => a.starts_at.localeCompare(b.starts_at)),
+  }));
+};
+
+const getEvents = async (applicationId: string): Promise<InterviewEvent[]> => {
+  const { data, error } = await supabase
+    .from('interview_events')
+    .select('*')
+    .eq('job_application_id', applicationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Creates the application's interview, or replaces the times offered for the
+// open one. The database moves a booking that is no longer offered back to
+// proposed.
+const offerSlots = async (applicationId: string, offer: InterviewOffer): Promise<Interview> => {
+  const { data, error } = await supabase.rpc('offer_interview_slots', {
+    p_application_id: applicationId,
+    p_slots: offer.slots,
+    p_duration_minutes: offer.duration_minutes,
+    p_video_call_url: offer.video_call_url || null,
+    p_notes: offer.notes || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const bookSlot = async (slotId: string): Promise<Interview> => {
+  const { data, error } = await supabase.rpc('book_interview_slot', { p_slot_id: slotId });
+
+  if (error) throw error;
+  return data;
+};
+
+const requestNewTimes = async (interviewId: string, note?: string): Promise<Interview> => {
+  const { data, error } = await supabase.rpc('request_interview_times', {
+    p_interview_id: interviewId,
+    p_note: note || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const cancelInterview = async (interviewId: string, reason?: string): Promise<Interview> => {
+  const { data, error } = await supabase.rpc('cancel_interview', {
+    p_interview_id: interviewId,
+    p_reason: reason || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const interviewService = {
+  getInterviews,
+  getEvents,
+  offerSlots,
+  bookSlot,
+  requestNewTimes,
+  cancelInterview,
+};
@@ -0,0 +1,105 @@
+import { supabase } from './supabase';
+import { JobPost } from '../types/database';
+import { formatCompensation, toCompensation } from '../utils/compensation';
+
+// Status changes are policed by the database (job_post_lifecycle_guard): it
+// publishes schedules that are already due, stamps closed_at / closed_reason and
+// refuses to publish a post past its end date.
+
+export interface EmployerJobPost extends JobPost {
+  application_count: number;
+}
+
+// The columns an employer edits in JobPostForm. budget is derived from the
+// compensation fields.
+export type JobPostValues = Omit<
+  JobPost,
+  'id' | 'employer_id' | 'budget' | 'status' | 'publish_at' | 'closed_at' | 'closed_reason' | 'reposted_from' | 'created_at' | 'updated_at'
+>;
+
+export type JobPostSaveMode =
+  | { status: 'draft' }
+  | { status: 'active' }
+  | { status: 'scheduled'; publishAt: string };
+
+const getEmployerJobPosts = async (employerId: string): Promise<EmployerJobPost[]> => {
+  const { data, error } = await supabase
+    .from('job_posts')
+    .select('*, job_applications(count)')
+    .eq('employer_id', employerId)
+    .neq('status', 'deleted')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ job_applications, ...post }) => ({
+    ...post,
+    application_count: job_applications?.[0]?.count ?? 0,
+  }));
+};
+
+// Creates the post, or updates it when id is given (e.g. finishing a draft)
+const saveJobPost = async (
+  employerId: string,
+  values: JobPostValues,
+  mode: JobPostSaveMode,
+  id?: string
+): Promise<JobPost> => {
+  const row = {
+    ...values,
+    budget: formatCompensation(toCompensation(values)),
+    // Empty date inputs are allowed on drafts only
+    start_date: values.start_date || null,
+    end_date: values.end_date || null,
+    employer_id: employerId,
+    status: mode.status,
+    publish_at: mode.status === 'scheduled' ? new Date(mode.publishAt).toISOString() : null,
+  };
+
+  const query = id
+    ? supabase.from('job_posts').update(row).eq('id', id)
+    : supabase.from('job_posts').insert(row);
+
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+const closeJobPost = async (id: string) => {
+  const { error } = await supabase
+    .from('job_posts')
+    .update({ status: 'closed', closed_reason: 'manual' })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+const deleteJobPost = async (id: string) => {
+  const { error } = await supabase
+    .from('job_posts')
+    .update({ status: 'deleted' })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// Copies the post into a new one, live now or as a draft. The original keeps
+// its applications. Returns the new post's id.
+const repostJobPost = async (id: string, asDraft = false): Promise<string> => {
+  const { data, error } = await supabase.rpc('repost_job_post', {
+    p_job_post_id: id,
+    p_as_draft: asDraft,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const jobPostService = {
+  getEmployerJobPosts,
+  saveJobPost,
+  closeJobPost,
+  deleteJobPost,
+  repostJobPost,
+};
@@ -0,0 +1,58 @@
+import { supabase } from './supabase';
+import { JobSearchFacets, JobSearchFilters, JobSearchPage, JobSearchSort } from '../types/search';
+
+const emptyFacets: JobSearchFacets = {
+  category: [],
+  job_type: [],
+  experience_level: [],
+  location: [],
+  pay_currency: [],
+  pay_period: [],
+};
+
+// Maps the UI filters onto the arguments shared by the search RPCs.
+// restrictToIds narrows the search to e.g. the user's saved or applied jobs.
+const toRpcArgs = (filters: JobSearchFilters, restrictToIds?: string[]) => ({
+  search_query: filters.query?.trim() || null,
+  filter_category: filters.category || null,
+  filter_job_type: filters.job_type || null,
+  filter_experience_level: filters.experience_level || null,
+  filter_location: filters.location || null,
+  filter_pay_currency: filters.pay_currency || null,
+  filter_pay_period: filters.pay_period || null,
+  filter_min_pay: filters.min_pay ?? null,
+  restrict_to_ids: restrictToIds ?? null,
+});
+
+const searchJobs = async (
+  filters: JobSearchFilters,
+  page: number,
+  pageSize: number,
+  restrictToIds?: string[],
+  sortBy: JobSearchSort = 'relevance'
+): Promise<JobSearchPage> => {
+  const { data, error } = await supabase.rpc('search_job_posts', {
+    ...toRpcArgs(filters, restrictToIds),
+    sort_by: sortBy,
+    page_limit: pageSize,
+    page_offset: (page - 1) * pageSize,
+  });
+
+  if (error) throw error;
+  return (data as JobSearchPage) ?? { total_count: 0, results: [] };
+};
+
+const getFacets = async (
+  filters: JobSearchFilters,
+  restrictToIds?: string[]
+): Promise<JobSearchFacets> => {
+  const { data, error } = await supabase.rpc('job_post_search_facets', toRpcArgs(filters, restrictToIds));
+
+  if (error) throw error;
+  return { ...emptyFacets, ...(data as Partial<JobSearchFacets>) };
+};
+
+export const jobSearchService = {
+  searchJobs,
+  getFacets,
+};
@@ -0,0 +1,194 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { supabase } from './supabase';
+import { conversationService } from './conversationService';
+import { MessageAttachment } from '../types/database';
+
+const BUCKET = 'message-attachments';
+
+// Keep in sync with the bucket and table limits in
+// 20250421000000_message_attachments.sql
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+
+export const attachmentTypes: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'application/msword': 'Word document',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'Word document',
+  'text/plain': 'Text file',
+  'image/png': 'PNG image',
+  'image/jpeg': 'JPEG image',
+  'image/gif': 'GIF image',
+  'image/webp': 'WebP image',
+};
+
+export const attachmentAccept = Object.keys(attachmentTypes).join(',');
+export const imageAttachmentAccept = Object.keys(attachmentTypes).filter(type => type.startsWith('image/')).join(',');
+
+// Signed links are short-lived; the thread asks for new ones when it reloads
+const SIGNED_URL_SECONDS = 60 * 60;
+
+const THUMBNAIL_WIDTH = 240;
+
+export const isImageAttachment = (mimeType: string) => mimeType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// The message to show, or null when the file can be sent
+export const validateAttachment = (file: File): string | null => {
+  if (!attachmentTypes[file.type]) {
+    return 'Only PDF, Word, text and image files can be attached';
+  }
+  if (file.size === 0) {
+    return 'This file is empty';
+  }
+  if (file.size > ATTACHMENT_MAX_BYTES) {
+    return `Files can be up to ${formatFileSize(ATTACHMENT_MAX_BYTES)}`;
+  }
+  return null;
+};
+
+// First page as a small JPEG, so the thread can show a PDF without opening it.
+// A PDF that will not render is still sent, just without a thumbnail.
+const renderPdfThumbnail = async (file: File): Promise<Blob | null> => {
+  let pdfDoc: pdfjsLib.PDFDocumentProxy | null = null;
+  try {
+    pdfDoc = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const page = await pdfDoc.getPage(1);
+    const unscaled = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / unscaled.width });
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    await page.render({ canvasContext: context, viewport }).promise;
+
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch (error) {
+    console.error('Error rendering PDF thumbnail:', error);
+    return null;
+  } finally {
+    pdfDoc?.destroy();
+  }
+};
+
+const fileExtension = (file: File) => {
+  const extension = file.name.split('.').pop();
+  return extension && extension !== file.name ? `.${extension.toLowerCase()}` : '';
+};
+
+interface SendAttachmentParams {
+  conversationId: string;
+  senderId: string;
+  file: File;
+  caption?: string;
+}
+
+const sendAttachment = async ({ conversationId, senderId, file, caption }: SendAttachmentParams) => {
+  const validationError = validateAttachment(file);
+  if (validationError) throw new Error(validationError);
+
+  const folder = `${conversationId}/${senderId}`;
+  const key = crypto.randomUUID();
+  const storagePath = `${folder}/${key}${fileExtension(file)}`;
+  const uploaded: string[] = [];
+
+  try {
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(storagePath, file, { contentType: file.type });
+    if (uploadError) throw uploadError;
+    uploaded.push(storagePath);
+
+    let thumbnailPath: string | null = null;
+    if (file.type === 'application/pdf') {
+      const thumbnail = await renderPdfThumbnail(file);
+      if (thumbnail) {
+        const path = `${folder}/${key}.thumb.jpg`;
+        const { error: thumbnailError } = await supabase.storage
+          .from(BUCKET)
+          .upload(path, thumbnail, { contentType: 'image/jpeg' });
+        if (!thumbnailError) {
+          uploaded.push(path);
+          thumbnailPath = path;
+        }
+      }
+    }
+
+    // The message and the conversation summary are written together; the
+    // file row follows once the message exists
+    const message = await conversationService.sendMessage(conversationId, caption?.trim() || file.name, 'attachment');
+
+    const { data: attachment, error: attachmentError } = await supabase
+      .from('message_attachments')
+      .insert({
+        message_id: message.id,
+        conversation_id: conversationId,
+        uploader_id: senderId,
+        storage_path: storagePath,
+        thumbnail_path: thumbnailPath,
+        file_name: file.name.slice(0, 255),
+        mime_type: file.type,
+        size_bytes: file.size,
+      })
+      .select()
+      .single();
+    if (attachmentError) throw attachmentError;
+
+    return attachment as MessageAttachment;
+  } catch (error) {
+    if (uploaded.length > 0) {
+      await supabase.storage.from(BUCKET).remove(uploaded);
+    }
+    throw error;
+  }
+};
+
+const getAttachments = async (messageIds: string[]): Promise<MessageAttachment[]> => {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('message_attachments')
+    .select('*')
+    .in('message_id', messageIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Signed links by path. Files the user may not open yet (still being scanned,
+// or removed) are left out.
+const getSignedUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, SIGNED_URL_SECONDS);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter(item => !item.error && item.signedUrl && item.path)
+      .map(item => [item.path as string, item.signedUrl])
+  );
+};
+
+// A link that saves the file under its original name
+const getDownloadUrl = async (attachment: MessageAttachment) => {
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .createSignedUrl(attachment.storage_path, SIGNED_URL_SECONDS, { download: attachment.file_name });
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+export const messageAttachmentService = {
+  sendAttachment,
+  getAttachments,
+  getSignedUrls,
+  getDownloadUrl,
+};
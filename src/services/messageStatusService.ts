@@ -0,0 +1,125 @@
+import { supabase } from './supabase';
+import { MessageReceiptStatus, UnreadMessageCount } from '../types/database';
+
+// How often an open app records that its user is around
+export const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// Someone seen within two heartbeats is shown as online
+const ONLINE_WINDOW_MS = 2 * LAST_SEEN_INTERVAL_MS;
+
+// "is typing…" goes away this long after the last keystroke
+export const TYPING_TIMEOUT_MS = 4000;
+
+export const isRecentlySeen = (lastSeenAt: string | null | undefined) =>
+  !!lastSeenAt && Date.now() - new Date(lastSeenAt).getTime() < ONLINE_WINDOW_MS;
+
+export const receiptStatus = (message: { delivered_at?: string | null; read_at?: string | null }): MessageReceiptStatus => {
+  if (message.read_at) return 'read';
+  if (message.delivered_at) return 'delivered';
+  return 'sent';
+};
+
+const getUnreadCounts = async (): Promise<UnreadMessageCount[]> => {
+  const { data, error } = await supabase.rpc('get_unread_message_counts');
+  if (error) throw error;
+  return data || [];
+};
+
+const markDelivered = async () => {
+  const { error } = await supabase.rpc('mark_messages_delivered');
+  if (error) throw error;
+};
+
+const markConversationRead = async (conversationId: string) => {
+  const { data, error } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+  if (error) throw error;
+  return data as number;
+};
+
+const touchLastSeen = async () => {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) throw error;
+};
+
+// Last seen times by user ID. Only people the user has a conversation with
+// are returned.
+const getLastSeen = async (userIds: string[]): Promise<Record<string, string>> => {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('user_presence')
+    .select('user_id, last_seen_at')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.user_id, row.last_seen_at]));
+};
+
+const getReadReceipts = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('read_receipts')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.read_receipts ?? true;
+};
+
+const setReadReceipts = async (userId: string, enabled: boolean) => {
+  const { error } = await supabase
+    .from('user_settings')
+    .upsert({ user_id: userId, read_receipts: enabled }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+};
+
+interface ConversationPresenceHandlers {
+  // Everyone with the conversation open, including the user
+  onPresence: (userIds: string[]) => void;
+  onTyping: (userId: string, typing: boolean) => void;
+}
+
+// Joins the private channel for a conversation (see
+// 20250422000000_message_receipts_and_presence.sql). Call leave() when the
+// conversation is closed.
+const joinConversation = (conversationId: string, userId: string, handlers: ConversationPresenceHandlers) => {
+  const channel = supabase.channel(`conversation:${conversationId}`, {
+    config: { private: true, presence: { key: userId } },
+  });
+
+  channel
+    .on('presence', { event: 'sync' }, () => {
+      handlers.onPresence(Object.keys(channel.presenceState()));
+    })
+    .on('broadcast', { event: 'typing' }, ({ payload }) => {
+      if (payload?.user_id && payload.user_id !== userId) {
+        handlers.onTyping(payload.user_id, !!payload.typing);
+      }
+    })
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') {
+        channel.track({ online_at: new Date().toISOString() });
+      }
+    });
+
+  return {
+    sendTyping: (typing: boolean) => {
+      channel.send({ type: 'broadcast', event: 'typing', payload: { user_id: userId, typing } });
+    },
+    leave: () => {
+      supabase.removeChannel(channel);
+    },
+  };
+};
+
+export const messageStatusService = {
+  getUnreadCounts,
+  markDelivered,
+  markConversationRead,
+  touchLastSeen,
+  getLastSeen,
+  getReadReceipts,
+  setReadReceipts,
+  joinConversation,
+};
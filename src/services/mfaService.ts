@@ -0,0 +1,97 @@
+import { AuthenticatorAssuranceLevels, Factor } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export interface AssuranceLevel {
+  currentLevel: AuthenticatorAssuranceLevels | null;
+  nextLevel: AuthenticatorAssuranceLevels | null;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  // SVG data URL for the authenticator app to scan
+  qrCode: string;
+  // The same secret, for typing in by hand
+  secret: string;
+}
+
+const getAssuranceLevel = async (): Promise<AssuranceLevel> => {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+  return { currentLevel: data.currentLevel, nextLevel: data.nextLevel };
+};
+
+// Verified TOTP factors only
+const getTotpFactors = async (): Promise<Factor[]> => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+  return data.totp;
+};
+
+// Starts enrolling an authenticator app. An earlier enrollment that was never
+// verified is removed first, since it would block a new one.
+const enrollTotp = async (): Promise<TotpEnrollment> => {
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw listError;
+
+  for (const factor of factors.all.filter(f => f.factor_type === 'totp' && f.status === 'unverified')) {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId: factor.id });
+    if (error) throw error;
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    issuer: 'Task Match',
+    friendlyName: 'Authenticator app',
+  });
+  if (error) throw error;
+
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+};
+
+// Checks a code from the authenticator app. Used both to finish enrolling and
+// to raise a signed-in session to aal2.
+const verifyCode = async (factorId: string, code: string) => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.replace(/\s/g, '') });
+  if (error) throw error;
+};
+
+const unenroll = async (factorId: string) => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw error;
+};
+
+// Returns the new codes; they cannot be read back later
+const generateRecoveryCodes = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) throw error;
+  return data || [];
+};
+
+const getRecoveryCodesRemaining = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('mfa_recovery_codes_remaining');
+  if (error) throw error;
+  return data ?? 0;
+};
+
+// A valid code removes the account's factors (see redeem_mfa_recovery_code).
+// The session is refreshed so it no longer asks for a second factor.
+const redeemRecoveryCode = async (code: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', { p_code: code });
+  if (error) throw error;
+  if (!data) return false;
+
+  const { error: refreshError } = await supabase.auth.refreshSession();
+  if (refreshError) throw refreshError;
+  return true;
+};
+
+export const mfaService = {
+  getAssuranceLevel,
+  getTotpFactors,
+  enrollTotp,
+  verifyCode,
+  unenroll,
+  generateRecoveryCodes,
+  getRecoveryCodesRemaining,
+  redeemRecoveryCode,
+};
@@ -0,0 +1,98 @@
+import { supabase } from './supabase';
+import { Compensation, MilestoneStatus, PaymentLedgerEntry, PaymentMilestone } from '../types/database';
+
+export interface MilestoneDraft {
+  title: string;
+  amount: number;
+  description?: string;
+  due_date?: string;
+}
+
+const getMilestones = async (applicationId: string): Promise<PaymentMilestone[]> => {
+  const { data, error } = await supabase
+    .from('payment_milestones')
+    .select('*')
+    .eq('job_application_id', applicationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const getLedger = async (applicationId: string): Promise<PaymentLedgerEntry[]> => {
+  const { data, error } = await supabase
+    .from('payment_ledger')
+    .select('*')
+    .eq('job_application_id', applicationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Copied from the job post when the application was accepted; new milestones
+// are paid in its currency
+const getAgreedCompensation = async (applicationId: string): Promise<Compensation | null> => {
+  const { data, error } = await supabase
+    .from('job_applications')
+    .select('agreed_compensation')
+    .eq('id', applicationId)
+    .single();
+
+  if (error) throw error;
+  return data?.agreed_compensation ?? null;
+};
+
+const createMilestone = async (applicationId: string, draft: MilestoneDraft): Promise<PaymentMilestone> => {
+  const { data, error } = await supabase.rpc('create_payment_milestone', {
+    application_id: applicationId,
+    milestone_title: draft.title,
+    milestone_amount: draft.amount,
+    milestone_description: draft.description || null,
+    milestone_due_date: draft.due_date || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// The database decides whether the caller may make this transition. Funding
+// is not exposed: only the PayPal webhook can mark a milestone funded.
+const transition = async (milestoneId: string, status: MilestoneStatus, note?: string): Promise<PaymentMilestone> => {
+  const { data, error } = await supabase.rpc('transition_payment_milestone', {
+    target_milestone_id: milestoneId,
+    next_status: status,
+    transition_note: note || null,
+    paypal_reference: null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Refunds go through the paypal-refund function, which makes the transition
+// with the caller's session and then refunds the capture in PayPal
+const refundMilestone = async (milestoneId: string, note?: string): Promise<PaymentMilestone> => {
+  const { data, error } = await supabase.functions.invoke('paypal-refund', {
+    body: { milestone_id: milestoneId, note: note || null },
+  });
+
+  if (error) {
+    // Surface the function's own message instead of the generic non-2xx one
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data.milestone;
+};
+
+export const milestoneService = {
+  getMilestones,
+  getLedger,
+  getAgreedCompensation,
+  createMilestone,
+  markDelivered: (milestoneId: string, note?: string) => transition(milestoneId, 'delivered', note),
+  releaseMilestone: (milestoneId: string, note?: string) => transition(milestoneId, 'released', note),
+  disputeMilestone: (milestoneId: string, reason: string) => transition(milestoneId, 'disputed', reason),
+  refundMilestone,
+  cancelMilestone: (milestoneId: string) => transition(milestoneId, 'cancelled'),
+};
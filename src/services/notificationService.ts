@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import { AppNotification, NotificationType } from '../types/database';
+
+// Notifications are written by database triggers only; the client reads them
+// and marks them read.
+
+const NOTIFICATION_TYPES: NotificationType[] = [
+  'application_submitted',
+  'application_status_changed',
+  'message_received',
+  'verification_decided',
+  'payment_released',
+  'report_resolved',
+  'system',
+  'job_alert',
+  'interview_update',
+];
+
+// Drops rows of a type this build cannot render, e.g. from a newer migration
+export const isAppNotification = (row: { type?: unknown }): row is AppNotification =>
+  NOTIFICATION_TYPES.includes(row.type as NotificationType);
+
+const getNotifications = async (userId: string, limit = 50): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []).filter(isAppNotification);
+};
+
+const markAsRead = async (notificationId: string) => {
+  const { error } = await supabase.rpc('mark_notification_as_read', { notification_id: notificationId });
+  if (error) throw error;
+};
+
+const markAllAsRead = async () => {
+  const { error } = await supabase.rpc('mark_all_notifications_as_read');
+  if (error) throw error;
+};
+
+// message_received notifications are refreshed in place, so updates matter too.
+// Returns the unsubscribe function.
+const subscribe = (
+  userId: string,
+  handlers: { onInsert: (notification: AppNotification) => void; onUpdate: (notification: AppNotification) => void }
+) => {
+  const channel = supabase
+    .channel(`notifications_${userId}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (isAppNotification(payload.new)) handlers.onInsert(payload.new);
+      }
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      (payload) => {
+        if (isAppNotification(payload.new)) handlers.onUpdate(payload.new);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+export const notificationService = {
+  getNotifications,
+  markAsRead,
+  markAllAsRead,
+  subscribe,
+};
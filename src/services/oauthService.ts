@@ -0,0 +1,67 @@
+import { UserIdentity } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type OAuthProvider = 'google' | 'linkedin_oidc' | 'github';
+
+export const oauthProviders: OAuthProvider[] = ['google', 'linkedin_oidc', 'github'];
+
+export const oauthProviderLabels: Record<OAuthProvider, string> = {
+  google: 'Google',
+  linkedin_oidc: 'LinkedIn',
+  github: 'GitHub',
+};
+
+export const isOAuthProvider = (provider: string): provider is OAuthProvider =>
+  oauthProviders.includes(provider as OAuthProvider);
+
+// AuthCallback finishes both flows and then opens `next`
+const callbackUrl = (next?: string) =>
+  `${window.location.origin}/auth/callback${next ? `?next=${encodeURIComponent(next)}` : ''}`;
+
+// LinkedIn's OpenID scopes return the name, email and picture
+const providerScopes: Partial<Record<OAuthProvider, string>> = {
+  linkedin_oidc: 'openid profile email',
+};
+
+// Leaves the page for the provider's consent screen
+const signInWithProvider = async (provider: OAuthProvider) => {
+  const { error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: {
+      redirectTo: callbackUrl(),
+      scopes: providerScopes[provider],
+    },
+  });
+  if (error) throw error;
+};
+
+const getIdentities = async (): Promise<UserIdentity[]> => {
+  const { data, error } = await supabase.auth.getUserIdentities();
+  if (error) throw error;
+  return data.identities;
+};
+
+// Adds a provider to the signed-in account, then returns to `returnTo`
+const linkProvider = async (provider: OAuthProvider, returnTo: string) => {
+  const { error } = await supabase.auth.linkIdentity({
+    provider,
+    options: {
+      redirectTo: callbackUrl(returnTo),
+      scopes: providerScopes[provider],
+    },
+  });
+  if (error) throw error;
+};
+
+// Supabase refuses to remove an account's last identity
+const unlinkIdentity = async (identity: UserIdentity) => {
+  const { error } = await supabase.auth.unlinkIdentity(identity);
+  if (error) throw error;
+};
+
+export const oauthService = {
+  signInWithProvider,
+  getIdentities,
+  linkProvider,
+  unlinkIdentity,
+};
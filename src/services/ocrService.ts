@@ -0,0 +1,165 @@
+// Runs OCR in a dedicated Web Worker (src/lib/ocr.worker.ts) so preprocessing
+// and recognition of multi-page documents never block the UI.
+
+export type OcrStage = 'rendering' | 'preprocessing' | 'recognizing';
+
+export interface OcrProgress {
+  page: number;
+  pageCount: number;
+  stage: OcrStage;
+  // 0..1 within the stage
+  progress: number;
+}
+
+export interface OcrPageResult {
+  page: number;
+  text: string;
+  confidence: number;
+  skewAngle: number;
+  // Set when this page could not be read; the other pages are still returned
+  error?: string;
+}
+
+export interface OcrOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: OcrProgress) => void;
+  // Preprocessed image of the first page, as OCR sees it
+  onPreview?: (url: string) => void;
+}
+
+// Messages exchanged with the worker
+export type OcrWorkerRequest =
+  | { type: 'page'; jobId: string; page: number; image: ImageBitmap }
+  | { type: 'cancel'; jobId: string };
+
+export type OcrWorkerEvent =
+  | { type: 'progress'; jobId: string; page: number; stage: Exclude<OcrStage, 'rendering'>; progress: number }
+  | { type: 'page'; jobId: string; page: number; text: string; confidence: number; skewAngle: number; preview?: Blob }
+  | { type: 'error'; jobId: string; page: number; message: string };
+
+interface ActiveJob {
+  onEvent: (event: OcrWorkerEvent) => void;
+  fail: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let jobCounter = 0;
+const activeJobs = new Map<string, ActiveJob>();
+
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../lib/ocr.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<OcrWorkerEvent>) => {
+    activeJobs.get(event.data.jobId)?.onEvent(event.data);
+  };
+  // A worker that fails to load or crashes takes every job with it
+  worker.onerror = (event) => {
+    console.error('OCR worker error:', event);
+    const error = new Error(event.message || 'OCR worker failed');
+    worker?.terminate();
+    worker = null;
+    [...activeJobs.values()].forEach(job => job.fail(error));
+    activeJobs.clear();
+  };
+  return worker;
+};
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('OCR was cancelled', 'AbortError');
+
+/**
+ * OCRs `pageCount` pages. Pages are rendered one at a time by `renderPage` and
+ * handed to the worker as soon as they are ready, so recognition of early
+ * pages overlaps with rendering of later ones.
+ */
+const recognizePages = (
+  pageCount: number,
+  renderPage: (page: number) => Promise<ImageBitmap>,
+  options: OcrOptions = {}
+): Promise<OcrPageResult[]> => {
+  const { signal, onProgress, onPreview } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const ocrWorker = getWorker();
+  const post = (message: OcrWorkerRequest, transfer: Transferable[] = []) => ocrWorker.postMessage(message, transfer);
+  const jobId = `ocr-${++jobCounter}`;
+  const results = new Map<number, OcrPageResult>();
+
+  return new Promise<OcrPageResult[]>((resolve, reject) => {
+    let settled = false;
+
+    const finish = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      activeJobs.delete(jobId);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve([...results.values()].sort((a, b) => a.page - b.page));
+    };
+
+    const onAbort = () => {
+      post({ type: 'cancel', jobId });
+      finish(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    activeJobs.set(jobId, {
+      fail: finish,
+      onEvent: (event) => {
+        if (event.type === 'progress') {
+          onProgress?.({ page: event.page, pageCount, stage: event.stage, progress: event.progress });
+          return;
+        }
+
+        if (event.type === 'page') {
+          if (event.preview && onPreview) onPreview(URL.createObjectURL(event.preview));
+          results.set(event.page, {
+            page: event.page,
+            text: event.text,
+            confidence: event.confidence,
+            skewAngle: event.skewAngle,
+          });
+        } else {
+          results.set(event.page, { page: event.page, text: '', confidence: 0, skewAngle: 0, error: event.message });
+        }
+
+        if (results.size === pageCount) finish();
+      },
+    });
+
+    const renderAll = async () => {
+      for (let page = 1; page <= pageCount; page++) {
+        if (settled) return;
+        onProgress?.({ page, pageCount, stage: 'rendering', progress: 0 });
+
+        try {
+          const image = await renderPage(page);
+          if (settled) {
+            image.close();
+            return;
+          }
+          post({ type: 'page', jobId, page, image }, [image]);
+        } catch (error) {
+          console.error(`Error rendering page ${page}:`, error);
+          activeJobs.get(jobId)?.onEvent({
+            type: 'error',
+            jobId,
+            page,
+            message: error instanceof Error ? error.message : 'Could not render page',
+          });
+        }
+      }
+    };
+
+    renderAll();
+  });
+};
+
+export const ocrService = {
+  recognizePages,
+  recognizeImage: (image: ImageBitmap, options?: OcrOptions) =>
+    recognizePages(1, async () => image, options),
+};
@@ -0,0 +1,81 @@
+import { supabase } from './supabase';
+import { ApplicationStageChange, ApplicationStatus, PipelineStage, StageColor, StageOutcome } from '../types/database';
+
+export interface StageDraft {
+  id?: string;
+  name: string;
+  color: StageColor;
+  outcome: StageOutcome;
+}
+
+const getStagesForJobs = async (jobPostIds: string[]): Promise<Record<string, PipelineStage[]>> => {
+  if (jobPostIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .in('job_post_id', jobPostIds)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).reduce((acc, stage: PipelineStage) => {
+    (acc[stage.job_post_id] ||= []).push(stage);
+    return acc;
+  }, {} as Record<string, PipelineStage[]>);
+};
+
+// Replaces a job's pipeline with the given ordered drafts. Stages with an id are
+// updated in place so applications already in them keep their stage. The
+// database applies the whole change or none of it (save_pipeline_stages).
+const saveStages = async (jobPostId: string, drafts: StageDraft[]): Promise<PipelineStage[]> => {
+  const names = drafts.map(draft => draft.name.trim().toLowerCase());
+  if (names.some(name => !name)) throw new Error('Stage names cannot be empty');
+  if (new Set(names).size !== names.length) throw new Error('Stage names must be unique');
+
+  const { data, error } = await supabase.rpc('save_pipeline_stages', {
+    p_job_post_id: jobPostId,
+    p_stages: drafts.map(draft => ({
+      id: draft.id ?? null,
+      name: draft.name.trim(),
+      color: draft.color,
+      outcome: draft.outcome,
+    })),
+  });
+
+  if (error) throw error;
+  return (data || []) as PipelineStage[];
+};
+
+const moveApplicationToStage = async (
+  applicationId: string,
+  stageId: string
+): Promise<{ stage_id: string; status: ApplicationStatus }> => {
+  const { data, error } = await supabase
+    .from('job_applications')
+    .update({ stage_id: stageId })
+    .eq('id', applicationId)
+    .select('stage_id, status')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const getStageHistory = async (applicationId: string): Promise<ApplicationStageChange[]> => {
+  const { data, error } = await supabase
+    .from('application_stage_history')
+    .select('*')
+    .eq('application_id', applicationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const pipelineService = {
+  getStagesForJobs,
+  saveStages,
+  moveApplicationToStage,
+  getStageHistory,
+};
@@ -0,0 +1,42 @@
+import { supabase } from './supabase';
+import {
+  extractResumeText,
+  mergeResumeIntoProfile,
+  parseResumeText,
+  ParsedResume,
+  ResumeProfileFields,
+} from '../utils/resumeParser';
+
+const parseResumeFile = async (file: File): Promise<ParsedResume> => {
+  const text = await extractResumeText(file);
+  if (!text.trim()) {
+    throw new Error('No text could be read from this resume. Scanned resumes are not supported.');
+  }
+  return parseResumeText(text);
+};
+
+// Merges reviewed resume details into the stored profile
+const applyToProfile = async (userId: string, resume: ParsedResume): Promise<ResumeProfileFields> => {
+  const { data: profile, error: fetchError } = await supabase
+    .from('profiles')
+    .select('full_name, skills, education, work_experience, certifications, social_links')
+    .eq('id', userId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const merged = mergeResumeIntoProfile(profile || {}, resume);
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ ...merged, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw error;
+  return merged;
+};
+
+export const resumeService = {
+  parseResumeFile,
+  applyToProfile,
+};
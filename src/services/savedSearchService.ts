@@ -0,0 +1,96 @@
+import { supabase } from './supabase';
+import { JobSearchFilters, SavedSearch, SavedSearchInput } from '../types/search';
+import { compensationPeriodLabels, formatMoney } from '../utils/compensation';
+
+// Saved searches are matched against new job posts by the database
+// (match_saved_searches), which reads the filters the same way the search RPCs do.
+
+// Drops empty filters so a saved search only constrains what the user picked
+export const normalizeFilters = (filters: JobSearchFilters): JobSearchFilters => {
+  const normalized: JobSearchFilters = {};
+  const query = filters.query?.trim();
+  if (query) normalized.query = query;
+  if (filters.category) normalized.category = filters.category;
+  if (filters.job_type) normalized.job_type = filters.job_type;
+  if (filters.experience_level) normalized.experience_level = filters.experience_level;
+  if (filters.location) normalized.location = filters.location;
+  if (filters.pay_currency) normalized.pay_currency = filters.pay_currency;
+  if (filters.pay_period) normalized.pay_period = filters.pay_period;
+  if (filters.min_pay) normalized.min_pay = filters.min_pay;
+  return normalized;
+};
+
+// One line summary, e.g. "react" · Remote · Full-time
+export const describeFilters = (filters: JobSearchFilters) => {
+  const parts = [
+    filters.query && `"${filters.query}"`,
+    filters.category,
+    filters.job_type,
+    filters.experience_level,
+    filters.location,
+    filters.pay_period && compensationPeriodLabels[filters.pay_period],
+    filters.min_pay
+      ? `${formatMoney(filters.min_pay, filters.pay_currency || 'PHP')}+`
+      : filters.pay_currency,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(' · ') : 'All jobs';
+};
+
+const getSavedSearches = async (userId: string): Promise<SavedSearch[]> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const createSavedSearch = async (userId: string, input: SavedSearchInput): Promise<SavedSearch> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert({
+      ...input,
+      user_id: userId,
+      name: input.name.trim(),
+      filters: normalizeFilters(input.filters),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const updateSavedSearch = async (
+  id: string,
+  changes: Partial<Omit<SavedSearchInput, 'filters'>>
+): Promise<SavedSearch> => {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .update(changes.name === undefined ? changes : { ...changes, name: changes.name.trim() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+const deleteSavedSearch = async (id: string) => {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const savedSearchService = {
+  getSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+};
@@ -0,0 +1,48 @@
+import { supabase } from './supabase';
+import { ActiveSession } from '../types/database';
+
+const getSessions = async (): Promise<ActiveSession[]> => {
+  const { data, error } = await supabase.rpc('list_my_sessions');
+  if (error) throw error;
+  return data || [];
+};
+
+const revokeSession = async (sessionId: string) => {
+  const { error } = await supabase.rpc('revoke_session', { p_session_id: sessionId });
+  if (error) throw error;
+};
+
+// Keeps this device signed in
+const revokeOtherSessions = async () => {
+  const { error } = await supabase.auth.signOut({ scope: 'others' });
+  if (error) throw error;
+};
+
+// A short label such as "Chrome on Windows" from a user agent string
+export const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+export const sessionService = {
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
+};
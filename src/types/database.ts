@@ -39,12 +39,20 @@ export interface Profile {
   id: string;
   full_name: string;
   role: 'employer' | 'job_seeker';
+  // e.g. "Senior React Developer"; imported from LinkedIn when available
+  headline?: string | null;
   bio?: string;
   work_email?: string;
   years_of_experience?: number;
   skills?: string[];
   avatar_url?: string;
   resume_url?: string;
+  location?: string;
+  availability?: string;
+  education?: Education[];
+  work_experience?: WorkExperience[];
+  certifications?: Certification[];
+  social_links?: SocialLinks;
   created_at: string;
   updated_at: string;
 }
@@ -67,7 +75,13 @@ export interface Job {
   title: string;
   description: string;
   requirements: string;
+  // Free text kept for display; pay is filtered on the compensation_* fields
   salary_range: string;
+  compensation_min: number | null;
+  compensation_max: number | null;
+  compensation_currency: CompensationCurrency;
+  compensation_period: CompensationPeriod;
+  compensation_negotiable: boolean;
   location: string;
   type: 'full-time' | 'part-time' | 'contract';
   status: 'draft' | 'published' | 'closed';
@@ -75,17 +89,51 @@ export interface Job {
   updated_at: string;
 }
 
+// Coarse status kept in sync with the application's pipeline stage by the database
+export type ApplicationStatus = 'pending' | 'reviewing' | 'accepted' | 'rejected';
+
 export interface Application {
   id: string;
-  job_id: string;
-  applicant_id: string;
-  resume_url: string;
-  cover_letter?: string;
-  status: 'pending' | 'accepted' | 'rejected';
+  job_post_id: string;
+  job_seeker_id: string;
+  stage_id: string | null;
+  resume_url: string | null;
+  cover_letter: string | null;
+  contact_number: string | null;
+  email: string;
+  status: ApplicationStatus;
+  // The post's compensation, copied when the application was accepted
+  agreed_compensation: Compensation | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StageOutcome = 'open' | 'hired' | 'rejected';
+
+export type StageColor = 'yellow' | 'blue' | 'indigo' | 'purple' | 'green' | 'red' | 'gray';
+
+export interface PipelineStage {
+  id: string;
+  job_post_id: string;
+  name: string;
+  position: number;
+  color: StageColor;
+  outcome: StageOutcome;
   created_at: string;
   updated_at: string;
 }
 
+export interface ApplicationStageChange {
+  id: string;
+  application_id: string;
+  from_stage_id: string | null;
+  to_stage_id: string | null;
+  from_stage_name: string | null;
+  to_stage_name: string;
+  changed_by: string | null;
+  created_at: string;
+}
+
 export interface JobPost {
   id: string;
   employer_id: string;
@@ -94,7 +142,13 @@ export interface JobPost {
   title: string;
   category: string;
   description: string;
+  // Display label written from the compensation_* fields
   budget: string;
+  compensation_min: number | null;
+  compensation_max: number | null;
+  compensation_currency: CompensationCurrency;
+  compensation_period: CompensationPeriod;
+  compensation_negotiable: boolean;
   location: string;
   required_skills: string[];
   experience_level: string;
@@ -102,16 +156,383 @@ export interface JobPost {
   additional_requirements: string;
   application_instructions: string;
   job_type: string;
-  start_date: string;
-  end_date: string;
+  // Dates are picked before publishing; drafts may not have them yet
+  start_date: string | null;
+  end_date: string | null;
   payment_method: string;
-  status: 'active' | 'closed' | 'draft';
+  status: JobPostStatus;
+  // When a scheduled post goes live
+  publish_at: string | null;
+  max_applications: number | null;
+  closed_at: string | null;
+  closed_reason: JobPostClosedReason | null;
+  // The post this one was reposted or duplicated from
+  reposted_from: string | null;
   created_at: string;
   updated_at: string;
   employer_avatar_url?: string;
   employer_email?: string;
 }
 
+export type JobPostStatus = 'draft' | 'scheduled' | 'active' | 'closed' | 'deleted';
+
+export type JobPostClosedReason = 'manual' | 'expired' | 'max_applications';
+
+export type CompensationCurrency = 'PHP' | 'USD';
+
+export type CompensationPeriod = 'hourly' | 'daily' | 'fixed' | 'monthly';
+
+// A pay range. Either bound may be missing; a post with neither is negotiable.
+export interface Compensation {
+  min: number | null;
+  max: number | null;
+  currency: CompensationCurrency;
+  period: CompensationPeriod;
+  negotiable: boolean;
+}
+
+
+
+
+
+export type MilestoneStatus =
+  | 'draft'
+  | 'funded'
+  | 'delivered'
+  | 'released'
+  | 'disputed'
+  | 'refunded'
+  | 'cancelled';
+
+export interface PaymentMilestone {
+  id: string;
+  job_application_id: string;
+  employer_id: string;
+  job_seeker_id: string;
+  title: string;
+  description: string | null;
+  amount: number;
+  platform_fee: number;
+  currency: string;
+  due_date: string | null;
+  status: MilestoneStatus;
+  paypal_order_id: string | null;
+  funded_at: string | null;
+  delivered_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentLedgerEntry {
+  id: string;
+  milestone_id: string;
+  job_application_id: string;
+  event: 'created' | MilestoneStatus;
+  from_status: MilestoneStatus | null;
+  to_status: MilestoneStatus;
+  amount: number;
+  platform_fee: number;
+  paypal_reference: string | null;
+  note: string | null;
+  actor_id: string | null;
+  created_at: string;
+}
+
+export type InterviewStatus = 'proposed' | 'scheduled' | 'completed' | 'cancelled';
+
+export interface Interview {
+  id: string;
+  job_application_id: string;
+  job_post_id: string;
+  employer_id: string;
+  job_seeker_id: string;
+  duration_minutes: number;
+  video_call_url: string | null;
+  notes: string | null;
+  status: InterviewStatus;
+  // The booked slot; starts_at/ends_at are set while scheduled or completed
+  slot_id: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  sequence: number;
+  reminder_sent_at: string | null;
+  cancelled_by: string | null;
+  cancel_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InterviewSlot {
+  id: string;
+  interview_id: string;
+  starts_at: string;
+  ends_at: string;
+  created_at: string;
+}
+
+export type InterviewEventType =
+  | 'offered'
+  | 'updated'
+  | 'booked'
+  | 'rescheduled'
+  | 'new_times_requested'
+  | 'cancelled'
+  | 'reminder'
+  | 'completed';
 
+export interface InterviewEvent {
+  id: string;
+  interview_id: string;
+  job_application_id: string;
+  event: InterviewEventType;
+  starts_at: string | null;
+  note: string | null;
+  actor_id: string | null;
+  created_at: string;
+}
+
+export type PaymentTransactionStatus =
+  | 'captured'
+  | 'completed'
+  | 'refund_pending'
+  | 'partially_refunded'
+  | 'refunded'
+  | 'denied';
+
+export interface PaymentTransaction {
+  id: string;
+  job_application_id: string | null;
+  milestone_id: string | null;
+  employer_id: string | null;
+  jobseeker_id: string | null;
+  amount: number;
+  platform_fee: number;
+  gross_amount: number | null;
+  refunded_amount: number;
+  currency: string;
+  status: PaymentTransactionStatus;
+  paypal_transaction_id: string | null;
+  paypal_order_id: string | null;
+  paypal_capture_id: string | null;
+  captured_at: string | null;
+  paid_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PaymentAccount {
+  id: string;
+  user_id: string;
+  paypal_email: string | null;
+  is_verified: boolean;
+  verified_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A signed-in device, from list_my_sessions()
+export interface ActiveSession {
+  id: string;
+  created_at: string;
+  last_active_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  aal: 'aal1' | 'aal2' | 'aal3' | null;
+  is_current: boolean;
+}
+
+export type AttachmentScanStatus = 'pending' | 'clean' | 'infected' | 'rejected' | 'failed';
+
+// A file sent in a direct message. The file lives in the private
+// message-attachments bucket at storage_path.
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  conversation_id: string;
+  uploader_id: string;
+  storage_path: string;
+  thumbnail_path: string | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  scan_status: AttachmentScanStatus;
+  scan_result: string | null;
+  scanned_at: string | null;
+  created_at: string;
+}
+
+// A row of messages. Attachment messages carry the caption, or the file
+// name, as content; the files are MessageAttachment rows.
+export interface DirectMessage {
+  id: string;
+  conversation_id: string;
+  // Null on 'system' messages, which are posted by the database, e.g.
+  // application status changes
+  sender_id: string | null;
+  recipient_id: string;
+  content: string;
+  message_type: 'text' | 'attachment' | 'system';
+  read: boolean;
+  delivered_at: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// One row of list_conversations(): a conversation as the current user sees
+// it, with the other participant and the user's own preferences
+export interface ConversationSummary {
+  id: string;
+  user1_id: string;
+  user2_id: string;
+  last_message: string | null;
+  last_message_at: string;
+  other_user_id: string;
+  other_user_name: string | null;
+  other_user_avatar_url: string | null;
+  pinned_at: string | null;
+  archived_at: string | null;
+  muted: boolean;
+  // Whether the user has blocked the other participant
+  blocked: boolean;
+  unread_count: number;
+  // Set for threads about a job application
+  job_application_id: string | null;
+  job_title: string | null;
+  application_status: ApplicationStatus | null;
+  application_stage_name: string | null;
+}
+
+export type ConversationPreferences = Pick<ConversationSummary, 'pinned_at' | 'archived_at' | 'muted'>;
+
+// From search_messages()
+export interface MessageSearchResult {
+  id: string;
+  conversation_id: string;
+  sender_id: string | null;
+  content: string;
+  created_at: string;
+  other_user_id: string;
+  other_user_name: string | null;
+}
+
+// A sender's view of one message: read_at stays empty when the recipient
+// has turned off read receipts
+export type MessageReceiptStatus = 'sent' | 'delivered' | 'read';
+
+// From get_unread_message_counts()
+export interface UnreadMessageCount {
+  conversation_id: string;
+  sender_id: string | null;
+  unread_count: number;
+}
+
+export type AuditAction ='insert' | 'update' | 'delete';
+
+// A change made by an admin, written by the audit triggers (see
+// 20250420000000_audit_log.sql). before/after hold only the changed columns
+// for updates and the whole row otherwise.
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  target_table: string;
+  target_id: string | null;
+  changed_fields: string[];
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason: string | null;
+  created_at: string;
+}
+
+// How often the email-worker edge function sends notification emails
+export type EmailDigestFrequency = 'instant' | 'daily' | 'weekly';
+
+// In-app notifications. Rows are only created by database triggers (see
+// 20250412000000_typed_notifications.sql); type selects the metadata shape.
+export interface NotificationMetadataByType {
+  application_submitted: {
+    application_id: string;
+    job_post_id: string;
+    job_title: string | null;
+    applicant_id: string;
+    applicant_name: string;
+  };
+  application_status_changed: {
+    application_id: string;
+    job_post_id: string;
+    job_title: string | null;
+    status: ApplicationStatus;
+    stage_id: string | null;
+    stage_name: string | null;
+    outcome: StageOutcome | null;
+  };
+  message_received: {
+    conversation_id: string;
+    message_id: string;
+    sender_id: string;
+    sender_name: string;
+    preview: string;
+  };
+  verification_decided: {
+    request_id: string;
+    audience: 'job_seeker' | 'employer';
+    status: 'approved' | 'rejected';
+    document_type: string | null;
+    admin_notes: string | null;
+  };
+  payment_released: {
+    milestone_id: string;
+    application_id: string;
+    title: string;
+    amount: number;
+    currency: string;
+  };
+  report_resolved: {
+    report_id: string;
+    target_type: 'user' | 'job' | 'message';
+    status: 'resolved' | 'dismissed';
+    admin_notes: string | null;
+  };
+  // Older notices without a specific type; legacy_type is the type they had
+  system: {
+    legacy_type?: string;
+    [key: string]: unknown;
+  };
+  job_alert: {
+    saved_search_id: string;
+    search_name: string;
+    match_count: number;
+    // The newest ten matches
+    job_post_ids: string[];
+    job_titles: string[];
+  };
+  interview_update: {
+    interview_id: string;
+    application_id: string;
+    job_post_id: string;
+    job_title: string | null;
+    event: Exclude<InterviewEventType, 'completed'>;
+    audience: 'job_seeker' | 'employer';
+    starts_at: string | null;
+    video_call_url: string | null;
+    note: string | null;
+  };
+}
 
+export type NotificationType = keyof NotificationMetadataByType;
 
+export type AppNotification = {
+  [T in NotificationType]: {
+    id: string;
+    user_id: string;
+    type: T;
+    title: string | null;
+    message: string;
+    read: boolean;
+    metadata: NotificationMetadataByType[T];
+    created_at: string;
+    updated_at: string;
+  };
+}[NotificationType];
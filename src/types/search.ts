@@ -0,0 +1,68 @@
+import { CompensationCurrency, CompensationPeriod, JobPost } from './database';
+
+export interface JobSearchFilters {
+  query?: string;
+  category?: string;
+  job_type?: string;
+  experience_level?: string;
+  location?: string;
+  pay_currency?: CompensationCurrency;
+  pay_period?: CompensationPeriod;
+  // Compared with the most a post pays, in the post's own currency and period
+  min_pay?: number;
+}
+
+// 'pay' is highest first, and only meaningful within one currency
+export type JobSearchSort = 'relevance' | 'newest' | 'pay';
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface JobSearchFacets {
+  category: FacetBucket[];
+  job_type: FacetBucket[];
+  experience_level: FacetBucket[];
+  location: FacetBucket[];
+  pay_currency: FacetBucket[];
+  pay_period: FacetBucket[];
+}
+
+export interface RankedJobPost extends JobPost {
+  search_rank: number;
+}
+
+export interface JobSearchPage {
+  total_count: number;
+  results: RankedJobPost[];
+}
+
+export const jobSearchSortLabels: Record<JobSearchSort, string> = {
+  relevance: 'Most relevant',
+  newest: 'Newest',
+  pay: 'Highest pay',
+};
+
+export type SavedSearchFrequency = 'instant' | 'daily' | 'weekly';
+
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: JobSearchFilters;
+  frequency: SavedSearchFrequency;
+  notify_in_app: boolean;
+  notify_email: boolean;
+  last_alerted_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SavedSearchInput = Pick<SavedSearch, 'name' | 'filters' | 'frequency' | 'notify_in_app' | 'notify_email'>;
+
+export const savedSearchFrequencyLabels: Record<SavedSearchFrequency, string> = {
+  instant: 'As soon as posted',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
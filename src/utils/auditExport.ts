@@ -0,0 +1,33 @@
+import { format } from 'date-fns';
+import { AuditLogEntry } from '../types/database';
+import { csvCell } from './statementExport';
+
+const json = (value: Record<string, unknown> | null) => (value ? JSON.stringify(value) : '');
+
+export const auditLogToCsv = (entries: AuditLogEntry[]): Blob => {
+  const lines = [
+    ['Time (UTC)', 'Actor', 'Actor ID', 'Action', 'Table', 'Target ID', 'Changed Fields', 'Before', 'After', 'Reason'],
+    ...entries.map(entry => [
+      entry.created_at,
+      entry.actor_email ?? '',
+      entry.actor_id ?? '',
+      entry.action,
+      entry.target_table,
+      entry.target_id ?? '',
+      entry.changed_fields.join(' '),
+      json(entry.before),
+      json(entry.after),
+      entry.reason ?? '',
+    ]),
+  ];
+
+  const csv = lines.map(line => line.map(csvCell).join(',')).join('\r\n');
+  // Byte order mark so spreadsheet apps read the file as UTF-8
+  return new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' });
+};
+
+export const auditLogToJson = (entries: AuditLogEntry[]): Blob =>
+  new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+
+export const auditExportFilename = (extension: 'csv' | 'json') =>
+  `audit-log-${format(new Date(), 'yyyy-MM-dd-HHmm')}.${extension}`;
@@ -0,0 +1,89 @@
+import { Compensation, CompensationCurrency, CompensationPeriod, JobPost } from '../types/database';
+
+type CompensationColumns = Pick<
+  JobPost,
+  'compensation_min' | 'compensation_max' | 'compensation_currency' | 'compensation_period' | 'compensation_negotiable'
+>;
+
+export const compensationCurrencyLabels: Record<CompensationCurrency, string> = {
+  PHP: 'PHP (₱)',
+  USD: 'USD ($)',
+};
+
+export const compensationPeriodLabels: Record<CompensationPeriod, string> = {
+  hourly: 'Hourly',
+  daily: 'Daily',
+  fixed: 'Fixed price',
+  monthly: 'Monthly',
+};
+
+const periodSuffixes: Record<CompensationPeriod, string> = {
+  hourly: ' / hour',
+  daily: ' / day',
+  fixed: '',
+  monthly: ' / month',
+};
+
+// Amounts come back from PostgREST as numbers or numeric strings
+const toAmount = (value: number | string | null | undefined) =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+export const toCompensation = (post: CompensationColumns): Compensation => ({
+  min: toAmount(post.compensation_min),
+  max: toAmount(post.compensation_max),
+  currency: post.compensation_currency || 'PHP',
+  period: post.compensation_period || 'fixed',
+  negotiable: Boolean(post.compensation_negotiable),
+});
+
+export const toCompensationColumns = (compensation: Compensation): CompensationColumns => ({
+  compensation_min: compensation.min,
+  compensation_max: compensation.max,
+  compensation_currency: compensation.currency,
+  compensation_period: compensation.period,
+  compensation_negotiable: compensation.negotiable,
+});
+
+export const formatMoney = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: Number.isInteger(Number(amount)) ? 0 : 2,
+  }).format(Number(amount));
+
+// e.g. "₱5,000 – ₱8,000 / month", "From $20 / hour", "Negotiable"
+export const formatCompensation = (compensation: Compensation | null | undefined) => {
+  if (!compensation) return 'Not specified';
+
+  const { min, max, currency, period, negotiable } = compensation;
+  let amount: string;
+
+  if (min !== null && max !== null && max !== min) {
+    amount = `${formatMoney(min, currency)} – ${formatMoney(max, currency)}`;
+  } else if (min !== null) {
+    amount = max === null && negotiable ? `From ${formatMoney(min, currency)}` : formatMoney(min, currency);
+  } else if (max !== null) {
+    amount = `Up to ${formatMoney(max, currency)}`;
+  } else {
+    return negotiable ? 'Negotiable' : 'Not specified';
+  }
+
+  return `${amount}${periodSuffixes[period]}${negotiable ? ' (negotiable)' : ''}`;
+};
+
+// The same rules as job_posts_compensation_check. Returns a message, or null
+// when the compensation is valid. Drafts may leave the pay out (requirePay).
+export const getCompensationError = (compensation: Compensation, requirePay = true) => {
+  const { min, max, negotiable } = compensation;
+
+  if ((min !== null && !(min >= 0)) || (max !== null && !(max >= 0))) {
+    return 'Pay must be a positive amount';
+  }
+  if (min !== null && max !== null && max < min) {
+    return 'Maximum pay cannot be less than the minimum';
+  }
+  if (requirePay && min === null && max === null && !negotiable) {
+    return 'Enter a pay amount or mark it as negotiable';
+  }
+  return null;
+};
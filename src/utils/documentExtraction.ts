@@ -0,0 +1,160 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { OcrPageResult, OcrProgress, ocrService } from '../services/ocrService';
+
+// Shared text extraction for identity documents: the PDF text layer when there
+// is one, otherwise OCR over preprocessed page images in the OCR worker.
+
+export type ExtractionMethod = 'pdfjs' | 'ocr';
+
+export interface OcrPage {
+  page: number;
+  text: string;
+  confidence: number;
+  // Degrees the page was rotated by before recognition
+  skewAngle: number;
+}
+
+export interface DocumentExtraction {
+  text: string;
+  pageCount: number;
+  method: ExtractionMethod;
+  // OCR output per page, empty for PDF text extraction
+  pages: OcrPage[];
+  // A PDF with (almost) no text layer, which needs OCR instead
+  isScannedPdf: boolean;
+}
+
+export interface ExtractionOptions {
+  method: ExtractionMethod;
+  onStatus?: (status: string) => void;
+  onProgress?: (progress: OcrProgress) => void;
+  // Called with the preprocessed image OCR actually reads
+  onPreview?: (url: string) => void;
+  // Aborting rejects with an AbortError (see isAbortError)
+  signal?: AbortSignal;
+}
+
+export interface OcrQuality {
+  averageConfidence: number;
+  wordCount: number;
+  level: 'good' | 'moderate' | 'poor';
+}
+
+const PDF_TYPE = 'application/pdf';
+const PDF_RENDER_SCALE = 4;
+const SCANNED_PDF_MIN_TEXT = 50;
+
+export const isExtractableDocument = (file: File) =>
+  file.type === PDF_TYPE || file.type.startsWith('image/');
+
+const renderPdfPage = async (pdfDoc: pdfjsLib.PDFDocumentProxy, pageNum: number) => {
+  const page = await pdfDoc.getPage(pageNum);
+  const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Could not create canvas context for OCR processing');
+  }
+
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  const image = await createImageBitmap(canvas);
+  // Renders at this scale are large; don't wait for GC to free the backing store
+  canvas.width = canvas.height = 0;
+  page.cleanup();
+  return image;
+};
+
+const extractWithPdfJs = async (
+  file: File,
+  onStatus: (status: string) => void,
+  signal?: AbortSignal
+): Promise<DocumentExtraction> => {
+  onStatus('Reading PDF file with PDF.js...');
+  const pdfDoc = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  let text = '';
+
+  for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+    signal?.throwIfAborted();
+    onStatus(`Processing page ${pageNum} of ${pdfDoc.numPages}...`);
+    const page = await pdfDoc.getPage(pageNum);
+    const content = await page.getTextContent();
+    text += (content.items as TextItem[]).map(item => item.str ?? '').join(' ') + '\n';
+  }
+
+  return {
+    text,
+    pageCount: pdfDoc.numPages,
+    method: 'pdfjs',
+    pages: [],
+    isScannedPdf: pdfDoc.numPages > 0 && text.trim().length < SCANNED_PDF_MIN_TEXT,
+  };
+};
+
+const extractWithOcr = async (file: File, options: ExtractionOptions): Promise<DocumentExtraction> => {
+  const onStatus = options.onStatus ?? (() => undefined);
+  const onProgress = (progress: OcrProgress) => {
+    const { page, pageCount, stage } = progress;
+    onStatus(
+      stage === 'recognizing'
+        ? `OCR page ${page} of ${pageCount}: ${Math.round(progress.progress * 100)}%`
+        : `${stage === 'rendering' ? 'Rendering' : 'Preprocessing'} page ${page} of ${pageCount}...`
+    );
+    options.onProgress?.(progress);
+  };
+  const ocrOptions = { signal: options.signal, onProgress, onPreview: options.onPreview };
+
+  let results: OcrPageResult[];
+  if (file.type === PDF_TYPE) {
+    onStatus('Converting PDF to images for OCR processing...');
+    const pdfDoc = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    try {
+      results = await ocrService.recognizePages(pdfDoc.numPages, pageNum => renderPdfPage(pdfDoc, pageNum), ocrOptions);
+    } finally {
+      pdfDoc.destroy();
+    }
+  } else if (file.type.startsWith('image/')) {
+    onStatus('Processing image with enhanced OCR...');
+    results = await ocrService.recognizeImage(await createImageBitmap(file), ocrOptions);
+  } else {
+    throw new Error('Unsupported file type for OCR');
+  }
+
+  // One unreadable page should not lose the others
+  const pages: OcrPage[] = results
+    .filter(result => !result.error)
+    .map(({ page, text, confidence, skewAngle }) => ({ page, text, confidence, skewAngle }));
+  if (pages.length === 0) {
+    throw new Error(results[0]?.error ?? 'OCR could not read any page of this document');
+  }
+
+  const text = results
+    .map(result => (result.error ? `[Error processing page ${result.page}]` : result.text))
+    .join('\n') + '\n';
+
+  return { text, pageCount: results.length, method: 'ocr', pages, isScannedPdf: false };
+};
+
+// PDF text extraction only applies to PDFs; everything else goes through OCR
+export const extractDocumentText = async (file: File, options: ExtractionOptions): Promise<DocumentExtraction> => {
+  const onStatus = options.onStatus ?? (() => undefined);
+
+  if (options.method === 'pdfjs' && file.type === PDF_TYPE) {
+    return extractWithPdfJs(file, onStatus, options.signal);
+  }
+  return extractWithOcr(file, options);
+};
+
+export const getOcrQuality = (extraction: DocumentExtraction): OcrQuality | null => {
+  if (extraction.pages.length === 0) return null;
+
+  const averageConfidence =
+    extraction.pages.reduce((sum, page) => sum + page.confidence, 0) / extraction.pages.length;
+  const wordCount = extraction.text.split(/\s+/).filter(Boolean).length;
+  const level = averageConfidence < 50 && wordCount < 30 ? 'poor' : averageConfidence < 70 ? 'moderate' : 'good';
+
+  return { averageConfidence, wordCount, level };
+};
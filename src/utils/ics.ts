@@ -0,0 +1,88 @@
+import { Interview } from '../types/database';
+
+// iCalendar (RFC 5545) invites for booked interviews. The interview id is the
+// UID and interviews.sequence the SEQUENCE, so calendar apps replace an older
+// invite when a rescheduled or cancelled one is opened.
+
+export interface InterviewInviteDetails {
+  jobTitle: string;
+  companyName?: string | null;
+  organizerName?: string | null;
+  attendeeName?: string | null;
+}
+
+// 20250417T093000Z
+const toIcsDate = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+export const buildInterviewInvite = (interview: Interview, details: InterviewInviteDetails): string | null => {
+  if (!interview.starts_at || !interview.ends_at) return null;
+
+  const cancelled = interview.status === 'cancelled';
+  const summary = `Interview: ${details.jobTitle}${details.companyName ? ` at ${details.companyName}` : ''}`;
+  const description = [
+    details.organizerName && details.attendeeName ? `${details.organizerName} and ${details.attendeeName}` : null,
+    interview.video_call_url ? `Join the video call: ${interview.video_call_url}` : null,
+    interview.notes,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Task Match//Interviews//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:interview-${interview.id}`,
+    `SEQUENCE:${interview.sequence}`,
+    `DTSTAMP:${toIcsDate(new Date())}`,
+    `DTSTART:${toIcsDate(interview.starts_at)}`,
+    `DTEND:${toIcsDate(interview.ends_at)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    description && `DESCRIPTION:${escapeText(description)}`,
+    interview.video_call_url && `LOCATION:${escapeText(interview.video_call_url)}`,
+    interview.video_call_url && `URL:${interview.video_call_url}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'BEGIN:VALARM',
+    'TRIGGER:-PT15M',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeText(summary)}`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].filter((line): line is string => Boolean(line));
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const interviewInviteToBlob = (ics: string): Blob =>
+  new Blob([ics], { type: 'text/calendar;charset=utf-8' });
@@ -0,0 +1,232 @@
+import { DATE_VALUE, formatDocumentDate, labeled, parseMrzDate } from './matching';
+import { DocumentFields, IdentityDocumentType } from './types';
+
+const ISSUED_LABELS = String.raw`Date\s*(?:of)?\s*Issu(?:e|ance)|Issued\s*(?:on|date)?|Issue\s*Date`;
+const EXPIRY_LABELS = String.raw`Valid\s*(?:Until|Thru|Through)|Expir(?:y|ation)\s*Date|Date\s*of\s*Expir(?:y|ation)|Expires`;
+const NAME_VALUE = String.raw`([A-Z][A-Z \t\-',.]+?)[ \t]*(?:\n|$)`;
+
+const addYears = (years: number) => (issued: Date) => {
+  const expiry = new Date(issued);
+  expiry.setFullYear(expiry.getFullYear() + years);
+  return expiry;
+};
+
+// --- Passport machine-readable zone (ICAO 9303, TD3) ---
+
+const MRZ_WEIGHTS = [7, 3, 1];
+
+const mrzCheckDigit = (value: string) =>
+  [...value].reduce((sum, char, index) => {
+    const code = char === '<' ? 0 : /\d/.test(char) ? +char : char.charCodeAt(0) - 55;
+    return sum + code * MRZ_WEIGHTS[index % 3];
+  }, 0) % 10;
+
+const MRZ_NAME_LINE = /P[<A-Z][A-Z<]{3}([A-Z<]+?)<<([A-Z<]+)/;
+const MRZ_DATA_LINE = /([A-Z0-9<]{9})(\d)[A-Z<]{3}(\d{6})\d[MFX<](\d{6})(\d)/;
+
+// OCR tends to read filler chevrons as spaces or K; compact each line first
+const readMrz = (text: string) => {
+  const lines = text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, '').replace(/«/g, '<').toUpperCase())
+    .filter(line => line.length >= 30);
+
+  const nameLine = lines.map(line => line.match(MRZ_NAME_LINE)).find(Boolean);
+  const dataLine = lines.map(line => line.match(MRZ_DATA_LINE)).find(Boolean);
+  return { nameLine, dataLine };
+};
+
+const extractPassportMrz = (text: string): Partial<DocumentFields> => {
+  const { nameLine, dataLine } = readMrz(text);
+  const fields: Partial<DocumentFields> = {};
+
+  if (nameLine) {
+    const surname = nameLine[1].replace(/</g, ' ').trim();
+    const givenNames = nameLine[2].replace(/</g, ' ').trim();
+    fields.fullName = `${givenNames} ${surname}`.trim();
+  }
+
+  if (dataLine) {
+    fields.documentNumber = dataLine[1].replace(/</g, '');
+    const expiry = parseMrzDate(dataLine[4], true);
+    if (expiry) fields.dateExpiry = formatDocumentDate(expiry);
+  }
+
+  return fields;
+};
+
+const validatePassportMrz = (_fields: DocumentFields, text: string) => {
+  const { dataLine } = readMrz(text);
+  if (!dataLine) return [];
+
+  const errors: string[] = [];
+  if (mrzCheckDigit(dataLine[1]) !== +dataLine[2]) {
+    errors.push('Passport number failed its check digit. Please upload a sharper image of the photo page.');
+  }
+  if (mrzCheckDigit(dataLine[4]) !== +dataLine[5]) {
+    errors.push('Passport expiry date failed its check digit. Please upload a sharper image of the photo page.');
+  }
+  return errors;
+};
+
+// --- Registry entries ---
+
+export const nbiClearance: IdentityDocumentType = {
+  id: 'nbi_clearance',
+  label: 'NBI Clearance',
+  numberLabel: 'NBI Number',
+  audiences: ['job_seeker'],
+  description: 'National Bureau of Investigation clearance, valid for one year.',
+  indicators: /NATIONAL\s+BUREAU\s+OF\s+INVESTIGATION|NBI\s+CLEARANCE|NBI\s+ID|THIS\s+IS\s+TO\s+CERTIFY/i,
+  numberPatterns: [
+    /(?:NBI\s*(?:No\.|Number|Clearance|ID\s*NO\.|ID)\s*[:.]?\s*|^T\d+)([A-Z0-9][A-Z0-9-]+\d+)/im,
+    /(T\d+[A-Z0-9-]+\d+)/i,
+  ],
+  issuedPatterns: [labeled(String.raw`Date\s*(?:of)?\s*Issue|Issued\s*on|Printed|OR\.\s*Date`, DATE_VALUE)],
+  expiryPatterns: [labeled(String.raw`Valid\s*Until|Expiry\s*Date`, DATE_VALUE)],
+  namePatterns: [/(?:NAME[ \t]*[:.]?[ \t]*|^)([A-Z \t\-',.]+(?:[ \t]+[A-Z][A-Za-z\-']+){1,4})/m],
+  headerWords: /NATIONAL|BUREAU|INVESTIGATION|CLEARANCE|REPUBLIC|PHILIPPINES/,
+  nameSource: 'person',
+  expiry: 'required',
+  getExpiryFromIssued: addYears(1),
+};
+
+export const passport: IdentityDocumentType = {
+  id: 'passport',
+  label: 'Passport',
+  numberLabel: 'Passport No.',
+  audiences: ['job_seeker', 'employer'],
+  description: 'Photo page of a Philippine or foreign passport, including the two lines of code at the bottom.',
+  indicators: /PASSPORT|PASAPORTE|P<[A-Z]{3}/i,
+  numberPatterns: [
+    labeled(String.raw`Passport\s*No\.?|Pasaporte\s*Blg\.?|Blg\.?\s*ng\s*Pasaporte`, '([A-Z]{1,2}\\d{6,8}[A-Z]?)'),
+    /\b([A-Z]\d{7}[A-Z])\b/,
+    /\b([A-Z]{1,2}\d{7})\b/,
+  ],
+  issuedPatterns: [labeled(ISSUED_LABELS, DATE_VALUE)],
+  expiryPatterns: [labeled(EXPIRY_LABELS, DATE_VALUE)],
+  namePatterns: [labeled(String.raw`Given\s*Names?`, NAME_VALUE)],
+  headerWords: /REPUBLIC|PHILIPPINES|PASSPORT|PASAPORTE|DEPARTMENT|FOREIGN|AFFAIRS/,
+  nameSource: 'person',
+  expiry: 'required',
+  extract: extractPassportMrz,
+  validate: validatePassportMrz,
+};
+
+export const driversLicense: IdentityDocumentType = {
+  id: 'drivers_license',
+  label: "Driver's License",
+  numberLabel: 'License No.',
+  audiences: ['job_seeker', 'employer'],
+  description: 'LTO-issued professional or non-professional driver\'s license card.',
+  indicators: /LAND\s+TRANSPORTATION\s+OFFICE|DRIVER'?S\s+LICEN[CS]E|\bLTO\b/i,
+  numberPatterns: [/\b([A-Z]\d{2}-\d{2}-\d{6})\b/, labeled(String.raw`License\s*No\.?`, '([A-Z0-9-]{11,13})')],
+  issuedPatterns: [labeled(ISSUED_LABELS, DATE_VALUE)],
+  expiryPatterns: [labeled(EXPIRY_LABELS, DATE_VALUE)],
+  namePatterns: [labeled(String.raw`Last\s*Name\s*,\s*First\s*Name\s*,?\s*Middle\s*Name`, NAME_VALUE)],
+  headerWords: /REPUBLIC|PHILIPPINES|DEPARTMENT|TRANSPORTATION|LICENSE|OFFICE|NON-PROFESSIONAL|PROFESSIONAL/,
+  nameSource: 'person',
+  expiry: 'required',
+  validate: fields =>
+    fields.documentNumber && !/^[A-Z]\d{2}-\d{2}-\d{6}$/.test(fields.documentNumber)
+      ? ['License number does not follow the LTO format (e.g. N01-23-456789).']
+      : [],
+};
+
+export const umid: IdentityDocumentType = {
+  id: 'umid',
+  label: 'UMID',
+  numberLabel: 'CRN',
+  audiences: ['job_seeker', 'employer'],
+  description: 'Unified Multi-Purpose ID issued by SSS or GSIS. UMID cards do not expire.',
+  indicators: /UNIFIED\s+MULTI-?\s*PURPOSE|\bUMID\b|\bCRN\b/i,
+  numberPatterns: [/CRN\s*[:.-]?\s*(\d{4}-?\d{7}-?\d)/i, /\b(\d{4}-\d{7}-\d)\b/],
+  namePatterns: [labeled(String.raw`Given\s*Name`, NAME_VALUE)],
+  headerWords: /REPUBLIC|PHILIPPINES|UNIFIED|MULTI|PURPOSE|SOCIAL|SECURITY|SYSTEM|GSIS/,
+  nameSource: 'person',
+  expiry: 'none',
+};
+
+export const philsys: IdentityDocumentType = {
+  id: 'philsys',
+  label: 'PhilSys National ID',
+  numberLabel: 'PCN',
+  audiences: ['job_seeker', 'employer'],
+  description: 'Philippine Identification (PhilID) card or printed ePhilID. PhilIDs do not expire.',
+  indicators: /PHILIPPINE\s+IDENTIFICATION|PAMBANSANG\s+PAGKAKAKILANLAN|PHILSYS|PHIL\s*ID|EPHILID/i,
+  numberPatterns: [/\b(\d{4}-\d{4}-\d{4}-\d{4})\b/, /\b(\d{16})\b/, /\b(\d{4}-\d{4}-\d{4})\b/],
+  namePatterns: [labeled(String.raw`Mga\s*Pangalan\s*/?\s*Given\s*Names?|Given\s*Names?`, NAME_VALUE)],
+  headerWords: /REPUBLIKA|PILIPINAS|PAMBANSANG|PAGKAKAKILANLAN|PHILIPPINE|IDENTIFICATION|CARD/,
+  nameSource: 'person',
+  expiry: 'none',
+};
+
+export const businessPermit: IdentityDocumentType = {
+  id: 'business_permit',
+  label: "Mayor's / Business Permit",
+  numberLabel: 'Permit No.',
+  audiences: ['employer'],
+  description: 'Current-year business permit from your city or municipality.',
+  indicators: /MAYOR'?S\s+PERMIT|BUSINESS\s+PERMIT|BUSINESS\s+PERMITS?\s+AND\s+LICENSING|\bBPLO\b/i,
+  numberPatterns: [labeled(String.raw`(?:Business\s*|Mayor'?s\s*)?Permit\s*(?:No\.?|Number)`, '([A-Z0-9][A-Z0-9-]{3,})')],
+  issuedPatterns: [labeled(ISSUED_LABELS, DATE_VALUE)],
+  expiryPatterns: [labeled(EXPIRY_LABELS, DATE_VALUE)],
+  namePatterns: [labeled(String.raw`Business\s*Name|Trade\s*Name|Name\s*of\s*Business`, NAME_VALUE)],
+  nameSource: 'business',
+  expiry: 'required',
+  // Permits lapse at the end of the calendar year they were issued in
+  getExpiryFromIssued: issued => new Date(issued.getFullYear(), 11, 31),
+};
+
+export const secDtiRegistration: IdentityDocumentType = {
+  id: 'sec_dti_registration',
+  label: 'SEC / DTI Registration',
+  numberLabel: 'Registration No.',
+  audiences: ['employer'],
+  description: 'SEC certificate of incorporation, or DTI business name registration (valid for five years).',
+  indicators: /SECURITIES\s+AND\s+EXCHANGE\s+COMMISSION|DEPARTMENT\s+OF\s+TRADE\s+AND\s+INDUSTRY|CERTIFICATE\s+OF\s+(?:INCORPORATION|BUSINESS\s+NAME\s+REGISTRATION)/i,
+  numberPatterns: [
+    labeled(String.raw`(?:SEC\s*)?Registration\s*(?:No\.?|Number)|Company\s*Reg\.?\s*No\.?`, '([A-Z]{0,4}\\d{6,12})'),
+    labeled(String.raw`Business\s*Name\s*(?:No\.?|Number)|Certificate\s*No\.?|BN\s*No\.?`, '([A-Z]{0,3}\\d{6,10})'),
+    /\b(CS\d{9}|[A-Z]{1,2}\d{9,10})\b/,
+  ],
+  issuedPatterns: [labeled(`${ISSUED_LABELS}|Date\\s*(?:of)?\\s*Registration|Registered\\s*on`, DATE_VALUE)],
+  expiryPatterns: [labeled(EXPIRY_LABELS, DATE_VALUE)],
+  namePatterns: [
+    labeled(String.raw`Business\s*Name|Corporate\s*Name|Name\s*of\s*(?:Corporation|Company)`, NAME_VALUE),
+    /(?:hereby\s+certif(?:y|ies)\s+that|certify\s+that)\s+([A-Z][A-Z0-9\s&,.'-]+?)\s+(?:is|was|has)\b/i,
+  ],
+  nameSource: 'business',
+  expiry: 'optional',
+};
+
+export const otherGovernmentId: IdentityDocumentType = {
+  id: 'other_government_id',
+  label: 'Other Government ID',
+  numberLabel: 'ID No.',
+  audiences: ['employer'],
+  description: 'SSS, PRC, TIN, PhilHealth, postal or voter\'s ID. Reviewed by an administrator.',
+  indicators: /REPUBLIC\s+OF\s+THE\s+PHILIPPINES|REPUBLIKA\s+NG\s+PILIPINAS/i,
+  numberPatterns: [
+    /\b(\d{2}-\d{7}-\d)\b/,
+    /\b(\d{3}-\d{3}-\d{3}-\d{3})\b/,
+    /\b(\d{2}-\d{9}-\d)\b/,
+    /\b(\d{7})\b/,
+  ],
+  issuedPatterns: [labeled(ISSUED_LABELS, DATE_VALUE)],
+  expiryPatterns: [labeled(EXPIRY_LABELS, DATE_VALUE)],
+  nameSource: 'person',
+  expiry: 'optional',
+  manualReviewOnly: true,
+};
+
+export const builtInDocumentTypes = [
+  nbiClearance,
+  philsys,
+  passport,
+  driversLicense,
+  umid,
+  businessPermit,
+  secDtiRegistration,
+  otherGovernmentId,
+];
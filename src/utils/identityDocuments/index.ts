@@ -0,0 +1,217 @@
+import { builtInDocumentTypes } from './documentTypes';
+import { DATE_VALUE, findNameInText, formatDocumentDate, matchName, parseDocumentDate } from './matching';
+import {
+  DocumentAudience,
+  DocumentFields,
+  DocumentValidationResult,
+  ExpectedNames,
+  IdentityDocumentType,
+  IdentityDocumentTypeId,
+  NameMatch,
+} from './types';
+
+export * from './types';
+export { calculateLevenshteinSimilarity, matchName, parseDocumentDate } from './matching';
+
+const registry = new Map<IdentityDocumentTypeId, IdentityDocumentType>();
+
+// Later registrations replace earlier ones with the same id
+export const registerDocumentType = (type: IdentityDocumentType) => {
+  registry.set(type.id, type);
+};
+
+builtInDocumentTypes.forEach(registerDocumentType);
+
+export const getDocumentType = (id: IdentityDocumentTypeId) => registry.get(id);
+
+export const getDocumentTypes = (audience: DocumentAudience) =>
+  [...registry.values()].filter(type => type.audiences.includes(audience));
+
+// Catch-all types only match when nothing more specific does
+export const detectDocumentType = (text: string, audience: DocumentAudience) => {
+  const types = getDocumentTypes(audience);
+  return (
+    types.find(type => !type.manualReviewOnly && type.indicators.test(text)) ??
+    types.find(type => type.indicators.test(text)) ??
+    null
+  );
+};
+
+const ANY_DATE = new RegExp(DATE_VALUE, 'g');
+const ALL_CAPS = /[A-Z][A-Z ,.'-]+[A-Z]/g;
+
+const firstMatch = (text: string, patterns: RegExp[] = []) => {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match?.[1]) return { value: match[1].trim(), raw: match[0] };
+  }
+  return null;
+};
+
+const extractFields = (type: IdentityDocumentType, text: string, foundPatterns: Record<string, string>) => {
+  const custom = type.extract?.(text) ?? {};
+  const fields: DocumentFields = {
+    documentNumber: custom.documentNumber ?? null,
+    fullName: custom.fullName ?? null,
+    dateIssued: custom.dateIssued ?? null,
+    dateExpiry: custom.dateExpiry ?? null,
+  };
+
+  const patterns: [keyof DocumentFields, RegExp[] | undefined][] = [
+    ['documentNumber', type.numberPatterns],
+    ['fullName', type.namePatterns],
+    ['dateIssued', type.issuedPatterns],
+    ['dateExpiry', type.expiryPatterns],
+  ];
+
+  for (const [field, fieldPatterns] of patterns) {
+    if (fields[field]) {
+      foundPatterns[field] = `${fields[field]} (${type.label} reader)`;
+      continue;
+    }
+    const match = firstMatch(text, fieldPatterns);
+    fields[field] = match?.value ?? null;
+    foundPatterns[field] = match?.raw ?? 'Not found';
+  }
+
+  // Unlabelled dates: the earliest is taken as the issue date, the latest as the expiry
+  if (type.expiry !== 'none' && !fields.dateIssued && !fields.dateExpiry) {
+    const dates = [...text.matchAll(ANY_DATE)]
+      .map(match => ({ value: match[1], date: parseDocumentDate(match[1]) }))
+      .filter(item => item.date)
+      .sort((a, b) => a.date!.getTime() - b.date!.getTime());
+
+    if (dates.length >= 2) {
+      fields.dateIssued = dates[0].value;
+      fields.dateExpiry = dates[dates.length - 1].value;
+      foundPatterns.datesFallback = dates.map(item => item.value).join(', ');
+    }
+  }
+
+  return fields;
+};
+
+// Name fields are hard to label reliably, so fall back to all-caps lines and
+// finally to the expected name's words appearing anywhere in the text
+const compareName = (
+  type: IdentityDocumentType,
+  text: string,
+  fields: DocumentFields,
+  expected: string
+): { extracted: string; details: NameMatch } => {
+  const business = type.nameSource === 'business';
+
+  if (fields.fullName) {
+    const details = matchName(fields.fullName, expected, business);
+    if (details.match) return { extracted: fields.fullName, details };
+  }
+
+  if (type.headerWords) {
+    const candidates = [...text.matchAll(ALL_CAPS)]
+      .map(match => match[0].trim())
+      .filter(name => name.length > 4 && name.length < 50 && !type.headerWords!.test(name));
+    const best = candidates
+      .map(name => ({ name, details: matchName(name, expected, business) }))
+      .sort((a, b) => b.details.similarity - a.details.similarity)
+      .find(candidate => candidate.details.match);
+    if (best) return { extracted: best.name, details: best.details };
+  }
+
+  return { extracted: fields.fullName ?? '', details: findNameInText(text, expected, business) };
+};
+
+export const validateDocument = (
+  typeId: IdentityDocumentTypeId,
+  text: string,
+  expectedNames: ExpectedNames = {}
+): DocumentValidationResult => {
+  const type = registry.get(typeId);
+  if (!type) {
+    throw new Error(`Unknown document type: ${typeId}`);
+  }
+
+  const validationErrors: string[] = [];
+  const foundPatterns: Record<string, string> = {};
+  const result: DocumentValidationResult = {
+    documentType: type.id,
+    documentNumber: null,
+    fullName: null,
+    dateIssued: null,
+    dateExpiry: null,
+    isValid: false,
+    nameMatch: false,
+    isExpired: false,
+    canAutoVerify: false,
+    validationErrors,
+    debug: { foundPatterns },
+  };
+
+  if (!type.indicators.test(text)) {
+    const detected = detectDocumentType(text, type.audiences[0]);
+    validationErrors.push(
+      detected && detected.id !== type.id
+        ? `This looks like a ${detected.label}, not a ${type.label}. Please choose the matching document type.`
+        : `Document does not appear to be a ${type.label}. Please ensure you uploaded the correct document.`
+    );
+    return result;
+  }
+
+  const fields = extractFields(type, text, foundPatterns);
+  Object.assign(result, fields);
+
+  if (!fields.documentNumber) {
+    validationErrors.push(`${type.numberLabel} not found. Please ensure the document shows the complete number.`);
+  }
+
+  validationErrors.push(...(type.validate?.(fields, text) ?? []));
+
+  // Expiry: printed date first, then the type's validity period from the issue date
+  if (type.expiry !== 'none') {
+    const issued = fields.dateIssued ? parseDocumentDate(fields.dateIssued) : null;
+    let expiry = fields.dateExpiry ? parseDocumentDate(fields.dateExpiry) : null;
+
+    if (!expiry && issued && type.getExpiryFromIssued) {
+      expiry = type.getExpiryFromIssued(issued);
+      result.dateExpiry = formatDocumentDate(expiry);
+      foundPatterns.dateExpiryComputed = result.dateExpiry;
+    }
+
+    if (expiry) {
+      const today = new Date();
+      today.setHours(0, 0, 0, 0);
+      result.isExpired = expiry < today;
+      if (result.isExpired) {
+        validationErrors.push(`This ${type.label} expired on ${formatDocumentDate(expiry)}. Please upload a current document.`);
+      }
+    } else if (type.expiry === 'required') {
+      validationErrors.push('Expiry date not found. Please ensure the document clearly shows the expiry/valid until date.');
+    }
+  }
+
+  const expected = type.nameSource === 'business' ? expectedNames.business : expectedNames.person;
+  if (expected) {
+    const { extracted, details } = compareName(type, text, fields, expected);
+    result.nameMatch = details.match;
+    if (details.match && extracted) result.fullName = extracted;
+    result.debug.nameComparison = { extracted, expected };
+    result.debug.nameMatchDetails = details;
+
+    if (!details.match) {
+      validationErrors.push(
+        type.nameSource === 'business'
+          ? `Business name on the ${type.label} does not match your company profile.`
+          : `Name on the ${type.label} does not match your profile name. Please ensure your profile name matches the document exactly.`
+      );
+    }
+  } else {
+    validationErrors.push(
+      type.nameSource === 'business'
+        ? 'Add your company name to your profile so it can be matched against the document.'
+        : 'Add your full name to your profile so it can be matched against the document.'
+    );
+  }
+
+  result.isValid = validationErrors.length === 0;
+  result.canAutoVerify = result.isValid && result.nameMatch && !type.manualReviewOnly;
+  return result;
+};
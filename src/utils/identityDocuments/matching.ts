@@ -0,0 +1,128 @@
+import { NameMatch } from './types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Dates as printed on Philippine IDs: 2025/03/14, 03/14/2025, 14 March 2025, 14-MAR-2025, Mar. 14, 2025
+export const DATE_VALUE = String.raw`(\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}|\d{1,2}[-\s]+[A-Za-z]{3,9}\.?,?[-\s]+\d{2,4}|[A-Za-z]{3,9}\.?\s+\d{1,2},?\s+\d{4})`;
+
+// "Label: value" with the label variations OCR produces
+export const labeled = (labels: string, value: string, flags = 'i') =>
+  new RegExp(String.raw`(?:${labels})\s*[:.]?\s*${value}`, flags);
+
+const fullYear = (year: number) => (year >= 100 ? year : year < 70 ? 2000 + year : 1900 + year);
+
+const toDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(fullYear(year), month - 1, day);
+  // Reject rollovers such as 02/31
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const monthIndex = (name: string) => MONTHS.indexOf(name.slice(0, 3)) + 1;
+
+export const parseDocumentDate = (value: string): Date | null => {
+  const text = value.toLowerCase().replace(/[,.]\s*/g, ' ').replace(/\s+/g, ' ').trim();
+
+  const ymd = text.match(/^(\d{4})[-/ ](\d{1,2})[-/ ](\d{1,2})$/);
+  if (ymd) return toDate(+ymd[1], +ymd[2], +ymd[3]);
+
+  // Month first unless the first number cannot be a month
+  const numeric = text.match(/^(\d{1,2})[-/ ](\d{1,2})[-/ ](\d{2,4})$/);
+  if (numeric) {
+    const [first, second] = [+numeric[1], +numeric[2]];
+    return first > 12 ? toDate(+numeric[3], second, first) : toDate(+numeric[3], first, second);
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})[- ]([a-z]+)[- ](\d{2,4})$/);
+  if (dayFirst && monthIndex(dayFirst[2]) > 0) return toDate(+dayFirst[3], monthIndex(dayFirst[2]), +dayFirst[1]);
+
+  const monthFirst = text.match(/^([a-z]+) (\d{1,2}) (\d{4})$/);
+  if (monthFirst && monthIndex(monthFirst[1]) > 0) return toDate(+monthFirst[3], monthIndex(monthFirst[1]), +monthFirst[2]);
+
+  return null;
+};
+
+// Machine-readable zone dates are YYMMDD
+export const parseMrzDate = (value: string, future: boolean): Date | null => {
+  const year = +value.slice(0, 2);
+  const century = future || year > new Date().getFullYear() % 100 ? 2000 : 1900;
+  return toDate(century + year, +value.slice(2, 4), +value.slice(4, 6));
+};
+
+export const formatDocumentDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const calculateLevenshteinSimilarity = (str1: string, str2: string): number => {
+  const track = Array.from({ length: str2.length + 1 }, () => new Array<number>(str1.length + 1).fill(0));
+
+  for (let i = 0; i <= str1.length; i += 1) {
+    track[0][i] = i;
+  }
+
+  for (let j = 0; j <= str2.length; j += 1) {
+    track[j][0] = j;
+  }
+
+  for (let j = 1; j <= str2.length; j += 1) {
+    for (let i = 1; i <= str1.length; i += 1) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      track[j][i] = Math.min(
+        track[j][i - 1] + 1, // deletion
+        track[j - 1][i] + 1, // insertion
+        track[j - 1][i - 1] + indicator, // substitution
+      );
+    }
+  }
+
+  const distance = track[str2.length][str1.length];
+  const maxLength = Math.max(str1.length, str2.length);
+  return maxLength > 0 ? 1 - distance / maxLength : 1;
+};
+
+const BUSINESS_SUFFIXES = /\b(inc|incorporated|corp|corporation|co|company|ltd|limited|opc|llc|enterprises?|trading)\b/g;
+
+export const normalizeName = (name: string, business = false) => {
+  const lower = name.toLowerCase().replace(/[^a-z0-9ñ\s,.-]/g, ' ');
+  return (business ? lower.replace(BUSINESS_SUFFIXES, ' ') : lower).replace(/\s+/g, ' ').trim();
+};
+
+const nameParts = (name: string) => name.split(/[\s,.-]+/).filter(Boolean);
+
+// Same strategies the NBI check always used: containment, at least half of the
+// expected name parts, or a close edit distance
+export const matchName = (extracted: string, expected: string, business = false): NameMatch => {
+  const found = normalizeName(extracted, business);
+  const wanted = normalizeName(expected, business);
+
+  const directMatch = !!found && !!wanted && (found.includes(wanted) || wanted.includes(found));
+  const foundParts = nameParts(found);
+  const wantedParts = nameParts(wanted);
+  const matchingParts = wantedParts.filter(part =>
+    foundParts.some(foundPart => foundPart.includes(part) || part.includes(foundPart))
+  );
+  const partialMatch = wantedParts.length > 0 && matchingParts.length / wantedParts.length >= 0.5;
+  const similarity = calculateLevenshteinSimilarity(found, wanted);
+
+  return {
+    match: directMatch || partialMatch || similarity > 0.6,
+    directMatch,
+    partialMatch,
+    similarity,
+    matchingParts,
+  };
+};
+
+// Used when no name field could be read: are the name's words anywhere on the document?
+export const findNameInText = (text: string, expected: string, business = false): NameMatch => {
+  const haystack = normalizeName(text, business);
+  const wantedParts = nameParts(normalizeName(expected, business)).filter(part => part.length > 2);
+  const matchingParts = wantedParts.filter(part => new RegExp(`\\b${part}\\b`).test(haystack));
+  const partialMatch = wantedParts.length > 0 && matchingParts.length >= Math.ceil(wantedParts.length / 2);
+
+  return {
+    match: partialMatch,
+    directMatch: false,
+    partialMatch,
+    similarity: wantedParts.length > 0 ? matchingParts.length / wantedParts.length : 0,
+    matchingParts,
+  };
+};
@@ -0,0 +1,78 @@
+export type DocumentAudience = 'job_seeker' | 'employer';
+
+export type IdentityDocumentTypeId =
+  | 'nbi_clearance'
+  | 'passport'
+  | 'drivers_license'
+  | 'umid'
+  | 'philsys'
+  | 'business_permit'
+  | 'sec_dti_registration'
+  | 'other_government_id';
+
+export interface DocumentFields {
+  documentNumber: string | null;
+  fullName: string | null;
+  dateIssued: string | null;
+  dateExpiry: string | null;
+}
+
+// Whose name must appear on the document
+export type NameSource = 'person' | 'business';
+
+export interface ExpectedNames {
+  person?: string | null;
+  business?: string | null;
+}
+
+export interface NameMatch {
+  match: boolean;
+  directMatch: boolean;
+  partialMatch: boolean;
+  similarity: number;
+  matchingParts: string[];
+}
+
+export interface IdentityDocumentType {
+  id: IdentityDocumentTypeId;
+  label: string;
+  // Label for the document number in results, e.g. "CRN" or "Permit No."
+  numberLabel: string;
+  audiences: DocumentAudience[];
+  description: string;
+  // Text that must appear on the document for it to count as this type
+  indicators: RegExp;
+  // Patterns are tried in order and the first capture group is used
+  numberPatterns: RegExp[];
+  issuedPatterns?: RegExp[];
+  expiryPatterns?: RegExp[];
+  namePatterns?: RegExp[];
+  // Headings that look like names in all-caps OCR output
+  headerWords?: RegExp;
+  nameSource: NameSource;
+  // 'required': an unexpired expiry date must be found. 'none': the document does not expire.
+  expiry: 'required' | 'optional' | 'none';
+  // Computes the expiry from the issue date when none is printed
+  getExpiryFromIssued?: (issued: Date) => Date;
+  // Runs before the generic patterns, e.g. to read a passport MRZ
+  extract?: (text: string) => Partial<DocumentFields>;
+  // Extra checks on the extracted fields, returning validation errors
+  validate?: (fields: DocumentFields, text: string) => string[];
+  // Never verified automatically, only through admin review
+  manualReviewOnly?: boolean;
+}
+
+export interface DocumentValidationResult extends DocumentFields {
+  documentType: IdentityDocumentTypeId;
+  isValid: boolean;
+  nameMatch: boolean;
+  isExpired: boolean;
+  // Passed every check and may be verified without an admin
+  canAutoVerify: boolean;
+  validationErrors: string[];
+  debug: {
+    foundPatterns: Record<string, string>;
+    nameComparison?: { extracted: string; expected: string };
+    nameMatchDetails?: NameMatch;
+  };
+}
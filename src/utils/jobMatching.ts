@@ -0,0 +1,196 @@
+import { JobPost, Profile } from '../types/database';
+
+export type MatchFactorKey = 'skills' | 'experience' | 'location' | 'availability';
+
+export interface MatchFactor {
+  key: MatchFactorKey;
+  label: string;
+  weight: number;
+  // 0..1, weighted into the overall score
+  score: number;
+  detail: string;
+}
+
+export interface MatchResult {
+  // 0..100
+  score: number;
+  factors: MatchFactor[];
+}
+
+export type MatchableProfile = Pick<Profile, 'skills' | 'years_of_experience' | 'location' | 'availability'>;
+export type MatchableJob = Pick<JobPost, 'required_skills' | 'experience_level' | 'location' | 'work_schedule'>;
+
+const FACTOR_WEIGHTS: Record<MatchFactorKey, number> = {
+  skills: 0.5,
+  experience: 0.2,
+  location: 0.15,
+  availability: 0.15,
+};
+
+// Score used when one side leaves a field empty, so missing data neither helps nor sinks a match
+const NEUTRAL_SCORE = 0.5;
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/\.js\b/g, 'js')
+    .replace(/[^a-z0-9+#]+/g, ' ')
+    .trim();
+
+const tokenize = (value: string) => normalize(value).split(' ').filter(Boolean);
+
+export function scoreSkills(candidateSkills: string[] = [], requiredSkills: string[] = []): MatchFactor {
+  const base = { key: 'skills' as const, label: 'Skills', weight: FACTOR_WEIGHTS.skills };
+  const required = requiredSkills.map(skill => skill.trim()).filter(Boolean);
+
+  if (required.length === 0) {
+    return { ...base, score: NEUTRAL_SCORE, detail: 'No required skills listed' };
+  }
+
+  const owned = new Set(candidateSkills.map(normalize));
+  const matched = required.filter(skill => owned.has(normalize(skill)));
+  const missing = required.filter(skill => !owned.has(normalize(skill)));
+
+  let detail = `Matches ${matched.length} of ${required.length} required skills`;
+  if (missing.length > 0) {
+    detail += ` (missing ${missing.slice(0, 3).join(', ')}${missing.length > 3 ? '…' : ''})`;
+  }
+
+  return { ...base, score: matched.length / required.length, detail };
+}
+
+// Experience levels are free text ("Entry level", "Senior", "3+ years"), so map them to minimum years
+export function parseExperienceLevel(level?: string): number | null {
+  if (!level) return null;
+
+  const years = level.match(/(\d+)\s*\+?\s*(?:years?|yrs?)/i);
+  if (years) return parseInt(years[1], 10);
+
+  const value = level.toLowerCase();
+  if (/(entry|junior|intern|beginner|fresh)/.test(value)) return 0;
+  if (/(mid|intermediate)/.test(value)) return 2;
+  if (/(senior|advanced)/.test(value)) return 5;
+  if (/(expert|lead|principal)/.test(value)) return 8;
+
+  return null;
+}
+
+export function scoreExperience(yearsOfExperience: number | undefined, experienceLevel?: string): MatchFactor {
+  const base = { key: 'experience' as const, label: 'Experience', weight: FACTOR_WEIGHTS.experience };
+  const requiredYears = parseExperienceLevel(experienceLevel);
+
+  if (requiredYears === null) {
+    return { ...base, score: NEUTRAL_SCORE, detail: 'Experience level not specified' };
+  }
+  if (yearsOfExperience === undefined || yearsOfExperience === null) {
+    return { ...base, score: NEUTRAL_SCORE, detail: 'Candidate experience not specified' };
+  }
+  if (requiredYears === 0 || yearsOfExperience >= requiredYears) {
+    return { ...base, score: 1, detail: `${yearsOfExperience} yrs meets ${experienceLevel}` };
+  }
+
+  return {
+    ...base,
+    score: yearsOfExperience / requiredYears,
+    detail: `${yearsOfExperience} of ${requiredYears}+ yrs expected`,
+  };
+}
+
+export function scoreLocation(candidateLocation?: string, jobLocation?: string): MatchFactor {
+  const base = { key: 'location' as const, label: 'Location', weight: FACTOR_WEIGHTS.location };
+
+  if (!jobLocation?.trim()) {
+    return { ...base, score: NEUTRAL_SCORE, detail: 'Job location not specified' };
+  }
+  if (/(remote|anywhere|work from home|wfh)/i.test(jobLocation)) {
+    return { ...base, score: 1, detail: 'Remote job' };
+  }
+  if (!candidateLocation?.trim()) {
+    return { ...base, score: NEUTRAL_SCORE, detail: 'Candidate location not specified' };
+  }
+
+  const candidate = normalize(candidateLocation);
+  const job = normalize(jobLocation);
+  if (candidate === job || candidate.includes(job) || job.includes(candidate)) {
+    return { ...base, score: 1, detail: `Based in ${jobLocation}` };
+  }
+
+  // Share a city or province token, e.g. "Cebu City" vs "Mandaue, Cebu"
+  const candidateTokens = new Set(tokenize(candidateLocation).filter(token => token.length > 2 && token !== 'city'));
+  const shared = tokenize(jobLocation).some(token => candidateTokens.has(token));
+  if (shared) {
+    return { ...base, score: 0.7, detail: `Near ${jobLocation}` };
+  }
+
+  return { ...base, score: 0, detail: `${candidateLocation} vs ${jobLocation}` };
+}
+
+type Schedule = 'full-time' | 'part-time' | 'flexible' | 'weekends' | 'evenings';
+
+const classifySchedule = (value?: string): { kind: Schedule | null; hours: number | null } => {
+  if (!value?.trim()) return { kind: null, hours: null };
+
+  const text = value.toLowerCase();
+  const hoursMatch = text.match(/(\d+)\s*(?:hours?|hrs?)/);
+  const hours = hoursMatch ? parseInt(hoursMatch[1], 10) : null;
+
+  let kind: Schedule | null = null;
+  if (/flex|any ?time/.test(text)) kind = 'flexible';
+  else if (/weekend|saturday|sunday/.test(text)) kind = 'weekends';
+  else if (/evening|night/.test(text)) kind = 'evenings';
+  else if (/part[- ]?time/.test(text)) kind = 'part-time';
+  else if (/full[- ]?time/.test(text)) kind = 'full-time';
+  else if (hours !== null) kind = hours >= 35 ? 'full-time' : 'part-time';
+
+  return { kind, hours };
+};
+
+export function scoreAvailability(availability?: string, workSchedule?: string): MatchFactor {
+  const base = { key: 'availability' as const, label: 'Availability', weight: FACTOR_WEIGHTS.availability };
+  const candidate = classifySchedule(availability);
+  const job = classifySchedule(workSchedule);
+
+  if (!job.kind) {
+    return { ...base, score: NEUTRAL_SCORE, detail: 'Work schedule not specified' };
+  }
+  if (!candidate.kind) {
+    return { ...base, score: NEUTRAL_SCORE, detail: 'Candidate availability not specified' };
+  }
+
+  if (candidate.hours !== null && job.hours !== null) {
+    const score = Math.min(candidate.hours / job.hours, 1);
+    return { ...base, score, detail: `${candidate.hours} of ${job.hours} hrs/week available` };
+  }
+  if (candidate.kind === job.kind || candidate.kind === 'flexible') {
+    return { ...base, score: 1, detail: `Available for ${workSchedule}` };
+  }
+  if (candidate.kind === 'full-time' || job.kind === 'flexible') {
+    return { ...base, score: 0.8, detail: `${availability} covers ${workSchedule}` };
+  }
+
+  return { ...base, score: 0.2, detail: `${availability} vs ${workSchedule}` };
+}
+
+export function scoreMatch(profile: MatchableProfile, job: MatchableJob): MatchResult {
+  const factors = [
+    scoreSkills(profile.skills, job.required_skills),
+    scoreExperience(profile.years_of_experience, job.experience_level),
+    scoreLocation(profile.location, job.location),
+    scoreAvailability(profile.availability, job.work_schedule),
+  ];
+
+  const weighted = factors.reduce((total, factor) => total + factor.score * factor.weight, 0);
+  return { score: Math.round(weighted * 100), factors };
+}
+
+export function rankJobsForProfile<T extends MatchableJob>(profile: MatchableProfile, jobs: T[]) {
+  return jobs
+    .map(job => ({ job, match: scoreMatch(profile, job) }))
+    .sort((a, b) => b.match.score - a.match.score);
+}
+
+export function rankCandidatesForJob<T extends MatchableProfile>(job: MatchableJob, candidates: T[]) {
+  return candidates
+    .map(candidate => ({ candidate, match: scoreMatch(candidate, job) }))
+    .sort((a, b) => b.match.score - a.match.score);
+}
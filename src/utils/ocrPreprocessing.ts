@@ -0,0 +1,200 @@
+// Image preprocessing for OCR. Every step is a pure function of the pixels so
+// the same page always produces the same input for Tesseract, whichever
+// thread it runs on. Images are RGBA, as in ImageData.
+
+export interface PixelImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface PreprocessResult {
+  threshold: number;
+  skewAngle: number;
+  denoised: boolean;
+}
+
+// A small bias towards black keeps thin strokes intact
+const THRESHOLD_BIAS = 10;
+// Isolated-pixel cleanup is O(pixels * 9), so skip it on large renders
+const NOISE_FILTER_MAX_SIZE = 2000;
+const MAX_SKEW_DEGREES = 5;
+const SKEW_STEP_DEGREES = 0.5;
+// Deskew is scored on a sample of at most this many pixels along each side
+const SKEW_SAMPLE_SIZE = 800;
+
+const setPixel = (data: Uint8ClampedArray, idx: number, value: number) => {
+  data[idx] = data[idx + 1] = data[idx + 2] = value;
+};
+
+export const grayscale = (image: PixelImage) => {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    setPixel(data, i, 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+};
+
+// Otsu's method: the grey level that best separates text from background
+export const otsuThreshold = (image: PixelImage) => {
+  const { data } = image;
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.floor(data[i])]++;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) {
+    sum += i * histogram[i];
+  }
+
+  const total = data.length / 4;
+  let sumB = 0;
+  let wB = 0;
+  let maxVariance = 0;
+  let threshold = 0;
+
+  for (let t = 0; t < 256; t++) {
+    wB += histogram[t];
+    if (wB === 0) continue;
+
+    const wF = total - wB;
+    if (wF === 0) break;
+
+    sumB += t * histogram[t];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const variance = wB * wF * Math.pow(mB - mF, 2);
+
+    if (variance > maxVariance) {
+      maxVariance = variance;
+      threshold = t;
+    }
+  }
+
+  return threshold;
+};
+
+// Expects a grayscale image; returns the threshold used
+export const binarize = (image: PixelImage, threshold = otsuThreshold(image) + THRESHOLD_BIAS) => {
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    setPixel(data, i, data[i] < threshold ? 0 : 255);
+  }
+  return threshold;
+};
+
+// Specks on the background become white, holes inside strokes black
+export const removeNoise = (image: PixelImage) => {
+  const { data, width, height } = image;
+  const filtered = new Uint8ClampedArray(data);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = (y * width + x) * 4;
+      let blackNeighbours = 0;
+      for (let yy = -1; yy <= 1; yy++) {
+        for (let xx = -1; xx <= 1; xx++) {
+          if ((xx !== 0 || yy !== 0) && data[((y + yy) * width + (x + xx)) * 4] === 0) blackNeighbours++;
+        }
+      }
+
+      const isBlack = data[idx] === 0;
+      if (isBlack && blackNeighbours < 2) setPixel(filtered, idx, 255);
+      else if (!isBlack && blackNeighbours > 6) setPixel(filtered, idx, 0);
+    }
+  }
+
+  data.set(filtered);
+};
+
+// Projection profile: text lines are sharpest (most uneven row sums) when the
+// page is level. Expects a binarized image; returns the skew in degrees.
+export const detectSkew = (image: PixelImage) => {
+  const { data, width, height } = image;
+  const step = Math.max(1, Math.ceil(Math.max(width, height) / SKEW_SAMPLE_SIZE));
+  const xs: number[] = [];
+  const ys: number[] = [];
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (data[(y * width + x) * 4] === 0) {
+        xs.push(x / step);
+        ys.push(y / step);
+      }
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  const rows = Math.ceil((width + height) / step) + 1;
+  let bestAngle = 0;
+  let bestScore = -1;
+
+  for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const profile = new Float64Array(rows);
+
+    for (let i = 0; i < xs.length; i++) {
+      const row = Math.round(ys[i] * cos - xs[i] * sin + width / step);
+      if (row >= 0 && row < rows) profile[row]++;
+    }
+
+    let score = 0;
+    for (let row = 0; row < rows; row++) {
+      score += profile[row] * profile[row];
+    }
+    // Ties go to the smaller rotation
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+};
+
+// Nearest-neighbour rotation about the centre, filling uncovered corners white
+export const rotate = (image: PixelImage, degrees: number): PixelImage => {
+  const { data, width, height } = image;
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.sin(radians);
+  const cos = Math.cos(radians);
+  const cx = width / 2;
+  const cy = height / 2;
+  const rotated = new Uint8ClampedArray(data.length).fill(255);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const srcX = Math.round(cos * (x - cx) + sin * (y - cy) + cx);
+      const srcY = Math.round(-sin * (x - cx) + cos * (y - cy) + cy);
+      if (srcX < 0 || srcX >= width || srcY < 0 || srcY >= height) continue;
+
+      const from = (srcY * width + srcX) * 4;
+      const to = (y * width + x) * 4;
+      rotated[to] = data[from];
+      rotated[to + 1] = data[from + 1];
+      rotated[to + 2] = data[from + 2];
+    }
+  }
+
+  return { data: rotated, width, height };
+};
+
+// grayscale -> binarize -> deskew -> denoise, in place
+export const preprocessForOcr = (image: PixelImage): PreprocessResult => {
+  grayscale(image);
+  const threshold = binarize(image);
+
+  const skewAngle = detectSkew(image);
+  if (skewAngle !== 0) {
+    image.data.set(rotate(image, -skewAngle).data);
+  }
+
+  const denoised = image.width < NOISE_FILTER_MAX_SIZE && image.height < NOISE_FILTER_MAX_SIZE;
+  if (denoised) {
+    removeNoise(image);
+  }
+
+  return { threshold, skewAngle, denoised };
+};
@@ -0,0 +1,406 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { Certification, Education, Profile, SocialLinks, WorkExperience } from '../types/database';
+
+export interface ParsedResume {
+  full_name?: string;
+  email?: string;
+  phone?: string;
+  skills: string[];
+  education: Education[];
+  work_experience: WorkExperience[];
+  certifications: Certification[];
+  social_links: SocialLinks;
+}
+
+type SectionKey = 'education' | 'experience' | 'certifications' | 'skills' | 'other';
+
+const PDF_TYPE = 'application/pdf';
+const DOCX_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const SECTION_HEADINGS: { key: SectionKey; pattern: RegExp }[] = [
+  { key: 'education', pattern: /^(education|educational background|academic background|academic qualifications?)$/ },
+  { key: 'experience', pattern: /^(work experience|experience|professional experience|employment history|employment|work history|career history)$/ },
+  { key: 'certifications', pattern: /^(certifications?|certificates?|licenses?( (and|&) certifications?)?|trainings? (and|&) certifications?)$/ },
+  { key: 'skills', pattern: /^(skills|technical skills|key skills|core competencies|skills (and|&) abilities)$/ },
+  { key: 'other', pattern: /^(summary|profile|objective|career objective|about me|projects|awards|achievements|languages|interests|hobbies|references|character references|personal information|personal details)$/ },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DATE = String.raw`(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sept?|oct|nov|dec)[a-z]*\.?\s+\d{4}|\d{1,2}\/\d{4}|\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now|to date)`, 'i');
+const SINGLE_DATE = new RegExp(DATE, 'i');
+const BULLET = /^[•\-*▪●◦‣·]\s*/;
+const DEGREE = /\b(bachelor|master|doctor|ph\.?d|associate|diploma|b\.?s\.?|b\.?a\.?|m\.?s\.?|m\.?a\.?|mba|bsc|msc|high school|senior high|junior high|vocational)\b/i;
+const INSTITUTION = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+
+const normalizeHeading = (line: string) =>
+  line.toLowerCase().replace(/[:.]+$/, '').replace(/\s+/g, ' ').trim();
+
+const detectSection = (line: string): SectionKey | null => {
+  if (line.length > 40) return null;
+  const heading = normalizeHeading(line);
+  return SECTION_HEADINGS.find(section => section.pattern.test(heading))?.key ?? null;
+};
+
+// "Mar 2021", "03/2021" or "2021" -> "2021-03" / "2021-01"
+const toMonthValue = (value: string): string => {
+  const text = value.toLowerCase().trim();
+  const year = text.match(/\d{4}/)?.[0];
+  if (!year) return '';
+
+  const numericMonth = text.match(/^(\d{1,2})\//)?.[1];
+  const monthIndex = numericMonth
+    ? Number(numericMonth) - 1
+    : MONTHS.findIndex(month => text.startsWith(month));
+
+  const month = monthIndex >= 0 && monthIndex < 12 ? monthIndex + 1 : 1;
+  return `${year}-${String(month).padStart(2, '0')}`;
+};
+
+interface DateRange {
+  start_date: string;
+  end_date?: string;
+  current: boolean;
+}
+
+const findDateRange = (text: string): DateRange | null => {
+  const range = text.match(DATE_RANGE);
+  if (range) {
+    const current = /present|current|now|to date/i.test(range[2]);
+    return {
+      start_date: toMonthValue(range[1]),
+      end_date: current ? undefined : toMonthValue(range[2]),
+      current,
+    };
+  }
+
+  const single = text.match(SINGLE_DATE);
+  return single ? { start_date: toMonthValue(single[0]), current: false } : null;
+};
+
+const stripDates = (text: string) =>
+  text.replace(DATE_RANGE, '').replace(new RegExp(DATE, 'gi'), '').replace(/[|,–—-]\s*$/, '').trim();
+
+// Splits "Engineer | Acme Corp, Manila" style headers into their parts
+const splitHeader = (text: string) =>
+  text
+    .split(/\s*(?:\||•|\s@\s|\sat\s|\s[–—-]\s|,)\s*/)
+    .map(part => part.trim())
+    .filter(Boolean);
+
+// Groups section lines into entries: a new entry starts at a header line that
+// follows bullets, or at a second date range within the current entry
+const groupEntries = (lines: string[]) => {
+  const entries: { header: string[]; bullets: string[] }[] = [];
+  let current: { header: string[]; bullets: string[]; hasDate: boolean } | null = null;
+
+  for (const line of lines) {
+    const isBullet = BULLET.test(line);
+    const hasDate = DATE_RANGE.test(line);
+
+    if (isBullet) {
+      if (!current) {
+        current = { header: [], bullets: [], hasDate: false };
+        entries.push(current);
+      }
+      current.bullets.push(line.replace(BULLET, '').trim());
+      continue;
+    }
+
+    if (!current || current.bullets.length > 0 || (hasDate && current.hasDate)) {
+      current = { header: [], bullets: [], hasDate: false };
+      entries.push(current);
+    }
+
+    current.header.push(line);
+    current.hasDate ||= hasDate;
+  }
+
+  return entries;
+};
+
+const parseExperience = (lines: string[]): WorkExperience[] =>
+  groupEntries(lines)
+    .filter(entry => entry.header.length > 0)
+    .map(({ header, bullets }) => {
+      const dates = findDateRange(header.join(' '));
+      const parts = header.flatMap(line => splitHeader(stripDates(line)));
+
+      return {
+        position: parts[0] || '',
+        company: parts[1] || '',
+        location: parts[2] || '',
+        start_date: dates?.start_date || '',
+        end_date: dates?.end_date,
+        current: dates?.current || false,
+        description: bullets.length > 0 ? '' : parts.slice(3).join(' '),
+        achievements: bullets,
+      };
+    });
+
+const parseEducation = (lines: string[]): Education[] =>
+  groupEntries(lines)
+    .filter(entry => entry.header.length > 0)
+    .map(({ header, bullets }) => {
+      const dates = findDateRange(header.join(' '));
+      const parts = header.flatMap(line => splitHeader(stripDates(line)));
+
+      const degreePart = parts.find(part => DEGREE.test(part));
+      const institution = parts.find(part => INSTITUTION.test(part) && part !== degreePart)
+        || parts.find(part => part !== degreePart)
+        || '';
+      // "Bachelor of Science in Nursing" -> degree "Bachelor of Science", field "Nursing"
+      const fieldMatch = degreePart?.match(/^(.+?)\s+in\s+(.+)$/i) || degreePart?.match(/^(\S+)\s+of\s+(.+)$/i);
+
+      return {
+        institution,
+        degree: fieldMatch ? fieldMatch[1].trim() : degreePart || '',
+        field: fieldMatch?.[2]?.trim() || '',
+        start_date: dates?.start_date || '',
+        end_date: dates?.end_date,
+        current: dates?.current || false,
+        description: bullets.join('\n') || undefined,
+      };
+    });
+
+const parseCertifications = (lines: string[]): Certification[] =>
+  lines
+    .map(line => line.replace(BULLET, '').trim())
+    .filter(Boolean)
+    .map(line => {
+      const url = line.match(/https?:\/\/\S+/)?.[0];
+      const credentialId = line.match(/(?:credential|license|cert(?:ificate)?)\s*(?:id|no\.?|#)\s*[:#]?\s*([\w-]+)/i)?.[1];
+      const dates = findDateRange(line);
+      const rest = stripDates(
+        line
+          .replace(url || '', '')
+          .replace(/(?:credential|license|cert(?:ificate)?)\s*(?:id|no\.?|#)\s*[:#]?\s*[\w-]+/i, '')
+      );
+      const [name = '', issuer = ''] = splitHeader(rest);
+
+      return {
+        name,
+        issuer,
+        issue_date: dates?.start_date || '',
+        expiry_date: dates?.end_date,
+        credential_id: credentialId,
+        url,
+      };
+    })
+    .filter(certification => certification.name);
+
+const parseSkills = (lines: string[]): string[] => {
+  const skills = lines
+    .flatMap(line => line.replace(BULLET, '').replace(/^[^:]{1,30}:\s*/, '').split(/\s*[,;|•]\s*/))
+    .map(skill => skill.trim())
+    .filter(skill => skill.length > 1 && skill.length <= 40);
+
+  return Array.from(new Set(skills));
+};
+
+const parseSocialLinks = (text: string): SocialLinks => {
+  const urls = text.match(/(?:https?:\/\/)?(?:www\.)?[\w-]+(?:\.[\w-]+)+(?:\/[^\s,|]*)?/gi) || [];
+  const links: SocialLinks = {};
+
+  for (const raw of urls) {
+    if (raw.includes('@')) continue;
+    const url = raw.startsWith('http') ? raw : `https://${raw}`;
+
+    if (/linkedin\.com\//i.test(url)) links.linkedin ||= url;
+    else if (/github\.com\//i.test(url)) links.github ||= url;
+    else if (/(?:twitter|x)\.com\//i.test(url)) links.twitter ||= url;
+    // Bare domains like "gmail.com" show up in emails; portfolios need a path or an explicit scheme
+    else if (/^https?:\/\//i.test(raw) || /\/\w/.test(raw)) links.portfolio ||= url;
+  }
+
+  return links;
+};
+
+/**
+ * Best-effort parsing of resume text into profile fields. Everything returned
+ * is meant to be reviewed by the job seeker before it is saved.
+ */
+export const parseResumeText = (text: string): ParsedResume => {
+  const lines = text
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const sections: Record<SectionKey, string[]> = {
+    education: [],
+    experience: [],
+    certifications: [],
+    skills: [],
+    other: [],
+  };
+  const preamble: string[] = [];
+  let currentSection: SectionKey | null = null;
+
+  for (const line of lines) {
+    const section = detectSection(line);
+    if (section) {
+      currentSection = section;
+    } else if (currentSection) {
+      sections[currentSection].push(line);
+    } else {
+      preamble.push(line);
+    }
+  }
+
+  const email = text.match(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/)?.[0];
+  const phone = text.match(/(?:\+63|0)\s?9\d{2}[\s-]?\d{3}[\s-]?\d{4}|\+?\d[\d\s()-]{8,}\d/)?.[0]?.trim();
+  const nameLine = preamble.find(line => /^[A-Za-zÀ-ÿ.'-]+(?: [A-Za-zÀ-ÿ.'-]+){1,4}$/.test(line));
+
+  return {
+    full_name: nameLine,
+    email,
+    phone,
+    skills: parseSkills(sections.skills),
+    education: parseEducation(sections.education),
+    work_experience: parseExperience(sections.experience),
+    certifications: parseCertifications(sections.certifications),
+    social_links: parseSocialLinks(text),
+  };
+};
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfDoc = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+
+  for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+    const page = await pdfDoc.getPage(pageNum);
+    const content = await page.getTextContent();
+    let pageText = '';
+
+    for (const item of content.items as TextItem[]) {
+      if (typeof item.str !== 'string') continue;
+      pageText += item.str + (item.hasEOL ? '\n' : '');
+    }
+
+    pages.push(pageText);
+  }
+
+  return pages.join('\n');
+};
+
+// A .docx is a zip archive; the body text lives in word/document.xml
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<string> => {
+  const view = new DataView(buffer);
+
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Invalid DOCX file');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const dataStart = localOffset + 30
+        + view.getUint16(localOffset + 26, true)
+        + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) throw new Error('Unsupported DOCX compression');
+
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  throw new Error('Invalid DOCX file');
+};
+
+const extractDocxText = async (file: File): Promise<string> => {
+  const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+  return Array.from(doc.getElementsByTagName('w:p'))
+    .map(paragraph =>
+      Array.from(paragraph.getElementsByTagName('*'))
+        .map(node => {
+          if (node.tagName === 'w:t') return node.textContent || '';
+          if (node.tagName === 'w:tab') return ' ';
+          if (node.tagName === 'w:br') return '\n';
+          return '';
+        })
+        .join('')
+    )
+    .join('\n');
+};
+
+export const isParseableResume = (file: File) =>
+  file.type === PDF_TYPE || file.type === DOCX_TYPE || /\.(pdf|docx)$/i.test(file.name);
+
+export const extractResumeText = async (file: File): Promise<string> => {
+  if (file.type === PDF_TYPE || /\.pdf$/i.test(file.name)) return extractPdfText(file);
+  if (file.type === DOCX_TYPE || /\.docx$/i.test(file.name)) return extractDocxText(file);
+  throw new Error('Only PDF and DOCX resumes can be read');
+};
+
+export type ResumeProfileFields = Pick<
+  Profile,
+  'full_name' | 'skills' | 'education' | 'work_experience' | 'certifications' | 'social_links'
+>;
+
+const sameText = (a?: string, b?: string) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+/**
+ * Adds confirmed resume details to a profile without overwriting what the job
+ * seeker already entered: entries that already exist are skipped and existing
+ * links and name win.
+ */
+export const mergeResumeIntoProfile = (
+  profile: Partial<ResumeProfileFields>,
+  resume: ParsedResume
+): ResumeProfileFields => {
+  const education = profile.education || [];
+  const workExperience = profile.work_experience || [];
+  const certifications = profile.certifications || [];
+  const skills = profile.skills || [];
+
+  return {
+    full_name: profile.full_name || resume.full_name || '',
+    skills: [...skills, ...resume.skills.filter(skill => !skills.some(existing => sameText(existing, skill)))],
+    education: [
+      ...education,
+      ...resume.education.filter(entry =>
+        !education.some(existing => sameText(existing.institution, entry.institution) && sameText(existing.degree, entry.degree))
+      ),
+    ],
+    work_experience: [
+      ...workExperience,
+      ...resume.work_experience.filter(entry =>
+        !workExperience.some(existing => sameText(existing.company, entry.company) && sameText(existing.position, entry.position))
+      ),
+    ],
+    certifications: [
+      ...certifications,
+      ...resume.certifications.filter(entry =>
+        !certifications.some(existing => sameText(existing.name, entry.name))
+      ),
+    ],
+    social_links: {
+      ...resume.social_links,
+      ...Object.fromEntries(Object.entries(profile.social_links || {}).filter(([, url]) => url)),
+    },
+  };
+};
@@ -0,0 +1,97 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { isRichTextEmpty, sanitizeRichText, toPlainText, toSafeHtml } from './richText';
+
+describe('sanitizeRichText', () => {
+  it('returns an empty string for empty input', () => {
+    expect(sanitizeRichText('')).toBe('');
+  });
+
+  it('keeps allowed formatting', () => {
+    const html = '<h2>Role</h2><p><strong>Bold</strong>, <em>italic</em> and <u>underlined</u></p><ul><li>One</li></ul>';
+    expect(sanitizeRichText(html)).toBe(html);
+  });
+
+  it('removes scripts, styles and frames with their content', () => {
+    expect(sanitizeRichText('<p>Hi</p><script>alert(1)</script><style>p{}</style><iframe src="https://x.test"></iframe>'))
+      .toBe('<p>Hi</p>');
+  });
+
+  it('unwraps other tags to their text', () => {
+    expect(sanitizeRichText('<div><span style="color:red">Red</span> text</div>')).toBe('Red text');
+  });
+
+  it('drops every attribute on kept tags', () => {
+    expect(sanitizeRichText('<p onclick="alert(1)" style="color:red" id="x">Text</p>')).toBe('<p>Text</p>');
+    expect(sanitizeRichText('<img src="x" onerror="alert(1)">')).toBe('');
+  });
+
+  it('keeps http, https and mailto links and opens them safely', () => {
+    expect(sanitizeRichText('<a href="https://example.com" onclick="x()">Site</a>')).toBe(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">Site</a>'
+    );
+    expect(sanitizeRichText('<a href="mailto:jobs@example.com">Mail</a>')).toContain('href="mailto:jobs@example.com"');
+  });
+
+  it('unwraps links with unsafe or missing URLs', () => {
+    expect(sanitizeRichText('<a href="javascript:alert(1)">Click</a>')).toBe('Click');
+    expect(sanitizeRichText('<a href=" JavaScript:alert(1)">Click</a>')).toBe('Click');
+    expect(sanitizeRichText('<a href="data:text/html,<b>x</b>">Click</a>')).toBe('Click');
+    expect(sanitizeRichText('<a>Click</a>')).toBe('Click');
+  });
+
+  it('keeps list indentation classes only', () => {
+    expect(sanitizeRichText('<ol><li class="ql-indent-2 other">Nested</li></ol>')).toBe(
+      '<ol><li class="ql-indent-2">Nested</li></ol>'
+    );
+    expect(sanitizeRichText('<p class="ql-indent-9">Text</p>')).toBe('<p>Text</p>');
+    expect(sanitizeRichText('<h2 class="ql-indent-1">Title</h2>')).toBe('<h2>Title</h2>');
+  });
+
+  it('escapes text that looks like markup', () => {
+    expect(sanitizeRichText('<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>')).toBe(
+      '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>'
+    );
+  });
+});
+
+describe('toSafeHtml', () => {
+  it('turns plain text into paragraphs and line breaks', () => {
+    expect(toSafeHtml('First line\nsecond line\n\nPay & terms: 5 < 10')).toBe(
+      '<p>First line<br>second line</p><p>Pay &amp; terms: 5 &lt; 10</p>'
+    );
+  });
+
+  it('sanitizes stored HTML', () => {
+    expect(toSafeHtml('<p>Hi<script>x()</script></p>')).toBe('<p>Hi</p>');
+  });
+
+  it('returns an empty string for missing values', () => {
+    expect(toSafeHtml(null)).toBe('');
+    expect(toSafeHtml(undefined)).toBe('');
+  });
+});
+
+describe('toPlainText', () => {
+  it('puts a line break after each block', () => {
+    expect(toPlainText('<h2>Role</h2><p>Build   things</p><ul><li>One</li><li>Two</li></ul>')).toBe(
+      'Role\nBuild things\nOne\nTwo'
+    );
+  });
+
+  it('leaves out dropped tags', () => {
+    expect(toPlainText('<p>Text</p><script>secret()</script>')).toBe('Text');
+  });
+
+  it('trims plain text', () => {
+    expect(toPlainText('  plain text \n')).toBe('plain text');
+  });
+});
+
+describe('isRichTextEmpty', () => {
+  it('treats editor markup without text as empty', () => {
+    expect(isRichTextEmpty('<p><br></p>')).toBe(true);
+    expect(isRichTextEmpty(null)).toBe(true);
+    expect(isRichTextEmpty('<p>Text</p>')).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+// Rich text for job posts. Descriptions, additional requirements and
+// application instructions are stored as the HTML the editor produces, after
+// an allow-list pass, and are sanitized again on every render: the stored HTML
+// is never trusted. Posts written before rich text are plain text and are
+// rendered with their line breaks.
+
+// Tags kept as they are. Anything else is unwrapped to its text, except
+// DROPPED_TAGS, which are removed with their content.
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'strong', 'b', 'em', 'i', 'u', 's',
+  'ul', 'ol', 'li', 'blockquote', 'h2', 'h3', 'h4', 'a',
+]);
+
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'object', 'embed', 'template', 'noscript',
+  'svg', 'math', 'textarea', 'select', 'button', 'form', 'head', 'title',
+]);
+
+const BLOCK_TAGS = new Set(['p', 'br', 'li', 'blockquote', 'h2', 'h3', 'h4', 'ul', 'ol', 'div']);
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+// Quill marks list nesting with these classes
+const INDENT_CLASS = /^ql-indent-[1-8]$/;
+
+const looksLikeHtml = (value: string) => /<\/?[a-z][^>]*>/i.test(value);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// DOMParser documents are inert: scripts do not run and images do not load
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html').body;
+
+const cleanChildren = (source: Node, target: Node, doc: Document) => {
+  source.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      target.appendChild(doc.createTextNode(child.textContent || ''));
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) return;
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      cleanChildren(element, target, doc);
+      return;
+    }
+
+    const clean = doc.createElement(tag);
+
+    if (tag === 'a') {
+      const href = element.getAttribute('href')?.trim() || '';
+      if (!SAFE_URL.test(href)) {
+        cleanChildren(element, target, doc);
+        return;
+      }
+      clean.setAttribute('href', href);
+      clean.setAttribute('target', '_blank');
+      clean.setAttribute('rel', 'noopener noreferrer nofollow');
+    }
+
+    const indent = [...element.classList].find(name => INDENT_CLASS.test(name));
+    if (indent && (tag === 'li' || tag === 'p')) {
+      clean.setAttribute('class', indent);
+    }
+
+    cleanChildren(element, clean, doc);
+    target.appendChild(clean);
+  });
+};
+
+// Keeps only allow-listed tags, safe links and list indentation
+export const sanitizeRichText = (html: string): string => {
+  if (!html) return '';
+
+  const doc = document.implementation.createHTMLDocument('');
+  const output = doc.createElement('div');
+  cleanChildren(parse(html), output, doc);
+  return output.innerHTML;
+};
+
+// Safe HTML for any stored value, including plain text from older posts
+export const toSafeHtml = (value: string | null | undefined): string => {
+  if (!value) return '';
+  if (looksLikeHtml(value)) return sanitizeRichText(value);
+
+  return value
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+};
+
+// Text with one space or line break per block, for previews and validation.
+// The database has its own version, html_to_plain_text, for search.
+export const toPlainText = (value: string | null | undefined): string => {
+  if (!value) return '';
+  if (!looksLikeHtml(value)) return value.trim();
+
+  const parts: string[] = [];
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        parts.push(child.textContent || '');
+      } else if (child.nodeType === Node.ELEMENT_NODE) {
+        const tag = (child as Element).tagName.toLowerCase();
+        if (DROPPED_TAGS.has(tag)) return;
+        walk(child);
+        if (BLOCK_TAGS.has(tag)) parts.push('\n');
+      }
+    });
+  };
+  walk(parse(value));
+
+  return parts.join('').replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+};
+
+export const isRichTextEmpty = (value: string | null | undefined) => toPlainText(value) === '';
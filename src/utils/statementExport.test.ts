@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EarningsTransaction } from '../services/earningsService';
+import { buildMonthlyStatement, getStatementMonths } from './statementExport';
+
+vi.mock('../services/supabase', () => ({ supabase: {} }));
+
+const transaction = (overrides: Partial<EarningsTransaction> = {}): EarningsTransaction => ({
+  id: 'tx-1',
+  job_application_id: 'app-1',
+  milestone_id: null,
+  employer_id: 'employer-1',
+  jobseeker_id: 'seeker-1',
+  amount: 100,
+  platform_fee: 10,
+  gross_amount: 110,
+  refunded_amount: 0,
+  currency: 'USD',
+  status: 'completed',
+  paypal_transaction_id: null,
+  paypal_order_id: null,
+  paypal_capture_id: null,
+  captured_at: null,
+  paid_at: null,
+  created_at: '2025-03-10T12:00:00',
+  updated_at: '2025-03-10T12:00:00',
+  job_title: 'Logo design',
+  employer_name: 'Acme',
+  ...overrides,
+});
+
+const payee = { name: 'Sam Lee', email: 'sam@example.com' };
+
+describe('buildMonthlyStatement', () => {
+  const transactions = [
+    transaction({ id: 'feb', created_at: '2025-02-27T09:00:00', amount: 70, platform_fee: 7 }),
+    transaction({ id: 'paid', created_at: '2025-03-02T09:00:00', amount: 100, platform_fee: 10 }),
+    transaction({ id: 'held', status: 'captured', created_at: '2025-03-20T09:00:00', amount: 40, platform_fee: 4 }),
+    transaction({
+      id: 'paid-in-april',
+      created_at: '2025-03-25T09:00:00',
+      paid_at: '2025-04-01T09:00:00',
+      amount: 60,
+      platform_fee: 6,
+    }),
+  ];
+
+  it('keeps the month\'s transactions and totals them', () => {
+    const statement = buildMonthlyStatement(transactions, '2025-03', payee);
+
+    expect(statement.transactions.map(item => item.id)).toEqual(['paid', 'held']);
+    expect(statement.summary).toEqual({ pending: 40, paid: 100, fees: 10, refunded: 0 });
+  });
+
+  it('labels the month and carries the payee', () => {
+    const statement = buildMonthlyStatement(transactions, '2025-03', payee);
+
+    expect(statement.month).toBe('2025-03');
+    expect(statement.label).toBe('March 2025');
+    expect(statement.payeeName).toBe('Sam Lee');
+    expect(statement.payeeEmail).toBe('sam@example.com');
+  });
+
+  it('puts a payout in the month it was paid', () => {
+    const statement = buildMonthlyStatement(transactions, '2025-04', payee);
+
+    expect(statement.transactions.map(item => item.id)).toEqual(['paid-in-april']);
+    expect(statement.summary.paid).toBe(60);
+  });
+
+  it('returns an empty statement for a month without transactions', () => {
+    const statement = buildMonthlyStatement(transactions, '2025-05', payee);
+
+    expect(statement.transactions).toEqual([]);
+    expect(statement.summary).toEqual({ pending: 0, paid: 0, fees: 0, refunded: 0 });
+  });
+});
+
+describe('getStatementMonths', () => {
+  it('lists each month once, newest first', () => {
+    expect(
+      getStatementMonths([
+        transaction({ created_at: '2025-03-02T09:00:00' }),
+        transaction({ created_at: '2025-01-15T09:00:00' }),
+        transaction({ created_at: '2025-03-20T09:00:00' }),
+      ])
+    ).toEqual(['2025-03', '2025-01']);
+  });
+});
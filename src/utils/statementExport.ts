@@ -0,0 +1,243 @@
+import { format } from 'date-fns';
+import { EarningsSummary, EarningsTransaction, earningsService, getTransactionDate } from '../services/earningsService';
+
+export interface EarningsStatement {
+  month: string; // YYYY-MM
+  label: string;
+  payeeName: string;
+  payeeEmail: string;
+  transactions: EarningsTransaction[];
+  summary: EarningsSummary;
+}
+
+interface StatementRow {
+  date: string;
+  job: string;
+  employer: string;
+  status: string;
+  gross: number;
+  fee: number;
+  net: number;
+  reference: string;
+}
+
+const statusLabels: Record<string, string> = {
+  captured: 'In escrow',
+  completed: 'Paid',
+  refund_pending: 'Refund pending',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+};
+
+const getStatementMonth = (transaction: EarningsTransaction) =>
+  format(new Date(getTransactionDate(transaction)), 'yyyy-MM');
+
+export const buildMonthlyStatement = (
+  transactions: EarningsTransaction[],
+  month: string,
+  payee: { name: string; email: string }
+): EarningsStatement => {
+  const inMonth = transactions.filter(transaction => getStatementMonth(transaction) === month);
+
+  return {
+    month,
+    label: format(new Date(`${month}-01T00:00:00`), 'MMMM yyyy'),
+    payeeName: payee.name,
+    payeeEmail: payee.email,
+    transactions: inMonth,
+    summary: earningsService.summarize(inMonth),
+  };
+};
+
+// Months (YYYY-MM) that have at least one transaction, newest first
+export const getStatementMonths = (transactions: EarningsTransaction[]) =>
+  [...new Set(transactions.map(getStatementMonth))].sort().reverse();
+
+// The employer pays the fee on top, so gross less the fee is what the job seeker earns
+const toRows = (statement: EarningsStatement): StatementRow[] =>
+  [...statement.transactions]
+    .sort((a, b) => getTransactionDate(a).localeCompare(getTransactionDate(b)))
+    .map(transaction => {
+      const net = Number(transaction.amount);
+      const fee = Number(transaction.platform_fee);
+      return {
+        date: format(new Date(getTransactionDate(transaction)), 'yyyy-MM-dd'),
+        job: transaction.job_title,
+        employer: transaction.employer_name,
+        status: statusLabels[transaction.status] || transaction.status,
+        gross: Number(transaction.gross_amount ?? net + fee),
+        fee,
+        net,
+        reference: transaction.paypal_capture_id || transaction.paypal_transaction_id || '',
+      };
+    });
+
+const money = (value: number) => value.toFixed(2);
+
+export const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const statementToCsv = (statement: EarningsStatement): Blob => {
+  const lines = [
+    ['Date', 'Job', 'Employer', 'Status', 'Gross', 'Platform Fee', 'Net', 'PayPal Reference'],
+    ...toRows(statement).map(row => [
+      row.date,
+      row.job,
+      row.employer,
+      row.status,
+      money(row.gross),
+      money(row.fee),
+      money(row.net),
+      row.reference,
+    ]),
+    [],
+    ['Total paid', '', '', '', '', money(statement.summary.fees), money(statement.summary.paid), ''],
+    ['In escrow', '', '', '', '', '', money(statement.summary.pending), ''],
+  ];
+
+  const csv = lines.map(line => line.map(csvCell).join(',')).join('\r\n');
+  // Byte order mark so spreadsheet apps read the file as UTF-8
+  return new Blob(['\ufeff' + csv], { type: 'text/csv;charset=utf-8' });
+};
+
+// --- PDF ---
+// A single-font, text-only PDF writer; statements need nothing more and it
+// keeps a PDF library out of the bundle.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+
+interface PdfText {
+  x: number;
+  y: number;
+  size: number;
+  bold?: boolean;
+  text: string;
+}
+
+// Standard PDF fonts only cover Latin-1
+const pdfString = (text: string) =>
+  `(${text.replace(/[^\x20-\xff]/g, '?').replace(/[\\()]/g, match => `\\${match}`)})`;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}.` : text);
+
+const columns = [
+  { key: 'date', label: 'Date', x: MARGIN, width: 10 },
+  { key: 'job', label: 'Job', x: MARGIN + 65, width: 26 },
+  { key: 'employer', label: 'Employer', x: MARGIN + 210, width: 18 },
+  { key: 'status', label: 'Status', x: MARGIN + 310, width: 14 },
+  { key: 'gross', label: 'Gross', x: MARGIN + 390, width: 10 },
+  { key: 'fee', label: 'Fee', x: MARGIN + 445, width: 10 },
+  { key: 'net', label: 'Net', x: MARGIN + 490, width: 10 },
+] as const;
+
+const layoutPages = (statement: EarningsStatement): PdfText[][] => {
+  const pages: PdfText[][] = [];
+  let page: PdfText[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const line = (text: string, size = 10, bold = false, x = MARGIN) => page.push({ x, y, size, bold, text });
+
+  const tableHeader = () => {
+    columns.forEach(column => line(column.label, 9, true, column.x));
+    y -= LINE_HEIGHT;
+  };
+
+  line('Earnings Statement', 18, true);
+  y -= LINE_HEIGHT * 1.5;
+  line(statement.label, 12, true);
+  y -= LINE_HEIGHT;
+  line(`Payee: ${statement.payeeName}`);
+  y -= LINE_HEIGHT;
+  line(`PayPal: ${statement.payeeEmail || 'Not set'}`);
+  y -= LINE_HEIGHT;
+  line(`Generated: ${format(new Date(), 'yyyy-MM-dd HH:mm')}`);
+  y -= LINE_HEIGHT * 1.5;
+
+  line(`Paid out: $${money(statement.summary.paid)}`, 11, true);
+  y -= LINE_HEIGHT;
+  line(`Platform fees: $${money(statement.summary.fees)}`);
+  y -= LINE_HEIGHT;
+  line(`In escrow: $${money(statement.summary.pending)}`);
+  y -= LINE_HEIGHT;
+  line(`Refunded: $${money(statement.summary.refunded)}`);
+  y -= LINE_HEIGHT * 2;
+
+  tableHeader();
+  const rows = toRows(statement);
+  if (rows.length === 0) {
+    line('No transactions this month.');
+  }
+
+  for (const row of rows) {
+    if (y < MARGIN + LINE_HEIGHT) {
+      pages.push(page);
+      page = [];
+      y = PAGE_HEIGHT - MARGIN;
+      tableHeader();
+    }
+
+    columns.forEach(column => {
+      const value = row[column.key];
+      line(truncate(typeof value === 'number' ? money(value) : value, column.width), 9, false, column.x);
+    });
+    y -= LINE_HEIGHT;
+  }
+
+  pages.push(page);
+  return pages;
+};
+
+export const statementToPdf = (statement: EarningsStatement): Blob => {
+  const pages = layoutPages(statement);
+  const objects: string[] = [];
+  // Objects 1-4 are fixed; each page adds a page object and its content stream
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((texts, index) => {
+    const content = texts
+      .map(t => `BT /${t.bold ? 'F2' : 'F1'} ${t.size} Tf ${t.x} ${t.y} Td ${pdfString(t.text)} Tj ET`)
+      .join('\n');
+    const pageId = pageIds[index];
+
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  pdf += offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  // Every character is Latin-1, so one byte each keeps the offsets above exact
+  return new Blob([Uint8Array.from(pdf, char => char.charCodeAt(0))], { type: 'application/pdf' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,202 @@
+// Local stand-in for the PayPal REST API, for testing paypal-webhook and
+// paypal-reconcile without a sandbox account.
+//
+//   deno run --allow-net --allow-env supabase/functions/_dev/mock-paypal.ts
+//
+// It answers the endpoints the edge functions call, including capture refunds,
+// and can deliver webhook events to WEBHOOK_URL:
+//   POST /mock/captures  { milestone_id, amount, currency?, deny? }
+//   POST /mock/refunds   { capture_id, amount? }
+//   POST /mock/events/:id/resend     redeliver an event unchanged
+//   POST /mock/events/:id/tamper     redeliver with a bad signature
+//   GET  /mock/events
+
+const port = Number(Deno.env.get('MOCK_PAYPAL_PORT') || 8787);
+const webhookUrl = Deno.env.get('WEBHOOK_URL') || 'http://localhost:54321/functions/v1/paypal-webhook';
+const baseUrl = `http://localhost:${port}`;
+
+interface StoredEvent {
+  id: string;
+  event_type: string;
+  create_time: string;
+  resource_type: string;
+  resource: Record<string, unknown>;
+}
+
+interface StoredTransaction {
+  transaction_id: string;
+  paypal_reference_id?: string;
+  transaction_event_code: string;
+  transaction_status: string;
+  transaction_amount: { currency_code: string; value: string };
+  transaction_initiation_date: string;
+  custom_field?: string;
+}
+
+const events = new Map<string, StoredEvent>();
+const transactions: StoredTransaction[] = [];
+const captures = new Map<string, { amount: string; currency: string; custom_id: string }>();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const randomId = (prefix: string) => `${prefix}${crypto.randomUUID().replace(/-/g, '').slice(0, 17).toUpperCase()}`;
+
+const deliver = async (event: StoredEvent, signature = 'mock-signature') => {
+  const response = await fetch(webhookUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'paypal-auth-algo': 'SHA256withRSA',
+      'paypal-cert-url': `${baseUrl}/mock/cert.pem`,
+      'paypal-transmission-id': crypto.randomUUID(),
+      'paypal-transmission-sig': signature,
+      'paypal-transmission-time': new Date().toISOString(),
+    },
+    body: JSON.stringify(event),
+  });
+
+  return { event_id: event.id, webhook_status: response.status, webhook_response: await response.text() };
+};
+
+const createEvent = (eventType: string, resourceType: string, resource: Record<string, unknown>) => {
+  const event: StoredEvent = {
+    id: randomId('WH-'),
+    event_type: eventType,
+    create_time: new Date().toISOString(),
+    resource_type: resourceType,
+    resource,
+  };
+  events.set(event.id, event);
+  return event;
+};
+
+const createCapture = async (body: { milestone_id: string; amount: string; currency?: string; deny?: boolean }) => {
+  const id = randomId('CAP');
+  const orderId = randomId('ORD');
+  const currency = body.currency || 'USD';
+  const amount = Number(body.amount).toFixed(2);
+  const now = new Date().toISOString();
+
+  captures.set(id, { amount, currency, custom_id: body.milestone_id });
+  transactions.push({
+    transaction_id: id,
+    transaction_event_code: 'T0006',
+    transaction_status: body.deny ? 'D' : 'S',
+    transaction_amount: { currency_code: currency, value: amount },
+    transaction_initiation_date: now,
+    custom_field: body.milestone_id,
+  });
+
+  const event = createEvent(
+    body.deny ? 'PAYMENT.CAPTURE.DENIED' : 'PAYMENT.CAPTURE.COMPLETED',
+    'capture',
+    {
+      id,
+      status: body.deny ? 'DECLINED' : 'COMPLETED',
+      amount: { currency_code: currency, value: amount },
+      custom_id: body.milestone_id,
+      create_time: now,
+      supplementary_data: { related_ids: { order_id: orderId } },
+      links: [{ href: `${baseUrl}/v2/payments/captures/${id}`, rel: 'self' }],
+    }
+  );
+
+  return deliver(event);
+};
+
+const createRefund = async (body: { capture_id: string; amount?: string }) => {
+  const capture = captures.get(body.capture_id);
+  if (!capture) return null;
+
+  const id = randomId('REF');
+  const amount = Number(body.amount || capture.amount).toFixed(2);
+
+  transactions.push({
+    transaction_id: id,
+    paypal_reference_id: body.capture_id,
+    transaction_event_code: 'T1107',
+    transaction_status: 'S',
+    transaction_amount: { currency_code: capture.currency, value: `-${amount}` },
+    transaction_initiation_date: new Date().toISOString(),
+    custom_field: capture.custom_id,
+  });
+
+  const refund = {
+    id,
+    status: 'COMPLETED',
+    amount: { currency_code: capture.currency, value: amount },
+    custom_id: capture.custom_id,
+    links: [
+      { href: `${baseUrl}/v2/payments/refunds/${id}`, rel: 'self' },
+      { href: `${baseUrl}/v2/payments/captures/${body.capture_id}`, rel: 'up' },
+    ],
+  };
+  const event = createEvent('PAYMENT.CAPTURE.REFUNDED', 'refund', refund);
+
+  return { refund, delivery: await deliver(event) };
+};
+
+const searchTransactions = (url: URL) => {
+  const start = new Date(url.searchParams.get('start_date') || 0).getTime();
+  const end = new Date(url.searchParams.get('end_date') || Date.now()).getTime();
+  const matches = transactions.filter(tx => {
+    const time = new Date(tx.transaction_initiation_date).getTime();
+    return time >= start && time < end;
+  });
+
+  return json({
+    transaction_details: matches.map(transaction_info => ({ transaction_info })),
+    total_pages: 1,
+    page: 1,
+  });
+};
+
+Deno.serve({ port }, async (req) => {
+  const url = new URL(req.url);
+  const path = url.pathname;
+
+  if (req.method === 'POST' && path === '/v1/oauth2/token') {
+    return json({ access_token: 'mock-access-token', token_type: 'Bearer', expires_in: 32400 });
+  }
+
+  if (req.method === 'POST' && path === '/v1/notifications/verify-webhook-signature') {
+    const body = await req.json();
+    const valid = body.transmission_sig !== 'invalid' && events.has(body.webhook_event?.id);
+    return json({ verification_status: valid ? 'SUCCESS' : 'FAILURE' });
+  }
+
+  if (req.method === 'GET' && path === '/v1/reporting/transactions') {
+    return searchTransactions(url);
+  }
+
+  if (req.method === 'POST' && path === '/mock/captures') {
+    return json(await createCapture(await req.json()));
+  }
+
+  if (req.method === 'POST' && path === '/mock/refunds') {
+    const result = await createRefund(await req.json());
+    return result ? json(result.delivery) : json({ error: 'Unknown capture' }, 404);
+  }
+
+  const refund = path.match(/^\/v2\/payments\/captures\/([^/]+)\/refund$/);
+  if (req.method === 'POST' && refund) {
+    const result = await createRefund({ capture_id: refund[1] });
+    return result ? json(result.refund, 201) : json({ name: 'RESOURCE_NOT_FOUND' }, 404);
+  }
+
+  if (req.method === 'GET' && path === '/mock/events') {
+    return json([...events.values()]);
+  }
+
+  const resend = path.match(/^\/mock\/events\/([^/]+)\/(resend|tamper)$/);
+  if (req.method === 'POST' && resend) {
+    const event = events.get(resend[1]);
+    if (!event) return json({ error: 'Unknown event' }, 404);
+    return json(await deliver(event, resend[2] === 'tamper' ? 'invalid' : 'mock-signature'));
+  }
+
+  return json({ error: `No mock for ${req.method} ${path}` }, 404);
+});
+
+console.log(`Mock PayPal listening on ${baseUrl}, delivering webhooks to ${webhookUrl}`);
@@ -0,0 +1,91 @@
+// Resolves whether, and how often, a user wants a category of email. Job
+// seekers are governed by user_settings, employers by the settings JSON in
+// employer_notification_settings. Missing rows mean the table defaults.
+
+import { supabaseAdmin } from './supabaseAdmin.ts';
+
+export type EmailCategory = 'application_update' | 'new_application' | 'message' | 'job_alert' | 'marketing' | 'account';
+export type EmailDigestFrequency = 'instant' | 'daily' | 'weekly';
+
+export interface EmailRecipient {
+  email: string | null;
+  role: string;
+  digest: EmailDigestFrequency;
+  wants: (category: EmailCategory) => boolean;
+}
+
+// Digests go out at this UTC hour, and weekly ones on Mondays
+const DIGEST_HOUR_UTC = 8;
+
+const asDigest = (value: unknown): EmailDigestFrequency =>
+  value === 'daily' || value === 'weekly' ? value : 'instant';
+
+export const getRecipient = async (userId: string): Promise<EmailRecipient> => {
+  const { data: profile, error } = await supabaseAdmin
+    .from('profiles')
+    .select('email, role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  let email = profile?.email ?? null;
+  if (!email) {
+    const { data } = await supabaseAdmin.auth.admin.getUserById(userId);
+    email = data.user?.email ?? null;
+  }
+  const role = profile?.role ?? 'job_seeker';
+
+  if (role === 'employer') {
+    const { data, error: settingsError } = await supabaseAdmin
+      .from('employer_notification_settings')
+      .select('settings')
+      .eq('employer_id', userId)
+      .maybeSingle();
+
+    if (settingsError) throw settingsError;
+    const settings = data?.settings ?? {};
+    const flags: Record<EmailCategory, boolean> = {
+      new_application: settings.newApplications ?? true,
+      message: settings.candidateMessages ?? true,
+      job_alert: settings.jobAlerts ?? true,
+      marketing: settings.marketingEmails ?? false,
+      application_update: true,
+      account: true,
+    };
+
+    return { email, role, digest: asDigest(settings.emailDigest), wants: category => flags[category] };
+  }
+
+  const { data: settings, error: settingsError } = await supabaseAdmin
+    .from('user_settings')
+    .select('email_notifications, application_updates, message_notifications, email_digest')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (settingsError) throw settingsError;
+  const enabled = settings?.email_notifications ?? true;
+  const flags: Record<EmailCategory, boolean> = {
+    application_update: enabled && (settings?.application_updates ?? true),
+    message: enabled && (settings?.message_notifications ?? true),
+    job_alert: enabled,
+    new_application: enabled,
+    // Job seekers have no marketing opt-in
+    marketing: false,
+    account: true,
+  };
+
+  return { email, role, digest: asDigest(settings?.email_digest), wants: category => flags[category] };
+};
+
+export const nextDigestAt = (frequency: 'daily' | 'weekly', from = new Date()) => {
+  const next = new Date(from);
+  next.setUTCHours(DIGEST_HOUR_UTC, 0, 0, 0);
+  if (next <= from) next.setUTCDate(next.getUTCDate() + 1);
+
+  if (frequency === 'weekly') {
+    // getUTCDay: 0 is Sunday, 1 Monday
+    next.setUTCDate(next.getUTCDate() + ((8 - next.getUTCDay()) % 7));
+  }
+  return next;
+};
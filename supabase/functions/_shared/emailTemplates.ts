@@ -0,0 +1,175 @@
+// Email templates for queued notifications. Each template renders one
+// email_queue payload; digests reuse the same templates' summaries.
+
+import type { MailMessage } from './mailer.ts';
+
+type Payload = Record<string, unknown>;
+
+interface Template {
+  subject: (payload: Payload) => string;
+  // One line used both as the email body and as a digest entry
+  summary: (payload: Payload) => string;
+  link: (payload: Payload) => string;
+  // Digest section heading
+  heading: string;
+}
+
+const appUrl = () => (Deno.env.get('APP_URL') || 'http://localhost:5173').replace(/\/$/, '');
+
+const str = (value: unknown, fallback = '') => (typeof value === 'string' && value ? value : fallback);
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const templates: Record<string, Template> = {
+  new_application: {
+    heading: 'New applications',
+    subject: payload => `New application from ${str(payload.applicant_name, 'a candidate')}`,
+    summary: payload => str(payload.message, 'A new application was submitted for one of your job posts.'),
+    link: payload => `${appUrl()}/employer/applications${payload.job_post_id ? `/${payload.job_post_id}` : ''}`,
+  },
+  application_update: {
+    heading: 'Application updates',
+    subject: () => 'Update on your job application',
+    summary: payload => str(payload.message, 'There is an update on one of your applications.'),
+    link: () => `${appUrl()}/applications`,
+  },
+  new_message: {
+    heading: 'Messages',
+    subject: payload => `New message from ${str(payload.sender_name, 'someone')}`,
+    summary: payload => `${str(payload.sender_name, 'Someone')}: ${str(payload.preview)}`,
+    link: payload => `${appUrl()}/messages${payload.conversation_id ? `/${payload.conversation_id}` : ''}`,
+  },
+  job_alert: {
+    heading: 'Job alerts',
+    subject: payload => `New jobs for "${str(payload.search_name, 'your saved search')}"`,
+    summary: payload => {
+      const message = str(payload.message, 'New jobs match one of your saved searches.');
+      const titles = Array.isArray(payload.job_titles) ? payload.job_titles.filter(title => typeof title === 'string') : [];
+      return titles.length > 1 ? `${message}: ${titles.join(', ')}` : message;
+    },
+    link: () => `${appUrl()}/dashboard`,
+  },
+  interview_update: {
+    heading: 'Interviews',
+    subject: payload => {
+      const title = str(payload.job_title, 'your application');
+      if (payload.event === 'reminder') return `Interview reminder: ${title}`;
+      if (payload.event === 'cancelled') return `Interview cancelled: ${title}`;
+      return `Interview update: ${title}`;
+    },
+    summary: payload => {
+      const message = str(payload.message, 'There is an update to one of your interviews.');
+      const note = str(payload.note);
+      const videoCallUrl = str(payload.video_call_url);
+      return [message, note && `Note: ${note}`, videoCallUrl && payload.event !== 'cancelled' && `Video call: ${videoCallUrl}`]
+        .filter(Boolean)
+        .join(' ');
+    },
+    link: payload =>
+      `${appUrl()}${payload.audience === 'employer' ? `/employer/applications/${str(payload.job_post_id)}` : '/applications'}`,
+  },
+  verification_decided: {
+    heading: 'Verification',
+    subject: payload => (payload.status === 'approved' ? 'Your identity verification was approved' : 'Your identity verification needs attention'),
+    summary: payload =>
+      payload.admin_notes ? `${str(payload.message)}: ${str(payload.admin_notes)}` : str(payload.message, 'Your verification was reviewed.'),
+    link: payload => `${appUrl()}${payload.audience === 'employer' ? '/employer/settings' : '/settings'}`,
+  },
+  payment_released: {
+    heading: 'Payments',
+    subject: () => 'A payment was released to you',
+    summary: payload => str(payload.message, 'A milestone payment was released to you.'),
+    link: () => `${appUrl()}/earnings`,
+  },
+  report_resolved: {
+    heading: 'Reports',
+    subject: () => 'Your report was reviewed',
+    summary: payload => str(payload.message, 'A report you filed was reviewed.'),
+    link: () => appUrl(),
+  },
+};
+
+const fallbackTemplate: Template = {
+  heading: 'Other updates',
+  subject: payload => str(payload.subject, 'You have a new notification'),
+  summary: payload => str(payload.message, 'You have a new notification.'),
+  link: () => appUrl(),
+};
+
+const getTemplate = (name: string) => templates[name] ?? fallbackTemplate;
+
+const settingsNote = (role: string) =>
+  `You can change which emails you get in your settings: ${appUrl()}${role === 'employer' ? '/employer/settings' : '/settings'}`;
+
+const layout = (title: string, bodyHtml: string, role: string) => `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #111827; max-width: 560px; margin: 0 auto; padding: 24px;">
+    <h2 style="font-size: 18px;">${escapeHtml(title)}</h2>
+    ${bodyHtml}
+    <p style="margin-top: 32px; font-size: 12px; color: #6b7280;">${escapeHtml(settingsNote(role))}</p>
+  </body>
+</html>`;
+
+export interface QueuedEmail {
+  template: string;
+  payload: Payload;
+  created_at: string;
+}
+
+export const renderEmail = (to: string, role: string, email: QueuedEmail): MailMessage => {
+  const template = getTemplate(email.template);
+  const subject = template.subject(email.payload);
+  const summary = template.summary(email.payload);
+  const link = template.link(email.payload);
+
+  return {
+    to,
+    subject,
+    text: `${summary}\n\nView it here: ${link}\n\n${settingsNote(role)}`,
+    html: layout(
+      subject,
+      `<p>${escapeHtml(summary)}</p><p><a href="${escapeHtml(link)}">View it here</a></p>`,
+      role
+    ),
+  };
+};
+
+export const renderDigest = (
+  to: string,
+  role: string,
+  frequency: 'daily' | 'weekly',
+  emails: QueuedEmail[]
+): MailMessage => {
+  const sections = new Map<string, { summary: string; link: string }[]>();
+  for (const email of emails) {
+    const template = getTemplate(email.template);
+    const entries = sections.get(template.heading) ?? [];
+    entries.push({ summary: template.summary(email.payload), link: template.link(email.payload) });
+    sections.set(template.heading, entries);
+  }
+
+  const subject = `Your ${frequency} summary: ${emails.length} update${emails.length === 1 ? '' : 's'}`;
+  const text = [...sections]
+    .map(([heading, entries]) => `${heading}\n${entries.map(entry => `- ${entry.summary}\n  ${entry.link}`).join('\n')}`)
+    .join('\n\n');
+  const html = [...sections]
+    .map(([heading, entries]) =>
+      `<h3 style="font-size: 15px;">${escapeHtml(heading)}</h3><ul>` +
+      entries.map(entry => `<li><a href="${escapeHtml(entry.link)}">${escapeHtml(entry.summary)}</a></li>`).join('') +
+      '</ul>'
+    )
+    .join('');
+
+  return {
+    to,
+    subject,
+    text: `${text}\n\n${settingsNote(role)}`,
+    html: layout(subject, html, role),
+  };
+};
@@ -0,0 +1,26 @@
+import nodemailer from 'npm:nodemailer@6';
+
+// SMTP settings come from the function secrets. Locally, point SMTP_HOST at a
+// catcher such as Mailpit; the defaults match Mailpit's SMTP port.
+const transport = nodemailer.createTransport({
+  host: Deno.env.get('SMTP_HOST') || 'localhost',
+  port: Number(Deno.env.get('SMTP_PORT') || 1025),
+  secure: Deno.env.get('SMTP_SECURE') === 'true',
+  auth: Deno.env.get('SMTP_USER')
+    ? { user: Deno.env.get('SMTP_USER'), pass: Deno.env.get('SMTP_PASS') }
+    : undefined,
+});
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export const sendMail = async (message: MailMessage) => {
+  await transport.sendMail({
+    from: Deno.env.get('MAIL_FROM') || 'no-reply@localhost',
+    ...message,
+  });
+};
@@ -0,0 +1,199 @@
+// Minimal PayPal REST client for edge functions.
+//
+// PAYPAL_API_BASE defaults to the sandbox; point it at the local mock server
+// (supabase/functions/_dev/mock-paypal.ts) to exercise webhooks offline.
+
+const apiBase = () => Deno.env.get('PAYPAL_API_BASE') || 'https://api-m.sandbox.paypal.com';
+
+export interface PayPalMoney {
+  currency_code: string;
+  value: string;
+}
+
+export interface PayPalLink {
+  href: string;
+  rel: string;
+}
+
+export interface PayPalCapture {
+  id: string;
+  status: string;
+  amount: PayPalMoney;
+  custom_id?: string;
+  create_time?: string;
+  supplementary_data?: { related_ids?: { order_id?: string } };
+  links?: PayPalLink[];
+}
+
+export interface PayPalRefund {
+  id: string;
+  status: string;
+  amount: PayPalMoney;
+  custom_id?: string;
+  links?: PayPalLink[];
+}
+
+export interface PayPalWebhookEvent<T = unknown> {
+  id: string;
+  event_type: string;
+  create_time: string;
+  resource_type: string;
+  resource: T;
+}
+
+// One row of the Transaction Search API, trimmed to what we compare
+export interface PayPalTransaction {
+  transaction_info: {
+    transaction_id: string;
+    paypal_reference_id?: string;
+    transaction_event_code: string;
+    transaction_status: string;
+    transaction_amount: PayPalMoney;
+    transaction_initiation_date: string;
+    custom_field?: string;
+  };
+}
+
+export class PayPalError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PayPalError';
+  }
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+const getAccessToken = async (): Promise<string> => {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+
+  const clientId = Deno.env.get('PAYPAL_CLIENT_ID');
+  const clientSecret = Deno.env.get('PAYPAL_CLIENT_SECRET');
+  if (!clientId || !clientSecret) {
+    throw new Error('Missing PayPal credentials');
+  }
+
+  const response = await fetch(`${apiBase()}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  if (!response.ok) {
+    throw new PayPalError(`PayPal token request failed: ${await response.text()}`, response.status);
+  }
+
+  const { access_token, expires_in } = await response.json();
+  // Refresh a minute early so a token never expires mid-request
+  cachedToken = { value: access_token, expiresAt: Date.now() + (expires_in - 60) * 1000 };
+  return access_token;
+};
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const token = await getAccessToken();
+  const response = await fetch(`${apiBase()}${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    throw new PayPalError(`PayPal ${path} failed: ${await response.text()}`, response.status);
+  }
+
+  return response.json();
+};
+
+// Asks PayPal whether a delivery really came from PayPal for our webhook.
+// The event is passed back exactly as received, so rawBody must be the
+// untouched request body.
+const verifyWebhookSignature = async (headers: Headers, rawBody: string): Promise<boolean> => {
+  const webhookId = Deno.env.get('PAYPAL_WEBHOOK_ID');
+  if (!webhookId) {
+    throw new Error('Missing PAYPAL_WEBHOOK_ID');
+  }
+
+  const required = [
+    'paypal-auth-algo',
+    'paypal-cert-url',
+    'paypal-transmission-id',
+    'paypal-transmission-sig',
+    'paypal-transmission-time',
+  ];
+  if (required.some(name => !headers.get(name))) {
+    return false;
+  }
+
+  const body = `{
+    "auth_algo": ${JSON.stringify(headers.get('paypal-auth-algo'))},
+    "cert_url": ${JSON.stringify(headers.get('paypal-cert-url'))},
+    "transmission_id": ${JSON.stringify(headers.get('paypal-transmission-id'))},
+    "transmission_sig": ${JSON.stringify(headers.get('paypal-transmission-sig'))},
+    "transmission_time": ${JSON.stringify(headers.get('paypal-transmission-time'))},
+    "webhook_id": ${JSON.stringify(webhookId)},
+    "webhook_event": ${rawBody}
+  }`;
+
+  const result = await request<{ verification_status: string }>('/v1/notifications/verify-webhook-signature', {
+    method: 'POST',
+    body,
+  });
+
+  return result.verification_status === 'SUCCESS';
+};
+
+// Transaction Search only allows 31-day windows; callers reconcile a day at a time
+const listTransactions = async (start: Date, end: Date): Promise<PayPalTransaction[]> => {
+  const transactions: PayPalTransaction[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  while (page <= totalPages) {
+    const params = new URLSearchParams({
+      start_date: start.toISOString(),
+      end_date: end.toISOString(),
+      fields: 'transaction_info',
+      page_size: '500',
+      page: String(page),
+    });
+
+    const result = await request<{ transaction_details: PayPalTransaction[]; total_pages: number }>(
+      `/v1/reporting/transactions?${params}`
+    );
+
+    transactions.push(...(result.transaction_details || []));
+    totalPages = result.total_pages || 1;
+    page += 1;
+  }
+
+  return transactions;
+};
+
+// Refunds the whole capture. Retries with the same requestId return the
+// first refund instead of issuing another.
+const refundCapture = (captureId: string, requestId: string) =>
+  request<PayPalRefund>(`/v2/payments/captures/${captureId}/refund`, {
+    method: 'POST',
+    headers: { 'PayPal-Request-Id': requestId },
+    body: '{}',
+  });
+
+// Refunds link back to their capture with rel "up"
+const getCaptureIdFromLinks = (links?: PayPalLink[]): string | null => {
+  const up = links?.find(link => link.rel === 'up' && link.href.includes('/captures/'));
+  return up ? up.href.split('/captures/')[1].split(/[/?]/)[0] : null;
+};
+
+export const paypal = {
+  verifyWebhookSignature,
+  listTransactions,
+  refundCapture,
+  getCaptureIdFromLinks,
+};
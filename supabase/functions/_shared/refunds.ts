@@ -0,0 +1,38 @@
+import { supabaseAdmin } from './supabaseAdmin.ts';
+import { paypal, PayPalRefund } from './paypal.ts';
+
+export interface RefundResult {
+  transaction_id: string;
+  refund?: PayPalRefund;
+  error?: string;
+}
+
+// Sends PayPal the refunds recorded in the app, i.e. captures left in
+// refund_pending, for one milestone or for all of them. The webhook marks each
+// transaction refunded once PayPal reports it, so this only issues them.
+export const issuePendingRefunds = async (milestoneId?: string): Promise<RefundResult[]> => {
+  let query = supabaseAdmin
+    .from('payment_transactions')
+    .select('id, paypal_capture_id')
+    .eq('status', 'refund_pending')
+    .not('paypal_capture_id', 'is', null);
+
+  if (milestoneId) {
+    query = query.eq('milestone_id', milestoneId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const results: RefundResult[] = [];
+  for (const transaction of data || []) {
+    try {
+      const refund = await paypal.refundCapture(transaction.paypal_capture_id, `refund-${transaction.id}`);
+      results.push({ transaction_id: transaction.id, refund });
+    } catch (err) {
+      results.push({ transaction_id: transaction.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,9 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+// Service-role client for edge functions. It bypasses RLS, so only use it for
+// writes the function has already authorized.
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
@@ -0,0 +1,178 @@
+// Drains email_queue. Run it every minute (see README-email-notifications.md);
+// only the service role may call it.
+//
+// For each claimed email the recipient's current preferences decide whether
+// it is skipped, sent now, or held until their next daily / weekly digest.
+// Held emails are sent together in one digest email once that time comes.
+
+import { json } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { sendMail } from '../_shared/mailer.ts';
+import { renderDigest, renderEmail } from '../_shared/emailTemplates.ts';
+import { EmailCategory, EmailRecipient, getRecipient, nextDigestAt } from '../_shared/emailPreferences.ts';
+
+const BATCH_SIZE = 100;
+const MAX_ATTEMPTS = 5;
+
+interface QueueRow {
+  id: string;
+  user_id: string;
+  template: string;
+  category: EmailCategory;
+  payload: Record<string, unknown>;
+  digest: 'daily' | 'weekly' | null;
+  attempts: number;
+  created_at: string;
+}
+
+interface RunStats {
+  sent: number;
+  digests: number;
+  held: number;
+  skipped: number;
+  failed: number;
+}
+
+const updateRows = async (rows: QueueRow[], values: Record<string, unknown>) => {
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('email_queue')
+    .update(values)
+    .in('id', rows.map(row => row.id));
+
+  if (error) throw error;
+};
+
+const markSent = (rows: QueueRow[]) =>
+  updateRows(rows, { status: 'sent', sent_at: new Date().toISOString(), last_error: null });
+
+const markSkipped = (rows: QueueRow[], reason: string) =>
+  updateRows(rows, { status: 'skipped', last_error: reason });
+
+// Retries back off 2, 4, 8, 16 minutes before giving up
+const markFailed = async (rows: QueueRow[], err: unknown, stats: RunStats) => {
+  if (rows.length === 0) return;
+  const message = err instanceof Error ? err.message : String(err);
+  const attempts = Math.max(...rows.map(row => row.attempts));
+
+  if (attempts >= MAX_ATTEMPTS) {
+    stats.failed += rows.length;
+    await updateRows(rows, { status: 'failed', last_error: message });
+  } else {
+    await updateRows(rows, {
+      status: 'pending',
+      last_error: message,
+      send_after: new Date(Date.now() + 2 ** attempts * 60 * 1000).toISOString(),
+    });
+  }
+};
+
+const processRecipient = async (recipient: EmailRecipient, rows: QueueRow[], stats: RunStats) => {
+  const { email, role } = recipient;
+  if (!email) {
+    stats.skipped += rows.length;
+    await markSkipped(rows, 'Recipient has no email address');
+    return;
+  }
+
+  const unwanted = rows.filter(row => !recipient.wants(row.category));
+  stats.skipped += unwanted.length;
+  await markSkipped(unwanted, 'Disabled in notification settings');
+
+  const wanted = rows.filter(row => recipient.wants(row.category));
+  const dueDigest = wanted.filter(row => row.digest);
+  const frequency = recipient.digest;
+  // Account emails never wait for a digest
+  const toHold = frequency === 'instant' ? [] : wanted.filter(row => !row.digest && row.category !== 'account');
+  const instant = wanted.filter(row => !row.digest && !toHold.includes(row));
+
+  if (frequency !== 'instant') {
+    const sendAfter = nextDigestAt(frequency).toISOString();
+    for (const row of toHold) {
+      // Claiming counted an attempt; holding is not one
+      const { error } = await supabaseAdmin
+        .from('email_queue')
+        .update({ status: 'pending', digest: frequency, send_after: sendAfter, attempts: row.attempts - 1 })
+        .eq('id', row.id);
+
+      if (error) throw error;
+    }
+    stats.held += toHold.length;
+  }
+
+  for (const row of instant) {
+    try {
+      await sendMail(renderEmail(email, role, row));
+      await markSent([row]);
+      stats.sent++;
+    } catch (err) {
+      console.error(`Error sending email ${row.id}:`, err);
+      await markFailed([row], err, stats);
+    }
+  }
+
+  for (const digest of ['daily', 'weekly'] as const) {
+    const digestRows = dueDigest
+      .filter(row => row.digest === digest)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+    if (digestRows.length === 0) continue;
+
+    try {
+      await sendMail(renderDigest(email, role, digest, digestRows));
+      await markSent(digestRows);
+      stats.sent += digestRows.length;
+      stats.digests++;
+    } catch (err) {
+      console.error(`Error sending ${digest} digest to ${digestRows[0].user_id}:`, err);
+      await markFailed(digestRows, err, stats);
+    }
+  }
+};
+
+const drainQueue = async () => {
+  const { data, error } = await supabaseAdmin.rpc('claim_email_queue', { p_limit: BATCH_SIZE });
+  if (error) throw error;
+
+  const rows = (data || []) as QueueRow[];
+  const byUser = new Map<string, QueueRow[]>();
+  for (const row of rows) {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), row]);
+  }
+
+  const stats: RunStats = { sent: 0, digests: 0, held: 0, skipped: 0, failed: 0 };
+
+  for (const [userId, userRows] of byUser) {
+    try {
+      await processRecipient(await getRecipient(userId), userRows, stats);
+    } catch (err) {
+      // Only this recipient's unfinished rows are retried; anything already
+      // marked sent or skipped is left alone by the status filter
+      console.error(`Error processing emails for ${userId}:`, err);
+      const { data: unfinished } = await supabaseAdmin
+        .from('email_queue')
+        .select('id')
+        .in('id', userRows.map(row => row.id))
+        .eq('status', 'sending');
+
+      const unfinishedIds = new Set((unfinished || []).map(item => item.id));
+      await markFailed(userRows.filter(row => unfinishedIds.has(row.id)), err, stats);
+    }
+  }
+
+  return { claimed: rows.length, ...stats };
+};
+
+Deno.serve(async (req) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    return json(await drainQueue());
+  } catch (err) {
+    console.error('Error draining email queue:', err);
+    return json({ error: err instanceof Error ? err.message : 'Email delivery failed' }, 500);
+  }
+});
@@ -0,0 +1,171 @@
+// Confirms a job seeker owns the PayPal address payouts go to.
+//
+//   { action: 'send' }               emails a 6-digit code to the saved address
+//   { action: 'verify', code: '...' } checks it and marks the account verified
+//
+// Codes are stored hashed in payment_account_verifications, which clients
+// cannot read, and expire after 15 minutes or 5 wrong attempts. After 10 wrong
+// codes in a day, across resends, the account cannot send or check codes
+// until the oldest of them is a day old.
+
+import { corsHeaders, json } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { sendMail } from '../_shared/mailer.ts';
+
+const CODE_TTL_MINUTES = 15;
+const RESEND_COOLDOWN_SECONDS = 60;
+const MAX_ATTEMPTS = 5;
+const MAX_DAILY_FAILURES = 10;
+
+const hashCode = async (userId: string, code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${userId}:${code}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const generateCode = () => String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+
+const countRecentFailures = async (userId: string) => {
+  const { count, error } = await supabaseAdmin
+    .from('payment_account_verification_failures')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('failed_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+const lockedOut = () => json({ error: 'Too many wrong codes. Try again tomorrow.' }, 429);
+
+const getAccount = async (userId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('payment_accounts')
+    .select('id, paypal_email, is_verified')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const sendCode = async (userId: string) => {
+  const account = await getAccount(userId);
+  if (!account?.paypal_email) {
+    return json({ error: 'Save a PayPal email first' }, 400);
+  }
+  if (account.is_verified) {
+    return json({ status: 'verified' });
+  }
+  if ((await countRecentFailures(userId)) >= MAX_DAILY_FAILURES) {
+    return lockedOut();
+  }
+
+  const { data: pending } = await supabaseAdmin
+    .from('payment_account_verifications')
+    .select('sent_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (pending && Date.now() - new Date(pending.sent_at).getTime() < RESEND_COOLDOWN_SECONDS * 1000) {
+    return json({ error: 'Please wait a minute before requesting another code' }, 429);
+  }
+
+  const code = generateCode();
+  const { error } = await supabaseAdmin.from('payment_account_verifications').upsert({
+    user_id: userId,
+    paypal_email: account.paypal_email,
+    code_hash: await hashCode(userId, code),
+    attempts: 0,
+    sent_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+  });
+
+  if (error) throw error;
+
+  await sendMail({
+    to: account.paypal_email,
+    subject: 'Verify your PayPal email',
+    text:
+      `Your verification code is ${code}.\n\n` +
+      `Enter it on your earnings page to confirm this is the PayPal address you want to be paid at. ` +
+      `The code expires in ${CODE_TTL_MINUTES} minutes.\n\n` +
+      `If you did not request this, you can ignore this email.`,
+  });
+
+  return json({ status: 'sent' });
+};
+
+const verifyCode = async (userId: string, code: string) => {
+  const { data: pending, error } = await supabaseAdmin
+    .from('payment_account_verifications')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if ((await countRecentFailures(userId)) >= MAX_DAILY_FAILURES) {
+    return lockedOut();
+  }
+
+  if (!pending || new Date(pending.expires_at).getTime() < Date.now() || pending.attempts >= MAX_ATTEMPTS) {
+    return json({ error: 'This code has expired. Request a new one.' }, 400);
+  }
+
+  if (pending.code_hash !== (await hashCode(userId, code.trim()))) {
+    await supabaseAdmin
+      .from('payment_account_verifications')
+      .update({ attempts: pending.attempts + 1 })
+      .eq('user_id', userId);
+    await supabaseAdmin
+      .from('payment_account_verification_failures')
+      .insert({ user_id: userId, paypal_email: pending.paypal_email });
+    return json({ error: 'That code is not correct' }, 400);
+  }
+
+  // The code only proves ownership of the address it was sent to
+  const account = await getAccount(userId);
+  if (account?.paypal_email !== pending.paypal_email) {
+    return json({ error: 'Your PayPal email changed. Request a new code.' }, 400);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('payment_accounts')
+    .update({ is_verified: true, verified_at: new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (updateError) throw updateError;
+
+  await supabaseAdmin.from('payment_account_verifications').delete().eq('user_id', userId);
+  await supabaseAdmin.from('payment_account_verification_failures').delete().eq('user_id', userId);
+
+  return json({ status: 'verified' });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+  if (!user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { action, code } = await req.json();
+
+    if (action === 'send') {
+      return await sendCode(user.id);
+    }
+    if (action === 'verify' && typeof code === 'string') {
+      return await verifyCode(user.id, code);
+    }
+
+    return json({ error: 'Unknown action' }, 400);
+  } catch (err) {
+    console.error('Error verifying PayPal email:', err);
+    return json({ error: 'Verification failed' }, 500);
+  }
+});
@@ -0,0 +1,184 @@
+// Nightly comparison of PayPal's transaction history with payment_transactions.
+//
+// Reconciles one UTC day (yesterday by default, or ?date=YYYY-MM-DD) and stores
+// the result in payment_reconciliation_reports. Before that it retries refunds
+// PayPal did not accept when they were made. Only the service role may run it.
+
+import { json } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { paypal, PayPalTransaction } from '../_shared/paypal.ts';
+import { issuePendingRefunds } from '../_shared/refunds.ts';
+
+type MismatchKind =
+  | 'missing_local'
+  | 'missing_paypal'
+  | 'amount_mismatch'
+  | 'status_mismatch'
+  | 'refund_mismatch'
+  | 'failed_webhook';
+
+interface Mismatch {
+  capture_id: string;
+  kind: MismatchKind;
+  paypal?: unknown;
+  local?: unknown;
+}
+
+// Transaction event codes: T00xx are payments, T11xx are refunds and reversals
+const isPayment = (tx: PayPalTransaction) => tx.transaction_info.transaction_event_code.startsWith('T00');
+const isRefund = (tx: PayPalTransaction) => tx.transaction_info.transaction_event_code.startsWith('T11');
+
+// PayPal statuses: S success, P pending, D denied, V reversed
+const expectedLocalStatuses: Record<string, string[]> = {
+  S: ['captured', 'completed', 'refund_pending', 'refunded', 'partially_refunded'],
+  P: ['captured'],
+  D: ['denied'],
+  V: ['refunded'],
+};
+
+const getPeriod = (date: string | null) => {
+  const start = date ? new Date(`${date}T00:00:00Z`) : new Date();
+  if (!date) {
+    start.setUTCDate(start.getUTCDate() - 1);
+    start.setUTCHours(0, 0, 0, 0);
+  }
+  if (Number.isNaN(start.getTime())) {
+    throw new Error('date must be YYYY-MM-DD');
+  }
+
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return { start, end };
+};
+
+const reconcile = async (start: Date, end: Date) => {
+  const paypalTransactions = await paypal.listTransactions(start, end);
+  const payments = paypalTransactions.filter(isPayment);
+  const refunds = paypalTransactions.filter(isRefund);
+
+  const { data: localRows, error } = await supabaseAdmin
+    .from('payment_transactions')
+    .select('*')
+    .not('paypal_capture_id', 'is', null)
+    .gte('captured_at', start.toISOString())
+    .lt('captured_at', end.toISOString());
+
+  if (error) throw error;
+
+  // Refunds in this window may belong to captures from earlier days
+  const refundedCaptureIds = refunds
+    .map(tx => tx.transaction_info.paypal_reference_id)
+    .filter((id): id is string => !!id);
+
+  const { data: refundedRows, error: refundedError } = refundedCaptureIds.length
+    ? await supabaseAdmin.from('payment_transactions').select('*').in('paypal_capture_id', refundedCaptureIds)
+    : { data: [], error: null };
+
+  if (refundedError) throw refundedError;
+
+  const localByCapture = new Map(
+    [...(localRows || []), ...(refundedRows || [])].map(row => [row.paypal_capture_id as string, row])
+  );
+  const mismatches: Mismatch[] = [];
+  const seen = new Set<string>();
+
+  for (const tx of payments) {
+    const info = tx.transaction_info;
+    const local = localByCapture.get(info.transaction_id);
+    seen.add(info.transaction_id);
+
+    if (!local) {
+      mismatches.push({ capture_id: info.transaction_id, kind: 'missing_local', paypal: info });
+      continue;
+    }
+
+    if (Number(info.transaction_amount.value) !== Number(local.gross_amount ?? local.amount)) {
+      mismatches.push({ capture_id: info.transaction_id, kind: 'amount_mismatch', paypal: info, local });
+    }
+
+    if (!(expectedLocalStatuses[info.transaction_status] || []).includes(local.status)) {
+      mismatches.push({ capture_id: info.transaction_id, kind: 'status_mismatch', paypal: info, local });
+    }
+  }
+
+  for (const row of localRows || []) {
+    if (!seen.has(row.paypal_capture_id)) {
+      mismatches.push({ capture_id: row.paypal_capture_id, kind: 'missing_paypal', local: row });
+    }
+  }
+
+  // Refund amounts are negative in Transaction Search
+  const refundedByCapture = new Map<string, number>();
+  for (const tx of refunds) {
+    const captureId = tx.transaction_info.paypal_reference_id;
+    if (!captureId) continue;
+    refundedByCapture.set(
+      captureId,
+      (refundedByCapture.get(captureId) || 0) + Math.abs(Number(tx.transaction_info.transaction_amount.value))
+    );
+  }
+
+  for (const [captureId, refunded] of refundedByCapture) {
+    const local = localByCapture.get(captureId);
+    if (!local || Number(local.refunded_amount) < refunded) {
+      mismatches.push({ capture_id: captureId, kind: 'refund_mismatch', paypal: { refunded }, local: local || null });
+    }
+  }
+
+  const { data: failedEvents, error: eventsError } = await supabaseAdmin
+    .from('paypal_webhook_events')
+    .select('id, event_type, resource_id, error')
+    .not('error', 'is', null)
+    .gte('received_at', start.toISOString())
+    .lt('received_at', end.toISOString());
+
+  if (eventsError) throw eventsError;
+
+  for (const event of failedEvents || []) {
+    mismatches.push({ capture_id: event.resource_id, kind: 'failed_webhook', paypal: event });
+  }
+
+  return {
+    period_start: start.toISOString(),
+    period_end: end.toISOString(),
+    paypal_count: payments.length,
+    local_count: (localRows || []).length,
+    mismatch_count: mismatches.length,
+    mismatches,
+  };
+};
+
+Deno.serve(async (req) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { start, end } = getPeriod(new URL(req.url).searchParams.get('date'));
+
+    const failedRefunds = (await issuePendingRefunds()).filter(result => result.error);
+    if (failedRefunds.length > 0) {
+      console.warn(`PayPal did not accept ${failedRefunds.length} pending refunds`, failedRefunds);
+    }
+
+    const report = await reconcile(start, end);
+
+    const { data, error } = await supabaseAdmin
+      .from('payment_reconciliation_reports')
+      .insert(report)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    if (report.mismatch_count > 0) {
+      console.warn(`PayPal reconciliation found ${report.mismatch_count} mismatches`, data.id);
+    }
+
+    return json(data);
+  } catch (err) {
+    console.error('Error reconciling PayPal transactions:', err);
+    return json({ error: err instanceof Error ? err.message : 'Reconciliation failed' }, 500);
+  }
+});
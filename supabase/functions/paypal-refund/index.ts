@@ -0,0 +1,59 @@
+// Refunds a milestone to the employer.
+//
+//   { milestone_id, note? }
+//
+// The transition runs with the caller's own session, so the database still
+// decides who may refund and records them in the ledger. The capture is then
+// refunded in PayPal; the webhook closes the transaction when PayPal reports
+// the refund, and paypal-reconcile retries any PayPal did not accept.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders, json } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { issuePendingRefunds } from '../_shared/refunds.ts';
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+  if (!user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const { milestone_id, note } = await req.json();
+    if (typeof milestone_id !== 'string') {
+      return json({ error: 'milestone_id is required' }, 400);
+    }
+
+    const supabaseUser = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const { data: milestone, error } = await supabaseUser.rpc('transition_payment_milestone', {
+      target_milestone_id: milestone_id,
+      next_status: 'refunded',
+      transition_note: typeof note === 'string' ? note : null,
+      paypal_reference: null,
+    });
+
+    if (error) {
+      return json({ error: error.message }, 400);
+    }
+
+    const results = await issuePendingRefunds(milestone.id);
+    const failed = results.filter(result => result.error);
+    if (failed.length > 0) {
+      console.error('PayPal did not accept the refund; reconciliation will retry it:', failed);
+    }
+
+    return json({ milestone, status: failed.length > 0 ? 'retrying' : 'sent' });
+  } catch (err) {
+    console.error('Error refunding milestone:', err);
+    return json({ error: 'Refund failed' }, 500);
+  }
+});
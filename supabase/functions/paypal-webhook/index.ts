@@ -0,0 +1,213 @@
+// Receives PayPal webhook deliveries for captures and refunds.
+//
+// Each event is verified with PayPal, stored once by event id, and applied to
+// payment_transactions keyed by capture id, so redeliveries are harmless.
+// Deploy with --no-verify-jwt: PayPal cannot send a Supabase token.
+
+import { json } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+import { paypal, PayPalCapture, PayPalRefund, PayPalWebhookEvent } from '../_shared/paypal.ts';
+
+const HANDLED_EVENTS = ['PAYMENT.CAPTURE.COMPLETED', 'PAYMENT.CAPTURE.REFUNDED', 'PAYMENT.CAPTURE.DENIED'];
+
+// Problems with the payment itself; retrying the delivery will not fix them
+class IgnoredEventError extends Error {}
+
+const getMilestone = async (milestoneId?: string) => {
+  if (!milestoneId) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_milestones')
+    .select('*')
+    .eq('id', milestoneId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const transitionMilestone = async (milestoneId: string, status: string, note: string, reference: string) => {
+  const { error } = await supabaseAdmin.rpc('transition_payment_milestone', {
+    target_milestone_id: milestoneId,
+    next_status: status,
+    transition_note: note,
+    paypal_reference: reference,
+  });
+
+  if (error) throw error;
+};
+
+const recordCapture = async (event: PayPalWebhookEvent<PayPalCapture>, status: 'captured' | 'denied') => {
+  const capture = event.resource;
+  const milestone = await getMilestone(capture.custom_id);
+
+  const { error } = await supabaseAdmin
+    .from('payment_transactions')
+    .upsert(
+      {
+        paypal_capture_id: capture.id,
+        paypal_transaction_id: capture.id,
+        paypal_order_id: capture.supplementary_data?.related_ids?.order_id || null,
+        milestone_id: milestone?.id || null,
+        job_application_id: milestone?.job_application_id || null,
+        employer_id: milestone?.employer_id || null,
+        jobseeker_id: milestone?.job_seeker_id || null,
+        amount: milestone?.amount ?? capture.amount.value,
+        platform_fee: milestone?.platform_fee ?? 0,
+        gross_amount: capture.amount.value,
+        currency: capture.amount.currency_code,
+        status,
+        captured_at: capture.create_time || event.create_time,
+        last_event_id: event.id,
+      },
+      // A completed capture never changes back, so a late redelivery must not
+      // overwrite a release or refund recorded since
+      { onConflict: 'paypal_capture_id', ignoreDuplicates: status === 'captured' }
+    );
+
+  if (error) throw error;
+
+  if (!milestone) {
+    throw new IgnoredEventError(`Capture ${capture.id} does not reference a known milestone`);
+  }
+
+  if (status !== 'captured' || milestone.status !== 'draft') return;
+
+  const expected = (Number(milestone.amount) + Number(milestone.platform_fee)).toFixed(2);
+  if (capture.amount.value !== expected || capture.amount.currency_code !== milestone.currency) {
+    throw new IgnoredEventError(
+      `Capture ${capture.id} is ${capture.amount.value} ${capture.amount.currency_code}, expected ${expected} ${milestone.currency}`
+    );
+  }
+
+  await transitionMilestone(
+    milestone.id,
+    'funded',
+    'Funded by PayPal capture',
+    capture.supplementary_data?.related_ids?.order_id || capture.id
+  );
+};
+
+const recordRefund = async (event: PayPalWebhookEvent<PayPalRefund>) => {
+  const refund = event.resource;
+  const captureId = paypal.getCaptureIdFromLinks(refund.links);
+  if (!captureId) {
+    throw new IgnoredEventError(`Refund ${refund.id} has no capture link`);
+  }
+
+  const { data: transaction, error } = await supabaseAdmin
+    .from('payment_transactions')
+    .select('*')
+    .eq('paypal_capture_id', captureId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!transaction) {
+    // The capture event may not have arrived yet; let PayPal retry
+    throw new Error(`No transaction for refunded capture ${captureId}`);
+  }
+
+  const refundedAmount = Number(transaction.refunded_amount) + Number(refund.amount.value);
+  const fullyRefunded = refundedAmount >= Number(transaction.gross_amount ?? transaction.amount);
+
+  const { error: updateError } = await supabaseAdmin
+    .from('payment_transactions')
+    .update({
+      refunded_amount: refundedAmount.toFixed(2),
+      status: fullyRefunded ? 'refunded' : 'partially_refunded',
+      last_event_id: event.id,
+    })
+    .eq('id', transaction.id);
+
+  if (updateError) throw updateError;
+
+  const milestone = await getMilestone(transaction.milestone_id);
+  if (fullyRefunded && milestone && ['funded', 'delivered', 'disputed'].includes(milestone.status)) {
+    await transitionMilestone(milestone.id, 'refunded', 'Refunded in PayPal', refund.id);
+  }
+};
+
+const processEvent = async (event: PayPalWebhookEvent) => {
+  switch (event.event_type) {
+    case 'PAYMENT.CAPTURE.COMPLETED':
+      return recordCapture(event as PayPalWebhookEvent<PayPalCapture>, 'captured');
+    case 'PAYMENT.CAPTURE.DENIED':
+      return recordCapture(event as PayPalWebhookEvent<PayPalCapture>, 'denied');
+    case 'PAYMENT.CAPTURE.REFUNDED':
+      return recordRefund(event as PayPalWebhookEvent<PayPalRefund>);
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const rawBody = await req.text();
+
+  try {
+    if (!(await paypal.verifyWebhookSignature(req.headers, rawBody))) {
+      return json({ error: 'Invalid signature' }, 401);
+    }
+  } catch (err) {
+    console.error('Error verifying PayPal webhook:', err);
+    return json({ error: 'Could not verify signature' }, 502);
+  }
+
+  const event: PayPalWebhookEvent = JSON.parse(rawBody);
+
+  if (!HANDLED_EVENTS.includes(event.event_type)) {
+    return json({ status: 'ignored' });
+  }
+
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from('paypal_webhook_events')
+    .select('processed_at')
+    .eq('id', event.id)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error('Error loading webhook event:', lookupError);
+    return json({ error: 'Database error' }, 500);
+  }
+
+  if (existing?.processed_at) {
+    return json({ status: 'duplicate' });
+  }
+
+  const { error: storeError } = await supabaseAdmin.from('paypal_webhook_events').upsert({
+    id: event.id,
+    event_type: event.event_type,
+    resource_id: (event.resource as { id?: string })?.id || null,
+    payload: event,
+  });
+
+  if (storeError) {
+    console.error('Error storing webhook event:', storeError);
+    return json({ error: 'Database error' }, 500);
+  }
+
+  const markEvent = (error: string | null) =>
+    supabaseAdmin
+      .from('paypal_webhook_events')
+      .update({ processed_at: new Date().toISOString(), error })
+      .eq('id', event.id);
+
+  try {
+    await processEvent(event);
+    await markEvent(null);
+    return json({ status: 'processed' });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+
+    if (err instanceof IgnoredEventError) {
+      // Acknowledged so PayPal stops retrying; reconciliation reports it
+      await markEvent(message);
+      return json({ status: 'ignored', reason: message });
+    }
+
+    console.error('Error processing PayPal webhook:', err);
+    await supabaseAdmin.from('paypal_webhook_events').update({ error: message }).eq('id', event.id);
+    return json({ error: 'Processing failed' }, 500);
+  }
+});
@@ -0,0 +1,179 @@
+// Checks message attachments before the recipient can open them. Run it every
+// minute (see README-message-attachments.md); only the service role may call it.
+//
+// Each pending file is downloaded and its first bytes compared with its
+// declared type. It is then sent to the virus scanner at VIRUS_SCAN_URL, if
+// one is set. Without a scanner, files that pass the type check are released
+// as clean.
+
+import { json } from '../_shared/http.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+
+const BUCKET = 'message-attachments';
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 5;
+
+interface AttachmentRow {
+  id: string;
+  storage_path: string;
+  thumbnail_path: string | null;
+  mime_type: string;
+  scan_attempts: number;
+}
+
+interface RunStats {
+  clean: number;
+  infected: number;
+  rejected: number;
+  failed: number;
+  retrying: number;
+}
+
+interface ScanVerdict {
+  infected: boolean;
+  signature?: string;
+}
+
+// Leading bytes of each binary type. Word files are zip (docx) or OLE (doc)
+// containers; plain text has no signature.
+const signatures: Record<string, number[][]> = {
+  'application/pdf': [[0x25, 0x50, 0x44, 0x46]],
+  'image/png': [[0x89, 0x50, 0x4e, 0x47]],
+  'image/jpeg': [[0xff, 0xd8, 0xff]],
+  'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+  'image/webp': [[0x52, 0x49, 0x46, 0x46]],
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [[0x50, 0x4b, 0x03, 0x04]],
+  'application/msword': [[0xd0, 0xcf, 0x11, 0xe0]],
+};
+
+const matchesType = (bytes: Uint8Array, mimeType: string) => {
+  const expected = signatures[mimeType];
+  if (!expected) return true;
+  return expected.some(signature => signature.every((byte, i) => bytes[i] === byte));
+};
+
+// The scanner receives the file as the request body and answers with
+// { infected: boolean, signature?: string }
+const scanWithHook = async (file: Blob, mimeType: string): Promise<ScanVerdict | null> => {
+  const url = Deno.env.get('VIRUS_SCAN_URL');
+  if (!url) return null;
+
+  const token = Deno.env.get('VIRUS_SCAN_TOKEN');
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': mimeType,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: file,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Virus scanner responded with ${response.status}`);
+  }
+
+  const verdict = await response.json();
+  if (typeof verdict?.infected !== 'boolean') {
+    throw new Error('Virus scanner returned an unexpected response');
+  }
+  return verdict;
+};
+
+const update = async (row: AttachmentRow, values: Record<string, unknown>) => {
+  const { error } = await supabaseAdmin
+    .from('message_attachments')
+    .update({ ...values, scan_claimed_at: null })
+    .eq('id', row.id);
+
+  if (error) throw error;
+};
+
+// Blocked files are removed from storage; the row stays so the thread can
+// say why the file is unavailable
+const block = async (row: AttachmentRow, status: 'infected' | 'rejected', result: string) => {
+  const paths = [row.storage_path, row.thumbnail_path].filter((path): path is string => !!path);
+  const { error } = await supabaseAdmin.storage.from(BUCKET).remove(paths);
+  if (error) throw error;
+
+  await update(row, { scan_status: status, scan_result: result, scanned_at: new Date().toISOString() });
+};
+
+const scanAttachment = async (row: AttachmentRow, stats: RunStats) => {
+  try {
+    const { data: file, error } = await supabaseAdmin.storage.from(BUCKET).download(row.storage_path);
+    if (error || !file) throw error ?? new Error('File not found');
+
+    const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+    if (!matchesType(header, row.mime_type)) {
+      stats.rejected++;
+      await block(row, 'rejected', `Contents do not match ${row.mime_type}`);
+      return;
+    }
+
+    // The sender renders PDF thumbnails as JPEGs
+    if (row.thumbnail_path) {
+      const { data: thumbnail, error: thumbnailError } = await supabaseAdmin.storage.from(BUCKET).download(row.thumbnail_path);
+      if (thumbnailError || !thumbnail) throw thumbnailError ?? new Error('Thumbnail not found');
+
+      const thumbnailHeader = new Uint8Array(await thumbnail.slice(0, 8).arrayBuffer());
+      if (!matchesType(thumbnailHeader, 'image/jpeg')) {
+        stats.rejected++;
+        await block(row, 'rejected', 'Thumbnail is not a JPEG image');
+        return;
+      }
+    }
+
+    const verdict = await scanWithHook(file, row.mime_type);
+    if (verdict?.infected) {
+      stats.infected++;
+      await block(row, 'infected', verdict.signature ?? 'Malware detected');
+      return;
+    }
+
+    stats.clean++;
+    await update(row, {
+      scan_status: 'clean',
+      scan_result: verdict ? null : 'No virus scanner configured',
+      scanned_at: new Date().toISOString(),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`Error scanning attachment ${row.id}:`, err);
+
+    if (row.scan_attempts >= MAX_ATTEMPTS) {
+      stats.failed++;
+      await update(row, { scan_status: 'failed', scan_result: message, scanned_at: new Date().toISOString() });
+    } else {
+      stats.retrying++;
+      await update(row, { scan_result: message });
+    }
+  }
+};
+
+const scanPending = async () => {
+  const { data, error } = await supabaseAdmin.rpc('claim_pending_attachments', { p_limit: BATCH_SIZE });
+  if (error) throw error;
+
+  const rows = (data ?? []) as AttachmentRow[];
+  const stats: RunStats = { clean: 0, infected: 0, rejected: 0, failed: 0, retrying: 0 };
+
+  for (const row of rows) {
+    await scanAttachment(row, stats);
+  }
+
+  return { claimed: rows.length, ...stats };
+};
+
+Deno.serve(async (req) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    return json(await scanPending());
+  } catch (err) {
+    console.error('Error scanning attachments:', err);
+    return json({ error: err instanceof Error ? err.message : 'Attachment scan failed' }, 500);
+  }
+});
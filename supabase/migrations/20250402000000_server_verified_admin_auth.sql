@@ -0,0 +1,77 @@
+-- Admin access is decided server-side: a signed-in user is an admin when their
+-- profile carries the admin role or they have an active admin_users row.
+-- protect_profile_admin_role below keeps users from giving themselves the role.
+CREATE OR REPLACE FUNCTION is_admin(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = user_id
+    AND role = 'admin'
+  ) OR EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE id = user_id
+    AND status = 'active'
+  );
+END;
+$$;
+
+-- Role check for the current session, used by the admin panel after sign-in
+CREATE OR REPLACE FUNCTION is_current_user_admin()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN is_admin(auth.uid());
+END;
+$$;
+
+REVOKE ALL ON FUNCTION is_current_user_admin() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION is_current_user_admin() TO authenticated;
+
+-- profiles_update_policy lets users update any column of their own profile,
+-- so the admin role may only be granted or removed by an admin. Requests
+-- without a user (the service role, migrations, create_first_admin at setup)
+-- are not limited. Switching between job_seeker and employer is unaffected.
+CREATE OR REPLACE FUNCTION protect_profile_admin_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role::TEXT = 'admin' AND NOT is_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'Only admins can grant the admin role';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role
+    AND (NEW.role::TEXT = 'admin' OR OLD.role::TEXT = 'admin')
+    AND NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can grant or remove the admin role';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_admin_role ON profiles;
+
+CREATE TRIGGER protect_profile_admin_role
+  BEFORE INSERT OR UPDATE OF role ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_admin_role();
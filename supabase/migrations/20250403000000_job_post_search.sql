@@ -0,0 +1,212 @@
+-- Full-text search, facet counts and typo-tolerant skill matching for job_posts
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE job_posts
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+-- Keep the weighted search document in sync with the searchable columns
+CREATE OR REPLACE FUNCTION job_posts_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(NEW.required_skills, '{}'::text[]), ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.company_name, '') || ' ' || coalesce(NEW.category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.additional_requirements, '')), 'D');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS job_posts_search_vector_trigger ON job_posts;
+
+CREATE TRIGGER job_posts_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, required_skills, company_name, category, description, additional_requirements
+  ON job_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION job_posts_search_vector_update();
+
+-- Backfill existing rows
+UPDATE job_posts SET title = title;
+
+CREATE INDEX IF NOT EXISTS job_posts_search_vector_idx
+  ON job_posts USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS job_posts_status_created_at_idx
+  ON job_posts (status, created_at DESC);
+
+-- Budgets are free text ("₱15,000", "5000-8000/month"); use the first number found
+CREATE OR REPLACE FUNCTION job_post_budget_amount(budget TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(regexp_replace(substring(budget FROM '[0-9][0-9,]*(?:\.[0-9]+)?'), ',', '', 'g'), '')::NUMERIC;
+$$;
+
+CREATE OR REPLACE FUNCTION job_post_budget_range(budget TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN job_post_budget_amount(budget) IS NULL THEN 'unspecified'
+    WHEN job_post_budget_amount(budget) < 5000 THEN 'under_5k'
+    WHEN job_post_budget_amount(budget) < 20000 THEN '5k_20k'
+    WHEN job_post_budget_amount(budget) < 50000 THEN '20k_50k'
+    ELSE 'over_50k'
+  END;
+$$;
+
+-- Active posts matching the query and filters, with a relevance rank.
+-- Skills are also matched by trigram similarity so "javscript" still finds "JavaScript".
+CREATE OR REPLACE FUNCTION filter_job_posts(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_job_type TEXT DEFAULT NULL,
+  filter_experience_level TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_budget_range TEXT DEFAULT NULL,
+  restrict_to_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (post job_posts, search_rank REAL)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      CASE WHEN coalesce(trim(search_query), '') = '' THEN NULL
+           ELSE websearch_to_tsquery('english', search_query)
+      END AS tsq,
+      CASE WHEN coalesce(trim(search_query), '') = '' THEN NULL
+           ELSE lower(trim(search_query))
+      END AS term
+  )
+  SELECT
+    jp,
+    CASE
+      WHEN q.term IS NULL THEN 0::REAL
+      ELSE (coalesce(ts_rank_cd(jp.search_vector, q.tsq), 0) + 0.5 * coalesce(fuzzy.score, 0))::REAL
+    END
+  FROM job_posts jp
+  CROSS JOIN q
+  LEFT JOIN LATERAL (
+    SELECT max(similarity(lower(skill), word)) AS score
+    FROM unnest(jp.required_skills) AS skill,
+         unnest(regexp_split_to_array(q.term, '\s+')) AS word
+    WHERE length(word) >= 3
+  ) fuzzy ON q.term IS NOT NULL
+  WHERE jp.status = 'active'
+    AND (q.term IS NULL OR jp.search_vector @@ q.tsq OR fuzzy.score >= 0.4)
+    AND (filter_category IS NULL OR jp.category = filter_category)
+    AND (filter_job_type IS NULL OR jp.job_type = filter_job_type)
+    AND (filter_experience_level IS NULL OR jp.experience_level = filter_experience_level)
+    AND (filter_location IS NULL OR jp.location = filter_location)
+    AND (filter_budget_range IS NULL OR job_post_budget_range(jp.budget) = filter_budget_range)
+    AND (restrict_to_ids IS NULL OR jp.id = ANY(restrict_to_ids));
+$$;
+
+-- One page of ranked results plus the total match count
+CREATE OR REPLACE FUNCTION search_job_posts(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_job_type TEXT DEFAULT NULL,
+  filter_experience_level TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_budget_range TEXT DEFAULT NULL,
+  restrict_to_ids UUID[] DEFAULT NULL,
+  page_limit INT DEFAULT 10,
+  page_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH matches AS (
+    SELECT * FROM filter_job_posts(
+      search_query, filter_category, filter_job_type, filter_experience_level,
+      filter_location, filter_budget_range, restrict_to_ids
+    )
+  ),
+  page AS (
+    SELECT m.post, m.search_rank
+    FROM matches m
+    ORDER BY m.search_rank DESC, (m.post).created_at DESC
+    LIMIT page_limit OFFSET page_offset
+  )
+  SELECT jsonb_build_object(
+    'total_count', (SELECT count(*) FROM matches),
+    'results', coalesce((
+      SELECT jsonb_agg(
+        (to_jsonb(p.post) - 'search_vector') || jsonb_build_object('search_rank', p.search_rank)
+        ORDER BY p.search_rank DESC, (p.post).created_at DESC
+      )
+      FROM page p
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- Facet counts. Each facet ignores its own filter so the other values stay selectable.
+CREATE OR REPLACE FUNCTION job_post_search_facets(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_job_type TEXT DEFAULT NULL,
+  filter_experience_level TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_budget_range TEXT DEFAULT NULL,
+  restrict_to_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'category', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).category AS value, count(*) AS total
+        FROM filter_job_posts(search_query, NULL, filter_job_type, filter_experience_level, filter_location, filter_budget_range, restrict_to_ids) f
+        WHERE coalesce((f.post).category, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'job_type', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).job_type AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, NULL, filter_experience_level, filter_location, filter_budget_range, restrict_to_ids) f
+        WHERE coalesce((f.post).job_type, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'experience_level', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).experience_level AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, filter_job_type, NULL, filter_location, filter_budget_range, restrict_to_ids) f
+        WHERE coalesce((f.post).experience_level, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'location', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).location AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, filter_job_type, filter_experience_level, NULL, filter_budget_range, restrict_to_ids) f
+        WHERE coalesce((f.post).location, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'budget_range', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT job_post_budget_range((f.post).budget) AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, filter_job_type, filter_experience_level, filter_location, NULL, restrict_to_ids) f
+        GROUP BY 1
+      ) buckets
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION search_job_posts(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID[], INT, INT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION job_post_search_facets(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID[]) TO anon, authenticated;
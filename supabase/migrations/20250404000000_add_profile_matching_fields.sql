@@ -0,0 +1,5 @@
+-- Location and availability are compared against job_posts.location and
+-- job_posts.work_schedule when scoring candidate/job matches
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS location TEXT,
+ADD COLUMN IF NOT EXISTS availability TEXT;
@@ -0,0 +1,325 @@
+-- Employer-defined hiring pipeline stages per job post
+CREATE TABLE IF NOT EXISTS pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_post_id UUID NOT NULL REFERENCES job_posts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) > 0),
+  position INTEGER NOT NULL,
+  color TEXT NOT NULL DEFAULT 'blue',
+  -- 'hired' and 'rejected' stages close the application; everything else keeps it open
+  outcome TEXT NOT NULL DEFAULT 'open' CHECK (outcome IN ('open', 'hired', 'rejected')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT pipeline_stages_job_post_name_key UNIQUE (job_post_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_job_post_id ON pipeline_stages(job_post_id, position);
+
+ALTER TABLE job_applications
+ADD COLUMN IF NOT EXISTS stage_id UUID REFERENCES pipeline_stages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_job_applications_stage_id ON job_applications(stage_id);
+
+-- Stage change history, written only by the trigger below
+CREATE TABLE IF NOT EXISTS application_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  application_id UUID NOT NULL REFERENCES job_applications(id) ON DELETE CASCADE,
+  from_stage_id UUID REFERENCES pipeline_stages(id) ON DELETE SET NULL,
+  to_stage_id UUID REFERENCES pipeline_stages(id) ON DELETE SET NULL,
+  -- Names are copied so history survives stage renames and deletes
+  from_stage_name TEXT,
+  to_stage_name TEXT NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_stage_history_application_id
+  ON application_stage_history(application_id, created_at DESC);
+
+-- RLS
+ALTER TABLE pipeline_stages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employers can manage stages for their job posts"
+ON pipeline_stages FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM job_posts jp
+    WHERE jp.id = pipeline_stages.job_post_id
+    AND jp.employer_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM job_posts jp
+    WHERE jp.id = pipeline_stages.job_post_id
+    AND jp.employer_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Applicants can view stages of jobs they applied to"
+ON pipeline_stages FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM job_applications ja
+    WHERE ja.job_post_id = pipeline_stages.job_post_id
+    AND ja.job_seeker_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all stages"
+ON pipeline_stages FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE POLICY "Employers and applicants can view stage history"
+ON application_stage_history FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM job_applications ja
+    JOIN job_posts jp ON jp.id = ja.job_post_id
+    WHERE ja.id = application_stage_history.application_id
+    AND (jp.employer_id = auth.uid() OR ja.job_seeker_id = auth.uid())
+  )
+);
+
+-- Default pipeline for new job posts
+CREATE OR REPLACE FUNCTION create_default_pipeline_stages(target_job_post_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO pipeline_stages (job_post_id, name, position, color, outcome)
+  VALUES
+    (target_job_post_id, 'Applied', 0, 'yellow', 'open'),
+    (target_job_post_id, 'Screening', 1, 'blue', 'open'),
+    (target_job_post_id, 'Interview', 2, 'indigo', 'open'),
+    (target_job_post_id, 'Offer', 3, 'purple', 'open'),
+    (target_job_post_id, 'Hired', 4, 'green', 'hired'),
+    (target_job_post_id, 'Rejected', 5, 'red', 'rejected')
+  ON CONFLICT (job_post_id, name) DO NOTHING;
+$$;
+
+-- Only the trigger below and the backfill create default stages
+REVOKE EXECUTE ON FUNCTION create_default_pipeline_stages(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION handle_new_job_post_pipeline()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM create_default_pipeline_stages(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_job_post_created_pipeline ON job_posts;
+
+CREATE TRIGGER on_job_post_created_pipeline
+  AFTER INSERT ON job_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_job_post_pipeline();
+
+-- Keep the legacy status column in sync with the stage so existing views and
+-- counters (pending/reviewing/accepted/rejected) keep working. New applications
+-- always start in the first stage, and only the job's employer moves them on;
+-- admins are allowed so deleting a job post can clear its stages.
+CREATE OR REPLACE FUNCTION sync_application_stage()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_stage pipeline_stages%ROWTYPE;
+BEGIN
+  -- The service role and migrations have no auth.uid()
+  IF TG_OP = 'UPDATE'
+    AND auth.uid() IS NOT NULL
+    AND NOT is_admin(auth.uid())
+    AND NOT EXISTS (
+      SELECT 1 FROM job_posts
+      WHERE id = NEW.job_post_id
+      AND employer_id = auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'Only the employer can change an application''s stage';
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.stage_id IS NULL THEN
+    SELECT * INTO target_stage
+    FROM pipeline_stages
+    WHERE job_post_id = NEW.job_post_id
+    ORDER BY position
+    LIMIT 1;
+
+    NEW.stage_id := target_stage.id;
+  ELSE
+    SELECT * INTO target_stage
+    FROM pipeline_stages
+    WHERE id = NEW.stage_id;
+
+    IF target_stage.job_post_id IS DISTINCT FROM NEW.job_post_id THEN
+      RAISE EXCEPTION 'Stage % does not belong to job post %', NEW.stage_id, NEW.job_post_id;
+    END IF;
+  END IF;
+
+  IF target_stage.id IS NOT NULL THEN
+    NEW.status := CASE
+      WHEN target_stage.outcome = 'hired' THEN 'accepted'
+      WHEN target_stage.outcome = 'rejected' THEN 'rejected'
+      WHEN target_stage.position = (
+        SELECT min(position) FROM pipeline_stages WHERE job_post_id = NEW.job_post_id
+      ) THEN 'pending'
+      ELSE 'reviewing'
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_application_stage_trigger ON job_applications;
+
+CREATE TRIGGER sync_application_stage_trigger
+  BEFORE INSERT OR UPDATE OF stage_id ON job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_application_stage();
+
+CREATE OR REPLACE FUNCTION record_application_stage_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO application_stage_history (
+    application_id,
+    from_stage_id,
+    to_stage_id,
+    from_stage_name,
+    to_stage_name,
+    changed_by
+  )
+  SELECT
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END,
+    NEW.stage_id,
+    (SELECT name FROM pipeline_stages WHERE id = CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage_id END),
+    coalesce((SELECT name FROM pipeline_stages WHERE id = NEW.stage_id), NEW.status),
+    auth.uid();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_application_stage_change_trigger ON job_applications;
+
+CREATE TRIGGER record_application_stage_change_trigger
+  AFTER INSERT OR UPDATE OF stage_id ON job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION record_application_stage_change();
+
+CREATE TRIGGER update_pipeline_stages_updated_at
+  BEFORE UPDATE ON pipeline_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Backfill: default stages for existing posts, then map legacy statuses onto them
+SELECT create_default_pipeline_stages(id) FROM job_posts;
+
+UPDATE job_applications ja
+SET stage_id = ps.id
+FROM pipeline_stages ps
+WHERE ja.stage_id IS NULL
+AND ps.job_post_id = ja.job_post_id
+AND ps.name = CASE ja.status
+  WHEN 'reviewing' THEN 'Screening'
+  WHEN 'accepted' THEN 'Hired'
+  WHEN 'rejected' THEN 'Rejected'
+  ELSE 'Applied'
+END;
+
+-- Replaces a job's pipeline with the given ordered stages in one transaction.
+-- Each element of p_stages has name, color and outcome, plus id for a stage
+-- that already exists; those are updated in place so their applicants stay.
+-- Stages left out are deleted, and their applicants move to the first stage.
+-- Runs as the caller, so the employer policies above still apply.
+CREATE OR REPLACE FUNCTION save_pipeline_stages(p_job_post_id UUID, p_stages JSONB)
+RETURNS SETOF pipeline_stages
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_stage JSONB;
+  v_stage_id UUID;
+  v_kept_ids UUID[] := '{}';
+  v_position INTEGER := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM job_posts
+    WHERE id = p_job_post_id
+    AND employer_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Job post not found';
+  END IF;
+
+  IF jsonb_typeof(p_stages) IS DISTINCT FROM 'array' OR jsonb_array_length(p_stages) = 0 THEN
+    RAISE EXCEPTION 'A pipeline needs at least one stage';
+  END IF;
+
+  -- Park existing stages under temporary names first so swapping or reusing
+  -- names does not trip the unique (job_post_id, name) constraint
+  UPDATE pipeline_stages
+  SET name = '__' || id
+  WHERE job_post_id = p_job_post_id;
+
+  FOR v_stage IN SELECT value FROM jsonb_array_elements(p_stages) LOOP
+    IF v_stage->>'id' IS NOT NULL THEN
+      UPDATE pipeline_stages
+      SET
+        name = btrim(v_stage->>'name'),
+        color = v_stage->>'color',
+        outcome = v_stage->>'outcome',
+        position = v_position
+      WHERE id = (v_stage->>'id')::UUID
+      AND job_post_id = p_job_post_id
+      RETURNING id INTO v_stage_id;
+
+      IF v_stage_id IS NULL THEN
+        RAISE EXCEPTION 'Stage % does not belong to job post %', v_stage->>'id', p_job_post_id;
+      END IF;
+    ELSE
+      INSERT INTO pipeline_stages (job_post_id, name, color, outcome, position)
+      VALUES (
+        p_job_post_id,
+        btrim(v_stage->>'name'),
+        v_stage->>'color',
+        v_stage->>'outcome',
+        v_position
+      )
+      RETURNING id INTO v_stage_id;
+    END IF;
+
+    v_kept_ids := v_kept_ids || v_stage_id;
+    v_stage_id := NULL;
+    v_position := v_position + 1;
+  END LOOP;
+
+  -- Deleting last lets the FK and sync_application_stage move their
+  -- applicants to the first remaining stage
+  DELETE FROM pipeline_stages
+  WHERE job_post_id = p_job_post_id
+  AND id <> ALL (v_kept_ids);
+
+  RETURN QUERY
+  SELECT * FROM pipeline_stages
+  WHERE job_post_id = p_job_post_id
+  ORDER BY position;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_pipeline_stages(UUID, JSONB) TO authenticated;
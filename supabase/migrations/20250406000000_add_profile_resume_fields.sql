@@ -0,0 +1,8 @@
+-- Structured resume details, pre-filled from a parsed resume and confirmed by
+-- the job seeker. Shapes match Education, WorkExperience, Certification and
+-- SocialLinks in src/types/database.ts
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS education JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS work_experience JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS certifications JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS social_links JSONB NOT NULL DEFAULT '{}'::jsonb;
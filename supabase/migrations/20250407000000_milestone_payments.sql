@@ -0,0 +1,297 @@
+-- Escrow-style milestone payments for accepted applications.
+--
+-- Milestones move through a fixed state machine:
+--   draft -> funded -> delivered -> released
+--   draft -> cancelled
+--   funded | delivered -> disputed -> released | refunded
+--   funded | delivered -> refunded
+-- Clients can only read these tables; every change goes through the
+-- SECURITY DEFINER functions below, which check the caller and the transition
+-- and append to payment_ledger.
+
+CREATE TABLE IF NOT EXISTS payment_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_application_id UUID NOT NULL REFERENCES job_applications(id) ON DELETE CASCADE,
+  employer_id UUID NOT NULL REFERENCES profiles(id),
+  job_seeker_id UUID NOT NULL REFERENCES profiles(id),
+  title TEXT NOT NULL CHECK (char_length(trim(title)) > 0),
+  description TEXT,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  platform_fee DECIMAL(10,2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  due_date DATE,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'funded', 'delivered', 'released', 'disputed', 'refunded', 'cancelled')),
+  paypal_order_id VARCHAR(255),
+  funded_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_milestones_application_id ON payment_milestones(job_application_id);
+CREATE INDEX IF NOT EXISTS idx_payment_milestones_job_seeker_id ON payment_milestones(job_seeker_id);
+
+-- Append-only record of every milestone transition
+CREATE TABLE IF NOT EXISTS payment_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  milestone_id UUID NOT NULL REFERENCES payment_milestones(id) ON DELETE CASCADE,
+  job_application_id UUID NOT NULL REFERENCES job_applications(id) ON DELETE CASCADE,
+  event TEXT NOT NULL
+    CHECK (event IN ('created', 'funded', 'delivered', 'released', 'disputed', 'refunded', 'cancelled')),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  platform_fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+  paypal_reference VARCHAR(255),
+  note TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_ledger_milestone_id ON payment_ledger(milestone_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payment_ledger_application_id ON payment_ledger(job_application_id, created_at);
+
+-- RLS: read-only for the two parties and admins
+ALTER TABLE payment_milestones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parties can view their milestones"
+ON payment_milestones FOR SELECT
+TO authenticated
+USING (auth.uid() IN (employer_id, job_seeker_id));
+
+CREATE POLICY "Admins can view all milestones"
+ON payment_milestones FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE POLICY "Parties can view their payment ledger"
+ON payment_ledger FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM payment_milestones pm
+    WHERE pm.id = payment_ledger.milestone_id
+    AND auth.uid() IN (pm.employer_id, pm.job_seeker_id)
+  )
+);
+
+CREATE POLICY "Admins can view the payment ledger"
+ON payment_ledger FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE TRIGGER update_payment_milestones_updated_at
+  BEFORE UPDATE ON payment_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Platform fee charged to the employer on top of the milestone amount
+CREATE OR REPLACE FUNCTION payment_platform_fee(amount DECIMAL)
+RETURNS DECIMAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(amount * 0.10, 2);
+$$;
+
+-- Applies one transition, enforcing who may make it and from which states
+CREATE OR REPLACE FUNCTION transition_payment_milestone(
+  target_milestone_id UUID,
+  next_status TEXT,
+  transition_note TEXT DEFAULT NULL,
+  paypal_reference VARCHAR DEFAULT NULL
+)
+RETURNS payment_milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  milestone payment_milestones%ROWTYPE;
+  caller UUID := auth.uid();
+  caller_is_admin BOOLEAN := is_admin(auth.uid());
+  allowed BOOLEAN;
+  previous_status TEXT;
+BEGIN
+  SELECT * INTO milestone
+  FROM payment_milestones
+  WHERE id = target_milestone_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found';
+  END IF;
+
+  previous_status := milestone.status;
+
+  allowed := CASE next_status
+    WHEN 'funded' THEN milestone.status = 'draft' AND caller = milestone.employer_id
+    WHEN 'cancelled' THEN milestone.status = 'draft' AND caller = milestone.employer_id
+    WHEN 'delivered' THEN milestone.status = 'funded' AND caller = milestone.job_seeker_id
+    WHEN 'disputed' THEN milestone.status IN ('funded', 'delivered')
+      AND caller IN (milestone.employer_id, milestone.job_seeker_id)
+    -- Employers release their own escrow; disputed funds are settled by an admin
+    WHEN 'released' THEN
+      (milestone.status IN ('funded', 'delivered') AND caller = milestone.employer_id)
+      OR (milestone.status = 'disputed' AND caller_is_admin)
+    -- Only the payee may hand back undisputed funds
+    WHEN 'refunded' THEN
+      (milestone.status IN ('funded', 'delivered') AND caller = milestone.job_seeker_id)
+      OR (milestone.status = 'disputed' AND caller_is_admin)
+    ELSE false
+  END;
+
+  IF NOT allowed THEN
+    RAISE EXCEPTION 'Cannot move milestone from % to %', milestone.status, next_status;
+  END IF;
+
+  IF next_status = 'funded' AND coalesce(trim(paypal_reference), '') = '' THEN
+    RAISE EXCEPTION 'A PayPal order is required to fund a milestone';
+  END IF;
+
+  IF next_status = 'disputed' AND coalesce(trim(transition_note), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to open a dispute';
+  END IF;
+
+  UPDATE payment_milestones
+  SET
+    status = next_status,
+    paypal_order_id = CASE WHEN next_status = 'funded' THEN paypal_reference ELSE paypal_order_id END,
+    funded_at = CASE WHEN next_status = 'funded' THEN now() ELSE funded_at END,
+    delivered_at = CASE WHEN next_status = 'delivered' THEN now() ELSE delivered_at END,
+    closed_at = CASE WHEN next_status IN ('released', 'refunded', 'cancelled') THEN now() ELSE closed_at END
+  WHERE id = milestone.id
+  RETURNING * INTO milestone;
+
+  INSERT INTO payment_ledger (
+    milestone_id,
+    job_application_id,
+    event,
+    from_status,
+    to_status,
+    amount,
+    platform_fee,
+    paypal_reference,
+    note,
+    actor_id
+  )
+  VALUES (
+    milestone.id,
+    milestone.job_application_id,
+    next_status,
+    previous_status,
+    next_status,
+    milestone.amount,
+    -- Fees are recorded on the entries where money moves
+    CASE WHEN next_status IN ('funded', 'released', 'refunded') THEN milestone.platform_fee ELSE 0 END,
+    coalesce(paypal_reference, milestone.paypal_order_id),
+    nullif(trim(transition_note), ''),
+    caller
+  );
+
+  -- Released milestones are recorded as completed transactions for payouts
+  IF next_status = 'released' THEN
+    INSERT INTO payment_transactions (
+      job_application_id,
+      employer_id,
+      jobseeker_id,
+      amount,
+      platform_fee,
+      status,
+      paypal_transaction_id
+    )
+    VALUES (
+      milestone.job_application_id,
+      milestone.employer_id,
+      milestone.job_seeker_id,
+      milestone.amount,
+      milestone.platform_fee,
+      'completed',
+      milestone.paypal_order_id
+    );
+  END IF;
+
+  RETURN milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_payment_milestone(
+  application_id UUID,
+  milestone_title TEXT,
+  milestone_amount DECIMAL,
+  milestone_description TEXT DEFAULT NULL,
+  milestone_due_date DATE DEFAULT NULL
+)
+RETURNS payment_milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application RECORD;
+  milestone payment_milestones%ROWTYPE;
+BEGIN
+  SELECT ja.id, ja.job_seeker_id, ja.status, jp.employer_id
+  INTO application
+  FROM job_applications ja
+  JOIN job_posts jp ON jp.id = ja.job_post_id
+  WHERE ja.id = application_id;
+
+  IF NOT FOUND OR application.employer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF application.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Milestones can only be added to accepted applications';
+  END IF;
+
+  IF milestone_amount IS NULL OR milestone_amount <= 0 THEN
+    RAISE EXCEPTION 'Milestone amount must be greater than zero';
+  END IF;
+
+  INSERT INTO payment_milestones (
+    job_application_id,
+    employer_id,
+    job_seeker_id,
+    title,
+    description,
+    amount,
+    platform_fee,
+    due_date
+  )
+  VALUES (
+    application.id,
+    application.employer_id,
+    application.job_seeker_id,
+    trim(milestone_title),
+    nullif(trim(milestone_description), ''),
+    round(milestone_amount, 2),
+    payment_platform_fee(round(milestone_amount, 2)),
+    milestone_due_date
+  )
+  RETURNING * INTO milestone;
+
+  INSERT INTO payment_ledger (milestone_id, job_application_id, event, to_status, amount, actor_id)
+  VALUES (milestone.id, milestone.job_application_id, 'created', 'draft', milestone.amount, auth.uid());
+
+  RETURN milestone;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_payment_milestone(UUID, TEXT, DECIMAL, TEXT, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION transition_payment_milestone(UUID, TEXT, TEXT, VARCHAR) TO authenticated;
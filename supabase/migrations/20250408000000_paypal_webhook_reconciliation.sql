@@ -0,0 +1,244 @@
+-- Server-side PayPal capture tracking.
+--
+-- PayPal webhooks (handled by the paypal-webhook edge function) are now the
+-- only way a milestone becomes funded, so a closed tab can no longer lose a
+-- payment and a client can no longer record one that never happened.
+-- payment_transactions holds one row per PayPal capture, keyed by the capture
+-- id, and is only written with the service role.
+
+ALTER TABLE payment_transactions
+  ADD COLUMN IF NOT EXISTS milestone_id UUID REFERENCES payment_milestones(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS paypal_order_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS paypal_capture_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS gross_amount DECIMAL(10,2),
+  ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_event_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS captured_at TIMESTAMPTZ;
+
+-- Webhook upserts are keyed on the capture so redelivered events are no-ops
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_transactions_paypal_capture_id
+  ON payment_transactions(paypal_capture_id);
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_milestone_id ON payment_transactions(milestone_id);
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_captured_at ON payment_transactions(captured_at);
+
+CREATE TRIGGER update_payment_transactions_updated_at
+  BEFORE UPDATE ON payment_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Every webhook delivery we accepted, keyed by PayPal's event id
+CREATE TABLE IF NOT EXISTS paypal_webhook_events (
+  id VARCHAR(255) PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  resource_id VARCHAR(255),
+  payload JSONB NOT NULL,
+  received_at TIMESTAMPTZ DEFAULT now(),
+  processed_at TIMESTAMPTZ,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_paypal_webhook_events_resource_id ON paypal_webhook_events(resource_id);
+
+-- Output of the nightly paypal-reconcile run
+CREATE TABLE IF NOT EXISTS payment_reconciliation_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  paypal_count INTEGER NOT NULL DEFAULT 0,
+  local_count INTEGER NOT NULL DEFAULT 0,
+  mismatch_count INTEGER NOT NULL DEFAULT 0,
+  -- [{ capture_id, kind, paypal, local }]
+  mismatches JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_reports_created_at
+  ON payment_reconciliation_reports(created_at DESC);
+
+-- RLS: webhook events and reports are admin-only reads; writes use the service role
+ALTER TABLE paypal_webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_reconciliation_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view PayPal webhook events"
+ON paypal_webhook_events FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE POLICY "Admins can view reconciliation reports"
+ON payment_reconciliation_reports FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE POLICY "Admins can view all transactions"
+ON payment_transactions FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+-- Same state machine as before, with two changes:
+--   * funding comes only from the service role (a verified PayPal capture)
+--   * the service role may also record a refund PayPal reports
+-- Releases and refunds now update the milestone's capture row instead of
+-- inserting a second transaction.
+CREATE OR REPLACE FUNCTION transition_payment_milestone(
+  target_milestone_id UUID,
+  next_status TEXT,
+  transition_note TEXT DEFAULT NULL,
+  paypal_reference VARCHAR DEFAULT NULL
+)
+RETURNS payment_milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  milestone payment_milestones%ROWTYPE;
+  caller UUID := auth.uid();
+  caller_is_admin BOOLEAN := is_admin(auth.uid());
+  caller_is_service BOOLEAN := coalesce(auth.role(), '') = 'service_role';
+  allowed BOOLEAN;
+  previous_status TEXT;
+BEGIN
+  SELECT * INTO milestone
+  FROM payment_milestones
+  WHERE id = target_milestone_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found';
+  END IF;
+
+  previous_status := milestone.status;
+
+  allowed := CASE next_status
+    WHEN 'funded' THEN milestone.status = 'draft' AND caller_is_service
+    WHEN 'cancelled' THEN milestone.status = 'draft' AND caller = milestone.employer_id
+    WHEN 'delivered' THEN milestone.status = 'funded' AND caller = milestone.job_seeker_id
+    WHEN 'disputed' THEN milestone.status IN ('funded', 'delivered')
+      AND caller IN (milestone.employer_id, milestone.job_seeker_id)
+    -- Employers release their own escrow; disputed funds are settled by an admin
+    WHEN 'released' THEN
+      (milestone.status IN ('funded', 'delivered') AND caller = milestone.employer_id)
+      OR (milestone.status = 'disputed' AND caller_is_admin)
+    -- Only the payee may hand back undisputed funds
+    WHEN 'refunded' THEN
+      (milestone.status IN ('funded', 'delivered') AND caller = milestone.job_seeker_id)
+      OR (milestone.status = 'disputed' AND caller_is_admin)
+      OR (milestone.status IN ('funded', 'delivered', 'disputed') AND caller_is_service)
+    ELSE false
+  END;
+
+  IF NOT allowed THEN
+    RAISE EXCEPTION 'Cannot move milestone from % to %', milestone.status, next_status;
+  END IF;
+
+  IF next_status = 'funded' AND coalesce(trim(paypal_reference), '') = '' THEN
+    RAISE EXCEPTION 'A PayPal order is required to fund a milestone';
+  END IF;
+
+  IF next_status = 'disputed' AND coalesce(trim(transition_note), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to open a dispute';
+  END IF;
+
+  UPDATE payment_milestones
+  SET
+    status = next_status,
+    paypal_order_id = CASE WHEN next_status = 'funded' THEN paypal_reference ELSE paypal_order_id END,
+    funded_at = CASE WHEN next_status = 'funded' THEN now() ELSE funded_at END,
+    delivered_at = CASE WHEN next_status = 'delivered' THEN now() ELSE delivered_at END,
+    closed_at = CASE WHEN next_status IN ('released', 'refunded', 'cancelled') THEN now() ELSE closed_at END
+  WHERE id = milestone.id
+  RETURNING * INTO milestone;
+
+  INSERT INTO payment_ledger (
+    milestone_id,
+    job_application_id,
+    event,
+    from_status,
+    to_status,
+    amount,
+    platform_fee,
+    paypal_reference,
+    note,
+    actor_id
+  )
+  VALUES (
+    milestone.id,
+    milestone.job_application_id,
+    next_status,
+    previous_status,
+    next_status,
+    milestone.amount,
+    -- Fees are recorded on the entries where money moves
+    CASE WHEN next_status IN ('funded', 'released', 'refunded') THEN milestone.platform_fee ELSE 0 END,
+    coalesce(paypal_reference, milestone.paypal_order_id),
+    nullif(trim(transition_note), ''),
+    caller
+  );
+
+  -- Released milestones become completed transactions for payouts. A refund
+  -- requested in the app stays pending until PayPal reports it.
+  IF next_status = 'released' THEN
+    UPDATE payment_transactions
+    SET status = 'completed'
+    WHERE milestone_id = milestone.id
+    AND status = 'captured';
+
+    -- Milestones funded before webhooks existed have no capture row
+    IF NOT FOUND THEN
+      INSERT INTO payment_transactions (
+        job_application_id,
+        milestone_id,
+        employer_id,
+        jobseeker_id,
+        amount,
+        platform_fee,
+        status,
+        paypal_transaction_id,
+        paypal_order_id
+      )
+      VALUES (
+        milestone.job_application_id,
+        milestone.id,
+        milestone.employer_id,
+        milestone.job_seeker_id,
+        milestone.amount,
+        milestone.platform_fee,
+        'completed',
+        milestone.paypal_order_id,
+        milestone.paypal_order_id
+      );
+    END IF;
+  ELSIF next_status = 'refunded' AND NOT caller_is_service THEN
+    UPDATE payment_transactions
+    SET status = 'refund_pending'
+    WHERE milestone_id = milestone.id
+    AND status = 'captured';
+  END IF;
+
+  RETURN milestone;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_payment_milestone(UUID, TEXT, TEXT, VARCHAR) TO authenticated, service_role;
+
+-- Let the app pick up a milestone funded by a webhook without polling
+ALTER PUBLICATION supabase_realtime ADD TABLE payment_milestones;
@@ -0,0 +1,119 @@
+-- Payout accounts and job seeker earnings.
+--
+-- is_verified on payment_accounts is now only set by the
+-- paypal-email-verification edge function, after the job seeker enters a code
+-- emailed to their PayPal address. Changing the address clears it.
+
+-- Pending codes live apart from payment_accounts so clients can never read them
+CREATE TABLE IF NOT EXISTS payment_account_verifications (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  paypal_email VARCHAR(255) NOT NULL,
+  code_hash TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+ALTER TABLE payment_account_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Wrong codes, kept apart from the pending code so that sending a new code
+-- does not reset the daily limit
+CREATE TABLE IF NOT EXISTS payment_account_verification_failures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  paypal_email VARCHAR(255) NOT NULL,
+  failed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_account_verification_failures_user_id
+  ON payment_account_verification_failures(user_id, failed_at);
+
+ALTER TABLE payment_account_verification_failures ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE payment_accounts
+  ADD COLUMN IF NOT EXISTS verified_at TIMESTAMPTZ;
+
+-- Users with more than one account row keep one: the verified row if there
+-- is one, otherwise the most recently updated
+DELETE FROM payment_accounts pa
+USING (
+  SELECT
+    id,
+    ROW_NUMBER() OVER (
+      PARTITION BY user_id
+      ORDER BY is_verified DESC NULLS LAST, updated_at DESC NULLS LAST, created_at DESC NULLS LAST, id
+    ) AS rank
+  FROM payment_accounts
+  WHERE user_id IS NOT NULL
+) ranked
+WHERE pa.id = ranked.id
+AND ranked.rank > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_accounts_user_id ON payment_accounts(user_id);
+
+-- The original policies had no INSERT, so first-time saves always failed
+CREATE POLICY "Users can create their own payment account"
+    ON payment_accounts FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- SECURITY DEFINER so the pending code can be cleared despite RLS
+CREATE OR REPLACE FUNCTION protect_payment_account_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.paypal_email IS NOT DISTINCT FROM OLD.paypal_email THEN
+    NEW.is_verified := OLD.is_verified;
+    NEW.verified_at := OLD.verified_at;
+  ELSE
+    NEW.is_verified := false;
+    NEW.verified_at := NULL;
+  END IF;
+
+  -- A code sent to the old address must not verify the new one
+  IF TG_OP = 'UPDATE' AND NEW.paypal_email IS DISTINCT FROM OLD.paypal_email THEN
+    DELETE FROM payment_account_verifications WHERE user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_payment_account_verification
+  BEFORE INSERT OR UPDATE ON payment_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_payment_account_verification();
+
+-- When the job seeker was actually paid, for earnings and monthly statements
+ALTER TABLE payment_transactions
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ;
+
+UPDATE payment_transactions
+SET paid_at = updated_at
+WHERE status = 'completed'
+AND paid_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_jobseeker_id ON payment_transactions(jobseeker_id, paid_at);
+
+CREATE OR REPLACE FUNCTION set_payment_transaction_paid_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    NEW.paid_at := coalesce(NEW.paid_at, now());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_payment_transaction_paid_at
+  BEFORE INSERT OR UPDATE ON payment_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_payment_transaction_paid_at();
@@ -0,0 +1,18 @@
+-- Identity documents beyond the NBI Clearance.
+--
+-- Both verification request tables record which registered document type was
+-- uploaded (see src/utils/identityDocuments) and what the client extracted
+-- from it, so admins can review the fields next to the document.
+
+ALTER TABLE admin_verification_requests
+  ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'nbi_clearance',
+  ADD COLUMN IF NOT EXISTS extracted_data JSONB;
+
+-- Employer requests used to carry the ID type in admin_notes only
+ALTER TABLE employer_verification_requests
+  ADD COLUMN IF NOT EXISTS document_type TEXT NOT NULL DEFAULT 'other_government_id',
+  ADD COLUMN IF NOT EXISTS extracted_data JSONB;
+
+-- Which document type a profile was verified with, next to verification_document
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS verification_document_type TEXT;
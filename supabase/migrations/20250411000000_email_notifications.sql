@@ -0,0 +1,191 @@
+-- Outbound email notifications.
+--
+-- Events that deserve an email are written to email_queue by the triggers
+-- below. The email-worker edge function drains the queue, checks the
+-- recipient's user_settings / employer_notification_settings at send time and
+-- either sends the email, holds it for the recipient's daily or weekly digest,
+-- or skips it. Only the service role reads or writes the queue.
+
+-- How often a user wants email: every event, or one digest a day / week
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS email_digest TEXT NOT NULL DEFAULT 'instant'
+    CHECK (email_digest IN ('instant', 'daily', 'weekly'));
+
+-- Employers keep their preferences in the settings JSON, as emailDigest
+ALTER TABLE employer_notification_settings
+  ALTER COLUMN settings SET DEFAULT '{
+    "newApplications": true,
+    "candidateMessages": true,
+    "jobAlerts": true,
+    "marketingEmails": false,
+    "emailDigest": "instant"
+  }';
+
+CREATE TABLE IF NOT EXISTS email_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Template name, see supabase/functions/_shared/emailTemplates.ts
+  template TEXT NOT NULL,
+  -- Which preference governs the email; 'account' emails are always sent
+  category TEXT NOT NULL
+    CHECK (category IN ('application_update', 'new_application', 'message', 'job_alert', 'marketing', 'account')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'failed')),
+  -- Set once the email has been held for a digest; it is then sent with the
+  -- rest of that digest when send_after passes
+  digest TEXT CHECK (digest IN ('daily', 'weekly')),
+  send_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_queue_due ON email_queue(send_after) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_email_queue_user_id ON email_queue(user_id, created_at DESC);
+
+CREATE TRIGGER update_email_queue_updated_at
+  BEFORE UPDATE ON email_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE email_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the email queue"
+ON email_queue FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE OR REPLACE FUNCTION queue_email(
+  p_user_id UUID,
+  p_template TEXT,
+  p_category TEXT,
+  p_payload JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO email_queue (user_id, template, category, payload)
+  VALUES (p_user_id, p_template, p_category, coalesce(p_payload, '{}'))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+-- Only triggers and the service role queue email; clients could otherwise mail anyone
+REVOKE EXECUTE ON FUNCTION queue_email(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Claims due emails for one worker run. SKIP LOCKED lets overlapping runs
+-- share the queue without sending anything twice. Rows left in 'sending' by a
+-- run that died are picked up again after 15 minutes.
+CREATE OR REPLACE FUNCTION claim_email_queue(p_limit INTEGER DEFAULT 100)
+RETURNS SETOF email_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_queue q
+  SET status = 'sending',
+      attempts = q.attempts + 1
+  WHERE q.id IN (
+    SELECT id FROM email_queue
+    WHERE (status = 'pending' AND send_after <= now())
+    OR (status = 'sending' AND updated_at < now() - INTERVAL '15 minutes')
+    ORDER BY send_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_email_queue(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- In-app notifications that also go out by email. The client writes details
+-- to metadata and the original application trigger to data, so read whichever
+-- the row has.
+CREATE OR REPLACE FUNCTION queue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payload JSONB;
+BEGIN
+  v_payload := jsonb_build_object('message', NEW.message)
+    || coalesce(nullif(to_jsonb(NEW)->'metadata', 'null'), nullif(to_jsonb(NEW)->'data', 'null'), '{}');
+
+  IF NEW.type = 'new_application' THEN
+    PERFORM queue_email(NEW.user_id, 'new_application', 'new_application', v_payload);
+  ELSIF NEW.type = 'application_status' THEN
+    PERFORM queue_email(NEW.user_id, 'application_update', 'application_update', v_payload);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_notification_email
+  AFTER INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_notification_email();
+
+-- One email per unread burst: further messages in the same conversation are
+-- not queued while an earlier one is still waiting to go out
+CREATE OR REPLACE FUNCTION queue_message_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sender_name TEXT;
+BEGIN
+  IF NEW.recipient_id IS NULL OR NEW.recipient_id = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM email_queue
+    WHERE user_id = NEW.recipient_id
+    AND template = 'new_message'
+    AND status = 'pending'
+    AND payload->>'conversation_id' = NEW.conversation_id::TEXT
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE id = NEW.sender_id;
+
+  PERFORM queue_email(NEW.recipient_id, 'new_message', 'message', jsonb_build_object(
+    'conversation_id', NEW.conversation_id,
+    'sender_id', NEW.sender_id,
+    'sender_name', coalesce(v_sender_name, 'Someone'),
+    'preview', left(coalesce(NEW.content, ''), 200)
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_message_email
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_message_email();
@@ -0,0 +1,406 @@
+-- One schema and one write path for in-app notifications.
+--
+-- The original table allowed type 'application' | 'system' and stored details
+-- in data, while the app wrote 'new_application' / 'application_status' rows
+-- with a metadata column straight from the browser. Notifications are now
+-- created only by the triggers below, through notify(), and type is one of the
+-- kinds in src/types/database.ts (AppNotification). Clients can read their
+-- notifications and mark them read, nothing else.
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+ALTER TABLE notifications
+  ALTER COLUMN title DROP NOT NULL;
+
+-- Fold the old data column into metadata
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'notifications' AND column_name = 'data'
+  ) THEN
+    UPDATE notifications SET metadata = data WHERE metadata IS NULL;
+    ALTER TABLE notifications DROP COLUMN data;
+  END IF;
+END;
+$$;
+
+UPDATE notifications SET metadata = '{}' WHERE metadata IS NULL;
+
+ALTER TABLE notifications
+  ALTER COLUMN metadata SET DEFAULT '{}',
+  ALTER COLUMN metadata SET NOT NULL;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+UPDATE notifications SET type = 'application_submitted' WHERE type IN ('new_application', 'application');
+UPDATE notifications SET type = 'application_status_changed' WHERE type = 'application_status';
+-- Anything else becomes a generic 'system' notice. The old type is kept in
+-- metadata so nothing is lost.
+UPDATE notifications
+SET
+  metadata = metadata || jsonb_build_object('legacy_type', type),
+  type = 'system'
+WHERE type NOT IN ('application_submitted', 'application_status_changed');
+
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'application_submitted',
+    'application_status_changed',
+    'message_received',
+    'verification_decided',
+    'payment_released',
+    'report_resolved',
+    'system'
+  ));
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+REVOKE INSERT, DELETE ON notifications FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_message TEXT,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, metadata)
+  VALUES (p_user_id, p_type, p_title, p_message, coalesce(p_metadata, '{}'))
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- application_submitted: to the employer who owns the job post
+CREATE OR REPLACE FUNCTION public.handle_new_application()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job job_posts%ROWTYPE;
+  v_applicant_name TEXT;
+BEGIN
+  SELECT * INTO v_job FROM job_posts WHERE id = NEW.job_post_id;
+  SELECT full_name INTO v_applicant_name FROM profiles WHERE id = NEW.job_seeker_id;
+  v_applicant_name := coalesce(v_applicant_name, 'An applicant');
+
+  PERFORM notify(
+    v_job.employer_id,
+    'application_submitted',
+    'New Job Application',
+    format('New application received from %s for "%s"', v_applicant_name, v_job.title),
+    jsonb_build_object(
+      'application_id', NEW.id,
+      'job_post_id', NEW.job_post_id,
+      'job_title', v_job.title,
+      'applicant_id', NEW.job_seeker_id,
+      'applicant_name', v_applicant_name
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_new_application ON job_applications;
+
+CREATE TRIGGER on_new_application
+  AFTER INSERT ON job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_application();
+
+-- application_status_changed: to the job seeker, once per update even when
+-- a stage move also changes the legacy status
+CREATE OR REPLACE FUNCTION notify_application_status_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job_title TEXT;
+  v_stage pipeline_stages%ROWTYPE;
+  v_message TEXT;
+BEGIN
+  IF NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT title INTO v_job_title FROM job_posts WHERE id = NEW.job_post_id;
+  SELECT * INTO v_stage FROM pipeline_stages WHERE id = NEW.stage_id;
+
+  v_message := CASE
+    WHEN v_stage.id IS NULL OR NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id THEN
+      format('Your application for "%s" has been %s', v_job_title, NEW.status)
+    WHEN v_stage.outcome = 'hired' THEN
+      format('Congratulations! You have been moved to "%s" for "%s".', v_stage.name, v_job_title)
+    WHEN v_stage.outcome = 'rejected' THEN
+      format('Your application for "%s" has been moved to "%s".', v_job_title, v_stage.name)
+    ELSE
+      format('Your application for "%s" is now at the "%s" stage.', v_job_title, v_stage.name)
+  END;
+
+  PERFORM notify(
+    NEW.job_seeker_id,
+    'application_status_changed',
+    'Application Update',
+    v_message,
+    jsonb_build_object(
+      'application_id', NEW.id,
+      'job_post_id', NEW.job_post_id,
+      'job_title', v_job_title,
+      'status', NEW.status,
+      'stage_id', v_stage.id,
+      'stage_name', v_stage.name,
+      'outcome', v_stage.outcome
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_application_status_changed
+  AFTER UPDATE OF status, stage_id ON job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_application_status_changed();
+
+-- message_received: one unread notification per conversation, refreshed with
+-- the latest message instead of stacking up
+CREATE OR REPLACE FUNCTION notify_message_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id UUID;
+  v_sender_name TEXT;
+  v_metadata JSONB;
+  v_message TEXT;
+BEGIN
+  v_recipient_id := coalesce(NEW.recipient_id, (
+    SELECT CASE WHEN user1_id = NEW.sender_id THEN user2_id ELSE user1_id END
+    FROM conversations
+    WHERE id = NEW.conversation_id
+  ));
+
+  IF v_recipient_id IS NULL OR v_recipient_id = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE id = NEW.sender_id;
+  v_sender_name := coalesce(v_sender_name, 'Someone');
+  v_message := format('New message from %s', v_sender_name);
+  v_metadata := jsonb_build_object(
+    'conversation_id', NEW.conversation_id,
+    'message_id', NEW.id,
+    'sender_id', NEW.sender_id,
+    'sender_name', v_sender_name,
+    'preview', left(coalesce(NEW.content, ''), 200)
+  );
+
+  UPDATE notifications
+  SET message = v_message,
+      metadata = v_metadata,
+      created_at = now()
+  WHERE user_id = v_recipient_id
+  AND type = 'message_received'
+  AND read = false
+  AND metadata->>'conversation_id' = NEW.conversation_id::TEXT;
+
+  IF NOT FOUND THEN
+    PERFORM notify(v_recipient_id, 'message_received', 'New Message', v_message, v_metadata);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_message_received
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_message_received();
+
+-- verification_decided: job seeker (admin_verification_requests) and
+-- employer (employer_verification_requests) reviews
+CREATE OR REPLACE FUNCTION notify_verification_decided()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_audience TEXT;
+BEGIN
+  IF NEW.status NOT IN ('approved', 'rejected') OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'employer_verification_requests' THEN
+    v_user_id := (to_jsonb(NEW)->>'employer_id')::UUID;
+    v_audience := 'employer';
+  ELSE
+    v_user_id := (to_jsonb(NEW)->>'user_id')::UUID;
+    v_audience := 'job_seeker';
+  END IF;
+
+  PERFORM notify(
+    v_user_id,
+    'verification_decided',
+    'Verification Update',
+    CASE NEW.status
+      WHEN 'approved' THEN 'Your identity verification was approved'
+      ELSE 'Your identity verification was not approved'
+    END,
+    jsonb_build_object(
+      'request_id', NEW.id,
+      'audience', v_audience,
+      'status', NEW.status,
+      'document_type', NEW.document_type,
+      'admin_notes', NEW.admin_notes
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_verification_decided
+  AFTER UPDATE OF status ON admin_verification_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_verification_decided();
+
+CREATE TRIGGER notify_verification_decided
+  AFTER UPDATE OF status ON employer_verification_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_verification_decided();
+
+-- payment_released: to the job seeker when a milestone is released to them
+CREATE OR REPLACE FUNCTION notify_payment_released()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'released' OR OLD.status = 'released' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM notify(
+    NEW.job_seeker_id,
+    'payment_released',
+    'Payment Released',
+    format('%s %s was released for "%s"', NEW.currency, to_char(NEW.amount, 'FM999,999,990.00'), NEW.title),
+    jsonb_build_object(
+      'milestone_id', NEW.id,
+      'application_id', NEW.job_application_id,
+      'title', NEW.title,
+      'amount', NEW.amount,
+      'currency', NEW.currency
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_payment_released
+  AFTER UPDATE OF status ON payment_milestones
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_payment_released();
+
+-- report_resolved: to whoever filed the report
+CREATE OR REPLACE FUNCTION notify_report_resolved()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN ('resolved', 'dismissed') OR NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM notify(
+    NEW.reporter_id,
+    'report_resolved',
+    'Report Reviewed',
+    CASE NEW.status
+      WHEN 'resolved' THEN 'Your report has been reviewed and action was taken'
+      ELSE 'Your report has been reviewed and dismissed'
+    END,
+    jsonb_build_object(
+      'report_id', NEW.id,
+      'target_type', NEW.target_type,
+      'status', NEW.status,
+      'admin_notes', NEW.admin_notes
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_report_resolved
+  AFTER UPDATE OF status ON reports
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_report_resolved();
+
+-- Emails now follow the notification kinds. Messages no longer queue their
+-- own email: the first unread message_received notification of a
+-- conversation does.
+DROP TRIGGER IF EXISTS queue_message_email ON messages;
+DROP FUNCTION IF EXISTS queue_message_email();
+
+CREATE OR REPLACE FUNCTION queue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payload JSONB := jsonb_build_object('message', NEW.message) || NEW.metadata;
+BEGIN
+  CASE NEW.type
+    WHEN 'application_submitted' THEN
+      PERFORM queue_email(NEW.user_id, 'new_application', 'new_application', v_payload);
+    WHEN 'application_status_changed' THEN
+      PERFORM queue_email(NEW.user_id, 'application_update', 'application_update', v_payload);
+    WHEN 'message_received' THEN
+      PERFORM queue_email(NEW.user_id, 'new_message', 'message', v_payload);
+    WHEN 'verification_decided' THEN
+      PERFORM queue_email(NEW.user_id, 'verification_decided', 'account', v_payload);
+    WHEN 'payment_released' THEN
+      PERFORM queue_email(NEW.user_id, 'payment_released', 'account', v_payload);
+    WHEN 'report_resolved' THEN
+      PERFORM queue_email(NEW.user_id, 'report_resolved', 'account', v_payload);
+    -- 'system' notices are in-app only
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,256 @@
+-- Saved job searches with new-match alerts.
+--
+-- A job seeker saves the filters of a JobPostsList search. When a job post
+-- becomes active, every saved search it matches (through filter_job_posts, so
+-- alerts agree with the search results) records the match. Matches are then
+-- announced as one job_alert notification and/or email per search: right away
+-- for 'instant' searches, and by send_saved_search_alerts() on a schedule for
+-- 'daily' and 'weekly' ones.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  -- JobSearchFilters from src/types/search.ts
+  filters JSONB NOT NULL DEFAULT '{}',
+  frequency TEXT NOT NULL DEFAULT 'instant'
+    CHECK (frequency IN ('instant', 'daily', 'weekly')),
+  notify_in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  notify_email BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Daily and weekly alerts are due one period after the previous alert
+  last_alerted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id, created_at DESC);
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+  ON saved_searches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved searches"
+  ON saved_searches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- One row per (search, post) so a post that is deactivated and activated
+-- again is not announced twice. alerted_at is set once the match was sent.
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  job_post_id UUID NOT NULL REFERENCES job_posts(id) ON DELETE CASCADE,
+  matched_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  alerted_at TIMESTAMPTZ,
+  PRIMARY KEY (saved_search_id, job_post_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending
+  ON saved_search_matches(saved_search_id) WHERE alerted_at IS NULL;
+
+-- Written by the triggers below only
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+-- The notification kind for alerts
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'application_submitted',
+    'application_status_changed',
+    'message_received',
+    'verification_decided',
+    'payment_released',
+    'report_resolved',
+    'system',
+    'job_alert'
+  ));
+
+-- Announces the unalerted matches of due searches: every search with
+-- p_search_id, or else the instant searches and the daily and weekly searches
+-- whose period has passed.
+-- Returns the number of alerts sent.
+CREATE OR REPLACE FUNCTION send_saved_search_alerts(p_search_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search RECORD;
+  v_post_ids UUID[];
+  v_titles TEXT[];
+  v_message TEXT;
+  v_metadata JSONB;
+  v_sent INTEGER := 0;
+BEGIN
+  FOR v_search IN
+    SELECT s.*
+    FROM saved_searches s
+    WHERE CASE
+        WHEN p_search_id IS NOT NULL THEN s.id = p_search_id
+        WHEN s.frequency = 'daily' THEN s.last_alerted_at <= now() - INTERVAL '1 day'
+        WHEN s.frequency = 'weekly' THEN s.last_alerted_at <= now() - INTERVAL '7 days'
+        -- Instant matches left over from a skipped lock
+        ELSE TRUE
+      END
+      AND EXISTS (
+        SELECT 1 FROM saved_search_matches m
+        WHERE m.saved_search_id = s.id AND m.alerted_at IS NULL
+      )
+    FOR UPDATE OF s SKIP LOCKED
+  LOOP
+    -- Posts closed since they matched are left out
+    SELECT
+      array_agg(jp.id ORDER BY m.matched_at DESC),
+      array_agg(jp.title ORDER BY m.matched_at DESC)
+    INTO v_post_ids, v_titles
+    FROM saved_search_matches m
+    JOIN job_posts jp ON jp.id = m.job_post_id AND jp.status = 'active'
+    WHERE m.saved_search_id = v_search.id AND m.alerted_at IS NULL;
+
+    UPDATE saved_search_matches
+    SET alerted_at = now()
+    WHERE saved_search_id = v_search.id AND alerted_at IS NULL;
+
+    UPDATE saved_searches
+    SET last_alerted_at = now()
+    WHERE id = v_search.id;
+
+    CONTINUE WHEN v_post_ids IS NULL;
+
+    v_message := CASE
+      WHEN cardinality(v_post_ids) = 1 THEN
+        format('New job matching "%s": %s', v_search.name, v_titles[1])
+      ELSE
+        format('%s new jobs match "%s"', cardinality(v_post_ids), v_search.name)
+    END;
+
+    v_metadata := jsonb_build_object(
+      'saved_search_id', v_search.id,
+      'search_name', v_search.name,
+      'match_count', cardinality(v_post_ids),
+      'job_post_ids', to_jsonb(v_post_ids[1:10]),
+      'job_titles', to_jsonb(v_titles[1:10])
+    );
+
+    IF v_search.notify_in_app THEN
+      PERFORM notify(v_search.user_id, 'job_alert', 'Job alert', v_message, v_metadata);
+    END IF;
+
+    -- The email still goes through the user's email settings and digest
+    IF v_search.notify_email THEN
+      PERFORM queue_email(
+        v_search.user_id,
+        'job_alert',
+        'job_alert',
+        jsonb_build_object('message', v_message) || v_metadata
+      );
+    END IF;
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_saved_search_alerts(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Records the searches a newly active post matches and alerts the instant ones
+CREATE OR REPLACE FUNCTION match_saved_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search_id UUID;
+BEGIN
+  IF NEW.status <> 'active' OR (TG_OP = 'UPDATE' AND OLD.status = 'active') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO saved_search_matches (saved_search_id, job_post_id)
+  SELECT s.id, NEW.id
+  FROM saved_searches s
+  WHERE s.user_id <> NEW.employer_id
+    AND EXISTS (
+      SELECT 1 FROM filter_job_posts(
+        s.filters->>'query',
+        s.filters->>'category',
+        s.filters->>'job_type',
+        s.filters->>'experience_level',
+        s.filters->>'location',
+        s.filters->>'budget_range',
+        ARRAY[NEW.id]
+      )
+    )
+  ON CONFLICT (saved_search_id, job_post_id) DO NOTHING;
+
+  FOR v_search_id IN
+    SELECT s.id
+    FROM saved_search_matches m
+    JOIN saved_searches s ON s.id = m.saved_search_id
+    WHERE m.job_post_id = NEW.id
+      AND m.alerted_at IS NULL
+      AND s.frequency = 'instant'
+  LOOP
+    PERFORM send_saved_search_alerts(v_search_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS match_saved_searches ON job_posts;
+CREATE TRIGGER match_saved_searches
+  AFTER INSERT OR UPDATE OF status ON job_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION match_saved_searches();
+
+-- job_alert emails are queued by send_saved_search_alerts, which knows whether
+-- the search wants email at all
+CREATE OR REPLACE FUNCTION queue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payload JSONB := jsonb_build_object('message', NEW.message) || NEW.metadata;
+BEGIN
+  CASE NEW.type
+    WHEN 'application_submitted' THEN
+      PERFORM queue_email(NEW.user_id, 'new_application', 'new_application', v_payload);
+    WHEN 'application_status_changed' THEN
+      PERFORM queue_email(NEW.user_id, 'application_update', 'application_update', v_payload);
+    WHEN 'message_received' THEN
+      PERFORM queue_email(NEW.user_id, 'new_message', 'message', v_payload);
+    WHEN 'verification_decided' THEN
+      PERFORM queue_email(NEW.user_id, 'verification_decided', 'account', v_payload);
+    WHEN 'payment_released' THEN
+      PERFORM queue_email(NEW.user_id, 'payment_released', 'account', v_payload);
+    WHEN 'report_resolved' THEN
+      PERFORM queue_email(NEW.user_id, 'report_resolved', 'account', v_payload);
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,212 @@
+-- Job post lifecycle: drafts, scheduled publishing, auto-expiry, an
+-- application cap and reposting.
+--
+--   draft ──▶ scheduled ──▶ active ──▶ closed ──▶ (repost: a new post)
+--     └────────────────────────▲
+--
+-- Only 'active' posts are searchable and accept applications. A scheduled post
+-- goes live at publish_at and every post closes once its end_date has passed,
+-- both through run_job_post_lifecycle() on a schedule. A post with
+-- max_applications closes itself when the last allowed application arrives.
+-- Reposting copies a closed post into a new one, so the old post keeps its
+-- applications, pipeline and conversations.
+
+-- Anything outside the known statuses was never shown; treat it as closed
+UPDATE job_posts
+SET status = 'closed'
+WHERE status NOT IN ('draft', 'active', 'closed', 'deleted');
+
+ALTER TABLE job_posts
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS max_applications INTEGER
+    CHECK (max_applications IS NULL OR max_applications > 0),
+  ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS closed_reason TEXT
+    CHECK (closed_reason IN ('manual', 'expired', 'max_applications')),
+  ADD COLUMN IF NOT EXISTS reposted_from UUID REFERENCES job_posts(id) ON DELETE SET NULL;
+
+-- Drafts may be saved before the dates are picked
+ALTER TABLE job_posts
+  ALTER COLUMN start_date DROP NOT NULL,
+  ALTER COLUMN end_date DROP NOT NULL;
+
+ALTER TABLE job_posts DROP CONSTRAINT IF EXISTS job_posts_status_check;
+ALTER TABLE job_posts
+  ADD CONSTRAINT job_posts_status_check
+    CHECK (status IN ('draft', 'scheduled', 'active', 'closed', 'deleted'));
+
+ALTER TABLE job_posts DROP CONSTRAINT IF EXISTS job_posts_lifecycle_check;
+ALTER TABLE job_posts
+  ADD CONSTRAINT job_posts_lifecycle_check CHECK (
+    status IN ('draft', 'deleted')
+    OR (
+      start_date IS NOT NULL
+      AND end_date IS NOT NULL
+      AND end_date >= start_date
+      AND (status <> 'scheduled' OR publish_at IS NOT NULL)
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_job_posts_publish_at ON job_posts(publish_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_job_posts_end_date ON job_posts(end_date) WHERE status IN ('active', 'scheduled');
+CREATE INDEX IF NOT EXISTS idx_job_posts_reposted_from ON job_posts(reposted_from);
+
+-- Keeps the lifecycle columns consistent on every status change
+CREATE OR REPLACE FUNCTION job_post_lifecycle_guard()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_application_count INTEGER;
+BEGIN
+  -- Scheduling for a time that has already come publishes right away
+  IF NEW.status = 'scheduled' AND NEW.publish_at <= now() THEN
+    NEW.status := 'active';
+  END IF;
+
+  IF NEW.status = 'active' AND (TG_OP = 'INSERT' OR OLD.status <> 'active') THEN
+    IF NEW.end_date < current_date THEN
+      RAISE EXCEPTION 'The end date of this job post has passed. Pick a new end date to publish it.';
+    END IF;
+
+    IF NEW.max_applications IS NOT NULL AND TG_OP = 'UPDATE' THEN
+      SELECT count(*) INTO v_application_count FROM job_applications WHERE job_post_id = NEW.id;
+      IF v_application_count >= NEW.max_applications THEN
+        RAISE EXCEPTION 'This job post already has % applications. Raise the limit to reopen it.', v_application_count;
+      END IF;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'closed' AND (TG_OP = 'INSERT' OR OLD.status <> 'closed') THEN
+    NEW.closed_at := now();
+    NEW.closed_reason := coalesce(NEW.closed_reason, 'manual');
+  ELSIF NEW.status <> 'closed' THEN
+    NEW.closed_at := NULL;
+    NEW.closed_reason := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS job_post_lifecycle_guard ON job_posts;
+CREATE TRIGGER job_post_lifecycle_guard
+  BEFORE INSERT OR UPDATE ON job_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION job_post_lifecycle_guard();
+
+-- Publishes due scheduled posts and closes posts past their end date.
+-- Run it every few minutes, see README-job-post-lifecycle.md.
+CREATE OR REPLACE FUNCTION run_job_post_lifecycle()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expired INTEGER;
+  v_published INTEGER;
+BEGIN
+  -- Expire first so a scheduled post whose end date passed is never published
+  UPDATE job_posts
+  SET status = 'closed', closed_reason = 'expired'
+  WHERE status IN ('active', 'scheduled')
+    AND end_date < current_date;
+  GET DIAGNOSTICS v_expired = ROW_COUNT;
+
+  UPDATE job_posts
+  SET status = 'active'
+  WHERE status = 'scheduled'
+    AND publish_at <= now();
+  GET DIAGNOSTICS v_published = ROW_COUNT;
+
+  RETURN jsonb_build_object('published', v_published, 'expired', v_expired);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION run_job_post_lifecycle() FROM PUBLIC, anon, authenticated;
+
+-- Only active posts take applications. The post row is locked so two
+-- applications cannot both take the last slot.
+CREATE OR REPLACE FUNCTION enforce_job_post_accepting_applications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job job_posts%ROWTYPE;
+  v_application_count INTEGER;
+BEGIN
+  SELECT * INTO v_job FROM job_posts WHERE id = NEW.job_post_id FOR UPDATE;
+
+  IF v_job.id IS NULL OR v_job.status <> 'active' OR v_job.end_date < current_date THEN
+    RAISE EXCEPTION 'This job is no longer accepting applications';
+  END IF;
+
+  IF v_job.max_applications IS NOT NULL THEN
+    SELECT count(*) INTO v_application_count FROM job_applications WHERE job_post_id = v_job.id;
+
+    IF v_application_count >= v_job.max_applications THEN
+      RAISE EXCEPTION 'This job is no longer accepting applications';
+    END IF;
+
+    IF v_application_count + 1 >= v_job.max_applications THEN
+      UPDATE job_posts
+      SET status = 'closed', closed_reason = 'max_applications'
+      WHERE id = v_job.id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_job_post_accepting_applications ON job_applications;
+CREATE TRIGGER enforce_job_post_accepting_applications
+  BEFORE INSERT ON job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_job_post_accepting_applications();
+
+-- Copies one of the caller's posts into a new post: active right away, or a
+-- draft to edit first. The dates move to today and keep the original length.
+CREATE OR REPLACE FUNCTION repost_job_post(p_job_post_id UUID, p_as_draft BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_job job_posts%ROWTYPE;
+  v_id UUID;
+BEGIN
+  SELECT * INTO v_job
+  FROM job_posts
+  WHERE id = p_job_post_id AND employer_id = auth.uid();
+
+  IF v_job.id IS NULL THEN
+    RAISE EXCEPTION 'Job post not found';
+  END IF;
+
+  INSERT INTO job_posts (
+    employer_id, company_name, company_logo_url, employer_avatar_url, employer_email,
+    title, category, description, budget, location, required_skills, experience_level,
+    work_schedule, additional_requirements, application_instructions, job_type,
+    payment_method, max_applications, start_date, end_date, status, reposted_from
+  )
+  VALUES (
+    v_job.employer_id, v_job.company_name, v_job.company_logo_url, v_job.employer_avatar_url, v_job.employer_email,
+    v_job.title, v_job.category, v_job.description, v_job.budget, v_job.location, v_job.required_skills, v_job.experience_level,
+    v_job.work_schedule, v_job.additional_requirements, v_job.application_instructions, v_job.job_type,
+    v_job.payment_method, v_job.max_applications,
+    current_date,
+    current_date + coalesce(v_job.end_date - v_job.start_date, 30),
+    CASE WHEN p_as_draft THEN 'draft' ELSE 'active' END,
+    v_job.id
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION repost_job_post(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,42 @@
+-- Rich-text job posts.
+--
+-- description, additional_requirements and application_instructions now hold
+-- sanitized HTML from the editor (src/utils/richText.ts). Older rows are plain
+-- text. Search indexes the text only, so markup and entities never become
+-- search terms.
+
+-- Plain-text version of stored rich text. Block tags become spaces so words in
+-- separate paragraphs or list items stay apart.
+CREATE OR REPLACE FUNCTION html_to_plain_text(p_html TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim(regexp_replace(
+    replace(replace(replace(replace(replace(replace(
+      regexp_replace(coalesce(p_html, ''), '<[^>]*>', ' ', 'g'),
+      '&nbsp;', ' '),
+      '&lt;', '<'),
+      '&gt;', '>'),
+      '&quot;', '"'),
+      '&#39;', ''''),
+      '&amp;', '&'),
+    '\s+', ' ', 'g'
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION job_posts_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(NEW.required_skills, '{}'::text[]), ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.company_name, '') || ' ' || coalesce(NEW.category, '')), 'B') ||
+    setweight(to_tsvector('english', html_to_plain_text(NEW.description)), 'C') ||
+    setweight(to_tsvector('english', html_to_plain_text(NEW.additional_requirements)), 'D');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Reindex existing rows
+UPDATE job_posts SET title = title;
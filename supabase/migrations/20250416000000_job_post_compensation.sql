@@ -0,0 +1,513 @@
+-- Structured compensation.
+--
+-- job_posts.budget and jobs.salary_range were free text ("₱15,000",
+-- "5000-8000/month"), so pay could not be filtered or sorted. Posts now carry
+-- a minimum, a maximum, a currency, a pay period and a negotiable flag. budget
+-- stays as the display label the client writes from those fields, for older
+-- readers. When an application is accepted, the post's compensation is
+-- copied onto it as the agreed compensation, and its payment milestones use
+-- that currency.
+
+ALTER TABLE job_posts
+  ADD COLUMN IF NOT EXISTS compensation_min NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS compensation_max NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS compensation_currency TEXT NOT NULL DEFAULT 'PHP',
+  ADD COLUMN IF NOT EXISTS compensation_period TEXT NOT NULL DEFAULT 'fixed',
+  ADD COLUMN IF NOT EXISTS compensation_negotiable BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS compensation_min NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS compensation_max NUMERIC(12, 2),
+  ADD COLUMN IF NOT EXISTS compensation_currency TEXT NOT NULL DEFAULT 'PHP',
+  ADD COLUMN IF NOT EXISTS compensation_period TEXT NOT NULL DEFAULT 'fixed',
+  ADD COLUMN IF NOT EXISTS compensation_negotiable BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE job_applications
+  ADD COLUMN IF NOT EXISTS agreed_compensation JSONB;
+
+-- Backfill from the free text: the first number is the minimum, a second
+-- number after "-", "–" or "to" is the maximum, "$"/"USD" means dollars and
+-- "hour", "day" or "month" sets the period. Text without a number becomes
+-- negotiable.
+CREATE OR REPLACE FUNCTION legacy_compensation(p_text TEXT)
+RETURNS TABLE (min_amount NUMERIC, max_amount NUMERIC, currency TEXT, period TEXT, negotiable BOOLEAN)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH parsed AS (
+    SELECT
+      job_post_budget_amount(p_text) AS first_amount,
+      NULLIF(regexp_replace(
+        (regexp_match(p_text, '[0-9][0-9,]*(?:\.[0-9]+)?\s*(?:-|–|to)\s*[^0-9]*([0-9][0-9,]*(?:\.[0-9]+)?)', 'i'))[1],
+        ',', '', 'g'
+      ), '')::NUMERIC AS second_amount
+  )
+  SELECT
+    first_amount,
+    CASE WHEN second_amount >= first_amount THEN second_amount END,
+    CASE WHEN p_text ~* '(\$|\musd\M)' THEN 'USD' ELSE 'PHP' END,
+    CASE
+      WHEN p_text ~* '\m(hour|hourly|hr|hrs)\M' THEN 'hourly'
+      WHEN p_text ~* '\m(day|daily)\M' THEN 'daily'
+      WHEN p_text ~* '\m(month|monthly|mo)\M' THEN 'monthly'
+      ELSE 'fixed'
+    END,
+    first_amount IS NULL OR p_text ~* 'negotiable'
+  FROM parsed;
+$$;
+
+UPDATE job_posts
+SET (compensation_min, compensation_max, compensation_currency, compensation_period, compensation_negotiable) =
+  (SELECT * FROM legacy_compensation(budget));
+
+UPDATE jobs
+SET (compensation_min, compensation_max, compensation_currency, compensation_period, compensation_negotiable) =
+  (SELECT * FROM legacy_compensation(salary_range));
+
+DROP FUNCTION legacy_compensation(TEXT);
+
+ALTER TABLE job_posts DROP CONSTRAINT IF EXISTS job_posts_compensation_check;
+ALTER TABLE job_posts ADD CONSTRAINT job_posts_compensation_check CHECK (
+  compensation_currency IN ('PHP', 'USD')
+  AND compensation_period IN ('hourly', 'daily', 'fixed', 'monthly')
+  AND coalesce(compensation_min, 0) >= 0
+  AND (compensation_max IS NULL OR compensation_max >= coalesce(compensation_min, 0))
+  -- Anything past a draft states its pay or says it is negotiable
+  AND (
+    status = 'draft'
+    OR compensation_min IS NOT NULL
+    OR compensation_max IS NOT NULL
+    OR compensation_negotiable
+  )
+);
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_compensation_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_compensation_check CHECK (
+  compensation_currency IN ('PHP', 'USD')
+  AND compensation_period IN ('hourly', 'daily', 'fixed', 'monthly')
+  AND coalesce(compensation_min, 0) >= 0
+  AND (compensation_max IS NULL OR compensation_max >= coalesce(compensation_min, 0))
+);
+
+CREATE INDEX IF NOT EXISTS job_posts_compensation_idx
+  ON job_posts (compensation_currency, compensation_period, (coalesce(compensation_max, compensation_min)))
+  WHERE status = 'active';
+
+-- The compensation a post offers, in the shape stored on applications
+CREATE OR REPLACE FUNCTION job_post_compensation(p_post job_posts)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'min', p_post.compensation_min,
+    'max', p_post.compensation_max,
+    'currency', p_post.compensation_currency,
+    'period', p_post.compensation_period,
+    'negotiable', p_post.compensation_negotiable
+  );
+$$;
+
+-- Snapshots the post's compensation when an application is accepted, so later
+-- edits to the post do not change what was agreed. Named to run after
+-- sync_application_stage_trigger, which sets the status from the stage.
+CREATE OR REPLACE FUNCTION snapshot_agreed_compensation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND NEW.agreed_compensation IS NULL THEN
+    SELECT job_post_compensation(jp) INTO NEW.agreed_compensation
+    FROM job_posts jp
+    WHERE jp.id = NEW.job_post_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_application_terms_trigger ON job_applications;
+CREATE TRIGGER sync_application_terms_trigger
+  BEFORE INSERT OR UPDATE ON job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_agreed_compensation();
+
+UPDATE job_applications ja
+SET agreed_compensation = job_post_compensation(jp)
+FROM job_posts jp
+WHERE jp.id = ja.job_post_id
+  AND ja.status = 'accepted'
+  AND ja.agreed_compensation IS NULL;
+
+-- Milestones are paid in the agreed currency
+CREATE OR REPLACE FUNCTION create_payment_milestone(
+  application_id UUID,
+  milestone_title TEXT,
+  milestone_amount DECIMAL,
+  milestone_description TEXT DEFAULT NULL,
+  milestone_due_date DATE DEFAULT NULL
+)
+RETURNS payment_milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application RECORD;
+  milestone payment_milestones%ROWTYPE;
+BEGIN
+  SELECT ja.id, ja.job_seeker_id, ja.status, ja.agreed_compensation, jp.employer_id
+  INTO application
+  FROM job_applications ja
+  JOIN job_posts jp ON jp.id = ja.job_post_id
+  WHERE ja.id = application_id;
+
+  IF NOT FOUND OR application.employer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF application.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Milestones can only be added to accepted applications';
+  END IF;
+
+  IF milestone_amount IS NULL OR milestone_amount <= 0 THEN
+    RAISE EXCEPTION 'Milestone amount must be greater than zero';
+  END IF;
+
+  INSERT INTO payment_milestones (
+    job_application_id,
+    employer_id,
+    job_seeker_id,
+    title,
+    description,
+    amount,
+    platform_fee,
+    currency,
+    due_date
+  )
+  VALUES (
+    application.id,
+    application.employer_id,
+    application.job_seeker_id,
+    trim(milestone_title),
+    nullif(trim(milestone_description), ''),
+    round(milestone_amount, 2),
+    payment_platform_fee(round(milestone_amount, 2)),
+    coalesce(application.agreed_compensation->>'currency', 'USD'),
+    milestone_due_date
+  )
+  RETURNING * INTO milestone;
+
+  INSERT INTO payment_ledger (milestone_id, job_application_id, event, to_status, amount, actor_id)
+  VALUES (milestone.id, milestone.job_application_id, 'created', 'draft', milestone.amount, auth.uid());
+
+  RETURN milestone;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_payment_milestone(UUID, TEXT, DECIMAL, TEXT, DATE) TO authenticated;
+
+-- Reposts keep the compensation
+CREATE OR REPLACE FUNCTION repost_job_post(p_job_post_id UUID, p_as_draft BOOLEAN DEFAULT FALSE)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_job job_posts%ROWTYPE;
+  v_id UUID;
+BEGIN
+  SELECT * INTO v_job
+  FROM job_posts
+  WHERE id = p_job_post_id AND employer_id = auth.uid();
+
+  IF v_job.id IS NULL THEN
+    RAISE EXCEPTION 'Job post not found';
+  END IF;
+
+  INSERT INTO job_posts (
+    employer_id, company_name, company_logo_url, employer_avatar_url, employer_email,
+    title, category, description, budget, location, required_skills, experience_level,
+    work_schedule, additional_requirements, application_instructions, job_type,
+    payment_method, max_applications, start_date, end_date, status, reposted_from,
+    compensation_min, compensation_max, compensation_currency, compensation_period, compensation_negotiable
+  )
+  VALUES (
+    v_job.employer_id, v_job.company_name, v_job.company_logo_url, v_job.employer_avatar_url, v_job.employer_email,
+    v_job.title, v_job.category, v_job.description, v_job.budget, v_job.location, v_job.required_skills, v_job.experience_level,
+    v_job.work_schedule, v_job.additional_requirements, v_job.application_instructions, v_job.job_type,
+    v_job.payment_method, v_job.max_applications,
+    current_date,
+    current_date + coalesce(v_job.end_date - v_job.start_date, 30),
+    CASE WHEN p_as_draft THEN 'draft' ELSE 'active' END,
+    v_job.id,
+    v_job.compensation_min, v_job.compensation_max, v_job.compensation_currency,
+    v_job.compensation_period, v_job.compensation_negotiable
+  )
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION repost_job_post(UUID, BOOLEAN) TO authenticated;
+
+-- Search: the budget_range buckets guessed at free text. They are replaced by
+-- currency and pay period facets, a minimum pay filter and a pay sort.
+DROP FUNCTION IF EXISTS search_job_posts(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID[], INT, INT);
+DROP FUNCTION IF EXISTS job_post_search_facets(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID[]);
+DROP FUNCTION IF EXISTS filter_job_posts(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, UUID[]);
+DROP FUNCTION IF EXISTS job_post_budget_range(TEXT);
+DROP FUNCTION IF EXISTS job_post_budget_amount(TEXT);
+
+-- The most a post pays, used by the minimum pay filter and the pay sort
+CREATE OR REPLACE FUNCTION job_post_top_pay(p_post job_posts)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(p_post.compensation_max, p_post.compensation_min);
+$$;
+
+-- Active posts matching the query and filters, with a relevance rank.
+-- Skills are also matched by trigram similarity so "javscript" still finds "JavaScript".
+-- filter_min_pay compares amounts as stored, so pair it with a currency and period.
+CREATE OR REPLACE FUNCTION filter_job_posts(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_job_type TEXT DEFAULT NULL,
+  filter_experience_level TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_pay_currency TEXT DEFAULT NULL,
+  filter_pay_period TEXT DEFAULT NULL,
+  filter_min_pay NUMERIC DEFAULT NULL,
+  restrict_to_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (post job_posts, search_rank REAL)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      CASE WHEN coalesce(trim(search_query), '') = '' THEN NULL
+           ELSE websearch_to_tsquery('english', search_query)
+      END AS tsq,
+      CASE WHEN coalesce(trim(search_query), '') = '' THEN NULL
+           ELSE lower(trim(search_query))
+      END AS term
+  )
+  SELECT
+    jp,
+    CASE
+      WHEN q.term IS NULL THEN 0::REAL
+      ELSE (coalesce(ts_rank_cd(jp.search_vector, q.tsq), 0) + 0.5 * coalesce(fuzzy.score, 0))::REAL
+    END
+  FROM job_posts jp
+  CROSS JOIN q
+  LEFT JOIN LATERAL (
+    SELECT max(similarity(lower(skill), word)) AS score
+    FROM unnest(jp.required_skills) AS skill,
+         unnest(regexp_split_to_array(q.term, '\s+')) AS word
+    WHERE length(word) >= 3
+  ) fuzzy ON q.term IS NOT NULL
+  WHERE jp.status = 'active'
+    AND (q.term IS NULL OR jp.search_vector @@ q.tsq OR fuzzy.score >= 0.4)
+    AND (filter_category IS NULL OR jp.category = filter_category)
+    AND (filter_job_type IS NULL OR jp.job_type = filter_job_type)
+    AND (filter_experience_level IS NULL OR jp.experience_level = filter_experience_level)
+    AND (filter_location IS NULL OR jp.location = filter_location)
+    AND (filter_pay_currency IS NULL OR jp.compensation_currency = filter_pay_currency)
+    AND (filter_pay_period IS NULL OR jp.compensation_period = filter_pay_period)
+    AND (filter_min_pay IS NULL OR job_post_top_pay(jp) >= filter_min_pay)
+    AND (restrict_to_ids IS NULL OR jp.id = ANY(restrict_to_ids));
+$$;
+
+-- One page of results plus the total match count. sort_by is 'relevance'
+-- (the default), 'newest' or 'pay' (highest first, unstated pay last).
+CREATE OR REPLACE FUNCTION search_job_posts(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_job_type TEXT DEFAULT NULL,
+  filter_experience_level TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_pay_currency TEXT DEFAULT NULL,
+  filter_pay_period TEXT DEFAULT NULL,
+  filter_min_pay NUMERIC DEFAULT NULL,
+  restrict_to_ids UUID[] DEFAULT NULL,
+  sort_by TEXT DEFAULT 'relevance',
+  page_limit INT DEFAULT 10,
+  page_offset INT DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  WITH matches AS (
+    SELECT * FROM filter_job_posts(
+      search_query, filter_category, filter_job_type, filter_experience_level,
+      filter_location, filter_pay_currency, filter_pay_period, filter_min_pay, restrict_to_ids
+    )
+  ),
+  ordered AS (
+    SELECT
+      m.post,
+      m.search_rank,
+      row_number() OVER (
+        ORDER BY
+          CASE WHEN sort_by = 'pay' THEN job_post_top_pay(m.post) END DESC NULLS LAST,
+          CASE WHEN sort_by = 'newest' THEN 0 ELSE m.search_rank END DESC,
+          (m.post).created_at DESC
+      ) AS position
+    FROM matches m
+  ),
+  page AS (
+    SELECT * FROM ordered
+    ORDER BY position
+    LIMIT page_limit OFFSET page_offset
+  )
+  SELECT jsonb_build_object(
+    'total_count', (SELECT count(*) FROM matches),
+    'results', coalesce((
+      SELECT jsonb_agg(
+        (to_jsonb(p.post) - 'search_vector') || jsonb_build_object('search_rank', p.search_rank)
+        ORDER BY p.position
+      )
+      FROM page p
+    ), '[]'::jsonb)
+  );
+$$;
+
+-- Facet counts. Each facet ignores its own filter so the other values stay selectable.
+CREATE OR REPLACE FUNCTION job_post_search_facets(
+  search_query TEXT DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_job_type TEXT DEFAULT NULL,
+  filter_experience_level TEXT DEFAULT NULL,
+  filter_location TEXT DEFAULT NULL,
+  filter_pay_currency TEXT DEFAULT NULL,
+  filter_pay_period TEXT DEFAULT NULL,
+  filter_min_pay NUMERIC DEFAULT NULL,
+  restrict_to_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'category', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).category AS value, count(*) AS total
+        FROM filter_job_posts(search_query, NULL, filter_job_type, filter_experience_level, filter_location, filter_pay_currency, filter_pay_period, filter_min_pay, restrict_to_ids) f
+        WHERE coalesce((f.post).category, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'job_type', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).job_type AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, NULL, filter_experience_level, filter_location, filter_pay_currency, filter_pay_period, filter_min_pay, restrict_to_ids) f
+        WHERE coalesce((f.post).job_type, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'experience_level', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).experience_level AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, filter_job_type, NULL, filter_location, filter_pay_currency, filter_pay_period, filter_min_pay, restrict_to_ids) f
+        WHERE coalesce((f.post).experience_level, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'location', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).location AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, filter_job_type, filter_experience_level, NULL, filter_pay_currency, filter_pay_period, filter_min_pay, restrict_to_ids) f
+        WHERE coalesce((f.post).location, '') <> ''
+        GROUP BY 1
+      ) buckets
+    ),
+    'pay_currency', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).compensation_currency AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, filter_job_type, filter_experience_level, filter_location, NULL, filter_pay_period, filter_min_pay, restrict_to_ids) f
+        GROUP BY 1
+      ) buckets
+    ),
+    'pay_period', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object('value', value, 'count', total) ORDER BY total DESC, value), '[]'::jsonb)
+      FROM (
+        SELECT (f.post).compensation_period AS value, count(*) AS total
+        FROM filter_job_posts(search_query, filter_category, filter_job_type, filter_experience_level, filter_location, filter_pay_currency, NULL, filter_min_pay, restrict_to_ids) f
+        GROUP BY 1
+      ) buckets
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION search_job_posts(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC, UUID[], TEXT, INT, INT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION job_post_search_facets(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC, UUID[]) TO anon, authenticated;
+
+-- Saved searches keep what they can of their budget range: its lower bound,
+-- in pesos, as a minimum pay
+UPDATE saved_searches
+SET filters = (filters - 'budget_range') || CASE filters->>'budget_range'
+  WHEN '5k_20k' THEN '{"pay_currency": "PHP", "min_pay": 5000}'::jsonb
+  WHEN '20k_50k' THEN '{"pay_currency": "PHP", "min_pay": 20000}'::jsonb
+  WHEN 'over_50k' THEN '{"pay_currency": "PHP", "min_pay": 50000}'::jsonb
+  ELSE '{}'::jsonb
+END
+WHERE filters ? 'budget_range';
+
+CREATE OR REPLACE FUNCTION match_saved_searches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_search_id UUID;
+BEGIN
+  IF NEW.status <> 'active' OR (TG_OP = 'UPDATE' AND OLD.status = 'active') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO saved_search_matches (saved_search_id, job_post_id)
+  SELECT s.id, NEW.id
+  FROM saved_searches s
+  WHERE s.user_id <> NEW.employer_id
+    AND EXISTS (
+      SELECT 1 FROM filter_job_posts(
+        s.filters->>'query',
+        s.filters->>'category',
+        s.filters->>'job_type',
+        s.filters->>'experience_level',
+        s.filters->>'location',
+        s.filters->>'pay_currency',
+        s.filters->>'pay_period',
+        (s.filters->>'min_pay')::NUMERIC,
+        ARRAY[NEW.id]
+      )
+    )
+  ON CONFLICT (saved_search_id, job_post_id) DO NOTHING;
+
+  FOR v_search_id IN
+    SELECT s.id
+    FROM saved_search_matches m
+    JOIN saved_searches s ON s.id = m.saved_search_id
+    WHERE m.job_post_id = NEW.id
+      AND m.alerted_at IS NULL
+      AND s.frequency = 'instant'
+  LOOP
+    PERFORM send_saved_search_alerts(v_search_id);
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
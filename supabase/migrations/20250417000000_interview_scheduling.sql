@@ -0,0 +1,561 @@
+-- Interview scheduling for applications under review.
+--
+-- The employer offers time slots, and the job seeker books one of them. Either
+-- side can move or cancel the interview later. An application has at most one
+-- open interview (proposed or scheduled); once it has taken place it is marked
+-- completed and another round can be offered.
+--
+--   proposed -> scheduled          job seeker books a slot
+--   scheduled -> scheduled         job seeker moves to another offered slot
+--   scheduled -> proposed          employer withdraws the booked slot
+--   proposed | scheduled -> cancelled
+--   scheduled -> completed         after it ends (send_interview_reminders)
+--
+-- Clients only read these tables. Every change goes through the SECURITY
+-- DEFINER functions below. Each function appends to interview_events, and a
+-- trigger on interview_events notifies the other party.
+
+CREATE TABLE IF NOT EXISTS interviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_application_id UUID NOT NULL REFERENCES job_applications(id) ON DELETE CASCADE,
+  job_post_id UUID NOT NULL REFERENCES job_posts(id) ON DELETE CASCADE,
+  employer_id UUID NOT NULL REFERENCES profiles(id),
+  job_seeker_id UUID NOT NULL REFERENCES profiles(id),
+  duration_minutes INTEGER NOT NULL DEFAULT 30 CHECK (duration_minutes BETWEEN 15 AND 480),
+  video_call_url TEXT CHECK (video_call_url IS NULL OR video_call_url ~* '^https?://'),
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'proposed'
+    CHECK (status IN ('proposed', 'scheduled', 'completed', 'cancelled')),
+  -- The booked slot, copied so the time survives slot changes
+  slot_id UUID,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  -- Bumped on every change to the booked time, for the .ics SEQUENCE
+  sequence INTEGER NOT NULL DEFAULT 0,
+  reminder_sent_at TIMESTAMPTZ,
+  cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cancel_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now(),
+  CONSTRAINT interviews_booking_check CHECK (
+    status NOT IN ('scheduled', 'completed') OR (starts_at IS NOT NULL AND ends_at > starts_at)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS interviews_one_open_per_application
+  ON interviews (job_application_id)
+  WHERE status IN ('proposed', 'scheduled');
+CREATE INDEX IF NOT EXISTS idx_interviews_job_seeker_id ON interviews(job_seeker_id);
+CREATE INDEX IF NOT EXISTS idx_interviews_upcoming ON interviews(starts_at) WHERE status = 'scheduled';
+
+CREATE TABLE IF NOT EXISTS interview_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID NOT NULL REFERENCES interviews(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (interview_id, starts_at),
+  CHECK (ends_at > starts_at)
+);
+
+ALTER TABLE interviews DROP CONSTRAINT IF EXISTS interviews_slot_id_fkey;
+ALTER TABLE interviews
+  ADD CONSTRAINT interviews_slot_id_fkey FOREIGN KEY (slot_id) REFERENCES interview_slots(id) ON DELETE SET NULL;
+
+-- Append-only history of every interview, per application
+CREATE TABLE IF NOT EXISTS interview_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  interview_id UUID NOT NULL REFERENCES interviews(id) ON DELETE CASCADE,
+  job_application_id UUID NOT NULL REFERENCES job_applications(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN (
+    'offered',
+    'updated',
+    'booked',
+    'rescheduled',
+    'new_times_requested',
+    'cancelled',
+    'reminder',
+    'completed'
+  )),
+  -- The interview time after the event, if one is booked
+  starts_at TIMESTAMPTZ,
+  note TEXT,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interview_events_application_id ON interview_events(job_application_id, created_at);
+
+CREATE TRIGGER update_interviews_updated_at
+  BEFORE UPDATE ON interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: read-only for the two parties and admins
+ALTER TABLE interviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interview_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Parties can view their interviews"
+ON interviews FOR SELECT
+TO authenticated
+USING (auth.uid() IN (employer_id, job_seeker_id));
+
+CREATE POLICY "Admins can view all interviews"
+ON interviews FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid()
+    AND profiles.role = 'admin'
+  )
+);
+
+CREATE POLICY "Parties can view their interview slots"
+ON interview_slots FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM interviews i
+    WHERE i.id = interview_slots.interview_id
+    AND auth.uid() IN (i.employer_id, i.job_seeker_id)
+  )
+);
+
+CREATE POLICY "Parties can view their interview history"
+ON interview_events FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM interviews i
+    WHERE i.id = interview_events.interview_id
+    AND auth.uid() IN (i.employer_id, i.job_seeker_id)
+  )
+);
+
+-- Offers interview times for an application under review, or changes the
+-- offer of its open interview. p_slots holds the start times; each slot lasts
+-- p_duration_minutes. If the booked time is no longer offered, the interview
+-- goes back to proposed and the job seeker picks again.
+CREATE OR REPLACE FUNCTION offer_interview_slots(
+  p_application_id UUID,
+  p_slots TIMESTAMPTZ[],
+  p_duration_minutes INTEGER DEFAULT 30,
+  p_video_call_url TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application RECORD;
+  v_interview interviews%ROWTYPE;
+  v_event TEXT;
+  v_booked_start TIMESTAMPTZ;
+BEGIN
+  SELECT ja.id, ja.job_post_id, ja.job_seeker_id, ja.status, jp.employer_id
+  INTO v_application
+  FROM job_applications ja
+  JOIN job_posts jp ON jp.id = ja.job_post_id
+  WHERE ja.id = p_application_id;
+
+  IF NOT FOUND OR v_application.employer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.status <> 'reviewing' THEN
+    RAISE EXCEPTION 'Interviews can only be scheduled for applications under review';
+  END IF;
+
+  IF coalesce(cardinality(p_slots), 0) = 0 THEN
+    RAISE EXCEPTION 'Offer at least one interview time';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_slots) AS slot WHERE slot <= now()) THEN
+    RAISE EXCEPTION 'Interview times must be in the future';
+  END IF;
+
+  -- An interview that has already taken place makes way for a new round
+  WITH done AS (
+    UPDATE interviews
+    SET status = 'completed'
+    WHERE job_application_id = p_application_id
+      AND status = 'scheduled'
+      AND ends_at <= now()
+    RETURNING id, job_application_id, starts_at
+  )
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at)
+  SELECT id, job_application_id, 'completed', starts_at FROM done;
+
+  SELECT * INTO v_interview
+  FROM interviews
+  WHERE job_application_id = p_application_id
+    AND status IN ('proposed', 'scheduled')
+  FOR UPDATE;
+
+  IF v_interview.id IS NULL THEN
+    INSERT INTO interviews (job_application_id, job_post_id, employer_id, job_seeker_id, duration_minutes, video_call_url, notes)
+    VALUES (
+      v_application.id,
+      v_application.job_post_id,
+      v_application.employer_id,
+      v_application.job_seeker_id,
+      p_duration_minutes,
+      nullif(trim(p_video_call_url), ''),
+      nullif(trim(p_notes), '')
+    )
+    RETURNING * INTO v_interview;
+    v_event := 'offered';
+  ELSE
+    UPDATE interviews
+    SET duration_minutes = p_duration_minutes,
+        video_call_url = nullif(trim(p_video_call_url), ''),
+        notes = nullif(trim(p_notes), '')
+    WHERE id = v_interview.id
+    RETURNING * INTO v_interview;
+    v_event := 'updated';
+  END IF;
+
+  v_booked_start := CASE WHEN v_interview.status = 'scheduled' THEN v_interview.starts_at END;
+
+  DELETE FROM interview_slots
+  WHERE interview_id = v_interview.id;
+
+  INSERT INTO interview_slots (interview_id, starts_at, ends_at)
+  SELECT DISTINCT v_interview.id, slot, slot + make_interval(mins => p_duration_minutes)
+  FROM unnest(p_slots) AS slot;
+
+  IF v_booked_start IS NOT NULL THEN
+    IF v_booked_start = ANY(p_slots) THEN
+      -- Still offered: keep the booking, with the new duration
+      UPDATE interviews
+      SET slot_id = (SELECT id FROM interview_slots WHERE interview_id = v_interview.id AND starts_at = v_booked_start),
+          ends_at = v_booked_start + make_interval(mins => p_duration_minutes),
+          sequence = sequence + 1
+      WHERE id = v_interview.id
+      RETURNING * INTO v_interview;
+    ELSE
+      UPDATE interviews
+      SET status = 'proposed',
+          slot_id = NULL,
+          starts_at = NULL,
+          ends_at = NULL,
+          reminder_sent_at = NULL,
+          sequence = sequence + 1
+      WHERE id = v_interview.id
+      RETURNING * INTO v_interview;
+      v_event := 'rescheduled';
+    END IF;
+  END IF;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, v_event, v_interview.starts_at, auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+-- The job seeker books one of the offered times, or moves a booking to another
+CREATE OR REPLACE FUNCTION book_interview_slot(p_slot_id UUID)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_interview interviews%ROWTYPE;
+  v_event TEXT;
+BEGIN
+  SELECT * INTO v_slot FROM interview_slots WHERE id = p_slot_id;
+
+  SELECT * INTO v_interview
+  FROM interviews
+  WHERE id = v_slot.interview_id
+  FOR UPDATE;
+
+  IF v_interview.id IS NULL OR v_interview.job_seeker_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Interview time not found';
+  END IF;
+
+  IF v_interview.status NOT IN ('proposed', 'scheduled') THEN
+    RAISE EXCEPTION 'This interview is no longer open';
+  END IF;
+
+  IF v_slot.starts_at <= now() THEN
+    RAISE EXCEPTION 'This interview time has passed';
+  END IF;
+
+  IF v_interview.slot_id = v_slot.id THEN
+    RETURN v_interview;
+  END IF;
+
+  v_event := CASE WHEN v_interview.status = 'scheduled' THEN 'rescheduled' ELSE 'booked' END;
+
+  UPDATE interviews
+  SET status = 'scheduled',
+      slot_id = v_slot.id,
+      starts_at = v_slot.starts_at,
+      ends_at = v_slot.ends_at,
+      reminder_sent_at = NULL,
+      sequence = CASE WHEN v_event = 'rescheduled' THEN sequence + 1 ELSE sequence END
+  WHERE id = v_interview.id
+  RETURNING * INTO v_interview;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, v_event, v_interview.starts_at, auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+-- The job seeker asks for different times; the interview stays as it is until
+-- the employer offers new ones
+CREATE OR REPLACE FUNCTION request_interview_times(p_interview_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interview interviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_interview FROM interviews WHERE id = p_interview_id;
+
+  IF v_interview.id IS NULL OR v_interview.job_seeker_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+
+  IF v_interview.status NOT IN ('proposed', 'scheduled') THEN
+    RAISE EXCEPTION 'This interview is no longer open';
+  END IF;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, note, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, 'new_times_requested', v_interview.starts_at, nullif(trim(p_note), ''), auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+-- Either party can cancel an open interview
+CREATE OR REPLACE FUNCTION cancel_interview(p_interview_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interview interviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_interview
+  FROM interviews
+  WHERE id = p_interview_id
+  FOR UPDATE;
+
+  IF v_interview.id IS NULL OR auth.uid() NOT IN (v_interview.employer_id, v_interview.job_seeker_id) THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+
+  IF v_interview.status NOT IN ('proposed', 'scheduled') THEN
+    RAISE EXCEPTION 'This interview is no longer open';
+  END IF;
+
+  UPDATE interviews
+  SET status = 'cancelled',
+      cancelled_by = auth.uid(),
+      cancel_reason = nullif(trim(p_reason), ''),
+      sequence = sequence + 1
+  WHERE id = v_interview.id
+  RETURNING * INTO v_interview;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, note, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, 'cancelled', v_interview.starts_at, v_interview.cancel_reason, auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION offer_interview_slots(UUID, TIMESTAMPTZ[], INTEGER, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION book_interview_slot(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_interview_times(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_interview(UUID, TEXT) TO authenticated;
+
+-- Reminds both parties of interviews starting within the next 24 hours, and
+-- marks interviews that have ended as completed. Meant for pg_cron, see
+-- README-interviews.md.
+CREATE OR REPLACE FUNCTION send_interview_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interview interviews%ROWTYPE;
+  v_sent INTEGER := 0;
+BEGIN
+  FOR v_interview IN
+    SELECT *
+    FROM interviews
+    WHERE status = 'scheduled'
+      AND ends_at <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE interviews SET status = 'completed' WHERE id = v_interview.id;
+
+    INSERT INTO interview_events (interview_id, job_application_id, event, starts_at)
+    VALUES (v_interview.id, v_interview.job_application_id, 'completed', v_interview.starts_at);
+  END LOOP;
+
+  FOR v_interview IN
+    SELECT *
+    FROM interviews
+    WHERE status = 'scheduled'
+      AND reminder_sent_at IS NULL
+      AND starts_at > now()
+      AND starts_at <= now() + INTERVAL '24 hours'
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE interviews SET reminder_sent_at = now() WHERE id = v_interview.id;
+
+    INSERT INTO interview_events (interview_id, job_application_id, event, starts_at)
+    VALUES (v_interview.id, v_interview.job_application_id, 'reminder', v_interview.starts_at);
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_interview_reminders() FROM PUBLIC, anon, authenticated;
+
+-- interview_update notifications
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'application_submitted',
+    'application_status_changed',
+    'message_received',
+    'verification_decided',
+    'payment_released',
+    'report_resolved',
+    'system',
+    'job_alert',
+    'interview_update'
+  ));
+
+-- Notifies whoever did not cause the event; reminders go to both parties.
+-- Times in the message are UTC; the app shows metadata.starts_at in local time.
+CREATE OR REPLACE FUNCTION notify_interview_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interview interviews%ROWTYPE;
+  v_job_title TEXT;
+  v_seeker_name TEXT;
+  v_when TEXT;
+  v_message TEXT;
+  v_recipient UUID;
+BEGIN
+  IF NEW.event = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_interview FROM interviews WHERE id = NEW.interview_id;
+  SELECT title INTO v_job_title FROM job_posts WHERE id = v_interview.job_post_id;
+  SELECT full_name INTO v_seeker_name FROM profiles WHERE id = v_interview.job_seeker_id;
+  v_seeker_name := coalesce(v_seeker_name, 'The candidate');
+  v_when := to_char(NEW.starts_at AT TIME ZONE 'UTC', 'Dy DD Mon YYYY, HH24:MI "UTC"');
+
+  v_message := CASE NEW.event
+    WHEN 'offered' THEN
+      format('You have been invited to interview for "%s". Pick a time that suits you.', v_job_title)
+    WHEN 'updated' THEN
+      format('The interview details for "%s" were updated.', v_job_title)
+    WHEN 'booked' THEN
+      format('%s booked an interview for "%s" on %s.', v_seeker_name, v_job_title, v_when)
+    WHEN 'rescheduled' THEN
+      CASE WHEN NEW.starts_at IS NULL
+        THEN format('The interview for "%s" needs a new time. Pick one of the times offered.', v_job_title)
+        ELSE format('The interview for "%s" was moved to %s.', v_job_title, v_when)
+      END
+    WHEN 'new_times_requested' THEN
+      format('%s asked for other interview times for "%s".', v_seeker_name, v_job_title)
+    WHEN 'cancelled' THEN
+      format('The interview for "%s" was cancelled.', v_job_title)
+    WHEN 'reminder' THEN
+      format('Reminder: your interview for "%s" is on %s.', v_job_title, v_when)
+  END;
+
+  FOREACH v_recipient IN ARRAY ARRAY[v_interview.employer_id, v_interview.job_seeker_id]
+  LOOP
+    CONTINUE WHEN v_recipient IS NOT DISTINCT FROM NEW.actor_id;
+
+    PERFORM notify(
+      v_recipient,
+      'interview_update',
+      CASE WHEN NEW.event = 'reminder' THEN 'Interview Reminder' ELSE 'Interview Update' END,
+      v_message,
+      jsonb_build_object(
+        'interview_id', v_interview.id,
+        'application_id', v_interview.job_application_id,
+        'job_post_id', v_interview.job_post_id,
+        'job_title', v_job_title,
+        'event', NEW.event,
+        'audience', CASE WHEN v_recipient = v_interview.employer_id THEN 'employer' ELSE 'job_seeker' END,
+        'starts_at', NEW.starts_at,
+        'video_call_url', v_interview.video_call_url,
+        'note', NEW.note
+      )
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_interview_event ON interview_events;
+CREATE TRIGGER notify_interview_event
+  AFTER INSERT ON interview_events
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_interview_event();
+
+-- Interview emails are time-sensitive, so they go out as account emails,
+-- which are never held for a digest
+CREATE OR REPLACE FUNCTION queue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payload JSONB := jsonb_build_object('message', NEW.message) || NEW.metadata;
+BEGIN
+  CASE NEW.type
+    WHEN 'application_submitted' THEN
+      PERFORM queue_email(NEW.user_id, 'new_application', 'new_application', v_payload);
+    WHEN 'application_status_changed' THEN
+      PERFORM queue_email(NEW.user_id, 'application_update', 'application_update', v_payload);
+    WHEN 'message_received' THEN
+      PERFORM queue_email(NEW.user_id, 'new_message', 'message', v_payload);
+    WHEN 'verification_decided' THEN
+      PERFORM queue_email(NEW.user_id, 'verification_decided', 'account', v_payload);
+    WHEN 'payment_released' THEN
+      PERFORM queue_email(NEW.user_id, 'payment_released', 'account', v_payload);
+    WHEN 'report_resolved' THEN
+      PERFORM queue_email(NEW.user_id, 'report_resolved', 'account', v_payload);
+    WHEN 'interview_update' THEN
+      PERFORM queue_email(NEW.user_id, 'interview_update', 'account', v_payload);
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,881 @@
+-- Two-factor authentication and session management.
+--
+-- TOTP factors are Supabase Auth MFA factors (auth.mfa_factors); the client
+-- enrolls and verifies them through supabase.auth.mfa. This migration adds:
+--   - recovery codes, for users who lose their authenticator app
+--   - enforcement: a session of a user with a verified factor, or of an
+--     admin, must be at aal2 before it can read or write any table
+--   - functions to list and revoke the caller's sessions
+
+-- The assurance level of the calling session: aal2 once a factor was verified
+CREATE OR REPLACE FUNCTION session_aal()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(auth.jwt() ->> 'aal', 'aal1');
+$$;
+
+CREATE OR REPLACE FUNCTION has_verified_mfa_factor(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM auth.mfa_factors
+    WHERE user_id = p_user_id
+    AND status = 'verified'
+  );
+$$;
+
+-- Internal: it answers for any user id, so clients must not call it
+REVOKE EXECUTE ON FUNCTION has_verified_mfa_factor(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The role check from is_admin, without the MFA requirement. The admin panel
+-- uses it right after the password step to decide whether to ask for a code.
+-- Only admins can set profiles.role to 'admin' (protect_profile_admin_role).
+CREATE OR REPLACE FUNCTION has_admin_role(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = user_id
+    AND role = 'admin'
+  ) OR EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE id = user_id
+    AND status = 'active'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION has_admin_role(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Admin powers need a second factor: the caller only counts as an admin from
+-- an aal2 session
+CREATE OR REPLACE FUNCTION is_admin(user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN has_admin_role(user_id)
+    AND (user_id IS DISTINCT FROM auth.uid() OR session_aal() = 'aal2');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_current_user_admin()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN has_admin_role(auth.uid());
+END;
+$$;
+
+-- False when the calling session still has to complete MFA: the user has a
+-- verified factor, or is an admin, and the session is not aal2 yet
+CREATE OR REPLACE FUNCTION session_meets_mfa_requirement()
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR session_aal() = 'aal2' THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN NOT has_verified_mfa_factor(auth.uid()) AND NOT has_admin_role(auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION session_meets_mfa_requirement() TO authenticated;
+
+-- A restrictive policy is ANDed with every permissive one, so this holds
+-- whichever policy grants the access. Tables created later need the same
+-- policy (see README-mfa-and-sessions.md).
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOR v_table IN
+    SELECT tablename FROM pg_tables
+    WHERE schemaname = 'public'
+    AND rowsecurity
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Sessions must complete MFA" ON %I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Sessions must complete MFA" ON %I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING ((SELECT session_meets_mfa_requirement())) WITH CHECK ((SELECT session_meets_mfa_requirement()))',
+      v_table
+    );
+  END LOOP;
+END;
+$$;
+
+-- Recovery codes. Only bcrypt hashes are stored; the codes are shown once,
+-- when they are generated. No policies: clients use the functions below.
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_codes_user_id ON mfa_recovery_codes(user_id) WHERE used_at IS NULL;
+
+ALTER TABLE mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Wrong recovery codes, for throttling redeem_mfa_recovery_code. No policies.
+CREATE TABLE IF NOT EXISTS mfa_recovery_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mfa_recovery_attempts_user_id ON mfa_recovery_attempts(user_id, attempted_at);
+
+ALTER TABLE mfa_recovery_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Replaces the caller's recovery codes with ten new ones, formatted XXXXX-XXXXX.
+-- Needs an aal2 session, so a stolen password alone cannot produce codes.
+CREATE OR REPLACE FUNCTION generate_mfa_recovery_codes()
+RETURNS TEXT[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT;
+  v_codes TEXT[] := '{}';
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_verified_mfa_factor(auth.uid()) THEN
+    RAISE EXCEPTION 'Set up two-factor authentication first';
+  END IF;
+
+  IF session_aal() <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid();
+
+  FOR i IN 1..10 LOOP
+    v_code := upper(encode(gen_random_bytes(5), 'hex'));
+    INSERT INTO mfa_recovery_codes (user_id, code_hash)
+    VALUES (auth.uid(), crypt(v_code, gen_salt('bf')));
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6));
+  END LOOP;
+
+  RETURN v_codes;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mfa_recovery_codes_remaining()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INTEGER
+  FROM mfa_recovery_codes
+  WHERE user_id = auth.uid()
+  AND used_at IS NULL;
+$$;
+
+-- Signs in with a recovery code instead of the authenticator app. A session
+-- cannot be raised to aal2 from SQL, so a valid code removes the caller's
+-- factors instead: the session then meets the requirement at aal1 and the
+-- user sets up two-factor authentication again. Returns false for a wrong or
+-- used code. Five wrong codes within an hour lock recovery until the oldest
+-- of them is an hour old, so a session with only the password cannot keep
+-- guessing.
+CREATE OR REPLACE FUNCTION redeem_mfa_recovery_code(p_code TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT := upper(regexp_replace(coalesce(p_code, ''), '[^0-9A-Za-z]', '', 'g'));
+  v_code_id UUID;
+BEGIN
+  IF auth.uid() IS NULL OR NOT has_verified_mfa_factor(auth.uid()) THEN
+    RAISE EXCEPTION 'Two-factor authentication is not enabled for this account';
+  END IF;
+
+  -- Serializes a user's attempts so parallel requests cannot pass the count together
+  PERFORM pg_advisory_xact_lock(hashtext('mfa_recovery:' || auth.uid()::TEXT));
+
+  IF (
+    SELECT count(*) FROM mfa_recovery_attempts
+    WHERE user_id = auth.uid()
+    AND attempted_at > now() - INTERVAL '1 hour'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many wrong recovery codes. Try again in an hour.';
+  END IF;
+
+  SELECT id INTO v_code_id
+  FROM mfa_recovery_codes
+  WHERE user_id = auth.uid()
+  AND used_at IS NULL
+  AND code_hash = crypt(v_code, code_hash)
+  LIMIT 1;
+
+  IF v_code_id IS NULL THEN
+    INSERT INTO mfa_recovery_attempts (user_id) VALUES (auth.uid());
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM mfa_recovery_attempts WHERE user_id = auth.uid();
+  UPDATE mfa_recovery_codes SET used_at = now() WHERE id = v_code_id;
+  DELETE FROM mfa_recovery_codes WHERE user_id = auth.uid() AND used_at IS NULL;
+  DELETE FROM auth.mfa_factors WHERE user_id = auth.uid();
+
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION generate_mfa_recovery_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION mfa_recovery_codes_remaining() TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_mfa_recovery_code(TEXT) TO authenticated;
+
+-- The caller's signed-in sessions, newest activity first
+CREATE OR REPLACE FUNCTION list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  last_active_at TIMESTAMPTZ,
+  user_agent TEXT,
+  ip TEXT,
+  aal TEXT,
+  is_current BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    coalesce(s.refreshed_at AT TIME ZONE 'UTC', s.updated_at, s.created_at) AS last_active_at,
+    s.user_agent,
+    host(s.ip),
+    s.aal::TEXT,
+    s.id::TEXT = auth.jwt() ->> 'session_id'
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+  AND (s.not_after IS NULL OR s.not_after > now())
+  AND session_meets_mfa_requirement()
+  ORDER BY 3 DESC;
+$$;
+
+-- Signs another device out. Its refresh tokens go with the session, so it
+-- loses access once its current access token expires.
+CREATE OR REPLACE FUNCTION revoke_session(p_session_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  IF p_session_id::TEXT = auth.jwt() ->> 'session_id' THEN
+    RAISE EXCEPTION 'Sign out to end the current session';
+  END IF;
+
+  DELETE FROM auth.sessions
+  WHERE id = p_session_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION list_my_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_session(UUID) TO authenticated;
+
+-- SECURITY DEFINER functions skip the restrictive policy above, so the ones
+-- that move money or schedule interviews check the session themselves. The
+-- bodies are otherwise unchanged from 20250408, 20250416 and 20250417. The
+-- service role has no user, so the PayPal webhook still passes.
+CREATE OR REPLACE FUNCTION create_payment_milestone(
+  application_id UUID,
+  milestone_title TEXT,
+  milestone_amount DECIMAL,
+  milestone_description TEXT DEFAULT NULL,
+  milestone_due_date DATE DEFAULT NULL
+)
+RETURNS payment_milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  application RECORD;
+  milestone payment_milestones%ROWTYPE;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT ja.id, ja.job_seeker_id, ja.status, ja.agreed_compensation, jp.employer_id
+  INTO application
+  FROM job_applications ja
+  JOIN job_posts jp ON jp.id = ja.job_post_id
+  WHERE ja.id = application_id;
+
+  IF NOT FOUND OR application.employer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF application.status <> 'accepted' THEN
+    RAISE EXCEPTION 'Milestones can only be added to accepted applications';
+  END IF;
+
+  IF milestone_amount IS NULL OR milestone_amount <= 0 THEN
+    RAISE EXCEPTION 'Milestone amount must be greater than zero';
+  END IF;
+
+  INSERT INTO payment_milestones (
+    job_application_id,
+    employer_id,
+    job_seeker_id,
+    title,
+    description,
+    amount,
+    platform_fee,
+    currency,
+    due_date
+  )
+  VALUES (
+    application.id,
+    application.employer_id,
+    application.job_seeker_id,
+    trim(milestone_title),
+    nullif(trim(milestone_description), ''),
+    round(milestone_amount, 2),
+    payment_platform_fee(round(milestone_amount, 2)),
+    coalesce(application.agreed_compensation->>'currency', 'USD'),
+    milestone_due_date
+  )
+  RETURNING * INTO milestone;
+
+  INSERT INTO payment_ledger (milestone_id, job_application_id, event, to_status, amount, actor_id)
+  VALUES (milestone.id, milestone.job_application_id, 'created', 'draft', milestone.amount, auth.uid());
+
+  RETURN milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION transition_payment_milestone(
+  target_milestone_id UUID,
+  next_status TEXT,
+  transition_note TEXT DEFAULT NULL,
+  paypal_reference VARCHAR DEFAULT NULL
+)
+RETURNS payment_milestones
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  milestone payment_milestones%ROWTYPE;
+  caller UUID := auth.uid();
+  caller_is_admin BOOLEAN := is_admin(auth.uid());
+  caller_is_service BOOLEAN := coalesce(auth.role(), '') = 'service_role';
+  allowed BOOLEAN;
+  previous_status TEXT;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT * INTO milestone
+  FROM payment_milestones
+  WHERE id = target_milestone_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found';
+  END IF;
+
+  previous_status := milestone.status;
+
+  allowed := CASE next_status
+    WHEN 'funded' THEN milestone.status = 'draft' AND caller_is_service
+    WHEN 'cancelled' THEN milestone.status = 'draft' AND caller = milestone.employer_id
+    WHEN 'delivered' THEN milestone.status = 'funded' AND caller = milestone.job_seeker_id
+    WHEN 'disputed' THEN milestone.status IN ('funded', 'delivered')
+      AND caller IN (milestone.employer_id, milestone.job_seeker_id)
+    -- Employers release their own escrow; disputed funds are settled by an admin
+    WHEN 'released' THEN
+      (milestone.status IN ('funded', 'delivered') AND caller = milestone.employer_id)
+      OR (milestone.status = 'disputed' AND caller_is_admin)
+    -- Only the payee may hand back undisputed funds
+    WHEN 'refunded' THEN
+      (milestone.status IN ('funded', 'delivered') AND caller = milestone.job_seeker_id)
+      OR (milestone.status = 'disputed' AND caller_is_admin)
+      OR (milestone.status IN ('funded', 'delivered', 'disputed') AND caller_is_service)
+    ELSE false
+  END;
+
+  IF NOT allowed THEN
+    RAISE EXCEPTION 'Cannot move milestone from % to %', milestone.status, next_status;
+  END IF;
+
+  IF next_status = 'funded' AND coalesce(trim(paypal_reference), '') = '' THEN
+    RAISE EXCEPTION 'A PayPal order is required to fund a milestone';
+  END IF;
+
+  IF next_status = 'disputed' AND coalesce(trim(transition_note), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to open a dispute';
+  END IF;
+
+  UPDATE payment_milestones
+  SET
+    status = next_status,
+    paypal_order_id = CASE WHEN next_status = 'funded' THEN paypal_reference ELSE paypal_order_id END,
+    funded_at = CASE WHEN next_status = 'funded' THEN now() ELSE funded_at END,
+    delivered_at = CASE WHEN next_status = 'delivered' THEN now() ELSE delivered_at END,
+    closed_at = CASE WHEN next_status IN ('released', 'refunded', 'cancelled') THEN now() ELSE closed_at END
+  WHERE id = milestone.id
+  RETURNING * INTO milestone;
+
+  INSERT INTO payment_ledger (
+    milestone_id,
+    job_application_id,
+    event,
+    from_status,
+    to_status,
+    amount,
+    platform_fee,
+    paypal_reference,
+    note,
+    actor_id
+  )
+  VALUES (
+    milestone.id,
+    milestone.job_application_id,
+    next_status,
+    previous_status,
+    next_status,
+    milestone.amount,
+    -- Fees are recorded on the entries where money moves
+    CASE WHEN next_status IN ('funded', 'released', 'refunded') THEN milestone.platform_fee ELSE 0 END,
+    coalesce(paypal_reference, milestone.paypal_order_id),
+    nullif(trim(transition_note), ''),
+    caller
+  );
+
+  -- Released milestones become completed transactions for payouts. A refund
+  -- requested in the app stays pending until PayPal reports it.
+  IF next_status = 'released' THEN
+    UPDATE payment_transactions
+    SET status = 'completed'
+    WHERE milestone_id = milestone.id
+    AND status = 'captured';
+
+    -- Milestones funded before webhooks existed have no capture row
+    IF NOT FOUND THEN
+      INSERT INTO payment_transactions (
+        job_application_id,
+        milestone_id,
+        employer_id,
+        jobseeker_id,
+        amount,
+        platform_fee,
+        status,
+        paypal_transaction_id,
+        paypal_order_id
+      )
+      VALUES (
+        milestone.job_application_id,
+        milestone.id,
+        milestone.employer_id,
+        milestone.job_seeker_id,
+        milestone.amount,
+        milestone.platform_fee,
+        'completed',
+        milestone.paypal_order_id,
+        milestone.paypal_order_id
+      );
+    END IF;
+  ELSIF next_status = 'refunded' AND NOT caller_is_service THEN
+    UPDATE payment_transactions
+    SET status = 'refund_pending'
+    WHERE milestone_id = milestone.id
+    AND status = 'captured';
+  END IF;
+
+  RETURN milestone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION offer_interview_slots(
+  p_application_id UUID,
+  p_slots TIMESTAMPTZ[],
+  p_duration_minutes INTEGER DEFAULT 30,
+  p_video_call_url TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_application RECORD;
+  v_interview interviews%ROWTYPE;
+  v_event TEXT;
+  v_booked_start TIMESTAMPTZ;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT ja.id, ja.job_post_id, ja.job_seeker_id, ja.status, jp.employer_id
+  INTO v_application
+  FROM job_applications ja
+  JOIN job_posts jp ON jp.id = ja.job_post_id
+  WHERE ja.id = p_application_id;
+
+  IF NOT FOUND OR v_application.employer_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_application.status <> 'reviewing' THEN
+    RAISE EXCEPTION 'Interviews can only be scheduled for applications under review';
+  END IF;
+
+  IF coalesce(cardinality(p_slots), 0) = 0 THEN
+    RAISE EXCEPTION 'Offer at least one interview time';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_slots) AS slot WHERE slot <= now()) THEN
+    RAISE EXCEPTION 'Interview times must be in the future';
+  END IF;
+
+  -- An interview that has already taken place makes way for a new round
+  WITH done AS (
+    UPDATE interviews
+    SET status = 'completed'
+    WHERE job_application_id = p_application_id
+      AND status = 'scheduled'
+      AND ends_at <= now()
+    RETURNING id, job_application_id, starts_at
+  )
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at)
+  SELECT id, job_application_id, 'completed', starts_at FROM done;
+
+  SELECT * INTO v_interview
+  FROM interviews
+  WHERE job_application_id = p_application_id
+    AND status IN ('proposed', 'scheduled')
+  FOR UPDATE;
+
+  IF v_interview.id IS NULL THEN
+    INSERT INTO interviews (job_application_id, job_post_id, employer_id, job_seeker_id, duration_minutes, video_call_url, notes)
+    VALUES (
+      v_application.id,
+      v_application.job_post_id,
+      v_application.employer_id,
+      v_application.job_seeker_id,
+      p_duration_minutes,
+      nullif(trim(p_video_call_url), ''),
+      nullif(trim(p_notes), '')
+    )
+    RETURNING * INTO v_interview;
+    v_event := 'offered';
+  ELSE
+    UPDATE interviews
+    SET duration_minutes = p_duration_minutes,
+        video_call_url = nullif(trim(p_video_call_url), ''),
+        notes = nullif(trim(p_notes), '')
+    WHERE id = v_interview.id
+    RETURNING * INTO v_interview;
+    v_event := 'updated';
+  END IF;
+
+  v_booked_start := CASE WHEN v_interview.status = 'scheduled' THEN v_interview.starts_at END;
+
+  DELETE FROM interview_slots
+  WHERE interview_id = v_interview.id;
+
+  INSERT INTO interview_slots (interview_id, starts_at, ends_at)
+  SELECT DISTINCT v_interview.id, slot, slot + make_interval(mins => p_duration_minutes)
+  FROM unnest(p_slots) AS slot;
+
+  IF v_booked_start IS NOT NULL THEN
+    IF v_booked_start = ANY(p_slots) THEN
+      -- Still offered: keep the booking, with the new duration
+      UPDATE interviews
+      SET slot_id = (SELECT id FROM interview_slots WHERE interview_id = v_interview.id AND starts_at = v_booked_start),
+          ends_at = v_booked_start + make_interval(mins => p_duration_minutes),
+          sequence = sequence + 1
+      WHERE id = v_interview.id
+      RETURNING * INTO v_interview;
+    ELSE
+      UPDATE interviews
+      SET status = 'proposed',
+          slot_id = NULL,
+          starts_at = NULL,
+          ends_at = NULL,
+          reminder_sent_at = NULL,
+          sequence = sequence + 1
+      WHERE id = v_interview.id
+      RETURNING * INTO v_interview;
+      v_event := 'rescheduled';
+    END IF;
+  END IF;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, v_event, v_interview.starts_at, auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION book_interview_slot(p_slot_id UUID)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot interview_slots%ROWTYPE;
+  v_interview interviews%ROWTYPE;
+  v_event TEXT;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT * INTO v_slot FROM interview_slots WHERE id = p_slot_id;
+
+  SELECT * INTO v_interview
+  FROM interviews
+  WHERE id = v_slot.interview_id
+  FOR UPDATE;
+
+  IF v_interview.id IS NULL OR v_interview.job_seeker_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Interview time not found';
+  END IF;
+
+  IF v_interview.status NOT IN ('proposed', 'scheduled') THEN
+    RAISE EXCEPTION 'This interview is no longer open';
+  END IF;
+
+  IF v_slot.starts_at <= now() THEN
+    RAISE EXCEPTION 'This interview time has passed';
+  END IF;
+
+  IF v_interview.slot_id = v_slot.id THEN
+    RETURN v_interview;
+  END IF;
+
+  v_event := CASE WHEN v_interview.status = 'scheduled' THEN 'rescheduled' ELSE 'booked' END;
+
+  UPDATE interviews
+  SET status = 'scheduled',
+      slot_id = v_slot.id,
+      starts_at = v_slot.starts_at,
+      ends_at = v_slot.ends_at,
+      reminder_sent_at = NULL,
+      sequence = CASE WHEN v_event = 'rescheduled' THEN sequence + 1 ELSE sequence END
+  WHERE id = v_interview.id
+  RETURNING * INTO v_interview;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, v_event, v_interview.starts_at, auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION request_interview_times(p_interview_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interview interviews%ROWTYPE;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT * INTO v_interview FROM interviews WHERE id = p_interview_id;
+
+  IF v_interview.id IS NULL OR v_interview.job_seeker_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+
+  IF v_interview.status NOT IN ('proposed', 'scheduled') THEN
+    RAISE EXCEPTION 'This interview is no longer open';
+  END IF;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, note, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, 'new_times_requested', v_interview.starts_at, nullif(trim(p_note), ''), auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_interview(p_interview_id UUID, p_reason TEXT DEFAULT NULL)
+RETURNS interviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_interview interviews%ROWTYPE;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT * INTO v_interview
+  FROM interviews
+  WHERE id = p_interview_id
+  FOR UPDATE;
+
+  IF v_interview.id IS NULL OR auth.uid() NOT IN (v_interview.employer_id, v_interview.job_seeker_id) THEN
+    RAISE EXCEPTION 'Interview not found';
+  END IF;
+
+  IF v_interview.status NOT IN ('proposed', 'scheduled') THEN
+    RAISE EXCEPTION 'This interview is no longer open';
+  END IF;
+
+  UPDATE interviews
+  SET status = 'cancelled',
+      cancelled_by = auth.uid(),
+      cancel_reason = nullif(trim(p_reason), ''),
+      sequence = sequence + 1
+  WHERE id = v_interview.id
+  RETURNING * INTO v_interview;
+
+  INSERT INTO interview_events (interview_id, job_application_id, event, starts_at, note, actor_id)
+  VALUES (v_interview.id, v_interview.job_application_id, 'cancelled', v_interview.starts_at, v_interview.cancel_reason, auth.uid());
+
+  RETURN v_interview;
+END;
+$$;
+
+-- The older SECURITY DEFINER functions clients can call get the same check.
+-- ensure_job_seeker_profile now also only works for the caller's own id, and
+-- delete_user uses is_admin(), which already needs an aal2 session.
+CREATE OR REPLACE FUNCTION ensure_job_seeker_profile(user_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  IF user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only create your own profile';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM job_seekers WHERE id = user_id) THEN
+    WITH user_data AS (
+      SELECT id, email, raw_user_meta_data->>'full_name' AS full_name
+      FROM auth.users
+      WHERE id = user_id
+    )
+    INSERT INTO job_seekers (id, full_name, email)
+    SELECT id, COALESCE(full_name, ''), email
+    FROM user_data;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_notification_as_read(notification_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  UPDATE notifications
+  SET read = true,
+      updated_at = NOW()
+  WHERE id = notification_id
+  AND user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_all_notifications_as_read()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  UPDATE notifications
+  SET read = true,
+      updated_at = NOW()
+  WHERE user_id = auth.uid()
+  AND read = false;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_user(user_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Access denied. Only administrators can delete users.';
+  END IF;
+
+  -- Cascades to profiles
+  DELETE FROM auth.users WHERE id = user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_user(UUID) TO authenticated;
+
+-- Admin accounts are created from the SQL editor, never by a client.
+-- create_first_admin had no check at all, so anyone could call it.
+REVOKE EXECUTE ON FUNCTION create_first_admin(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_admin(TEXT, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,56 @@
+-- Sign-in with Google, LinkedIn and GitHub.
+--
+-- Email sign-ups insert their own profiles row from SignUp. A user who signs
+-- up through a provider gets one here instead, without a role, so AuthCallback
+-- sends them to SelectRole. LinkedIn also fills in the profile picture.
+-- LinkedIn's OpenID scopes never include the member's headline, so users
+-- enter it on EditProfile.
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS headline TEXT;
+
+-- Runs whenever Supabase Auth saves a provider identity: on the first sign-in,
+-- when an identity is linked to an existing account, and on later sign-ins,
+-- which refresh identity_data
+CREATE OR REPLACE FUNCTION handle_oauth_identity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_data JSONB := coalesce(NEW.identity_data, '{}'::jsonb);
+  v_name TEXT := nullif(trim(coalesce(v_data ->> 'full_name', v_data ->> 'name', '')), '');
+  v_picture TEXT := nullif(coalesce(v_data ->> 'avatar_url', v_data ->> 'picture', ''), '');
+BEGIN
+  IF NEW.provider = 'email' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO profiles (id, full_name, work_email, avatar_url, profile_completed, is_verified, skills, created_at, updated_at)
+  SELECT NEW.user_id, coalesce(v_name, ''), lower(u.email), v_picture, FALSE, FALSE, '{}', now(), now()
+  FROM auth.users u
+  WHERE u.id = NEW.user_id
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NEW.provider IN ('linkedin_oidc', 'linkedin') THEN
+    -- LinkedIn picture URLs expire, so a picture imported earlier is replaced
+    -- with the current one. A picture the user uploaded is kept.
+    UPDATE profiles
+    SET full_name = coalesce(nullif(full_name, ''), v_name, ''),
+        avatar_url = CASE
+          WHEN v_picture IS NOT NULL AND (coalesce(avatar_url, '') = '' OR avatar_url LIKE 'https://media.licdn.com/%')
+            THEN v_picture
+          ELSE avatar_url
+        END
+    WHERE id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_identity_saved ON auth.identities;
+CREATE TRIGGER on_auth_identity_saved
+  AFTER INSERT OR UPDATE OF identity_data ON auth.identities
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_oauth_identity();
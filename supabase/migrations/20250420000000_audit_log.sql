@@ -0,0 +1,193 @@
+-- Audit log of admin and owner actions.
+--
+-- The admin and owner pages change profiles, job posts, reports and
+-- verification requests with plain table updates. Triggers on those tables
+-- record every change an admin makes, and every change anyone makes to a row
+-- that belongs to someone else: who made it, what it touched, the columns
+-- before and after, and the reason given. Nothing can change or remove an
+-- entry once it is written.
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- No foreign key: deleting the admin's account must not touch their entries
+  actor_id UUID,
+  actor_email TEXT,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  target_table TEXT NOT NULL,
+  target_id TEXT,
+  -- For updates only the changed columns; for inserts and deletes the whole row
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  before JSONB,
+  after JSONB,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_table, target_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+ON audit_log FOR SELECT
+TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Sessions must complete MFA"
+ON audit_log AS RESTRICTIVE FOR ALL
+TO authenticated
+USING ((SELECT session_meets_mfa_requirement()))
+WITH CHECK ((SELECT session_meets_mfa_requirement()));
+
+-- Only the trigger below writes entries
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM PUBLIC, anon, authenticated;
+
+-- Append-only, also for the service role and the SQL editor
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be changed or deleted';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+CREATE TRIGGER audit_log_no_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- The client sends the admin's reason in the X-Audit-Reason header, base64
+-- encoded because headers only carry Latin-1. PostgREST exposes request
+-- headers to the transaction, so the triggers can read it.
+CREATE OR REPLACE FUNCTION current_audit_reason()
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_header TEXT;
+BEGIN
+  v_header := nullif(current_setting('request.headers', true), '')::json ->> 'x-audit-reason';
+  IF v_header IS NULL OR v_header = '' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN nullif(trim(convert_from(decode(v_header, 'base64'), 'UTF8')), '');
+EXCEPTION
+  WHEN OTHERS THEN
+    -- A malformed reason must not block the change itself
+    RETURN NULL;
+END;
+$$;
+
+-- TG_ARGV[0] names the column holding the user a row belongs to
+CREATE OR REPLACE FUNCTION record_audit_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := auth.uid();
+  v_old JSONB;
+  v_new JSONB;
+  v_before JSONB;
+  v_after JSONB;
+  v_fields TEXT[];
+BEGIN
+  -- Scheduled jobs are not audited
+  IF v_actor IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  -- Nor are users editing their own data, or changes other triggers make on
+  -- their behalf (an application closing a full job post), unless they are
+  -- admins. Owners on the verification page change other users' rows, so
+  -- they are logged.
+  IF NOT has_admin_role(v_actor)
+    AND (pg_trigger_depth() > 1 OR v_actor::TEXT IN (v_old ->> TG_ARGV[0], v_new ->> TG_ARGV[0]))
+  THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key)
+    INTO v_fields
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+    AND n.value IS DISTINCT FROM v_old -> n.key;
+
+    -- Only the timestamp moved
+    IF v_fields IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    SELECT jsonb_object_agg(f, v_old -> f), jsonb_object_agg(f, v_new -> f)
+    INTO v_before, v_after
+    FROM unnest(v_fields) AS f;
+  ELSE
+    v_before := v_old;
+    v_after := v_new;
+    v_fields := ARRAY(SELECT jsonb_object_keys(coalesce(v_new, v_old)) ORDER BY 1);
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_email, action, target_table, target_id, changed_fields, before, after, reason)
+  VALUES (
+    v_actor,
+    (SELECT email FROM auth.users WHERE id = v_actor),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    coalesce(v_new, v_old) ->> 'id',
+    v_fields,
+    v_before,
+    v_after,
+    current_audit_reason()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- The tables the admin and owner pages change, with the column naming the
+-- user each row belongs to
+DO $$
+DECLARE
+  v_table RECORD;
+BEGIN
+  FOR v_table IN
+    SELECT * FROM (VALUES
+      ('profiles', 'id'),
+      ('job_posts', 'employer_id'),
+      ('reports', 'reporter_id'),
+      ('admin_verification_requests', 'user_id'),
+      ('employer_verification_requests', 'employer_id')
+    ) AS t(name, owner_column)
+  LOOP
+    IF to_regclass(format('public.%I', v_table.name)) IS NOT NULL THEN
+      EXECUTE format('DROP TRIGGER IF EXISTS audit_changes ON %I', v_table.name);
+      EXECUTE format(
+        'CREATE TRIGGER audit_changes AFTER INSERT OR UPDATE OR DELETE ON %I '
+        'FOR EACH ROW EXECUTE FUNCTION record_audit_entry(%L)',
+        v_table.name,
+        v_table.owner_column
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,188 @@
+-- File and image attachments in direct messages.
+--
+-- Files go to the private message-attachments bucket under
+-- <conversation_id>/<uploader_id>/. Each one is linked to its message in
+-- message_attachments. Only the two participants can read a file, and the
+-- recipient only after the scan worker (supabase/functions/scan-message-attachments)
+-- has marked it clean.
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS message_type TEXT NOT NULL DEFAULT 'text';
+
+-- Keep in sync with ATTACHMENT_MAX_BYTES and attachmentTypes in
+-- src/services/messageAttachmentService.ts
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,
+  10485760,
+  ARRAY[
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  uploader_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  -- First-page render of a PDF, uploaded next to it by the sender
+  thumbnail_path TEXT,
+  file_name TEXT NOT NULL CHECK (length(file_name) BETWEEN 1 AND 255),
+  mime_type TEXT NOT NULL CHECK (mime_type IN (
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+    'image/png',
+    'image/jpeg',
+    'image/gif',
+    'image/webp'
+  )),
+  size_bytes BIGINT NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  -- pending until the scan worker has checked the file. rejected means its
+  -- contents did not match mime_type; failed means the scanner kept erroring.
+  scan_status TEXT NOT NULL DEFAULT 'pending' CHECK (scan_status IN ('pending', 'clean', 'infected', 'rejected', 'failed')),
+  scan_result TEXT,
+  scan_attempts INT NOT NULL DEFAULT 0,
+  -- Set while a worker run is scanning the file
+  scan_claimed_at TIMESTAMPTZ,
+  scanned_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_attachments_message_id ON message_attachments(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_attachments_pending ON message_attachments(created_at) WHERE scan_status = 'pending';
+
+CREATE OR REPLACE FUNCTION is_conversation_participant(p_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE id = p_conversation_id
+    AND auth.uid() IN (user1_id, user2_id)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION is_conversation_participant(UUID) TO authenticated;
+
+-- RLS: participants read; senders add rows for their own messages and
+-- uploads. Only the scan worker (service role) changes scan_status.
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view attachments"
+ON message_attachments FOR SELECT
+TO authenticated
+USING (is_conversation_participant(conversation_id));
+
+CREATE POLICY "Senders can attach files to their messages"
+ON message_attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+  uploader_id = auth.uid()
+  AND scan_status = 'pending'
+  AND scan_attempts = 0
+  AND scan_claimed_at IS NULL
+  AND storage_path LIKE conversation_id::TEXT || '/' || auth.uid()::TEXT || '/%'
+  AND (thumbnail_path IS NULL OR thumbnail_path LIKE conversation_id::TEXT || '/' || auth.uid()::TEXT || '/%')
+  AND EXISTS (
+    SELECT 1 FROM messages m
+    WHERE m.id = message_id
+    AND m.conversation_id = message_attachments.conversation_id
+    AND m.sender_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Sessions must complete MFA"
+ON message_attachments AS RESTRICTIVE FOR ALL
+TO authenticated
+USING ((SELECT session_meets_mfa_requirement()))
+WITH CHECK ((SELECT session_meets_mfa_requirement()));
+
+-- Storage: uploads only into a conversation the user is in, under their own
+-- folder. The uploader can always read their files; the other participant
+-- only once the file is clean.
+DROP POLICY IF EXISTS "Participants can upload message attachments" ON storage.objects;
+CREATE POLICY "Participants can upload message attachments"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'message-attachments'
+  AND (storage.foldername(name))[2] = auth.uid()::TEXT
+  AND EXISTS (
+    SELECT 1 FROM conversations c
+    WHERE c.id::TEXT = (storage.foldername(name))[1]
+    AND auth.uid() IN (c.user1_id, c.user2_id)
+  )
+);
+
+DROP POLICY IF EXISTS "Participants can read scanned message attachments" ON storage.objects;
+CREATE POLICY "Participants can read scanned message attachments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'message-attachments'
+  AND (
+    owner = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM message_attachments a
+      WHERE name IN (a.storage_path, a.thumbnail_path)
+      AND a.scan_status = 'clean'
+      AND is_conversation_participant(a.conversation_id)
+    )
+  )
+);
+
+-- Lets the client clean up after a send that failed halfway
+DROP POLICY IF EXISTS "Uploaders can delete message attachments" ON storage.objects;
+CREATE POLICY "Uploaders can delete message attachments"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'message-attachments'
+  AND owner = auth.uid()
+);
+
+-- For the scan worker: the oldest pending attachments. A claim lasts five
+-- minutes, so overlapping runs do not scan a file twice and a crashed run's
+-- files are picked up again.
+CREATE OR REPLACE FUNCTION claim_pending_attachments(p_limit INT)
+RETURNS SETOF message_attachments
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE message_attachments
+  SET scan_attempts = scan_attempts + 1,
+      scan_claimed_at = now()
+  WHERE id IN (
+    SELECT id FROM message_attachments
+    WHERE scan_status = 'pending'
+    AND (scan_claimed_at IS NULL OR scan_claimed_at < now() - INTERVAL '5 minutes')
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_pending_attachments(INT) FROM PUBLIC, anon, authenticated;
+
+-- The thread updates when a file is attached and when its scan finishes
+ALTER PUBLICATION supabase_realtime ADD TABLE message_attachments;
@@ -0,0 +1,191 @@
+-- Delivery and read receipts, unread counts and "last seen" for direct
+-- messages.
+--
+-- delivered_at is set when the recipient's app first loads a message, and
+-- read_at when they open the conversation. A recipient who turns off
+-- user_settings.read_receipts still has their messages marked read, so their
+-- own unread counts stay right, but read_at is left empty and the sender only
+-- ever sees "Delivered".
+--
+-- Who is online and who is typing are Realtime presence and broadcast on a
+-- channel per conversation and are not stored. user_presence keeps the last
+-- time each user had the app open, for "last seen".
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+-- Messages read before receipts existed were at least delivered
+UPDATE messages
+SET delivered_at = created_at
+WHERE read
+AND delivered_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+  ON messages (recipient_id, conversation_id)
+  WHERE NOT read;
+
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS read_receipts BOOLEAN NOT NULL DEFAULT TRUE;
+
+CREATE TABLE IF NOT EXISTS user_presence (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only people who share a conversation can see when the other was last
+-- online. Rows are written by touch_last_seen().
+ALTER TABLE user_presence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see when their contacts were last online"
+ON user_presence FOR SELECT
+TO authenticated
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM conversations
+    WHERE (user1_id = auth.uid() AND user2_id = user_presence.user_id)
+    OR (user2_id = auth.uid() AND user1_id = user_presence.user_id)
+  )
+);
+
+CREATE POLICY "Sessions must complete MFA"
+ON user_presence
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT session_meets_mfa_requirement()))
+WITH CHECK ((SELECT session_meets_mfa_requirement()));
+
+-- Called by the app about once a minute while it is open
+CREATE OR REPLACE FUNCTION touch_last_seen()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT session_meets_mfa_requirement() THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO user_presence (user_id, last_seen_at)
+  VALUES (auth.uid(), now())
+  ON CONFLICT (user_id) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+END;
+$$;
+
+-- Marks every message waiting for the caller as delivered. Returns how many
+-- were marked.
+CREATE OR REPLACE FUNCTION mark_messages_delivered()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  UPDATE messages
+  SET delivered_at = now()
+  WHERE recipient_id = auth.uid()
+  AND delivered_at IS NULL;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Marks the caller's unread messages in a conversation as read. read_at is
+-- only set when the caller shares read receipts.
+CREATE OR REPLACE FUNCTION mark_conversation_read(p_conversation_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_share BOOLEAN;
+  v_count INTEGER;
+BEGIN
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT read_receipts INTO v_share
+  FROM user_settings
+  WHERE user_id = auth.uid();
+
+  UPDATE messages
+  SET
+    read = TRUE,
+    delivered_at = COALESCE(delivered_at, now()),
+    read_at = CASE WHEN COALESCE(v_share, TRUE) THEN now() END
+  WHERE conversation_id = p_conversation_id
+  AND recipient_id = auth.uid()
+  AND NOT read;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- The caller's unread messages, counted per conversation
+CREATE OR REPLACE FUNCTION get_unread_message_counts()
+RETURNS TABLE (conversation_id UUID, sender_id UUID, unread_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.conversation_id, m.sender_id, COUNT(*)::INTEGER
+  FROM messages m
+  WHERE m.recipient_id = auth.uid()
+  AND NOT m.read
+  AND session_meets_mfa_requirement()
+  GROUP BY m.conversation_id, m.sender_id;
+$$;
+
+-- Presence and typing go over the private channel "conversation:<id>", which
+-- only the two participants may join or send on
+CREATE POLICY "Participants can listen on conversation channels"
+ON realtime.messages FOR SELECT
+TO authenticated
+USING (
+  realtime.messages.extension IN ('presence', 'broadcast')
+  AND realtime.topic() LIKE 'conversation:%'
+  AND is_conversation_participant(split_part(realtime.topic(), ':', 2)::UUID)
+);
+
+CREATE POLICY "Participants can send on conversation channels"
+ON realtime.messages FOR INSERT
+TO authenticated
+WITH CHECK (
+  realtime.messages.extension IN ('presence', 'broadcast')
+  AND realtime.topic() LIKE 'conversation:%'
+  AND is_conversation_participant(split_part(realtime.topic(), ':', 2)::UUID)
+);
+
+GRANT EXECUTE ON FUNCTION touch_last_seen() TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_messages_delivered() TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_conversation_read(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_unread_message_counts() TO authenticated;
+
+-- Senders see their receipts change live. messages may already have been
+-- added to the publication from the dashboard.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END;
+$$;
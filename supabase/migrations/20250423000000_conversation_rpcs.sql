@@ -0,0 +1,172 @@
+-- One conversation per pair of users, created and written to on the server.
+--
+-- Clients used to look a conversation up and insert one if none was found,
+-- so two clicks (or both users at once) could create two conversations for
+-- the same pair. They also inserted a message and then updated the
+-- conversation summary as two separate writes. get_or_create_conversation()
+-- and send_message() replace both.
+
+-- Pairs that already have more than one conversation keep the oldest. The
+-- others' messages and files move into it.
+CREATE TEMP TABLE conversation_merges ON COMMIT DROP AS
+SELECT id AS duplicate_id, keep_id
+FROM (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER (
+      PARTITION BY LEAST(user1_id, user2_id), GREATEST(user1_id, user2_id)
+      ORDER BY created_at, id
+    ) AS keep_id
+  FROM conversations
+) ranked
+WHERE id <> keep_id;
+
+UPDATE messages m
+SET conversation_id = cm.keep_id
+FROM conversation_merges cm
+WHERE m.conversation_id = cm.duplicate_id;
+
+UPDATE message_attachments a
+SET conversation_id = cm.keep_id
+FROM conversation_merges cm
+WHERE a.conversation_id = cm.duplicate_id;
+
+UPDATE conversations c
+SET
+  last_message = CASE WHEN latest.message_type = 'attachment' THEN '📎 ' || latest.content ELSE latest.content END,
+  last_message_at = latest.created_at
+FROM (
+  SELECT DISTINCT ON (conversation_id) conversation_id, content, message_type, created_at
+  FROM messages
+  WHERE conversation_id IN (SELECT keep_id FROM conversation_merges)
+  ORDER BY conversation_id, created_at DESC
+) latest
+WHERE c.id = latest.conversation_id;
+
+DELETE FROM conversations
+WHERE id IN (SELECT duplicate_id FROM conversation_merges);
+
+-- The pair in either order
+CREATE UNIQUE INDEX IF NOT EXISTS conversations_user_pair_key
+  ON conversations (LEAST(user1_id, user2_id), GREATEST(user1_id, user2_id));
+
+-- The caller's conversation with another user, created if there is none yet
+CREATE OR REPLACE FUNCTION get_or_create_conversation(p_other_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  IF p_other_user_id IS NULL OR p_other_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot start a conversation with yourself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_other_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  INSERT INTO conversations (user1_id, user2_id)
+  VALUES (auth.uid(), p_other_user_id)
+  ON CONFLICT ((LEAST(user1_id, user2_id)), (GREATEST(user1_id, user2_id))) DO NOTHING
+  RETURNING id INTO v_conversation_id;
+
+  IF v_conversation_id IS NULL THEN
+    SELECT id INTO v_conversation_id
+    FROM conversations
+    WHERE LEAST(user1_id, user2_id) = LEAST(auth.uid(), p_other_user_id)
+    AND GREATEST(user1_id, user2_id) = GREATEST(auth.uid(), p_other_user_id);
+  END IF;
+
+  RETURN v_conversation_id;
+END;
+$$;
+
+-- Sends a message from the caller and updates the conversation summary in
+-- the same transaction. Attachments are sent as an 'attachment' message and
+-- their file rows added afterwards (see messageAttachmentService).
+CREATE OR REPLACE FUNCTION send_message(
+  p_conversation_id UUID,
+  p_content TEXT,
+  p_message_type TEXT DEFAULT 'text'
+)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation conversations%ROWTYPE;
+  v_content TEXT := btrim(COALESCE(p_content, ''));
+  v_message messages%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  IF p_message_type NOT IN ('text', 'attachment') THEN
+    RAISE EXCEPTION 'Unknown message type %', p_message_type;
+  END IF;
+
+  IF v_content = '' THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  -- Locks the conversation so concurrent sends update the summary in order
+  SELECT * INTO v_conversation
+  FROM conversations
+  WHERE id = p_conversation_id
+  AND auth.uid() IN (user1_id, user2_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, recipient_id, content, message_type, read)
+  VALUES (
+    p_conversation_id,
+    auth.uid(),
+    CASE WHEN v_conversation.user1_id = auth.uid() THEN v_conversation.user2_id ELSE v_conversation.user1_id END,
+    v_content,
+    p_message_type,
+    FALSE
+  )
+  RETURNING * INTO v_message;
+
+  UPDATE conversations
+  SET
+    last_message = CASE WHEN p_message_type = 'attachment' THEN '📎 ' || v_content ELSE v_content END,
+    last_message_at = v_message.created_at
+  WHERE id = p_conversation_id;
+
+  RETURN v_message;
+END;
+$$;
+
+-- Conversations and messages are only written through the functions above
+-- and the receipt functions in 20250422000000_message_receipts_and_presence.sql.
+-- Without the UPDATE policies, clients can no longer rewrite a conversation's
+-- participants or summary, edit a delivered message, or forge read receipts.
+DROP POLICY IF EXISTS "Users can create conversations" ON conversations;
+DROP POLICY IF EXISTS "Users can update their own conversations" ON conversations;
+DROP POLICY IF EXISTS "Users can create messages in their conversations" ON messages;
+DROP POLICY IF EXISTS "Users can update their own messages" ON messages;
+DROP POLICY IF EXISTS "Users can update messages they received" ON messages;
+
+GRANT EXECUTE ON FUNCTION get_or_create_conversation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_message(UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,424 @@
+-- Organizing conversations: pinning, muting, archiving and blocking, plus
+-- paged conversation lists and full-text search over the user's messages.
+--
+-- Pins, mutes and archives are per user and per conversation, in
+-- conversation_preferences. Blocks are per pair of users, in user_blocks, and
+-- stop messages in both directions.
+
+CREATE TABLE IF NOT EXISTS conversation_preferences (
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pinned_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ,
+  -- Muted conversations do not notify or email
+  muted BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked_id ON user_blocks(blocked_id);
+
+CREATE TRIGGER update_conversation_preferences_updated_at
+  BEFORE UPDATE ON conversation_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Each user manages their own preferences and blocks. The blocked user does
+-- not see the block.
+ALTER TABLE conversation_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their conversation preferences"
+ON conversation_preferences FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can set preferences on their conversations"
+ON conversation_preferences FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid() AND is_conversation_participant(conversation_id));
+
+CREATE POLICY "Users can update their conversation preferences"
+ON conversation_preferences FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view their blocks"
+ON user_blocks FOR SELECT
+TO authenticated
+USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can block other users"
+ON user_blocks FOR INSERT
+TO authenticated
+WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock users"
+ON user_blocks FOR DELETE
+TO authenticated
+USING (blocker_id = auth.uid());
+
+CREATE POLICY "Sessions must complete MFA"
+ON conversation_preferences
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT session_meets_mfa_requirement()))
+WITH CHECK ((SELECT session_meets_mfa_requirement()));
+
+CREATE POLICY "Sessions must complete MFA"
+ON user_blocks
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT session_meets_mfa_requirement()))
+WITH CHECK ((SELECT session_meets_mfa_requirement()));
+
+-- True when either user has blocked the other
+CREATE OR REPLACE FUNCTION users_blocked(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = p_user_a AND blocked_id = p_user_b)
+    OR (blocker_id = p_user_b AND blocked_id = p_user_a)
+  );
+$$;
+
+-- Full-text search over message text. 'simple' keeps every word, since
+-- messages are not all in English.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (to_tsvector('simple', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector ON messages USING GIN (search_vector);
+
+-- Paging back through a conversation
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at ON messages (conversation_id, created_at DESC);
+
+-- Blocked pairs cannot message each other. A new message brings the
+-- conversation out of the archive for the sender, and for the recipient
+-- unless they muted it.
+CREATE OR REPLACE FUNCTION send_message(
+  p_conversation_id UUID,
+  p_content TEXT,
+  p_message_type TEXT DEFAULT 'text'
+)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation conversations%ROWTYPE;
+  v_recipient_id UUID;
+  v_content TEXT := btrim(COALESCE(p_content, ''));
+  v_message messages%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  IF p_message_type NOT IN ('text', 'attachment') THEN
+    RAISE EXCEPTION 'Unknown message type %', p_message_type;
+  END IF;
+
+  IF v_content = '' THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  -- Locks the conversation so concurrent sends update the summary in order
+  SELECT * INTO v_conversation
+  FROM conversations
+  WHERE id = p_conversation_id
+  AND auth.uid() IN (user1_id, user2_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  v_recipient_id := CASE WHEN v_conversation.user1_id = auth.uid() THEN v_conversation.user2_id ELSE v_conversation.user1_id END;
+
+  IF users_blocked(auth.uid(), v_recipient_id) THEN
+    RAISE EXCEPTION 'You can no longer message this person';
+  END IF;
+
+  INSERT INTO messages (conversation_id, sender_id, recipient_id, content, message_type, read)
+  VALUES (p_conversation_id, auth.uid(), v_recipient_id, v_content, p_message_type, FALSE)
+  RETURNING * INTO v_message;
+
+  UPDATE conversations
+  SET
+    last_message = CASE WHEN p_message_type = 'attachment' THEN '📎 ' || v_content ELSE v_content END,
+    last_message_at = v_message.created_at
+  WHERE id = p_conversation_id;
+
+  UPDATE conversation_preferences
+  SET archived_at = NULL
+  WHERE conversation_id = p_conversation_id
+  AND archived_at IS NOT NULL
+  AND (user_id = auth.uid() OR NOT muted);
+
+  RETURN v_message;
+END;
+$$;
+
+-- Muted conversations no longer notify (and so no longer email)
+CREATE OR REPLACE FUNCTION notify_message_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id UUID;
+  v_sender_name TEXT;
+  v_metadata JSONB;
+  v_message TEXT;
+BEGIN
+  v_recipient_id := coalesce(NEW.recipient_id, (
+    SELECT CASE WHEN user1_id = NEW.sender_id THEN user2_id ELSE user1_id END
+    FROM conversations
+    WHERE id = NEW.conversation_id
+  ));
+
+  IF v_recipient_id IS NULL OR v_recipient_id = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM conversation_preferences
+    WHERE conversation_id = NEW.conversation_id
+    AND user_id = v_recipient_id
+    AND muted
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE id = NEW.sender_id;
+  v_sender_name := coalesce(v_sender_name, 'Someone');
+  v_message := format('New message from %s', v_sender_name);
+  v_metadata := jsonb_build_object(
+    'conversation_id', NEW.conversation_id,
+    'message_id', NEW.id,
+    'sender_id', NEW.sender_id,
+    'sender_name', v_sender_name,
+    'preview', left(coalesce(NEW.content, ''), 200)
+  );
+
+  UPDATE notifications
+  SET message = v_message,
+      metadata = v_metadata,
+      created_at = now()
+  WHERE user_id = v_recipient_id
+  AND type = 'message_received'
+  AND read = false
+  AND metadata->>'conversation_id' = NEW.conversation_id::TEXT;
+
+  IF NOT FOUND THEN
+    PERFORM notify(v_recipient_id, 'message_received', 'New Message', v_message, v_metadata);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- One page of the caller's conversations, pinned first and then by latest
+-- message, with the other participant and the caller's preferences. With
+-- p_conversation_id, just that conversation, archived or not.
+CREATE OR REPLACE FUNCTION list_conversations(
+  p_archived BOOLEAN DEFAULT FALSE,
+  p_limit INT DEFAULT 30,
+  p_offset INT DEFAULT 0,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user1_id UUID,
+  user2_id UUID,
+  last_message TEXT,
+  last_message_at TIMESTAMPTZ,
+  other_user_id UUID,
+  other_user_name TEXT,
+  other_user_avatar_url TEXT,
+  pinned_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ,
+  muted BOOLEAN,
+  blocked BOOLEAN,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.user1_id,
+    c.user2_id,
+    c.last_message,
+    c.last_message_at,
+    other.id,
+    other.full_name,
+    other.avatar_url,
+    pref.pinned_at,
+    pref.archived_at,
+    COALESCE(pref.muted, FALSE),
+    EXISTS (
+      SELECT 1 FROM user_blocks b
+      WHERE b.blocker_id = auth.uid()
+      AND b.blocked_id = other.id
+    ),
+    (
+      SELECT COUNT(*)::INTEGER FROM messages m
+      WHERE m.conversation_id = c.id
+      AND m.recipient_id = auth.uid()
+      AND NOT m.read
+    )
+  FROM conversations c
+  LEFT JOIN profiles other
+    ON other.id = CASE WHEN c.user1_id = auth.uid() THEN c.user2_id ELSE c.user1_id END
+  LEFT JOIN conversation_preferences pref
+    ON pref.conversation_id = c.id
+    AND pref.user_id = auth.uid()
+  WHERE auth.uid() IN (c.user1_id, c.user2_id)
+  AND (
+    c.id = p_conversation_id
+    OR (p_conversation_id IS NULL AND (pref.archived_at IS NOT NULL) = p_archived)
+  )
+  AND session_meets_mfa_requirement()
+  ORDER BY pref.pinned_at IS NULL, pref.pinned_at DESC, c.last_message_at DESC NULLS LAST, c.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- The caller's messages matching a search, newest first. Accepts the usual
+-- web search syntax: quoted phrases, OR, and -word to exclude.
+CREATE OR REPLACE FUNCTION search_messages(p_query TEXT, p_limit INT DEFAULT 50)
+RETURNS TABLE (
+  id UUID,
+  conversation_id UUID,
+  sender_id UUID,
+  content TEXT,
+  created_at TIMESTAMPTZ,
+  other_user_id UUID,
+  other_user_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.content,
+    m.created_at,
+    other.id,
+    other.full_name
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  LEFT JOIN profiles other
+    ON other.id = CASE WHEN c.user1_id = auth.uid() THEN c.user2_id ELSE c.user1_id END
+  WHERE auth.uid() IN (c.user1_id, c.user2_id)
+  AND m.search_vector @@ websearch_to_tsquery('simple', p_query)
+  AND session_meets_mfa_requirement()
+  ORDER BY m.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- Blocked pairs cannot open a conversation either
+CREATE OR REPLACE FUNCTION get_or_create_conversation(p_other_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  IF p_other_user_id IS NULL OR p_other_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot start a conversation with yourself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_other_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF users_blocked(auth.uid(), p_other_user_id) THEN
+    RAISE EXCEPTION 'You cannot message this user';
+  END IF;
+
+  INSERT INTO conversations (user1_id, user2_id)
+  VALUES (auth.uid(), p_other_user_id)
+  ON CONFLICT ((LEAST(user1_id, user2_id)), (GREATEST(user1_id, user2_id))) DO NOTHING
+  RETURNING id INTO v_conversation_id;
+
+  IF v_conversation_id IS NULL THEN
+    SELECT id INTO v_conversation_id
+    FROM conversations
+    WHERE LEAST(user1_id, user2_id) = LEAST(auth.uid(), p_other_user_id)
+    AND GREATEST(user1_id, user2_id) = GREATEST(auth.uid(), p_other_user_id);
+  END IF;
+
+  RETURN v_conversation_id;
+END;
+$$;
+
+-- Muted conversations, and conversations with a block either way, do not
+-- count towards the caller's unread badges
+CREATE OR REPLACE FUNCTION get_unread_message_counts()
+RETURNS TABLE (conversation_id UUID, sender_id UUID, unread_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.conversation_id, m.sender_id, COUNT(*)::INTEGER
+  FROM messages m
+  JOIN conversations c ON c.id = m.conversation_id
+  WHERE m.recipient_id = auth.uid()
+  AND NOT m.read
+  AND session_meets_mfa_requirement()
+  AND NOT EXISTS (
+    SELECT 1 FROM conversation_preferences pref
+    WHERE pref.conversation_id = m.conversation_id
+    AND pref.user_id = auth.uid()
+    AND pref.muted
+  )
+  AND NOT users_blocked(c.user1_id, c.user2_id)
+  GROUP BY m.conversation_id, m.sender_id;
+$$;
+
+-- Only used inside the functions above; callers may not probe who blocked whom
+REVOKE EXECUTE ON FUNCTION users_blocked(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION list_conversations(BOOLEAN, INT, INT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_messages(TEXT, INT) TO authenticated;
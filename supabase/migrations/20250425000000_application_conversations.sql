@@ -0,0 +1,351 @@
+-- Conversations scoped to a job application.
+--
+-- An employer talking to the same freelancer about several jobs used to get
+-- one mixed thread per pair. A conversation can now belong to an application:
+-- each application has at most one thread, separate from the pair's general
+-- conversation, and stage and status changes are posted into it as system
+-- messages. System messages have no sender.
+
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS job_application_id UUID REFERENCES job_applications(id) ON DELETE CASCADE;
+
+ALTER TABLE messages ALTER COLUMN sender_id DROP NOT NULL;
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_sender_id_check;
+ALTER TABLE messages
+  ADD CONSTRAINT messages_sender_id_check CHECK (sender_id IS NOT NULL OR message_type = 'system');
+
+-- One general conversation per pair, and one thread per application
+DROP INDEX IF EXISTS conversations_user_pair_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS conversations_user_pair_key
+  ON conversations (LEAST(user1_id, user2_id), GREATEST(user1_id, user2_id))
+  WHERE job_application_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS conversations_job_application_id_key
+  ON conversations (job_application_id)
+  WHERE job_application_id IS NOT NULL;
+
+-- The caller's general conversation with another user, created if there is
+-- none yet. Application threads are opened with the function below.
+CREATE OR REPLACE FUNCTION get_or_create_conversation(p_other_user_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  IF p_other_user_id IS NULL OR p_other_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot start a conversation with yourself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_other_user_id) THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF users_blocked(auth.uid(), p_other_user_id) THEN
+    RAISE EXCEPTION 'You cannot message this user';
+  END IF;
+
+  INSERT INTO conversations (user1_id, user2_id)
+  VALUES (auth.uid(), p_other_user_id)
+  ON CONFLICT ((LEAST(user1_id, user2_id)), (GREATEST(user1_id, user2_id))) WHERE job_application_id IS NULL
+  DO NOTHING
+  RETURNING id INTO v_conversation_id;
+
+  IF v_conversation_id IS NULL THEN
+    SELECT id INTO v_conversation_id
+    FROM conversations
+    WHERE LEAST(user1_id, user2_id) = LEAST(auth.uid(), p_other_user_id)
+    AND GREATEST(user1_id, user2_id) = GREATEST(auth.uid(), p_other_user_id)
+    AND job_application_id IS NULL;
+  END IF;
+
+  RETURN v_conversation_id;
+END;
+$$;
+
+-- The thread for an application, between the job's employer and the
+-- applicant. Either of them can open it, unless one has blocked the other.
+CREATE OR REPLACE FUNCTION get_or_create_application_conversation(p_application_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job_seeker_id UUID;
+  v_employer_id UUID;
+  v_conversation_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_meets_mfa_requirement() THEN
+    RAISE EXCEPTION 'Verify your authenticator code first';
+  END IF;
+
+  SELECT ja.job_seeker_id, jp.employer_id INTO v_job_seeker_id, v_employer_id
+  FROM job_applications ja
+  JOIN job_posts jp ON jp.id = ja.job_post_id
+  WHERE ja.id = p_application_id;
+
+  IF NOT FOUND OR auth.uid() NOT IN (v_job_seeker_id, v_employer_id) THEN
+    RAISE EXCEPTION 'Application not found';
+  END IF;
+
+  IF v_job_seeker_id = v_employer_id THEN
+    RAISE EXCEPTION 'You cannot start a conversation with yourself';
+  END IF;
+
+  IF users_blocked(v_job_seeker_id, v_employer_id) THEN
+    RAISE EXCEPTION 'You cannot message this user';
+  END IF;
+
+  INSERT INTO conversations (user1_id, user2_id, job_application_id)
+  VALUES (v_employer_id, v_job_seeker_id, p_application_id)
+  ON CONFLICT (job_application_id) WHERE job_application_id IS NOT NULL
+  DO NOTHING
+  RETURNING id INTO v_conversation_id;
+
+  IF v_conversation_id IS NULL THEN
+    SELECT id INTO v_conversation_id
+    FROM conversations
+    WHERE job_application_id = p_application_id;
+  END IF;
+
+  RETURN v_conversation_id;
+END;
+$$;
+
+-- Posts stage and status changes into the application's thread, opening it
+-- on the first change. System messages have no sender; they are addressed to
+-- the applicant, so they count as unread for them like any other message.
+CREATE OR REPLACE FUNCTION post_application_status_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_employer_id UUID;
+  v_conversation conversations%ROWTYPE;
+  v_stage_name TEXT;
+  v_content TEXT;
+  v_message messages%ROWTYPE;
+BEGIN
+  IF NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT employer_id INTO v_employer_id FROM job_posts WHERE id = NEW.job_post_id;
+
+  IF v_employer_id IS NULL OR v_employer_id = NEW.job_seeker_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO conversations (user1_id, user2_id, job_application_id)
+  VALUES (v_employer_id, NEW.job_seeker_id, NEW.id)
+  ON CONFLICT (job_application_id) WHERE job_application_id IS NOT NULL
+  DO NOTHING;
+
+  SELECT * INTO v_conversation
+  FROM conversations
+  WHERE job_application_id = NEW.id
+  FOR UPDATE;
+
+  SELECT name INTO v_stage_name FROM pipeline_stages WHERE id = NEW.stage_id;
+
+  v_content := CASE
+    WHEN v_stage_name IS NULL OR NEW.stage_id IS NOT DISTINCT FROM OLD.stage_id THEN
+      format('Application status changed to %s', NEW.status)
+    ELSE
+      format('Application moved to "%s"', v_stage_name)
+  END;
+
+  INSERT INTO messages (conversation_id, sender_id, recipient_id, content, message_type, read)
+  VALUES (
+    v_conversation.id,
+    NULL,
+    NEW.job_seeker_id,
+    v_content,
+    'system',
+    FALSE
+  )
+  RETURNING * INTO v_message;
+
+  UPDATE conversations
+  SET
+    last_message = v_content,
+    last_message_at = v_message.created_at
+  WHERE id = v_conversation.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS post_application_status_message ON job_applications;
+
+CREATE TRIGGER post_application_status_message
+  AFTER UPDATE OF status, stage_id ON job_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION post_application_status_message();
+
+-- System messages are already announced by notify_application_status_changed()
+CREATE OR REPLACE FUNCTION notify_message_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recipient_id UUID;
+  v_sender_name TEXT;
+  v_metadata JSONB;
+  v_message TEXT;
+BEGIN
+  IF NEW.message_type = 'system' THEN
+    RETURN NEW;
+  END IF;
+
+  v_recipient_id := coalesce(NEW.recipient_id, (
+    SELECT CASE WHEN user1_id = NEW.sender_id THEN user2_id ELSE user1_id END
+    FROM conversations
+    WHERE id = NEW.conversation_id
+  ));
+
+  IF v_recipient_id IS NULL OR v_recipient_id = NEW.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM conversation_preferences
+    WHERE conversation_id = NEW.conversation_id
+    AND user_id = v_recipient_id
+    AND muted
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT full_name INTO v_sender_name FROM profiles WHERE id = NEW.sender_id;
+  v_sender_name := coalesce(v_sender_name, 'Someone');
+  v_message := format('New message from %s', v_sender_name);
+  v_metadata := jsonb_build_object(
+    'conversation_id', NEW.conversation_id,
+    'message_id', NEW.id,
+    'sender_id', NEW.sender_id,
+    'sender_name', v_sender_name,
+    'preview', left(coalesce(NEW.content, ''), 200)
+  );
+
+  UPDATE notifications
+  SET message = v_message,
+      metadata = v_metadata,
+      created_at = now()
+  WHERE user_id = v_recipient_id
+  AND type = 'message_received'
+  AND read = false
+  AND metadata->>'conversation_id' = NEW.conversation_id::TEXT;
+
+  IF NOT FOUND THEN
+    PERFORM notify(v_recipient_id, 'message_received', 'New Message', v_message, v_metadata);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Adds the application's job title, status and stage to each row. The
+-- return type changes, so the function is dropped and created again.
+DROP FUNCTION IF EXISTS list_conversations(BOOLEAN, INT, INT, UUID);
+
+CREATE FUNCTION list_conversations(
+  p_archived BOOLEAN DEFAULT FALSE,
+  p_limit INT DEFAULT 30,
+  p_offset INT DEFAULT 0,
+  p_conversation_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  user1_id UUID,
+  user2_id UUID,
+  last_message TEXT,
+  last_message_at TIMESTAMPTZ,
+  other_user_id UUID,
+  other_user_name TEXT,
+  other_user_avatar_url TEXT,
+  pinned_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ,
+  muted BOOLEAN,
+  blocked BOOLEAN,
+  unread_count INTEGER,
+  job_application_id UUID,
+  job_title TEXT,
+  application_status TEXT,
+  application_stage_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.user1_id,
+    c.user2_id,
+    c.last_message,
+    c.last_message_at,
+    other.id,
+    other.full_name,
+    other.avatar_url,
+    pref.pinned_at,
+    pref.archived_at,
+    COALESCE(pref.muted, FALSE),
+    EXISTS (
+      SELECT 1 FROM user_blocks b
+      WHERE b.blocker_id = auth.uid()
+      AND b.blocked_id = other.id
+    ),
+    (
+      SELECT COUNT(*)::INTEGER FROM messages m
+      WHERE m.conversation_id = c.id
+      AND m.recipient_id = auth.uid()
+      AND NOT m.read
+    ),
+    c.job_application_id,
+    jp.title,
+    ja.status,
+    ps.name
+  FROM conversations c
+  LEFT JOIN profiles other
+    ON other.id = CASE WHEN c.user1_id = auth.uid() THEN c.user2_id ELSE c.user1_id END
+  LEFT JOIN conversation_preferences pref
+    ON pref.conversation_id = c.id
+    AND pref.user_id = auth.uid()
+  LEFT JOIN job_applications ja ON ja.id = c.job_application_id
+  LEFT JOIN job_posts jp ON jp.id = ja.job_post_id
+  LEFT JOIN pipeline_stages ps ON ps.id = ja.stage_id
+  WHERE auth.uid() IN (c.user1_id, c.user2_id)
+  AND (
+    c.id = p_conversation_id
+    OR (p_conversation_id IS NULL AND (pref.archived_at IS NOT NULL) = p_archived)
+  )
+  AND session_meets_mfa_requirement()
+  ORDER BY pref.pinned_at IS NULL, pref.pinned_at DESC, c.last_message_at DESC NULLS LAST, c.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_or_create_application_conversation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_conversations(BOOLEAN, INT, INT, UUID) TO authenticated;